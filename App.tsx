@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, StyleSheet, TouchableOpacity, Alert, AppState } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import { HomeScreen } from './src/screens/HomeScreen';
 import { SleepLogScreen } from './src/screens/SleepLogScreen';
@@ -8,27 +8,103 @@ import { ScheduleScreen } from './src/screens/ScheduleScreen';
 import { TimelineScreen } from './src/screens/TimelineScreen';
 import { NotificationLogScreen } from './src/screens/NotificationLogScreen';
 import { CoachScreen } from './src/screens/CoachScreen';
+import { ProfileScreen } from './src/screens/ProfileScreen';
+import { RecoveryScreen } from './src/screens/RecoveryScreen';
+import { BackupScreen } from './src/screens/BackupScreen';
+import { ImportScreen } from './src/screens/ImportScreen';
+import { SyncScreen } from './src/screens/SyncScreen';
+import { CaregiversScreen } from './src/screens/CaregiversScreen';
+import { ReportScreen } from './src/screens/ReportScreen';
+import { DataHealthScreen } from './src/screens/DataHealthScreen';
+import { TrashScreen } from './src/screens/TrashScreen';
 import { coddleTheme } from './src/theme/coddleTheme';
 import { CText } from './src/components/ui/CText';
-import { markNotificationAsSent } from './src/services/notifications';
+import { markNotificationAsSent, getNotificationBabyId } from './src/services/notifications';
 import { useSleepSessionsStore } from './src/stores/sleepSessionsStore';
 import { useLearnerStore } from './src/stores/learnerStore';
 import { useNotificationStore } from './src/stores/notificationStore';
+import { useProfileStore } from './src/stores/profileStore';
+import { useRecoveryStore } from './src/stores/recoveryStore';
+import { useSyncStore } from './src/stores/syncStore';
+import { useCaregiverStore } from './src/stores/caregiverStore';
+import { useFeedingStore } from './src/stores/feedingStore';
+import { useDisruptionStore } from './src/stores/disruptionStore';
 import { ErrorBoundary } from './src/components/common/ErrorBoundary';
+import { LoadingSpinner } from './src/components/common/LoadingSpinner';
+import { ChildSwitcher } from './src/components/common/ChildSwitcher';
+import { Snackbar } from './src/components/common/Snackbar';
+import { initializeStorage } from './src/storage/setup';
 
-type Screen = 'home' | 'sleepLog' | 'schedule' | 'timeline' | 'notificationLog' | 'coach';
+type Screen =
+  | 'home'
+  | 'sleepLog'
+  | 'schedule'
+  | 'timeline'
+  | 'notificationLog'
+  | 'coach'
+  | 'profile'
+  | 'addChild'
+  | 'recovery'
+  | 'backup'
+  | 'import'
+  | 'sync'
+  | 'caregivers'
+  | 'report'
+  | 'dataHealth'
+  | 'trash';
 
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
   const [timelineHighlightIds, setTimelineHighlightIds] = useState<string[]>([]);
+  const profile = useProfileStore((state) => state.profile);
+  const profiles = useProfileStore((state) => state.profiles);
+  const activeProfileId = useProfileStore((state) => state.activeProfileId);
+  const hasLoadedProfile = useProfileStore((state) => state.hasLoaded);
+  const selectProfile = useProfileStore((state) => state.selectProfile);
+  const quarantinedCount = useRecoveryStore((state) => state.entries.length);
+  const lastSessionAction = useSleepSessionsStore((state) => state.lastAction);
+  const undoSessionChange = useSleepSessionsStore((state) => state.undo);
+  const redoSessionChange = useSleepSessionsStore((state) => state.redo);
+  const dismissSessionAction = useSleepSessionsStore((state) => state.dismissLastAction);
 
  
   useEffect(() => {
-    useSleepSessionsStore.getState().loadSessions();
-    useLearnerStore.getState().loadLearnerState();
-    useNotificationStore.getState().loadHistory();
+    // Storage backend is chosen first; child-scoped stores read the active profile id, so profiles load next
+    const loadInitialData = async () => {
+      await initializeStorage();
+      await useProfileStore.getState().loadProfiles();
+
+      const { migrationReport } = useProfileStore.getState();
+      if (migrationReport && !migrationReport.success) {
+        Alert.alert(
+          'Data Upgrade Failed',
+          `Your sleep history was kept in its previous format. ${migrationReport.error ?? ''}`.trim()
+        );
+      }
+
+      useSleepSessionsStore.getState().loadSessions();
+      useLearnerStore.getState().loadLearnerState();
+      useNotificationStore.getState().loadHistory();
+      useFeedingStore.getState().loadFeedings();
+      useDisruptionStore.getState().loadDisruptions();
+      useCaregiverStore.getState().loadCaregivers();
+
+      await useSyncStore.getState().loadConfig();
+      useSyncStore.getState().syncNow();
+    };
+    loadInitialData();
   }, []); 
 
+  // Pick up the other caregivers' logs whenever the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        useSyncStore.getState().syncNow();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   // Set up notification handler on app start
   useEffect(() => {
     // Configure notification behavior
@@ -44,8 +120,10 @@ export default function App() {
 
   
     const subscription = Notifications.addNotificationReceivedListener(async (notification) => {
-     
-      await markNotificationAsSent(notification.request.identifier);
+      const babyId = getNotificationBabyId(notification.request);
+      if (babyId) {
+        await markNotificationAsSent(notification.request.identifier, babyId);
+      }
     });
 
     return () => {
@@ -61,14 +139,79 @@ export default function App() {
   };
   const navigateToNotificationLog = () => setCurrentScreen('notificationLog');
   const navigateToCoach = () => setCurrentScreen('coach');
+  const navigateToProfile = () => setCurrentScreen('profile');
+  const navigateToAddChild = () => setCurrentScreen('addChild');
+  const navigateToRecovery = () => setCurrentScreen('recovery');
+  const navigateToBackup = () => setCurrentScreen('backup');
+  const navigateToImport = () => setCurrentScreen('import');
+  const navigateToSync = () => setCurrentScreen('sync');
+  const navigateToCaregivers = () => setCurrentScreen('caregivers');
+  const navigateToReport = () => setCurrentScreen('report');
+  const navigateToDataHealth = () => setCurrentScreen('dataHealth');
+  const navigateToTrash = () => setCurrentScreen('trash');
   const navigateToHome = () => {
     setCurrentScreen('home');
     setTimelineHighlightIds([]);
   };
 
+  if (!hasLoadedProfile) {
+    return (
+      <View style={styles.container}>
+        <LoadingSpinner message="Loading..." />
+      </View>
+    );
+  }
+
+  // First launch: a real profile is required before any schedule is generated
+  if (!profile) {
+    return (
+      <ErrorBoundary>
+        <View style={styles.container}>
+          {currentScreen === 'backup' ? (
+            <>
+              <View style={[styles.backHeader, styles.onboardingHeader]}>
+                <TouchableOpacity onPress={navigateToHome} style={styles.backButton}>
+                  <CText variant="body" style={styles.backText}>
+                    ← Back
+                  </CText>
+                </TouchableOpacity>
+              </View>
+              <BackupScreen />
+            </>
+          ) : (
+            <>
+              <ProfileScreen onSaved={navigateToHome} />
+              <TouchableOpacity onPress={navigateToBackup} style={styles.restoreLink}>
+                <CText variant="body" style={styles.backText}>
+                  Switching phones? Restore from a backup
+                </CText>
+              </TouchableOpacity>
+            </>
+          )}
+          <StatusBar style="dark" />
+        </View>
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <View style={styles.container}>
+        <View style={styles.childHeader}>
+          <ChildSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            onSelect={selectProfile}
+            onAddChild={navigateToAddChild}
+          />
+          {quarantinedCount > 0 && currentScreen !== 'recovery' && (
+            <TouchableOpacity onPress={navigateToRecovery} style={styles.recoveryBanner}>
+              <CText variant="bodySmall" style={styles.recoveryText}>
+                ⚠️ Some saved data could not be read. Tap to review.
+              </CText>
+            </TouchableOpacity>
+          )}
+        </View>
         {currentScreen === 'home' ? (
           <ErrorBoundary>
             <HomeScreen 
@@ -77,6 +220,12 @@ export default function App() {
               onNavigateToTimeline={navigateToTimeline}
               onNavigateToNotificationLog={navigateToNotificationLog}
               onNavigateToCoach={navigateToCoach}
+              onNavigateToProfile={navigateToProfile}
+              onNavigateToBackup={navigateToBackup}
+              onNavigateToSync={navigateToSync}
+              onNavigateToCaregivers={navigateToCaregivers}
+              onNavigateToReport={navigateToReport}
+              babyName={profile.name}
             />
           </ErrorBoundary>
         ) : (
@@ -90,19 +239,56 @@ export default function App() {
             </View>
             <ErrorBoundary>
               {currentScreen === 'sleepLog' ? (
-                <SleepLogScreen />
+                <SleepLogScreen
+                  onNavigateToDataHealth={navigateToDataHealth}
+                  onNavigateToTrash={navigateToTrash}
+                />
               ) : currentScreen === 'schedule' ? (
                 <ScheduleScreen />
               ) : currentScreen === 'timeline' ? (
                 <TimelineScreen highlightSessionIds={timelineHighlightIds} />
               ) : currentScreen === 'coach' ? (
                 <CoachScreen onNavigateToTimeline={navigateToTimeline} />
+              ) : currentScreen === 'profile' ? (
+                <ProfileScreen
+                  key={profile.id}
+                  profileId={profile.id}
+                  onSaved={navigateToHome}
+                  onDeleted={navigateToHome}
+                />
+              ) : currentScreen === 'addChild' ? (
+                <ProfileScreen onSaved={navigateToHome} />
+              ) : currentScreen === 'recovery' ? (
+                <RecoveryScreen />
+              ) : currentScreen === 'backup' ? (
+                <BackupScreen onNavigateToImport={navigateToImport} />
+              ) : currentScreen === 'import' ? (
+                <ImportScreen onDone={navigateToSleepLog} />
+              ) : currentScreen === 'sync' ? (
+                <SyncScreen />
+              ) : currentScreen === 'caregivers' ? (
+                <CaregiversScreen />
+              ) : currentScreen === 'report' ? (
+                <ReportScreen />
+              ) : currentScreen === 'dataHealth' ? (
+                <DataHealthScreen />
+              ) : currentScreen === 'trash' ? (
+                <TrashScreen />
               ) : (
                 <NotificationLogScreen />
               )}
             </ErrorBoundary>
           </>
         )}
+        {lastSessionAction && (
+          <Snackbar
+            key={`${lastSessionAction.id}_${lastSessionAction.kind}`}
+            message={lastSessionAction.message}
+            actionLabel={lastSessionAction.kind === 'undo' ? 'Redo' : 'Undo'}
+            onAction={lastSessionAction.kind === 'undo' ? redoSessionChange : undoSessionChange}
+            onDismiss={dismissSessionAction}
+          />
+        )}
         <StatusBar style="dark" />
       </View>
     </ErrorBoundary>
@@ -113,15 +299,37 @@ const styles = StyleSheet.create({
     flex: 1,
 
   },
+  childHeader: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    marginTop: coddleTheme.spacing(7),
+    backgroundColor: coddleTheme.colors.background,
+  },
+  recoveryBanner: {
+    backgroundColor: coddleTheme.colors.warning,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(2),
+  },
+  recoveryText: {
+    color: coddleTheme.colors.textPrimary,
+    fontWeight: '600',
+  },
   backHeader: {
  
     paddingHorizontal: coddleTheme.spacing(4),
-    paddingTop: coddleTheme.spacing(3),
+    paddingTop: coddleTheme.spacing(2),
     paddingBottom: coddleTheme.spacing(2),
     borderBottomWidth: 1,
     borderBottomColor: coddleTheme.colors.border,
+  },
+  onboardingHeader: {
     marginTop: coddleTheme.spacing(7),
   },
+  restoreLink: {
+    alignItems: 'center',
+    paddingVertical: coddleTheme.spacing(4),
+    backgroundColor: coddleTheme.colors.background,
+  },
   backButton: {
     paddingVertical: coddleTheme.spacing(1),
   },
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { CText } from '../ui/CText';
+import { Caregiver } from '../../types';
+import { UNATTRIBUTED_FILTER } from '../../services/caregivers';
+import { coddleTheme } from '../../theme/coddleTheme';
+
+interface CaregiverFilterProps {
+  caregivers: Caregiver[];
+  // null = everyone, UNATTRIBUTED_FILTER = sessions nobody is credited with
+  selectedId: string | null;
+  onSelect: (caregiverId: string | null) => void;
+}
+
+export const CaregiverFilter: React.FC<CaregiverFilterProps> = ({
+  caregivers,
+  selectedId,
+  onSelect,
+}) => {
+  const options: { id: string | null; label: string }[] = [
+    { id: null, label: 'Everyone' },
+    ...caregivers.map((caregiver) => ({ id: caregiver.id, label: caregiver.name })),
+    { id: UNATTRIBUTED_FILTER, label: 'Not attributed' },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+      >
+        {options.map((option) => {
+          const isActive = option.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={option.id ?? 'everyone'}
+              onPress={() => onSelect(option.id)}
+              style={[styles.chip, isActive && styles.chipActive]}
+              activeOpacity={0.7}
+              disabled={isActive}
+            >
+              <CText
+                variant="bodySmall"
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                {option.label}
+              </CText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  row: {
+    gap: coddleTheme.spacing(2),
+  },
+  chip: {
+    paddingHorizontal: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+    borderRadius: coddleTheme.radius.pill,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  chipText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  chipTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { CText } from '../ui/CText';
+import { BabyProfile } from '../../types';
+import { coddleTheme } from '../../theme/coddleTheme';
+
+interface ChildSwitcherProps {
+  profiles: BabyProfile[];
+  activeProfileId: string | null;
+  onSelect: (profileId: string) => void;
+  onAddChild?: () => void;
+}
+
+export const ChildSwitcher: React.FC<ChildSwitcherProps> = ({
+  profiles,
+  activeProfileId,
+  onSelect,
+  onAddChild,
+}) => {
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+      >
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfileId;
+          return (
+            <TouchableOpacity
+              key={profile.id}
+              onPress={() => onSelect(profile.id)}
+              style={[styles.chip, isActive && styles.chipActive]}
+              activeOpacity={0.7}
+              disabled={isActive}
+            >
+              <CText
+                variant="label"
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                {profile.name}
+              </CText>
+            </TouchableOpacity>
+          );
+        })}
+        {onAddChild && (
+          <TouchableOpacity onPress={onAddChild} style={styles.chip} activeOpacity={0.7}>
+            <CText variant="label" style={styles.addText}>
+              + Add Child
+            </CText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  row: {
+    gap: coddleTheme.spacing(2),
+  },
+  chip: {
+    paddingHorizontal: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1.5),
+    borderRadius: coddleTheme.radius.pill,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  chipText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  chipTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+    fontWeight: '600',
+  },
+  addText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
+});
@@ -5,6 +5,8 @@ import { CText } from '../ui/CText';
 import { formatDateHeader } from '../../utils/formatters';
 import { time } from '../../utils/time';
 import { coddleTheme } from '../../theme/coddleTheme';
+import { DisruptionEpisode } from '../../types';
+import { DISRUPTION_TYPE_LABELS } from '../../services/disruptions';
 
 interface DateNavigatorProps {
   selectedDate: string; 
@@ -12,6 +14,8 @@ interface DateNavigatorProps {
   onTodayPress?: () => void;
   sessionCount?: number;
   showTodayButton?: boolean;
+  // Episode covering the selected day, shown as a badge under the date
+  disruption?: DisruptionEpisode | null;
 }
 
 export const DateNavigator: React.FC<DateNavigatorProps> = ({
@@ -20,6 +24,7 @@ export const DateNavigator: React.FC<DateNavigatorProps> = ({
   onTodayPress,
   sessionCount,
   showTodayButton = true,
+  disruption,
 }) => {
   const isToday = selectedDate === time.dayKey(time.nowISO());
 
@@ -58,6 +63,13 @@ export const DateNavigator: React.FC<DateNavigatorProps> = ({
               {sessionCount} {sessionCount === 1 ? 'session' : 'sessions'}
             </CText>
           )}
+          {disruption && (
+            <View style={styles.disruptionBadge}>
+              <CText variant="bodySmall" style={styles.disruptionText}>
+                {DISRUPTION_TYPE_LABELS[disruption.type]}
+              </CText>
+            </View>
+          )}
         </View>
 
         <TouchableOpacity
@@ -123,6 +135,17 @@ const styles = StyleSheet.create({
     color: coddleTheme.colors.textSecondary,
     marginTop: coddleTheme.spacing(0.5),
   },
+  disruptionBadge: {
+    marginTop: coddleTheme.spacing(1),
+    paddingVertical: coddleTheme.spacing(0.5),
+    paddingHorizontal: coddleTheme.spacing(2),
+    borderRadius: coddleTheme.radius.pill,
+    backgroundColor: coddleTheme.colors.accentPeach,
+  },
+  disruptionText: {
+    color: coddleTheme.colors.textPrimary,
+    fontWeight: '600',
+  },
   todayButton: {
     marginTop: coddleTheme.spacing(2),
     alignSelf: 'center',
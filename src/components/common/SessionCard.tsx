@@ -5,6 +5,7 @@ import { CText } from '../ui/CText';
 import { SleepSession } from '../../types';
 import { formatSessionTime, formatDurationFromISO } from '../../utils/formatters';
 import { getSessionColor, getQualityColor } from '../../utils/colors';
+import { describeSleepTags } from '../../services/sleepTags';
 import { time } from '../../utils/time';
 import { coddleTheme } from '../../theme/coddleTheme';
 
@@ -12,21 +13,27 @@ interface SessionCardProps {
   session: SleepSession;
   onPress?: (session: SleepSession) => void;
   onDelete?: (sessionId: string) => void;
+  onEdit?: (session: SleepSession) => void;
   highlighted?: boolean;
   showDelete?: boolean;
   compact?: boolean;
+  // e.g. "Logged by Anna", from describeAttribution
+  attribution?: string | null;
 }
 
 export const SessionCard: React.FC<SessionCardProps> = ({
   session,
   onPress,
   onDelete,
+  onEdit,
   highlighted = false,
   showDelete = true,
   compact = false,
+  attribution,
 }) => {
   const sessionColor = getSessionColor(session);
   const qualityColor = getQualityColor(session.quality);
+  const tags = describeSleepTags(session);
 
   const cardContent = (
     <View style={styles.content}>
@@ -37,23 +44,40 @@ export const SessionCard: React.FC<SessionCardProps> = ({
         <CText variant="bodySmall" style={styles.duration}>
           {formatDurationFromISO(session.startISO, session.endISO)}
           {session.quality && ` • Quality: ${session.quality}/5`}
+          {!!session.wakings?.length &&
+            ` • ${session.wakings.length} ${session.wakings.length === 1 ? 'waking' : 'wakings'}`}
+          {tags && ` • ${tags}`}
         </CText>
         {session.notes && !compact && (
           <CText variant="bodySmall" style={styles.notes}>
             {session.notes}
           </CText>
         )}
-      </View>
-      {showDelete && onDelete && (
-        <TouchableOpacity
-          onPress={() => onDelete(session.id)}
-          style={styles.deleteButton}
-        >
-          <CText variant="bodySmall" style={styles.deleteText}>
-            Delete
+        {attribution && !compact && (
+          <CText variant="bodySmall" style={styles.attribution}>
+            {attribution}
           </CText>
-        </TouchableOpacity>
-      )}
+        )}
+      </View>
+      <View style={styles.actions}>
+        {onEdit && (
+          <TouchableOpacity onPress={() => onEdit(session)} style={styles.actionButton}>
+            <CText variant="bodySmall" style={styles.editText}>
+              Edit
+            </CText>
+          </TouchableOpacity>
+        )}
+        {showDelete && onDelete && (
+          <TouchableOpacity
+            onPress={() => onDelete(session.id)}
+            style={styles.actionButton}
+          >
+            <CText variant="bodySmall" style={styles.deleteText}>
+              Delete
+            </CText>
+          </TouchableOpacity>
+        )}
+      </View>
     </View>
   );
 
@@ -121,9 +145,19 @@ const styles = StyleSheet.create({
     marginTop: coddleTheme.spacing(1),
     fontStyle: 'italic',
   },
-  deleteButton: {
+  attribution: {
+    color: coddleTheme.colors.textTertiary,
+    marginTop: coddleTheme.spacing(0.5),
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
     padding: coddleTheme.spacing(1),
   },
+  editText: {
+    color: coddleTheme.colors.primary,
+  },
   deleteText: {
     color: coddleTheme.colors.error,
   },
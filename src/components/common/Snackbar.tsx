@@ -0,0 +1,79 @@
+import React, { useEffect } from 'react';
+import { View, TouchableOpacity, StyleSheet } from 'react-native';
+import { CText } from '../ui/CText';
+import { coddleTheme } from '../../theme/coddleTheme';
+
+const DEFAULT_DURATION_MS = 5000;
+
+interface SnackbarProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  // Called when the snackbar times out or its action is used
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+/**
+ * Short-lived message pinned to the bottom of the screen. Give it a new
+ * `key` for each message so the timer restarts.
+ */
+export const Snackbar: React.FC<SnackbarProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  durationMs = DEFAULT_DURATION_MS,
+}) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timeout);
+  }, [onDismiss, durationMs]);
+
+  const handleAction = () => {
+    onDismiss();
+    onAction?.();
+  };
+
+  return (
+    <View style={styles.container} accessibilityLiveRegion="polite">
+      <CText variant="bodySmall" style={styles.message} numberOfLines={2}>
+        {message}
+      </CText>
+      {actionLabel && onAction && (
+        <TouchableOpacity onPress={handleAction} style={styles.action} activeOpacity={0.7}>
+          <CText variant="bodySmall" style={styles.actionText}>
+            {actionLabel}
+          </CText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: coddleTheme.spacing(4),
+    right: coddleTheme.spacing(4),
+    bottom: coddleTheme.spacing(6),
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: coddleTheme.colors.textPrimary,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(3),
+    paddingHorizontal: coddleTheme.spacing(4),
+  },
+  message: {
+    flex: 1,
+    color: coddleTheme.colors.textOnPrimary,
+  },
+  action: {
+    marginLeft: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  actionText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
+});
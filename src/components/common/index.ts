@@ -3,4 +3,6 @@ export { SessionCard } from './SessionCard';
 export { DateNavigator } from './DateNavigator';
 export { ErrorBoundary } from './ErrorBoundary';
 export { LoadingSpinner } from './LoadingSpinner';
-
+export { ChildSwitcher } from './ChildSwitcher';
+export { CaregiverFilter } from './CaregiverFilter';
+export { Snackbar } from './Snackbar';
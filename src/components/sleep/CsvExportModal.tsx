@@ -0,0 +1,189 @@
+/**
+ * CSV Export Modal Component
+ *
+ * Picks the date format and timezone for a sleep log CSV export
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, View, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from '../ui/Card';
+import { CText } from '../ui/CText';
+import { PrimaryButton } from '../ui/PrimaryButton';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
+import {
+  CsvDateFormat,
+  CsvExportOptions,
+  CSV_DATE_FORMATS,
+  CSV_DATE_FORMAT_LABELS,
+} from '../../services/csvExport';
+
+type ZoneChoice = 'device' | 'utc';
+
+const DATE_FORMAT_CHOICES: CsvDateFormat[] = ['iso', 'us', 'eu'];
+const ZONE_CHOICES: ZoneChoice[] = ['device', 'utc'];
+
+interface CsvExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onExport: (options: CsvExportOptions) => void;
+}
+
+export const CsvExportModal: React.FC<CsvExportModalProps> = ({
+  visible,
+  onClose,
+  onExport,
+}) => {
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+  const [zone, setZone] = useState<ZoneChoice>('device');
+
+  useEffect(() => {
+    if (visible) {
+      setDateFormat('iso');
+      setZone('device');
+    }
+  }, [visible]);
+
+  const deviceZone = time.timeZone();
+  const zoneLabels: Record<ZoneChoice, string> = {
+    device: `This device (${deviceZone})`,
+    utc: 'UTC',
+  };
+
+  const handleExport = () => {
+    onClose();
+    onExport({
+      dateFormat: CSV_DATE_FORMATS[dateFormat],
+      timeZone: zone === 'utc' ? 'UTC' : deviceZone,
+    });
+  };
+
+  const renderChoices = <T extends string>(
+    choices: T[],
+    labels: Record<T, string>,
+    selected: T,
+    onSelect: (choice: T) => void
+  ) => (
+    <View style={styles.choiceButtons}>
+      {choices.map((choice) => (
+        <TouchableOpacity
+          key={choice}
+          style={[styles.choiceButton, selected === choice && styles.choiceButtonActive]}
+          onPress={() => onSelect(choice)}
+        >
+          <CText
+            variant="bodySmall"
+            style={[styles.choiceButtonText, selected === choice && styles.choiceButtonTextActive]}
+          >
+            {labels[choice]}
+          </CText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Card style={styles.card}>
+          <View style={styles.header}>
+            <CText variant="h3" style={styles.title}>
+              Export CSV
+            </CText>
+            <TouchableOpacity onPress={onClose}>
+              <CText variant="h3" style={styles.closeButton}>×</CText>
+            </TouchableOpacity>
+          </View>
+
+          <CText variant="label" style={styles.inputLabel}>
+            Date format
+          </CText>
+          {renderChoices(DATE_FORMAT_CHOICES, CSV_DATE_FORMAT_LABELS, dateFormat, setDateFormat)}
+
+          <CText variant="label" style={styles.inputLabel}>
+            Timezone
+          </CText>
+          {renderChoices(ZONE_CHOICES, zoneLabels, zone, setZone)}
+
+          <View style={styles.modalButtons}>
+            <PrimaryButton
+              label="Cancel"
+              onPress={onClose}
+              variant="secondary"
+              style={styles.modalButton}
+            />
+            <PrimaryButton
+              label="Export"
+              onPress={handleExport}
+              variant="primary"
+              style={styles.modalButton}
+            />
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: coddleTheme.spacing(4),
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+  },
+  closeButton: {
+    color: coddleTheme.colors.textSecondary,
+    fontSize: 32,
+    lineHeight: 32,
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(3),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  choiceButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+  },
+  choiceButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
+  choiceButtonActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  choiceButtonText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  choiceButtonTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(4),
+  },
+  modalButton: {
+    flex: 1,
+  },
+});
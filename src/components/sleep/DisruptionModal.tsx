@@ -0,0 +1,251 @@
+/**
+ * Disruption Modal Component
+ *
+ * Marks an illness, teething or similar episode starting on a given day
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, View, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from '../ui/Card';
+import { CText } from '../ui/CText';
+import { PrimaryButton } from '../ui/PrimaryButton';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
+import { DisruptionType } from '../../types';
+import { DISRUPTION_CONFIG } from '../../config/constants';
+import {
+  DisruptionInput,
+  DISRUPTION_TYPES,
+  DISRUPTION_TYPE_LABELS,
+} from '../../services/disruptions';
+
+interface DisruptionModalProps {
+  visible: boolean;
+  // First day of the episode (YYYY-MM-DD)
+  startDayKey: string;
+  onClose: () => void;
+  onSave: (input: DisruptionInput) => Promise<boolean>;
+}
+
+export const DisruptionModal: React.FC<DisruptionModalProps> = ({
+  visible,
+  startDayKey,
+  onClose,
+  onSave,
+}) => {
+  const [type, setType] = useState<DisruptionType>('illness');
+  const [days, setDays] = useState(1);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setType('illness');
+      setDays(1);
+      setNotes('');
+    }
+  }, [visible]);
+
+  const start = time.parse(startDayKey + 'T00:00:00');
+  const endDayKey = start.add(days - 1, 'day').format('YYYY-MM-DD');
+
+  const handleSave = async () => {
+    const saved = await onSave({ type, startDayKey, endDayKey, notes });
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Card style={styles.card}>
+          <View style={styles.header}>
+            <CText variant="h3" style={styles.title}>
+              Mark Disruption
+            </CText>
+            <TouchableOpacity onPress={onClose}>
+              <CText variant="h3" style={styles.closeButton}>×</CText>
+            </TouchableOpacity>
+          </View>
+
+          <CText variant="bodySmall" style={styles.detailText}>
+            Sleep on these days will not change the learned wake windows and nap lengths.
+          </CText>
+
+          <View style={styles.typeButtons}>
+            {DISRUPTION_TYPES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.typeButton, type === option && styles.typeButtonActive]}
+                onPress={() => setType(option)}
+              >
+                <CText
+                  variant="bodySmall"
+                  style={[styles.typeButtonText, type === option && styles.typeButtonTextActive]}
+                >
+                  {DISRUPTION_TYPE_LABELS[option]}
+                </CText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <CText variant="label" style={styles.inputLabel}>
+            Days
+          </CText>
+          <View style={styles.daysRow}>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() => setDays(Math.max(1, days - 1))}
+              disabled={days <= 1}
+            >
+              <CText variant="h3" style={styles.stepText}>−</CText>
+            </TouchableOpacity>
+            <CText variant="body" style={styles.daysText}>
+              {days}
+            </CText>
+            <TouchableOpacity
+              style={styles.stepButton}
+              onPress={() => setDays(Math.min(DISRUPTION_CONFIG.maxEpisodeDays, days + 1))}
+              disabled={days >= DISRUPTION_CONFIG.maxEpisodeDays}
+            >
+              <CText variant="h3" style={styles.stepText}>+</CText>
+            </TouchableOpacity>
+            <CText variant="bodySmall" style={styles.rangeText}>
+              {start.format('MMM D')}
+              {days > 1 ? ` – ${start.add(days - 1, 'day').format('MMM D')}` : ''}
+            </CText>
+          </View>
+
+          <CText variant="label" style={styles.inputLabel}>
+            Notes (optional)
+          </CText>
+          <TextInput
+            style={styles.input}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. ear infection, 2 new teeth"
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+          />
+
+          <View style={styles.modalButtons}>
+            <PrimaryButton
+              label="Cancel"
+              onPress={onClose}
+              variant="secondary"
+              style={styles.modalButton}
+            />
+            <PrimaryButton
+              label="Save"
+              onPress={handleSave}
+              variant="primary"
+              style={styles.modalButton}
+            />
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: coddleTheme.spacing(4),
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: coddleTheme.spacing(3),
+  },
+  title: {
+    flex: 1,
+  },
+  closeButton: {
+    color: coddleTheme.colors.textSecondary,
+    fontSize: 32,
+    lineHeight: 32,
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+  },
+  typeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  typeButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
+  typeButtonActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  typeButtonText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  typeButtonTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(3),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  daysRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: coddleTheme.spacing(2),
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    color: coddleTheme.colors.primary,
+  },
+  daysText: {
+    minWidth: 24,
+    textAlign: 'center',
+    color: coddleTheme.colors.textPrimary,
+  },
+  rangeText: {
+    marginLeft: 'auto',
+    color: coddleTheme.colors.textSecondary,
+  },
+  input: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+    fontSize: 14,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  modalButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,150 @@
+/**
+ * Feeding Quick Log Component
+ *
+ * One-tap logging of a feed that just ended, shown next to the sleep timer
+ */
+
+import React, { useState } from 'react';
+import { View, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from '../ui/Card';
+import { CText } from '../ui/CText';
+import { PrimaryButton } from '../ui/PrimaryButton';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
+import { FeedingSession, FeedingType } from '../../types';
+import {
+  FeedingInput,
+  FEEDING_TYPES,
+  FEEDING_TYPE_LABELS,
+  isBreastFeed,
+  describeFeeding,
+} from '../../services/feedings';
+
+interface FeedingQuickLogProps {
+  lastFeeding: FeedingSession | null;
+  onLog: (input: FeedingInput) => Promise<boolean>;
+}
+
+export const FeedingQuickLog: React.FC<FeedingQuickLogProps> = ({ lastFeeding, onLog }) => {
+  const [type, setType] = useState<FeedingType>('breastLeft');
+  // Minutes for breast feeds, ml for bottles; unused for solids
+  const [amount, setAmount] = useState('');
+
+  const handleLog = async () => {
+    const value = parseInt(amount, 10);
+    const logged = await onLog({
+      type,
+      endISO: time.nowISO(),
+      ...(isBreastFeed(type) ? { durationMin: value } : {}),
+      ...(type === 'bottle' ? { volumeMl: value } : {}),
+    });
+    if (logged) {
+      setAmount('');
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <CText variant="label" style={styles.label}>
+        Log a Feed
+      </CText>
+      <View style={styles.typeButtons}>
+        {FEEDING_TYPES.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.typeButton, type === option && styles.typeButtonActive]}
+            onPress={() => setType(option)}
+          >
+            <CText
+              variant="bodySmall"
+              style={[styles.typeButtonText, type === option && styles.typeButtonTextActive]}
+            >
+              {FEEDING_TYPE_LABELS[option]}
+            </CText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.logRow}>
+        {type !== 'solids' && (
+          <TextInput
+            style={styles.input}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder={type === 'bottle' ? 'ml' : 'minutes'}
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+            keyboardType="number-pad"
+          />
+        )}
+        <PrimaryButton
+          label="Log Feed"
+          onPress={handleLog}
+          variant="secondary"
+          style={styles.logButton}
+        />
+      </View>
+
+      {lastFeeding && (
+        <CText variant="bodySmall" style={styles.lastText}>
+          Last feed: {time.format(lastFeeding.endISO, 'h:mm A')} · {describeFeeding(lastFeeding)}
+        </CText>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  label: {
+    marginBottom: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+  },
+  typeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(2),
+  },
+  typeButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
+  typeButtonActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  typeButtonText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  typeButtonTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: coddleTheme.spacing(2),
+  },
+  input: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+    fontSize: 14,
+  },
+  logButton: {
+    flex: 1,
+  },
+  lastText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(2),
+  },
+});
@@ -1,10 +1,11 @@
 /**
  * Manual Entry Modal Component
  * 
- * Modal for manually entering sleep session data
+ * Modal for manually entering sleep session data, or for editing a logged
+ * session when `session` is given
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Modal,
   View,
@@ -12,6 +13,7 @@ import {
   TouchableOpacity,
   StyleSheet,
   Platform,
+  ScrollView,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Card } from '../ui/Card';
@@ -19,22 +21,70 @@ import { CText } from '../ui/CText';
 import { PrimaryButton } from '../ui/PrimaryButton';
 import { coddleTheme } from '../../theme/coddleTheme';
 import { time } from '../../utils/time';
+import {
+  SleepSession,
+  SessionKind,
+  NightWaking,
+  SleepLocation,
+  SleepMethod,
+} from '../../types';
+import {
+  SessionConflict,
+  ConflictResolution,
+  RESOLUTION_LABELS,
+  findSessionConflicts,
+  getResolutionOptions,
+  describeConflict,
+} from '../../services/sessionValidation';
+import {
+  SESSION_KINDS,
+  SESSION_KIND_LABELS,
+  inferSessionKind,
+} from '../../services/sessionClassification';
+import { sortWakings, getWakingsError } from '../../services/nightWakings';
+import { NightWakingEditor } from './NightWakingEditor';
+import { SleepTagPicker } from './SleepTagPicker';
+import { ONSET_LATENCY_CONFIG } from '../../config/constants';
+
+export interface ManualEntryData {
+  startISO: string;
+  endISO: string;
+  quality?: 1 | 2 | 3 | 4 | 5;
+  notes?: string;
+  // Unset to work the kind out from the times
+  kind?: SessionKind;
+  wakings?: NightWaking[];
+  // Unset when the time to fall asleep was left blank
+  putDownISO?: string;
+  location?: SleepLocation;
+  method?: SleepMethod;
+}
+
+// Minutes from put-down to asleep, as typed into the form
+function getLatencyText(session: SleepSession | null): string {
+  if (!session?.putDownISO) {
+    return '';
+  }
+  return String(Math.round(time.durationMinutes(session.putDownISO, session.startISO)));
+}
 
 interface ManualEntryModalProps {
   visible: boolean;
   onClose: () => void;
-  onSave: (data: {
-    startISO: string;
-    endISO: string;
-    quality?: 1 | 2 | 3 | 4 | 5;
-    notes?: string;
-  }) => void;
+  // `resolution` is set when the entry clashes with one of `existingSessions`
+  onSave: (data: ManualEntryData, resolution?: ConflictResolution) => void;
+  // Checked for overlaps and duplicates before saving
+  existingSessions?: SleepSession[];
+  // Session being edited; the form starts from its values
+  session?: SleepSession | null;
 }
 
 export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({
   visible,
   onClose,
   onSave,
+  existingSessions = [],
+  session = null,
 }) => {
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState(new Date());
@@ -44,8 +94,42 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [quality, setQuality] = useState<1 | 2 | 3 | 4 | 5 | undefined>(undefined);
   const [notes, setNotes] = useState('');
+  const [kind, setKind] = useState<SessionKind | undefined>(undefined);
+  const [wakings, setWakings] = useState<NightWaking[]>([]);
+  const [wakingsError, setWakingsError] = useState<string | null>(null);
+  const [latency, setLatency] = useState('');
+  const [location, setLocation] = useState<SleepLocation | undefined>(undefined);
+  const [method, setMethod] = useState<SleepMethod | undefined>(undefined);
+  const [latencyError, setLatencyError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SessionConflict | null>(null);
 
-  const handleSave = () => {
+  // Every opening starts from the edited session, or a blank entry
+  useEffect(() => {
+    if (!visible) return;
+    setStartDate(session ? new Date(session.startISO) : new Date());
+    setEndDate(session ? new Date(session.endISO) : new Date());
+    setQuality(session?.quality);
+    setNotes(session?.notes ?? '');
+    setKind(session?.kind);
+    setWakings(session?.wakings ?? []);
+    setWakingsError(null);
+    setLatency(getLatencyText(session));
+    setLatencyError(null);
+    setLocation(session?.location);
+    setMethod(session?.method);
+    setConflict(null);
+  }, [visible, session]);
+
+  // New times need a fresh check
+  useEffect(() => {
+    setConflict(null);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    setWakingsError(null);
+  }, [startDate, endDate, wakings]);
+
+  const handleSave = (resolution?: ConflictResolution) => {
     const startISO = time.parse(startDate.toISOString()).toISOString();
     const endISO = time.parse(endDate.toISOString()).toISOString();
     
@@ -54,21 +138,75 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({
       return;
     }
 
-    onSave({
-      startISO,
-      endISO,
-      quality,
-      notes: notes.trim() || undefined,
-    });
+    const latencyMin = latency.trim() ? Number(latency) : null;
+    if (
+      latencyMin !== null &&
+      !(
+        Number.isInteger(latencyMin) &&
+        latencyMin >= 0 &&
+        latencyMin <= ONSET_LATENCY_CONFIG.maxOnsetLatencyMin
+      )
+    ) {
+      setLatencyError(`Enter 0-${ONSET_LATENCY_CONFIG.maxOnsetLatencyMin} minutes`);
+      return;
+    }
+    const putDownISO =
+      latencyMin !== null
+        ? time.parse(startISO).subtract(latencyMin, 'minute').toISOString()
+        : undefined;
+
+    const sortedWakings = sortWakings(wakings);
+    const error = getWakingsError(startISO, endISO, sortedWakings);
+    if (error) {
+      setWakingsError(error);
+      return;
+    }
+
+    if (!resolution) {
+      // An edited session keeps its id so it is not compared with itself
+      const pending: SleepSession = {
+        id: session?.id ?? 'pending',
+        startISO,
+        endISO,
+        source: session?.source ?? 'manual',
+        updatedAtISO: time.nowISO(),
+      };
+      const [firstConflict] = findSessionConflicts(pending, existingSessions);
+      if (firstConflict) {
+        setConflict(firstConflict);
+        return;
+      }
+    }
+
+    onSave(
+      {
+        startISO,
+        endISO,
+        quality,
+        notes: notes.trim() || undefined,
+        kind,
+        wakings: sortedWakings.length > 0 ? sortedWakings : undefined,
+        putDownISO,
+        location,
+        method,
+      },
+      resolution
+    );
 
-    // Reset form
-    setStartDate(new Date());
-    setEndDate(new Date());
-    setQuality(undefined);
-    setNotes('');
     onClose();
   };
 
+  // Shown on the Auto option so it is clear what will be picked
+  const autoKind = inferSessionKind({
+    id: session?.id ?? 'pending',
+    startISO: startDate.toISOString(),
+    endISO: endDate.toISOString(),
+    source: session?.source ?? 'manual',
+    updatedAtISO: time.nowISO(),
+  });
+  // Wakings are for night sleep, but ones already logged stay editable
+  const showWakings = (kind ?? autoKind) !== 'nap';
+
   return (
     <Modal
       visible={visible}
@@ -80,181 +218,275 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({
         <Card style={styles.card}>
           <View style={styles.header}>
             <CText variant="h3" style={styles.title}>
-              Add Manual Entry
+              {session ? 'Edit Session' : 'Add Manual Entry'}
             </CText>
             <TouchableOpacity onPress={onClose}>
               <CText variant="h3" style={styles.closeButton}>×</CText>
             </TouchableOpacity>
           </View>
 
-          <CText variant="label" style={styles.inputLabel}>
-            Start Time
-          </CText>
-          <View style={styles.dateTimeRow}>
-            <TouchableOpacity
-              style={styles.dateTimeButton}
-              onPress={() => setShowStartDatePicker(true)}
-            >
-              <CText variant="body" style={styles.dateTimeText}>
-                📅 {startDate.toLocaleDateString()}
-              </CText>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.dateTimeButton}
-              onPress={() => setShowStartTimePicker(true)}
-            >
-              <CText variant="body" style={styles.dateTimeText}>
-                🕐 {startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </CText>
-            </TouchableOpacity>
-          </View>
+          <ScrollView style={styles.form}>
+            <CText variant="label" style={styles.inputLabel}>
+              Start Time
+            </CText>
+            <View style={styles.dateTimeRow}>
+              <TouchableOpacity
+                style={styles.dateTimeButton}
+                onPress={() => setShowStartDatePicker(true)}
+              >
+                <CText variant="body" style={styles.dateTimeText}>
+                  📅 {startDate.toLocaleDateString()}
+                </CText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.dateTimeButton}
+                onPress={() => setShowStartTimePicker(true)}
+              >
+                <CText variant="body" style={styles.dateTimeText}>
+                  🕐 {startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </CText>
+              </TouchableOpacity>
+            </View>
 
-          {showStartDatePicker && (
-            <DateTimePicker
-              value={startDate}
-              mode="date"
-              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-              onChange={(event, selectedDate) => {
-                setShowStartDatePicker(Platform.OS === 'ios');
-                if (selectedDate) {
-                  const newDate = new Date(startDate);
-                  newDate.setFullYear(selectedDate.getFullYear());
-                  newDate.setMonth(selectedDate.getMonth());
-                  newDate.setDate(selectedDate.getDate());
-                  setStartDate(newDate);
-                }
-              }}
-            />
-          )}
+            {showStartDatePicker && (
+              <DateTimePicker
+                value={startDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowStartDatePicker(Platform.OS === 'ios');
+                  if (selectedDate) {
+                    const newDate = new Date(startDate);
+                    newDate.setFullYear(selectedDate.getFullYear());
+                    newDate.setMonth(selectedDate.getMonth());
+                    newDate.setDate(selectedDate.getDate());
+                    setStartDate(newDate);
+                  }
+                }}
+              />
+            )}
 
-          {showStartTimePicker && (
-            <DateTimePicker
-              value={startDate}
-              mode="time"
-              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-              onChange={(event, selectedTime) => {
-                setShowStartTimePicker(Platform.OS === 'ios');
-                if (selectedTime) {
-                  const newDate = new Date(startDate);
-                  newDate.setHours(selectedTime.getHours());
-                  newDate.setMinutes(selectedTime.getMinutes());
-                  newDate.setSeconds(0);
-                  setStartDate(newDate);
-                }
-              }}
-            />
-          )}
+            {showStartTimePicker && (
+              <DateTimePicker
+                value={startDate}
+                mode="time"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedTime) => {
+                  setShowStartTimePicker(Platform.OS === 'ios');
+                  if (selectedTime) {
+                    const newDate = new Date(startDate);
+                    newDate.setHours(selectedTime.getHours());
+                    newDate.setMinutes(selectedTime.getMinutes());
+                    newDate.setSeconds(0);
+                    setStartDate(newDate);
+                  }
+                }}
+              />
+            )}
 
-          <CText variant="label" style={styles.inputLabel}>
-            End Time
-          </CText>
-          <View style={styles.dateTimeRow}>
-            <TouchableOpacity
-              style={styles.dateTimeButton}
-              onPress={() => setShowEndDatePicker(true)}
-            >
-              <CText variant="body" style={styles.dateTimeText}>
-                📅 {endDate.toLocaleDateString()}
-              </CText>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.dateTimeButton}
-              onPress={() => setShowEndTimePicker(true)}
-            >
-              <CText variant="body" style={styles.dateTimeText}>
-                🕐 {endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </CText>
-            </TouchableOpacity>
-          </View>
+            <CText variant="label" style={styles.inputLabel}>
+              End Time
+            </CText>
+            <View style={styles.dateTimeRow}>
+              <TouchableOpacity
+                style={styles.dateTimeButton}
+                onPress={() => setShowEndDatePicker(true)}
+              >
+                <CText variant="body" style={styles.dateTimeText}>
+                  📅 {endDate.toLocaleDateString()}
+                </CText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.dateTimeButton}
+                onPress={() => setShowEndTimePicker(true)}
+              >
+                <CText variant="body" style={styles.dateTimeText}>
+                  🕐 {endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </CText>
+              </TouchableOpacity>
+            </View>
 
-          {showEndDatePicker && (
-            <DateTimePicker
-              value={endDate}
-              mode="date"
-              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-              onChange={(event, selectedDate) => {
-                setShowEndDatePicker(Platform.OS === 'ios');
-                if (selectedDate) {
-                  const newDate = new Date(endDate);
-                  newDate.setFullYear(selectedDate.getFullYear());
-                  newDate.setMonth(selectedDate.getMonth());
-                  newDate.setDate(selectedDate.getDate());
-                  setEndDate(newDate);
-                }
-              }}
-            />
-          )}
+            {showEndDatePicker && (
+              <DateTimePicker
+                value={endDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowEndDatePicker(Platform.OS === 'ios');
+                  if (selectedDate) {
+                    const newDate = new Date(endDate);
+                    newDate.setFullYear(selectedDate.getFullYear());
+                    newDate.setMonth(selectedDate.getMonth());
+                    newDate.setDate(selectedDate.getDate());
+                    setEndDate(newDate);
+                  }
+                }}
+              />
+            )}
 
-          {showEndTimePicker && (
-            <DateTimePicker
-              value={endDate}
-              mode="time"
-              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-              onChange={(event, selectedTime) => {
-                setShowEndTimePicker(Platform.OS === 'ios');
-                if (selectedTime) {
-                  const newDate = new Date(endDate);
-                  newDate.setHours(selectedTime.getHours());
-                  newDate.setMinutes(selectedTime.getMinutes());
-                  newDate.setSeconds(0);
-                  setEndDate(newDate);
-                }
-              }}
-            />
-          )}
+            {showEndTimePicker && (
+              <DateTimePicker
+                value={endDate}
+                mode="time"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedTime) => {
+                  setShowEndTimePicker(Platform.OS === 'ios');
+                  if (selectedTime) {
+                    const newDate = new Date(endDate);
+                    newDate.setHours(selectedTime.getHours());
+                    newDate.setMinutes(selectedTime.getMinutes());
+                    newDate.setSeconds(0);
+                    setEndDate(newDate);
+                  }
+                }}
+              />
+            )}
 
-          <CText variant="label" style={styles.inputLabel}>
-            Quality (1-5, optional)
-          </CText>
-          <View style={styles.qualityButtons}>
-            {[1, 2, 3, 4, 5].map((q) => (
-              <TouchableOpacity
-                key={q}
-                style={[
-                  styles.qualityButton,
-                  quality === q && styles.qualityButtonActive,
-                ]}
-                onPress={() => setQuality(q as 1 | 2 | 3 | 4 | 5)}
-              >
-                <CText
-                  variant="label"
+            <CText variant="label" style={styles.inputLabel}>
+              Quality (1-5, optional)
+            </CText>
+            <View style={styles.qualityButtons}>
+              {[1, 2, 3, 4, 5].map((q) => (
+                <TouchableOpacity
+                  key={q}
                   style={[
-                    styles.qualityButtonText,
-                    quality === q && styles.qualityButtonTextActive,
+                    styles.qualityButton,
+                    quality === q && styles.qualityButtonActive,
                   ]}
+                  // Tapping the selected value clears it
+                  onPress={() => setQuality(quality === q ? undefined : (q as 1 | 2 | 3 | 4 | 5))}
                 >
-                  {q}
-                </CText>
-              </TouchableOpacity>
-            ))}
-          </View>
+                  <CText
+                    variant="label"
+                    style={[
+                      styles.qualityButtonText,
+                      quality === q && styles.qualityButtonTextActive,
+                    ]}
+                  >
+                    {q}
+                  </CText>
+                </TouchableOpacity>
+              ))}
+            </View>
 
-          <CText variant="label" style={styles.inputLabel}>
-            Notes (optional)
-          </CText>
-          <TextInput
-            style={[styles.input, styles.notesInput]}
-            value={notes}
-            onChangeText={setNotes}
-            placeholder="Add any notes..."
-            placeholderTextColor={coddleTheme.colors.textTertiary}
-            multiline
-          />
+            <CText variant="label" style={styles.inputLabel}>
+              Type
+            </CText>
+            <View style={styles.kindButtons}>
+              {[undefined, ...SESSION_KINDS].map((option) => (
+                <TouchableOpacity
+                  key={option ?? 'auto'}
+                  style={[styles.kindButton, kind === option && styles.qualityButtonActive]}
+                  onPress={() => setKind(option)}
+                >
+                  <CText
+                    variant="bodySmall"
+                    style={[
+                      styles.qualityButtonText,
+                      kind === option && styles.qualityButtonTextActive,
+                    ]}
+                  >
+                    {option
+                      ? SESSION_KIND_LABELS[option]
+                      : `Auto (${SESSION_KIND_LABELS[autoKind]})`}
+                  </CText>
+                </TouchableOpacity>
+              ))}
+            </View>
 
-          <View style={styles.modalButtons}>
-            <PrimaryButton
-              label="Cancel"
-              onPress={onClose}
-              variant="secondary"
-              style={styles.modalButton}
+            <SleepTagPicker
+              location={location}
+              method={method}
+              onLocationChange={setLocation}
+              onMethodChange={setMethod}
             />
-            <PrimaryButton
-              label="Save"
-              onPress={handleSave}
-              variant="primary"
-              style={styles.modalButton}
+
+            <CText variant="label" style={styles.inputLabel}>
+              Time to Fall Asleep (minutes, optional)
+            </CText>
+            <TextInput
+              style={styles.input}
+              value={latency}
+              onChangeText={(text) => {
+                setLatency(text);
+                setLatencyError(null);
+              }}
+              placeholder="From put-down to asleep"
+              placeholderTextColor={coddleTheme.colors.textTertiary}
+              keyboardType="number-pad"
             />
-          </View>
+            {latencyError && (
+              <CText variant="bodySmall" style={styles.errorText}>
+                {latencyError}
+              </CText>
+            )}
+
+            <CText variant="label" style={styles.inputLabel}>
+              Notes (optional)
+            </CText>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Add any notes..."
+              placeholderTextColor={coddleTheme.colors.textTertiary}
+              multiline
+            />
+
+            {(showWakings || wakings.length > 0) && (
+              <>
+                <CText variant="label" style={styles.inputLabel}>
+                  Night Wakings
+                </CText>
+                <NightWakingEditor
+                  wakings={wakings}
+                  startISO={startDate.toISOString()}
+                  endISO={endDate.toISOString()}
+                  onChange={setWakings}
+                  error={wakingsError}
+                />
+              </>
+            )}
+          </ScrollView>
+
+          {conflict ? (
+            <View style={styles.conflictBox}>
+              <CText variant="bodySmall" style={styles.conflictText}>
+                {describeConflict(conflict)}
+              </CText>
+              <View style={styles.modalButtons}>
+                {getResolutionOptions(conflict).map((resolution) => (
+                  <PrimaryButton
+                    key={resolution}
+                    label={RESOLUTION_LABELS[resolution]}
+                    onPress={() => handleSave(resolution)}
+                    variant={resolution === 'merge' ? 'primary' : 'secondary'}
+                    style={styles.modalButton}
+                  />
+                ))}
+              </View>
+              <TouchableOpacity onPress={() => setConflict(null)} style={styles.editTimesButton}>
+                <CText variant="bodySmall" style={styles.editTimesText}>
+                  Change times instead
+                </CText>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.modalButtons}>
+              <PrimaryButton
+                label="Cancel"
+                onPress={onClose}
+                variant="secondary"
+                style={styles.modalButton}
+              />
+              <PrimaryButton
+                label={session ? 'Save Changes' : 'Save'}
+                onPress={() => handleSave()}
+                variant="primary"
+                style={styles.modalButton}
+              />
+            </View>
+          )}
         </Card>
       </View>
     </Modal>
@@ -274,6 +506,9 @@ const styles = StyleSheet.create({
     maxWidth: 400,
     maxHeight: '80%',
   },
+  form: {
+    flexGrow: 0,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -319,6 +554,10 @@ const styles = StyleSheet.create({
     color: coddleTheme.colors.textPrimary,
     fontSize: 14,
   },
+  errorText: {
+    color: coddleTheme.colors.error,
+    marginTop: coddleTheme.spacing(1),
+  },
   notesInput: {
     minHeight: 80,
     textAlignVertical: 'top',
@@ -337,6 +576,20 @@ const styles = StyleSheet.create({
     padding: coddleTheme.spacing(2),
     alignItems: 'center',
   },
+  kindButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(2),
+  },
+  kindButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
   qualityButtonActive: {
     backgroundColor: coddleTheme.colors.primary,
     borderColor: coddleTheme.colors.primary,
@@ -355,5 +608,22 @@ const styles = StyleSheet.create({
   modalButton: {
     flex: 1,
   },
+  conflictBox: {
+    marginTop: coddleTheme.spacing(3),
+    padding: coddleTheme.spacing(2),
+    borderRadius: coddleTheme.radius.md,
+    backgroundColor: coddleTheme.colors.primarySoft,
+  },
+  conflictText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  editTimesButton: {
+    alignSelf: 'center',
+    marginTop: coddleTheme.spacing(2),
+  },
+  editTimesText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
 });
 
@@ -0,0 +1,221 @@
+/**
+ * Night Waking Editor Component
+ *
+ * List of wakings inside a session, each with its times and reason
+ */
+
+import React, { useState } from 'react';
+import { View, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { CText } from '../ui/CText';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
+import { NightWaking } from '../../types';
+import {
+  NIGHT_WAKING_REASONS,
+  NIGHT_WAKING_REASON_LABELS,
+} from '../../services/nightWakings';
+
+// Length of a newly added waking
+const DEFAULT_WAKING_MIN = 15;
+
+interface NightWakingEditorProps {
+  wakings: NightWaking[];
+  // Session the wakings belong to; picked times are placed inside it
+  startISO: string;
+  endISO: string;
+  onChange: (wakings: NightWaking[]) => void;
+  error?: string | null;
+}
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export const NightWakingEditor: React.FC<NightWakingEditorProps> = ({
+  wakings,
+  startISO,
+  endISO,
+  onChange,
+  error,
+}) => {
+  const [picker, setPicker] = useState<{ index: number; field: 'startISO' | 'endISO' } | null>(
+    null
+  );
+
+  const updateWaking = (index: number, updates: Partial<NightWaking>) => {
+    onChange(wakings.map((waking, i) => (i === index ? { ...waking, ...updates } : waking)));
+  };
+
+  // After the last waking, or in the middle of the session for the first
+  const addWaking = () => {
+    const last = wakings[wakings.length - 1];
+    const start = last
+      ? time.parse(last.endISO).add(30, 'minute')
+      : time.parse(startISO).add(time.durationMinutes(startISO, endISO) / 2, 'minute');
+    const wakingStart = start.second(0).millisecond(0);
+    onChange([
+      ...wakings,
+      {
+        startISO: wakingStart.toISOString(),
+        endISO: wakingStart.add(DEFAULT_WAKING_MIN, 'minute').toISOString(),
+        reason: 'unknown',
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {wakings.map((waking, index) => (
+        <View key={index} style={styles.waking}>
+          <View style={styles.timeRow}>
+            <TouchableOpacity
+              style={styles.timeButton}
+              onPress={() => setPicker({ index, field: 'startISO' })}
+            >
+              <CText variant="bodySmall" style={styles.timeText}>
+                {formatClock(waking.startISO)}
+              </CText>
+            </TouchableOpacity>
+            <CText variant="bodySmall" style={styles.separator}>
+              –
+            </CText>
+            <TouchableOpacity
+              style={styles.timeButton}
+              onPress={() => setPicker({ index, field: 'endISO' })}
+            >
+              <CText variant="bodySmall" style={styles.timeText}>
+                {formatClock(waking.endISO)}
+              </CText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onChange(wakings.filter((_, i) => i !== index))}
+              style={styles.removeButton}
+            >
+              <CText variant="bodySmall" style={styles.removeText}>
+                Remove
+              </CText>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.reasonRow}>
+            {NIGHT_WAKING_REASONS.map((reason) => (
+              <TouchableOpacity
+                key={reason}
+                style={[styles.reasonChip, waking.reason === reason && styles.reasonChipActive]}
+                onPress={() => updateWaking(index, { reason })}
+              >
+                <CText
+                  variant="bodySmall"
+                  style={[styles.reasonText, waking.reason === reason && styles.reasonTextActive]}
+                >
+                  {NIGHT_WAKING_REASON_LABELS[reason]}
+                </CText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      {picker && wakings[picker.index] && (
+        <DateTimePicker
+          value={new Date(wakings[picker.index][picker.field])}
+          mode="time"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={(event, selectedTime) => {
+            const { index, field } = picker;
+            if (Platform.OS !== 'ios') {
+              setPicker(null);
+            }
+            if (selectedTime) {
+              updateWaking(index, {
+                [field]: time.nextOccurrence(
+                  startISO,
+                  selectedTime.getHours(),
+                  selectedTime.getMinutes()
+                ),
+              });
+            }
+          }}
+        />
+      )}
+
+      {error && (
+        <CText variant="bodySmall" style={styles.errorText}>
+          {error}
+        </CText>
+      )}
+
+      <TouchableOpacity onPress={addWaking} style={styles.addButton}>
+        <CText variant="bodySmall" style={styles.addText}>
+          + Add Waking
+        </CText>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  waking: {
+    marginBottom: coddleTheme.spacing(2),
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: coddleTheme.spacing(2),
+  },
+  timeButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
+  timeText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  separator: {
+    color: coddleTheme.colors.textSecondary,
+  },
+  removeButton: {
+    marginLeft: 'auto',
+    padding: coddleTheme.spacing(1),
+  },
+  removeText: {
+    color: coddleTheme.colors.error,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(1),
+  },
+  reasonChip: {
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1),
+    paddingHorizontal: coddleTheme.spacing(2),
+  },
+  reasonChipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  reasonText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  reasonTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+  },
+  errorText: {
+    color: coddleTheme.colors.error,
+    marginBottom: coddleTheme.spacing(1),
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  addText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,130 @@
+/**
+ * Session Tags Modal Component
+ *
+ * Asks where and how the baby slept once the timer is stopped
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, View, TouchableOpacity, StyleSheet } from 'react-native';
+import { Card } from '../ui/Card';
+import { CText } from '../ui/CText';
+import { PrimaryButton } from '../ui/PrimaryButton';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { SleepSession, SleepLocation, SleepMethod } from '../../types';
+import { formatSessionTime, formatDurationFromISO } from '../../utils/formatters';
+import { SleepTagPicker } from './SleepTagPicker';
+
+interface SessionTagsModalProps {
+  visible: boolean;
+  session: SleepSession | null;
+  onClose: () => void;
+  onSave: (tags: { location?: SleepLocation; method?: SleepMethod }) => void;
+}
+
+export const SessionTagsModal: React.FC<SessionTagsModalProps> = ({
+  visible,
+  session,
+  onClose,
+  onSave,
+}) => {
+  const [location, setLocation] = useState<SleepLocation | undefined>(undefined);
+  const [method, setMethod] = useState<SleepMethod | undefined>(undefined);
+
+  useEffect(() => {
+    if (visible) {
+      setLocation(session?.location);
+      setMethod(session?.method);
+    }
+  }, [visible, session]);
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Card style={styles.card}>
+          <View style={styles.header}>
+            <CText variant="h3" style={styles.title}>
+              Where Did Baby Sleep?
+            </CText>
+            <TouchableOpacity onPress={onClose}>
+              <CText variant="h3" style={styles.closeButton}>×</CText>
+            </TouchableOpacity>
+          </View>
+
+          <CText variant="bodySmall" style={styles.detailText}>
+            {formatSessionTime(session.startISO, session.endISO)} ·{' '}
+            {formatDurationFromISO(session.startISO, session.endISO)}
+          </CText>
+
+          <SleepTagPicker
+            location={location}
+            method={method}
+            onLocationChange={setLocation}
+            onMethodChange={setMethod}
+          />
+
+          <View style={styles.modalButtons}>
+            <PrimaryButton
+              label="Skip"
+              onPress={onClose}
+              variant="secondary"
+              style={styles.modalButton}
+            />
+            <PrimaryButton
+              label="Save"
+              onPress={() => {
+                onSave({ location, method });
+                onClose();
+              }}
+              disabled={!location && !method}
+              variant="primary"
+              style={styles.modalButton}
+            />
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: coddleTheme.spacing(4),
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: coddleTheme.spacing(3),
+  },
+  title: {
+    flex: 1,
+  },
+  closeButton: {
+    color: coddleTheme.colors.textSecondary,
+    fontSize: 32,
+    lineHeight: 32,
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  modalButton: {
+    flex: 1,
+  },
+});
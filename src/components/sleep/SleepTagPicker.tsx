@@ -0,0 +1,115 @@
+/**
+ * Sleep Tag Picker Component
+ *
+ * Chip rows for where the baby slept and how they fell asleep. Tapping the
+ * selected chip clears it.
+ */
+
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet } from 'react-native';
+import { CText } from '../ui/CText';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { SleepLocation, SleepMethod } from '../../types';
+import {
+  SLEEP_LOCATIONS,
+  SLEEP_LOCATION_LABELS,
+  SLEEP_METHODS,
+  SLEEP_METHOD_LABELS,
+} from '../../services/sleepTags';
+
+interface SleepTagPickerProps {
+  location?: SleepLocation;
+  method?: SleepMethod;
+  onLocationChange: (location: SleepLocation | undefined) => void;
+  onMethodChange: (method: SleepMethod | undefined) => void;
+}
+
+interface ChipRowProps<T extends string> {
+  options: T[];
+  labels: Record<T, string>;
+  selected?: T;
+  onSelect: (value: T | undefined) => void;
+}
+
+function ChipRow<T extends string>({ options, labels, selected, onSelect }: ChipRowProps<T>) {
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipActive]}
+          onPress={() => onSelect(selected === option ? undefined : option)}
+        >
+          <CText
+            variant="bodySmall"
+            style={[styles.chipText, selected === option && styles.chipTextActive]}
+          >
+            {labels[option]}
+          </CText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+export const SleepTagPicker: React.FC<SleepTagPickerProps> = ({
+  location,
+  method,
+  onLocationChange,
+  onMethodChange,
+}) => {
+  return (
+    <View>
+      <CText variant="label" style={styles.label}>
+        Location (optional)
+      </CText>
+      <ChipRow
+        options={SLEEP_LOCATIONS}
+        labels={SLEEP_LOCATION_LABELS}
+        selected={location}
+        onSelect={onLocationChange}
+      />
+
+      <CText variant="label" style={styles.label}>
+        Fell Asleep (optional)
+      </CText>
+      <ChipRow
+        options={SLEEP_METHODS}
+        labels={SLEEP_METHOD_LABELS}
+        selected={method}
+        onSelect={onMethodChange}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    marginTop: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+  },
+  chip: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    paddingVertical: coddleTheme.spacing(1.5),
+    paddingHorizontal: coddleTheme.spacing(3),
+  },
+  chipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  chipText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  chipTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * Split Session Modal Component
+ *
+ * Modal for picking the time at which to cut a session in two
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, View, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Card } from '../ui/Card';
+import { CText } from '../ui/CText';
+import { PrimaryButton } from '../ui/PrimaryButton';
+import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
+import { SleepSession } from '../../types';
+import { formatSessionTime, formatDurationFromISO } from '../../utils/formatters';
+
+interface SplitSessionModalProps {
+  visible: boolean;
+  session: SleepSession | null;
+  onClose: () => void;
+  onSplit: (atISO: string) => void;
+}
+
+// Midpoint of the session, rounded down to the minute
+function getDefaultSplitDate(session: SleepSession): Date {
+  const startMs = time.parse(session.startISO).valueOf();
+  const endMs = time.parse(session.endISO).valueOf();
+  const date = new Date((startMs + endMs) / 2);
+  date.setSeconds(0, 0);
+  return date;
+}
+
+export const SplitSessionModal: React.FC<SplitSessionModalProps> = ({
+  visible,
+  session,
+  onClose,
+  onSplit,
+}) => {
+  const [splitDate, setSplitDate] = useState(new Date());
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  useEffect(() => {
+    if (visible && session) {
+      setSplitDate(getDefaultSplitDate(session));
+    }
+  }, [visible, session]);
+
+  if (!session) {
+    return null;
+  }
+
+  const splitISO = splitDate.toISOString();
+  const isInside =
+    time.parse(splitISO).isAfter(time.parse(session.startISO)) &&
+    time.parse(splitISO).isBefore(time.parse(session.endISO));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Card style={styles.card}>
+          <View style={styles.header}>
+            <CText variant="h3" style={styles.title}>
+              Split Session
+            </CText>
+            <TouchableOpacity onPress={onClose}>
+              <CText variant="h3" style={styles.closeButton}>×</CText>
+            </TouchableOpacity>
+          </View>
+
+          <CText variant="bodySmall" style={styles.detailText}>
+            {formatSessionTime(session.startISO, session.endISO)} ·{' '}
+            {formatDurationFromISO(session.startISO, session.endISO)}
+          </CText>
+
+          <CText variant="label" style={styles.inputLabel}>
+            Split At
+          </CText>
+          <TouchableOpacity style={styles.timeButton} onPress={() => setShowTimePicker(true)}>
+            <CText variant="body" style={styles.timeText}>
+              🕐 {splitDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </CText>
+          </TouchableOpacity>
+
+          {showTimePicker && (
+            <DateTimePicker
+              value={splitDate}
+              mode="time"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedTime) => {
+                setShowTimePicker(Platform.OS === 'ios');
+                if (selectedTime) {
+                  const splitAtISO = time.nextOccurrence(
+                    session.startISO,
+                    selectedTime.getHours(),
+                    selectedTime.getMinutes()
+                  );
+                  setSplitDate(new Date(splitAtISO));
+                }
+              }}
+            />
+          )}
+
+          {isInside && (
+            <CText variant="bodySmall" style={styles.detailText}>
+              {formatDurationFromISO(session.startISO, splitISO)} then{' '}
+              {formatDurationFromISO(splitISO, session.endISO)}
+            </CText>
+          )}
+
+          <View style={styles.modalButtons}>
+            <PrimaryButton
+              label="Cancel"
+              onPress={onClose}
+              variant="secondary"
+              style={styles.modalButton}
+            />
+            <PrimaryButton
+              label="Split"
+              onPress={() => {
+                onSplit(splitISO);
+                onClose();
+              }}
+              disabled={!isInside}
+              variant="primary"
+              style={styles.modalButton}
+            />
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: coddleTheme.spacing(4),
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: coddleTheme.spacing(3),
+  },
+  title: {
+    flex: 1,
+  },
+  closeButton: {
+    color: coddleTheme.colors.textSecondary,
+    fontSize: 32,
+    lineHeight: 32,
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(3),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  timeButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    alignItems: 'center',
+  },
+  timeText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  modalButton: {
+    flex: 1,
+  },
+});
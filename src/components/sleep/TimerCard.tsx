@@ -1,55 +1,94 @@
 /**
  * Timer Card Component
  * 
- * Displays sleep timer with start/stop functionality
+ * Displays sleep timer with start/stop functionality. The timer can start
+ * when the baby is put down ("In Crib") and then mark when they fell asleep.
  */
 
 import React from 'react';
-import { StyleSheet } from 'react-native';
+import { View, StyleSheet } from 'react-native';
 import { Card } from '../ui/Card';
 import { CText } from '../ui/CText';
 import { PrimaryButton } from '../ui/PrimaryButton';
-import { formatDurationFromSeconds } from '../../utils/formatters';
+import { formatDurationFromSeconds, formatDurationFromMinutes } from '../../utils/formatters';
 import { coddleTheme } from '../../theme/coddleTheme';
+import { time } from '../../utils/time';
 
 interface TimerCardProps {
   isRunning: boolean;
+  // Seconds asleep while running, or seconds since put-down while settling
   elapsedSeconds: number;
+  // Set once the baby is put down, before and after they fall asleep
+  putDownISO?: string | null;
+  // Asleep when running; otherwise the timer starts as soon as the baby sleeps
+  startISO?: string | null;
+  onPutDown: () => void;
   onStart: () => void;
   onStop: () => void;
+  onCancel: () => void;
 }
 
 export const TimerCard: React.FC<TimerCardProps> = ({
   isRunning,
   elapsedSeconds,
+  putDownISO = null,
+  startISO = null,
+  onPutDown,
   onStart,
   onStop,
+  onCancel,
 }) => {
+  const isSettling = !isRunning && putDownISO !== null;
+
+  if (isRunning) {
+    return (
+      <Card style={styles.card}>
+        <CText variant="label" style={styles.label}>
+          Sleep Timer Running
+        </CText>
+        <CText variant="h1" style={styles.display}>
+          {formatDurationFromSeconds(elapsedSeconds)}
+        </CText>
+        {putDownISO && startISO && (
+          <CText variant="bodySmall" style={styles.detailText}>
+            Fell asleep after{' '}
+            {formatDurationFromMinutes(time.durationMinutes(putDownISO, startISO))}
+          </CText>
+        )}
+        <PrimaryButton
+          label="Stop Timer"
+          onPress={onStop}
+          variant="primary"
+          style={styles.button}
+        />
+      </Card>
+    );
+  }
+
   return (
     <Card style={styles.card}>
       <CText variant="label" style={styles.label}>
-        {isRunning ? 'Sleep Timer Running' : 'Start Sleep Timer'}
+        {isSettling ? 'Settling in Crib' : 'Start Sleep Timer'}
       </CText>
-      {isRunning ? (
-        <>
-          <CText variant="h1" style={styles.display}>
-            {formatDurationFromSeconds(elapsedSeconds)}
-          </CText>
-          <PrimaryButton
-            label="Stop Timer"
-            onPress={onStop}
-            variant="primary"
-            style={styles.button}
-          />
-        </>
-      ) : (
+      {isSettling && (
+        <CText variant="h1" style={styles.display}>
+          {formatDurationFromSeconds(elapsedSeconds)}
+        </CText>
+      )}
+      <View style={styles.buttons}>
         <PrimaryButton
-          label="Start Timer"
+          label={isSettling ? 'Cancel' : 'In Crib'}
+          onPress={isSettling ? onCancel : onPutDown}
+          variant="secondary"
+          style={styles.buttonFlex}
+        />
+        <PrimaryButton
+          label="Asleep"
           onPress={onStart}
           variant="primary"
-          style={styles.button}
+          style={styles.buttonFlex}
         />
-      )}
+      </View>
     </Card>
   );
 };
@@ -70,8 +109,20 @@ const styles = StyleSheet.create({
     marginBottom: coddleTheme.spacing(3),
     fontFamily: 'monospace',
   },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: -coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(3),
+  },
   button: {
     width: '100%',
   },
+  buttons: {
+    flexDirection: 'row',
+    width: '100%',
+    gap: coddleTheme.spacing(2),
+  },
+  buttonFlex: {
+    flex: 1,
+  },
 });
-
@@ -1,3 +1,10 @@
 export { TimerCard } from './TimerCard';
 export { ManualEntryModal } from './ManualEntryModal';
-
+export { SplitSessionModal } from './SplitSessionModal';
+export { NightWakingEditor } from './NightWakingEditor';
+export { FeedingQuickLog } from './FeedingQuickLog';
+export { SleepTagPicker } from './SleepTagPicker';
+export { SessionTagsModal } from './SessionTagsModal';
+export { DisruptionModal } from './DisruptionModal';
+export { CsvExportModal } from './CsvExportModal';
+export type { ManualEntryData } from './ManualEntryModal';
@@ -3,7 +3,8 @@ import { View, StyleSheet, FlatList, ListRenderItem } from 'react-native';
 import { CText } from '../ui/CText';
 import { SessionCard } from '../common/SessionCard';
 import { EmptyState } from '../common/EmptyState';
-import { SleepSession } from '../../types';
+import { Caregiver, SleepSession } from '../../types';
+import { describeAttribution } from '../../services/caregivers';
 import { coddleTheme } from '../../theme/coddleTheme';
 
 interface SessionListProps {
@@ -11,6 +12,9 @@ interface SessionListProps {
   highlightSessionIds?: string[];
   onSessionPress?: (session: SleepSession) => void;
   onSessionDelete?: (sessionId: string) => void;
+  onSessionEdit?: (session: SleepSession) => void;
+  // Shows who logged each session when given
+  caregivers?: Caregiver[];
 }
 
 interface SessionItem {
@@ -23,6 +27,8 @@ const SessionListComponent: React.FC<SessionListProps> = ({
   highlightSessionIds = [],
   onSessionPress,
   onSessionDelete,
+  onSessionEdit,
+  caregivers,
 }) => {
 
   const highlightSet = useMemo(() => {
@@ -45,11 +51,13 @@ const SessionListComponent: React.FC<SessionListProps> = ({
           session={item.session}
           onPress={onSessionPress}
           onDelete={onSessionDelete}
+          onEdit={onSessionEdit}
           highlighted={item.isHighlighted}
+          attribution={caregivers ? describeAttribution(item.session, caregivers) : null}
         />
       );
     },
-    [onSessionPress, onSessionDelete]
+    [onSessionPress, onSessionDelete, onSessionEdit, caregivers]
   );
 
 
@@ -107,10 +115,13 @@ export const SessionList = React.memo(SessionListComponent, (prevProps, nextProp
  
   if (prevProps.sessions.length !== nextProps.sessions.length) return false;
   if (prevProps.highlightSessionIds?.length !== nextProps.highlightSessionIds?.length) return false;
+  if (prevProps.caregivers !== nextProps.caregivers) return false;
+  if (prevProps.onSessionEdit !== nextProps.onSessionEdit) return false;
   
 
-  const prevIds = prevProps.sessions.map(s => s.id).join(',');
-  const nextIds = nextProps.sessions.map(s => s.id).join(',');
+  // Edits keep the id, so the edit time is compared too
+  const prevIds = prevProps.sessions.map(s => `${s.id}@${s.updatedAtISO}`).join(',');
+  const nextIds = nextProps.sessions.map(s => `${s.id}@${s.updatedAtISO}`).join(',');
   if (prevIds !== nextIds) return false;
   
   return true;
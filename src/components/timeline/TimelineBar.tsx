@@ -2,7 +2,7 @@ import React from 'react';
 import { View, TouchableOpacity, StyleSheet } from 'react-native';
 import { CText } from '../ui/CText';
 import { coddleTheme } from '../../theme/coddleTheme';
-import { SleepSession } from '../../types';
+import { SleepSession, NightWaking, FeedingSession } from '../../types';
 import { time } from '../../utils/time';
 import { formatHourLabel } from '../../utils/formatters';
 
@@ -20,6 +20,43 @@ interface TimelineBarProps {
   onSessionPress: (session: TimelineSession) => void;
   getSessionColor: (session: TimelineSession) => string;
   getQualityColor: (quality?: number) => string;
+  // Drawn as markers under the sleep blocks
+  feedings?: FeedingSession[];
+}
+
+const MINUTES_IN_DAY = 24 * 60;
+
+// Position of a waking on the selected day, measured in wall-clock minutes
+// like the session blocks; null if it falls outside the day
+function getWakingGap(
+  waking: NightWaking,
+  selectedDate: string
+): { leftPercent: number; widthPercent: number } | null {
+  const dayStart = time.parse(selectedDate + 'T00:00:00');
+  const dayEnd = dayStart.add(1, 'day');
+  const wakingStart = time.parse(waking.startISO);
+  const wakingEnd = time.parse(waking.endISO);
+  const start = wakingStart.isBefore(dayStart) ? dayStart : wakingStart;
+  const end = wakingEnd.isAfter(dayEnd) ? dayEnd : wakingEnd;
+  if (!end.isAfter(start)) {
+    return null;
+  }
+
+  const startMinutes = start.hour() * 60 + start.minute();
+  const endMinutes = end.isSame(dayEnd) ? MINUTES_IN_DAY : end.hour() * 60 + end.minute();
+  return {
+    leftPercent: (startMinutes / MINUTES_IN_DAY) * 100,
+    widthPercent: ((endMinutes - startMinutes) / MINUTES_IN_DAY) * 100,
+  };
+}
+
+// Position of a feed's start on the selected day; null on other days
+function getFeedingPercent(feeding: FeedingSession, selectedDate: string): number | null {
+  const start = time.parse(feeding.startISO);
+  if (time.dayKey(feeding.startISO) !== selectedDate) {
+    return null;
+  }
+  return ((start.hour() * 60 + start.minute()) / MINUTES_IN_DAY) * 100;
 }
 
 const TimelineBarComponent: React.FC<TimelineBarProps> = ({
@@ -28,6 +65,7 @@ const TimelineBarComponent: React.FC<TimelineBarProps> = ({
   onSessionPress,
   getSessionColor,
   getQualityColor,
+  feedings = [],
 }) => {
   const isToday = selectedDate === time.dayKey(time.nowISO());
   const hourMarkers: React.ReactElement[] = [];
@@ -87,6 +125,34 @@ const TimelineBarComponent: React.FC<TimelineBarProps> = ({
           />
         );
       })}
+
+      {/* Wakings are drawn as gaps in the sleep they interrupt */}
+      {sessions.flatMap((session) =>
+        (session.wakings ?? []).map((waking) => {
+          const gap = getWakingGap(waking, selectedDate);
+          return gap ? (
+            <View
+              key={`${session.id}_${waking.startISO}`}
+              pointerEvents="none"
+              style={[
+                styles.wakingGap,
+                { left: `${gap.leftPercent}%`, width: `${gap.widthPercent}%` },
+              ]}
+            />
+          ) : null;
+        })
+      )}
+
+      {feedings.map((feeding) => {
+        const leftPercent = getFeedingPercent(feeding, selectedDate);
+        return leftPercent === null ? null : (
+          <View
+            key={feeding.id}
+            pointerEvents="none"
+            style={[styles.feedingMarker, { left: `${leftPercent}%` }]}
+          />
+        );
+      })}
       
     
       {isToday && (
@@ -146,6 +212,23 @@ const styles = StyleSheet.create({
     borderTopWidth: 3,
     opacity: 0.8,
   },
+  wakingGap: {
+    position: 'absolute',
+    top: 0,
+    height: 40,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  feedingMarker: {
+    position: 'absolute',
+    top: 30,
+    width: 8,
+    height: 8,
+    marginLeft: -4,
+    borderRadius: 4,
+    backgroundColor: coddleTheme.colors.accentMint,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.surface,
+  },
   currentTimeIndicator: {
     position: 'absolute',
     top: 0,
@@ -175,9 +258,14 @@ export const TimelineBar = React.memo(TimelineBarComponent, (prevProps, nextProp
   if (prevProps.onSessionPress !== nextProps.onSessionPress) return false;
   
 
-  const prevIds = prevProps.sessions.map(s => s.id).join(',');
-  const nextIds = nextProps.sessions.map(s => s.id).join(',');
+  // Edits keep the id, so the edit time is compared too
+  const prevIds = prevProps.sessions.map(s => `${s.id}@${s.updatedAtISO}`).join(',');
+  const nextIds = nextProps.sessions.map(s => `${s.id}@${s.updatedAtISO}`).join(',');
   if (prevIds !== nextIds) return false;
+
+  const prevFeedings = (prevProps.feedings ?? []).map((f) => f.id).join(',');
+  const nextFeedings = (nextProps.feedings ?? []).map((f) => f.id).join(',');
+  if (prevFeedings !== nextFeedings) return false;
   
   return true;
 });
@@ -2,6 +2,21 @@ export const EWMA_ALPHA = 0.3;
 export const MIN_SESSIONS_FOR_LEARNING = 3;
 export const MAX_SESSION_AGE_DAYS = 30;
 
+export const COMPACTION_CONFIG = {
+  // Deleted sessions are kept this long so other caregivers' phones hear about the delete
+  tombstoneRetentionDays: 90,
+  // Whole months older than this move out of the live session list into archives
+  archiveAfterMonths: 3,
+};
+export const SPLIT_MERGE_CONFIG = {
+  // Sessions closer together than this can be merged; the gap is kept as a waking
+  maxMergeGapMin: 30,
+  // Neither part of a split session may be shorter than this
+  minSplitPartMin: 5,
+};
+// Corrected (adjusted) age is used for premature babies until this chronological age
+export const CORRECTED_AGE_CUTOFF_MONTHS = 24;
+
 export const CONFIDENCE_PARAMS = {
   minSessions: 5, 
   recencyWeight: 0.4,
@@ -26,7 +41,36 @@ export const STORAGE_KEYS = {
   sessions: 'sleepSessions_v1',
   learner: 'learnerState_v1',
   notificationHistory: 'notificationHistory_v1',
+  profiles: 'babyProfiles_v1',
+  activeProfileId: 'activeProfileId_v1',
+  legacyProfile: 'babyProfile_v1',
   schemaVersion: 'schema_version',
+  // Pre-migration snapshot, suffixed with the version it was taken from
+  schemaBackup: 'schema_backup',
+  // Raw payloads that failed to parse, kept for recovery and export
+  quarantine: 'quarantine_v1',
+  // Set once data from the previous storage backend has been copied over
+  storageAdopted: 'storage_adopted',
+  // Per-child sync cursor and push watermark
+  syncState: 'syncState_v1',
+  // Sync endpoint, family token and this device's id
+  syncConfig: 'syncConfig_v1',
+  // Old sessions, one bucket per child and month: `<key>:<babyId>:<YYYY-MM>`
+  sessionArchive: 'sessionArchive_v1',
+  caregivers: 'caregivers_v1',
+  // Caregiver using this phone; new sessions are attributed to them
+  activeCaregiverId: 'activeCaregiverId_v1',
+  feedings: 'feedings_v1',
+  disruptions: 'disruptions_v1',
+};
+
+export const SESSION_KIND_CONFIG = {
+  // Sleep starting between these hours is a nap; 18:00 matches the earliest
+  // bedtime the scheduler plans for
+  dayStartHour: 6,
+  nightStartHour: 18,
+  // Sleep at least this long is night sleep whenever it starts
+  minNightSleepMin: 240,
 };
 
 export const COACH_THRESHOLDS = {
@@ -36,6 +80,36 @@ export const COACH_THRESHOLDS = {
   shortNapStreakCount: 3,
 };
 
+export const FEEDING_CONFIG = {
+  maxBreastFeedMin: 90,
+  maxBottleMl: 500,
+  // Feeds ending this long before a sleep are not linked to it
+  maxFeedToSleepMin: 180,
+  // Sleep starting this soon after a feed ends counts as feeding to sleep
+  feedToSleepMin: 5,
+  // Share of recent sleeps, out of at least minSleeps, that trigger the tip
+  feedToSleepShare: 0.7,
+  feedToSleepMinSleeps: 5,
+};
+
+export const ONSET_LATENCY_CONFIG = {
+  // Longer gaps between put-down and sleep are treated as logging mistakes
+  maxOnsetLatencyMin: 120,
+  // Recent days are compared with the days before them, up to previousDays
+  recentDays: 3,
+  previousDays: 14,
+  minSamples: 3,
+  // Rise in the average, and the recent average, that trigger the coach tip
+  risingByMin: 10,
+  longOnsetLatencyMin: 20,
+  wakeWindowStepMin: 15,
+};
+
+export const DISRUPTION_CONFIG = {
+  // Longest episode that can be entered
+  maxEpisodeDays: 60,
+};
+
 export const CHART_CONFIG = {
   daysToShow: 7,
   maxItemsToDisplay: 20,
@@ -1,88 +1,109 @@
 import { useMemo } from 'react';
 import { SleepSession } from '../types';
 import { time } from '../utils/time';
-
-function isNap(session: SleepSession): boolean {
-  const duration = time.durationMinutes(session.startISO, session.endISO);
-  const startHour = time.parse(session.startISO).hour();
-  // Nap: shorter duration (<4 hours) and starts during daytime (6 AM - 6 PM)
-  return duration < 240 && startHour >= 6 && startHour < 18;
-}
+import { isNapSession } from '../services/sessionClassification';
+import { getNapLengthByLocation } from '../services/sleepTags';
 
 export interface ChartData {
   labels: string[];
   datasets: Array<{ data: number[] }>;
 }
 
-export function useNapLengthChartData(sessions: SleepSession[]): ChartData {
-  return useMemo(() => {
-    // Group sessions by date
-    const sessionsByDate: Record<string, SleepSession[]> = {};
-    
-    sessions.forEach((session) => {
-      const dateKey = time.dayKey(session.startISO);
-      if (!sessionsByDate[dateKey]) {
-        sessionsByDate[dateKey] = [];
-      }
-      sessionsByDate[dateKey].push(session);
-    });
-
-    // Calculate average nap length per day
-    const labels: string[] = [];
-    const data: number[] = [];
-    const sortedDates = Object.keys(sessionsByDate).sort().slice(-7); // Last 7 days
-
-    sortedDates.forEach((dateKey) => {
-      const daySessions = sessionsByDate[dateKey];
-      const naps = daySessions.filter(isNap);
-      
-      if (naps.length > 0) {
-        const totalNapMinutes = naps.reduce((sum, nap) => {
-          return sum + time.durationMinutes(nap.startISO, nap.endISO);
-        }, 0);
-        const avgNapMinutes = totalNapMinutes / naps.length;
-        labels.push(time.parse(dateKey + 'T00:00:00').format('MMM D'));
-        data.push(Math.round(avgNapMinutes));
-      } else {
-        labels.push(time.parse(dateKey + 'T00:00:00').format('MMM D'));
-        data.push(0);
-      }
-    });
-
-    return { labels, datasets: [{ data }] };
-  }, [sessions]);
+function groupSessionsByDate(sessions: SleepSession[]): Record<string, SleepSession[]> {
+  const sessionsByDate: Record<string, SleepSession[]> = {};
+
+  sessions.forEach((session) => {
+    const dateKey = time.dayKey(session.startISO);
+    if (!sessionsByDate[dateKey]) {
+      sessionsByDate[dateKey] = [];
+    }
+    sessionsByDate[dateKey].push(session);
+  });
+
+  return sessionsByDate;
 }
 
-export function useDaytimeSleepChartData(sessions: SleepSession[]): ChartData {
-  return useMemo(() => {
-    // Group sessions by date
-    const sessionsByDate: Record<string, SleepSession[]> = {};
-    
-    sessions.forEach((session) => {
-      const dateKey = time.dayKey(session.startISO);
-      if (!sessionsByDate[dateKey]) {
-        sessionsByDate[dateKey] = [];
-      }
-      sessionsByDate[dateKey].push(session);
-    });
-
-    // Calculate total daytime sleep per day (naps only)
-    const labels: string[] = [];
-    const data: number[] = [];
-    const sortedDates = Object.keys(sessionsByDate).sort().slice(-7); // Last 7 days
-
-    sortedDates.forEach((dateKey) => {
-      const daySessions = sessionsByDate[dateKey];
-      const naps = daySessions.filter(isNap);
-      
-      const totalDaytimeSleepMinutes = naps.reduce((sum, nap) => {
+/**
+ * Average nap length per logged day, for the most recent `dayCount` days
+ * that have sessions. Plain function so the sleep report can share it.
+ */
+export function getNapLengthChartData(sessions: SleepSession[], dayCount: number = 7): ChartData {
+  const sessionsByDate = groupSessionsByDate(sessions);
+
+  // Calculate average nap length per day
+  const labels: string[] = [];
+  const data: number[] = [];
+  const sortedDates = Object.keys(sessionsByDate).sort().slice(-dayCount);
+
+  sortedDates.forEach((dateKey) => {
+    const daySessions = sessionsByDate[dateKey];
+    const naps = daySessions.filter(isNapSession);
+
+    if (naps.length > 0) {
+      const totalNapMinutes = naps.reduce((sum, nap) => {
         return sum + time.durationMinutes(nap.startISO, nap.endISO);
       }, 0);
+      const avgNapMinutes = totalNapMinutes / naps.length;
+      labels.push(time.parse(dateKey + 'T00:00:00').format('MMM D'));
+      data.push(Math.round(avgNapMinutes));
+    } else {
       labels.push(time.parse(dateKey + 'T00:00:00').format('MMM D'));
-      data.push(Math.round(totalDaytimeSleepMinutes));
-    });
+      data.push(0);
+    }
+  });
 
-    return { labels, datasets: [{ data }] };
-  }, [sessions]);
+  return { labels, datasets: [{ data }] };
 }
 
+/**
+ * Total nap minutes per logged day, for the most recent `dayCount` days
+ * that have sessions.
+ */
+export function getDaytimeSleepChartData(sessions: SleepSession[], dayCount: number = 7): ChartData {
+  const sessionsByDate = groupSessionsByDate(sessions);
+
+  // Calculate total daytime sleep per day (naps only)
+  const labels: string[] = [];
+  const data: number[] = [];
+  const sortedDates = Object.keys(sessionsByDate).sort().slice(-dayCount);
+
+  sortedDates.forEach((dateKey) => {
+    const daySessions = sessionsByDate[dateKey];
+    const naps = daySessions.filter(isNapSession);
+
+    const totalDaytimeSleepMinutes = naps.reduce((sum, nap) => {
+      return sum + time.durationMinutes(nap.startISO, nap.endISO);
+    }, 0);
+    labels.push(time.parse(dateKey + 'T00:00:00').format('MMM D'));
+    data.push(Math.round(totalDaytimeSleepMinutes));
+  });
+
+  return { labels, datasets: [{ data }] };
+}
+
+/**
+ * Average nap length for each sleep location that has naps. Empty until at
+ * least one nap has a location.
+ */
+export function getNapLengthByLocationChartData(sessions: SleepSession[]): ChartData {
+  const rows = getNapLengthByLocation(sessions);
+  if (!rows.some((row) => row.location !== null)) {
+    return { labels: [], datasets: [{ data: [] }] };
+  }
+  return {
+    labels: rows.map((row) => row.label),
+    datasets: [{ data: rows.map((row) => Math.round(row.avgMinutes)) }],
+  };
+}
+
+export function useNapLengthChartData(sessions: SleepSession[]): ChartData {
+  return useMemo(() => getNapLengthChartData(sessions), [sessions]);
+}
+
+export function useDaytimeSleepChartData(sessions: SleepSession[]): ChartData {
+  return useMemo(() => getDaytimeSleepChartData(sessions), [sessions]);
+}
+
+export function useNapLengthByLocationChartData(sessions: SleepSession[]): ChartData {
+  return useMemo(() => getNapLengthByLocationChartData(sessions), [sessions]);
+}
@@ -8,30 +8,28 @@ import { useEffect } from 'react';
 import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
 import { useLearnerStore } from '../stores/learnerStore';
 import { useScheduleStore } from '../stores/scheduleStore';
-import { TEST_BABY_PROFILE } from '../utils/testScheduler';
+import { useProfileStore } from '../stores/profileStore';
 
 
 export function useStoreSync() {
   const sessions = useSleepSessionsStore((state) => state.sessions);
   const learnerState = useLearnerStore((state) => state.learnerState);
-  const babyProfile = useLearnerStore((state) => state.babyProfile);
+  const babyProfile = useProfileStore((state) => state.profile);
   const updateLearnerState = useLearnerStore((state) => state.updateLearnerState);
   const generateSchedule = useScheduleStore((state) => state.generateSchedule);
 
   useEffect(() => {
     const activeSessions = sessions.filter((s) => !s.deleted);
-    if (activeSessions.length > 0) {
-      const profile = babyProfile || TEST_BABY_PROFILE;
-      updateLearnerState(profile);
+    if (activeSessions.length > 0 && babyProfile) {
+      updateLearnerState(babyProfile);
     }
   }, [sessions, babyProfile, updateLearnerState]);
 
   
   useEffect(() => {
     const activeSessions = sessions.filter((s) => !s.deleted);
-    if (activeSessions.length > 0) {
-      const profile = babyProfile || TEST_BABY_PROFILE;
-      generateSchedule(profile);
+    if (activeSessions.length > 0 && babyProfile) {
+      generateSchedule(babyProfile);
     }
   }, [learnerState, sessions, babyProfile, generateSchedule]);
 }
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { SafeAreaView, StyleSheet, View, ScrollView, Alert } from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { useProfileStore } from '../stores/profileStore';
+import {
+  createBackup,
+  getBackupFileName,
+  parseBackup,
+  restoreBackup,
+  RestoreReport,
+} from '../services/backup';
+import { shareTextFile, pickTextFile } from '../services/fileShare';
+
+interface BackupScreenProps {
+  onNavigateToImport?: () => void;
+}
+
+export const BackupScreen: React.FC<BackupScreenProps> = ({ onNavigateToImport }) => {
+  const profiles = useProfileStore((state) => state.profiles);
+  const reloadAll = useProfileStore((state) => state.reloadAll);
+  const [isWorking, setIsWorking] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const getProfileName = (babyId: string): string =>
+    profiles.find((p) => p.id === babyId)?.name ?? 'Unknown child';
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const backup = await createBackup();
+      await shareTextFile(getBackupFileName(), JSON.stringify(backup, null, 2), 'Coddle backup');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runRestore = async (contents: string) => {
+    setIsWorking(true);
+    try {
+      const result = await restoreBackup(parseBackup(contents));
+      await reloadAll();
+      setReport(result);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      const file = await pickTextFile(['application/json', 'text/plain']);
+      if (!file) return;
+
+      const parsed = parseBackup(file.contents);
+      if (!parsed.backup) {
+        Alert.alert('Cannot Restore', parsed.error || 'Invalid backup');
+        return;
+      }
+
+      const sessionCount = Object.values(parsed.backup.children).reduce(
+        (sum, child) => sum + child.sessions.length,
+        0
+      );
+      const rejectedNote =
+        parsed.rejected.length > 0 ? ` ${parsed.rejected.length} invalid rows will be skipped.` : '';
+
+      Alert.alert(
+        'Restore Backup',
+        `Merge ${sessionCount} sessions for ${parsed.backup.profiles.length} ` +
+          `${parsed.backup.profiles.length === 1 ? 'child' : 'children'} into this device? ` +
+          `Newer edits on this device are kept.${rejectedNote}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Restore', onPress: () => runRestore(file.contents) },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', 'Failed to read backup file');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Backup & Restore</CText>
+          <CText variant="bodySmall">
+            Save everything to a file, or bring your history over from another phone
+          </CText>
+        </View>
+
+        <Card style={styles.card}>
+          <CText variant="h3">Export</CText>
+          <CText variant="bodySmall" style={styles.detailText}>
+            Includes every profile, sleep session, learned pattern and reminder history.
+          </CText>
+          <PrimaryButton
+            label={isWorking ? 'Working...' : 'Export Backup'}
+            onPress={handleExport}
+            disabled={isWorking}
+            style={styles.actionButton}
+          />
+        </Card>
+
+        <Card style={styles.card}>
+          <CText variant="h3">Restore</CText>
+          <CText variant="bodySmall" style={styles.detailText}>
+            Sessions are merged by id. Nothing on this device is deleted.
+          </CText>
+          <PrimaryButton
+            label="Restore From File"
+            variant="secondary"
+            onPress={handleRestore}
+            disabled={isWorking}
+            style={styles.actionButton}
+          />
+        </Card>
+
+        {onNavigateToImport && (
+          <Card style={styles.card}>
+            <CText variant="h3">Import From Another App</CText>
+            <CText variant="bodySmall" style={styles.detailText}>
+              Add sleep history from another tracker's CSV export. You can review it first.
+            </CText>
+            <PrimaryButton
+              label="Import CSV"
+              variant="secondary"
+              onPress={onNavigateToImport}
+              disabled={isWorking}
+              style={styles.actionButton}
+            />
+          </Card>
+        )}
+
+        {report && (
+          <Card style={styles.card}>
+            <CText variant="h3">Restore Complete</CText>
+            <CText variant="bodySmall" style={styles.detailText}>
+              {report.profilesAdded} profiles added · {report.caregiversAdded} caregivers added ·{' '}
+              {report.sessionsAdded} sessions added ·{' '}
+              {report.sessionsUpdated} updated · {report.sessionsUnchanged} already up to date
+            </CText>
+            {report.rejected.length > 0 && (
+              <>
+                <CText variant="label" style={styles.rejectedTitle}>
+                  Skipped {report.rejected.length} invalid rows
+                </CText>
+                {report.rejected.slice(0, 20).map((row) => (
+                  <CText
+                    key={`${row.babyId}-${row.kind ?? 'session'}-${row.index}`}
+                    variant="bodySmall"
+                    style={styles.rejectedText}
+                  >
+                    {getProfileName(row.babyId)} · {row.kind ?? 'row'} {row.index + 1}
+                    {row.id ? ` (${row.id})` : ''}: {row.reason}
+                  </CText>
+                ))}
+              </>
+            )}
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  actionButton: {
+    marginTop: coddleTheme.spacing(3),
+  },
+  rejectedTitle: {
+    marginTop: coddleTheme.spacing(3),
+    color: coddleTheme.colors.error,
+  },
+  rejectedText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+});
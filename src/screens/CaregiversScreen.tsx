@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SafeAreaView,
+  StyleSheet,
+  View,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { Caregiver, CaregiverRole } from '../types';
+import { useCaregiverStore } from '../stores/caregiverStore';
+import { CAREGIVER_ROLE_LABELS } from '../services/caregivers';
+
+const ROLES = Object.keys(CAREGIVER_ROLE_LABELS) as CaregiverRole[];
+
+export const CaregiversScreen = () => {
+  const caregivers = useCaregiverStore((state) => state.caregivers);
+  const activeCaregiverId = useCaregiverStore((state) => state.activeCaregiverId);
+  const error = useCaregiverStore((state) => state.error);
+  const loadCaregivers = useCaregiverStore((state) => state.loadCaregivers);
+  const addCaregiver = useCaregiverStore((state) => state.addCaregiver);
+  const updateCaregiver = useCaregiverStore((state) => state.updateCaregiver);
+  const removeCaregiver = useCaregiverStore((state) => state.removeCaregiver);
+  const setActiveCaregiver = useCaregiverStore((state) => state.setActiveCaregiver);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<CaregiverRole>('parent');
+
+  useEffect(() => {
+    loadCaregivers();
+  }, [loadCaregivers]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setRole('parent');
+  };
+
+  const handleEdit = (caregiver: Caregiver) => {
+    setEditingId(caregiver.id);
+    setName(caregiver.name);
+    setRole(caregiver.role);
+  };
+
+  const handleSave = async () => {
+    if (editingId) {
+      await updateCaregiver(editingId, { name, role });
+    } else {
+      await addCaregiver({ name, role });
+    }
+    if (!useCaregiverStore.getState().error) {
+      resetForm();
+    }
+  };
+
+  const handleRemove = (caregiver: Caregiver) => {
+    Alert.alert(
+      'Remove Caregiver',
+      `Sessions ${caregiver.name} logged stay in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await removeCaregiver(caregiver.id);
+            if (editingId === caregiver.id) {
+              resetForm();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Caregivers</CText>
+          <CText variant="bodySmall">
+            Sessions logged on this phone are credited to the caregiver marked as you
+          </CText>
+        </View>
+
+        {caregivers.map((caregiver) => {
+          const isActive = caregiver.id === activeCaregiverId;
+          return (
+            <Card key={caregiver.id} style={styles.card}>
+              <View style={styles.caregiverRow}>
+                <View style={styles.caregiverInfo}>
+                  <CText variant="label">{caregiver.name}</CText>
+                  <CText variant="bodySmall" style={styles.detailText}>
+                    {CAREGIVER_ROLE_LABELS[caregiver.role]}
+                  </CText>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setActiveCaregiver(isActive ? null : caregiver.id)}
+                  activeOpacity={0.7}
+                >
+                  <CText variant="bodySmall" style={styles.toggleText}>
+                    {isActive ? '☑' : '☐'} This is me
+                  </CText>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.rowActions}>
+                <TouchableOpacity onPress={() => handleEdit(caregiver)} activeOpacity={0.7}>
+                  <CText variant="bodySmall" style={styles.linkText}>
+                    Edit
+                  </CText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRemove(caregiver)} activeOpacity={0.7}>
+                  <CText variant="bodySmall" style={styles.removeText}>
+                    Remove
+                  </CText>
+                </TouchableOpacity>
+              </View>
+            </Card>
+          );
+        })}
+
+        <Card style={styles.card}>
+          <CText variant="h3">{editingId ? 'Edit Caregiver' : 'Add Caregiver'}</CText>
+
+          <CText variant="label" style={styles.inputLabel}>
+            Name
+          </CText>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Grandma, Daycare"
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+          />
+
+          <CText variant="label" style={styles.inputLabel}>
+            Role
+          </CText>
+          <View style={styles.roleRow}>
+            {ROLES.map((option) => {
+              const isSelected = option === role;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setRole(option)}
+                  style={[styles.roleChip, isSelected && styles.roleChipActive]}
+                  activeOpacity={0.7}
+                >
+                  <CText
+                    variant="bodySmall"
+                    style={[styles.roleText, isSelected && styles.roleTextActive]}
+                  >
+                    {CAREGIVER_ROLE_LABELS[option]}
+                  </CText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {error && (
+            <CText variant="bodySmall" style={styles.errorText}>
+              {error}
+            </CText>
+          )}
+
+          <View style={styles.actions}>
+            <PrimaryButton
+              label={editingId ? 'Save' : 'Add'}
+              onPress={handleSave}
+              style={styles.actionButtonFlex}
+            />
+            {editingId && (
+              <PrimaryButton
+                label="Cancel"
+                variant="secondary"
+                onPress={resetForm}
+                style={styles.actionButtonFlex}
+              />
+            )}
+          </View>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  caregiverRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  caregiverInfo: {
+    flex: 1,
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  toggleText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(4),
+    marginTop: coddleTheme.spacing(2),
+  },
+  linkText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: coddleTheme.colors.error,
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  input: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+    fontSize: 14,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+  },
+  roleChip: {
+    paddingHorizontal: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+    borderRadius: coddleTheme.radius.pill,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  roleChipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  roleText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  roleTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: coddleTheme.colors.error,
+    marginTop: coddleTheme.spacing(2),
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  actionButtonFlex: {
+    flex: 1,
+  },
+});
@@ -14,9 +14,11 @@ import { CText } from '../components/ui/CText';
 import { PrimaryButton } from '../components/ui/PrimaryButton';
 import { CoachTip } from '../types';
 import { generateCoachTips } from '../services/coach';
-import { TEST_BABY_PROFILE } from '../utils/testScheduler';
 import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
 import { useLearnerStore } from '../stores/learnerStore';
+import { useProfileStore } from '../stores/profileStore';
+import { useFeedingStore } from '../stores/feedingStore';
+import { useDisruptionStore } from '../stores/disruptionStore';
 import { getTipIcon } from '../utils/icons';
 import { EmptyState } from '../components/common';
 
@@ -28,7 +30,9 @@ export const CoachScreen: React.FC<CoachScreenProps> = ({ onNavigateToTimeline }
 
   const allSessions = useSleepSessionsStore((state) => state.sessions);
   const learnerState = useLearnerStore((state) => state.learnerState);
-  const babyProfile = useLearnerStore((state) => state.babyProfile) || TEST_BABY_PROFILE;
+  const babyProfile = useProfileStore((state) => state.profile);
+  const feedings = useFeedingStore((state) => state.feedings);
+  const disruptions = useDisruptionStore((state) => state.episodes);
 
   const sessions = React.useMemo(
     () => allSessions.filter((s) => !s.deleted),
@@ -40,9 +44,19 @@ export const CoachScreen: React.FC<CoachScreenProps> = ({ onNavigateToTimeline }
 
 
   const generateTips = useCallback(() => {
-    const generatedTips = generateCoachTips(sessions, learnerState, babyProfile);
+    if (!babyProfile) {
+      setTips([]);
+      return;
+    }
+    const generatedTips = generateCoachTips(
+      sessions,
+      learnerState,
+      babyProfile,
+      feedings,
+      disruptions
+    );
     setTips(generatedTips);
-  }, [sessions, learnerState, babyProfile]);
+  }, [sessions, learnerState, babyProfile, feedings, disruptions]);
 
  
   useEffect(() => {
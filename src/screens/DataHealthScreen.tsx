@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, StyleSheet, View, ScrollView, Alert } from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { EmptyState } from '../components/common';
+import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
+import { SleepSession } from '../types';
+import {
+  SessionConflict,
+  ConflictResolution,
+  RESOLUTION_LABELS,
+  scanSessionHealth,
+  getResolutionOptions,
+  describeConflict,
+} from '../services/sessionValidation';
+import { formatSessionTime, formatDurationFromISO } from '../utils/formatters';
+import { time } from '../utils/time';
+
+function getConflictKey(conflict: SessionConflict): string {
+  return `${conflict.other.id}:${conflict.session.id}`;
+}
+
+function describeSession(session: SleepSession): string {
+  return `${time.parse(session.startISO).format('ddd, MMM D')} · ${formatSessionTime(
+    session.startISO,
+    session.endISO
+  )} (${formatDurationFromISO(session.startISO, session.endISO)})`;
+}
+
+export const DataHealthScreen = () => {
+  const sessions = useSleepSessionsStore((state) => state.sessions);
+  const resolveSessionConflict = useSleepSessionsStore((state) => state.resolveSessionConflict);
+  // Pairs the user chose to keep as they are, for this visit
+  const [keptKeys, setKeptKeys] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const conflicts = useMemo(
+    () => scanSessionHealth(sessions).filter((conflict) => !keptKeys.includes(getConflictKey(conflict))),
+    [sessions, keptKeys]
+  );
+
+  const handleResolve = async (conflict: SessionConflict, resolution: ConflictResolution) => {
+    if (resolution === 'keepBoth') {
+      setKeptKeys((keys) => [...keys, getConflictKey(conflict)]);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await resolveSessionConflict(conflict, resolution);
+      const { error } = useSleepSessionsStore.getState();
+      if (error) {
+        Alert.alert('Error', error);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Data Health</CText>
+          <CText variant="bodySmall">
+            Overlapping or repeated sessions throw off wake windows and the schedule
+          </CText>
+        </View>
+
+        {conflicts.length === 0 ? (
+          <EmptyState message="No overlapping or duplicate sessions found." variant="compact" />
+        ) : (
+          <>
+            <CText variant="bodySmall" style={styles.summaryText}>
+              {conflicts.length} {conflicts.length === 1 ? 'problem' : 'problems'} found. Merge
+              combines both into one session; trim shortens the later one.
+            </CText>
+            {conflicts.map((conflict) => (
+              <Card key={getConflictKey(conflict)} style={styles.card}>
+                <CText variant="label">
+                  {conflict.kind === 'duplicate' ? 'Possible duplicate' : 'Overlap'}
+                </CText>
+                <CText variant="bodySmall" style={styles.detailText}>
+                  {describeSession(conflict.other)}
+                </CText>
+                <CText variant="bodySmall" style={styles.detailText}>
+                  {describeSession(conflict.session)}
+                </CText>
+                <CText variant="bodySmall" style={styles.conflictText}>
+                  {describeConflict(conflict)}
+                </CText>
+                <View style={styles.actions}>
+                  {getResolutionOptions(conflict).map((resolution) => (
+                    <PrimaryButton
+                      key={resolution}
+                      label={RESOLUTION_LABELS[resolution]}
+                      variant={resolution === 'merge' ? 'primary' : 'secondary'}
+                      onPress={() => handleResolve(conflict, resolution)}
+                      disabled={isWorking}
+                      style={styles.actionButtonFlex}
+                    />
+                  ))}
+                </View>
+              </Card>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  summaryText: {
+    color: coddleTheme.colors.textSecondary,
+    marginBottom: coddleTheme.spacing(3),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  conflictText: {
+    color: coddleTheme.colors.textPrimary,
+    marginTop: coddleTheme.spacing(2),
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  actionButtonFlex: {
+    flex: 1,
+  },
+});
@@ -10,6 +10,12 @@ interface HomeScreenProps {
   onNavigateToTimeline?: () => void;
   onNavigateToNotificationLog?: () => void;
   onNavigateToCoach?: () => void;
+  onNavigateToProfile?: () => void;
+  onNavigateToBackup?: () => void;
+  onNavigateToSync?: () => void;
+  onNavigateToCaregivers?: () => void;
+  onNavigateToReport?: () => void;
+  babyName?: string;
 }
 
 interface TileConfig {
@@ -27,6 +33,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
   onNavigateToTimeline,
   onNavigateToNotificationLog,
   onNavigateToCoach,
+  onNavigateToProfile,
+  onNavigateToBackup,
+  onNavigateToSync,
+  onNavigateToCaregivers,
+  onNavigateToReport,
+  babyName,
 }) => {
   const tiles: TileConfig[] = [
     {
@@ -69,6 +81,46 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
       color: coddleTheme.colors.accentPeach,
       onPress: onNavigateToCoach,
     },
+    {
+      id: 'profile',
+      title: 'Baby Profile',
+      description: 'Edit name and birth date used for age baselines',
+      icon: '👶',
+      color: coddleTheme.colors.primarySoft,
+      onPress: onNavigateToProfile,
+    },
+    {
+      id: 'backup',
+      title: 'Backup & Restore',
+      description: 'Move your history to a new phone',
+      icon: '💾',
+      color: coddleTheme.colors.accentMint,
+      onPress: onNavigateToBackup,
+    },
+    {
+      id: 'sync',
+      title: 'Family Sync',
+      description: 'Share sleep logs with other caregivers',
+      icon: '🔄',
+      color: coddleTheme.colors.accentBlue,
+      onPress: onNavigateToSync,
+    },
+    {
+      id: 'caregivers',
+      title: 'Caregivers',
+      description: 'See who logged each nap and compare',
+      icon: '👪',
+      color: coddleTheme.colors.accentPeach,
+      onPress: onNavigateToCaregivers,
+    },
+    {
+      id: 'report',
+      title: 'Doctor Report',
+      description: 'Share two weeks of sleep before a check-up',
+      icon: '🩺',
+      color: coddleTheme.colors.accentPurple,
+      onPress: onNavigateToReport,
+    },
   ];
 
   return (
@@ -85,7 +137,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
               Coddle Sleep Coach
             </CText>
             <CText variant="body" style={styles.subtitle}>
-              Personalized sleep tracking for your baby
+              {babyName
+                ? `Personalized sleep tracking for ${babyName}`
+                : 'Personalized sleep tracking for your baby'}
             </CText>
           </View>
         </View>
@@ -99,7 +153,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
               activeOpacity={0.75}
               style={[
                 styles.tileWrapper,
-                index === tiles.length - 1 && styles.lastTileWrapper
+                tiles.length % 2 === 1 && index === tiles.length - 1 && styles.lastTileWrapper
               ]}
             >
               <Card style={[styles.tile, { backgroundColor: tile.color }]}>
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import {
+  SafeAreaView,
+  StyleSheet,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
+import { useProfileStore } from '../stores/profileStore';
+import {
+  parseSleepCsv,
+  analyzeImport,
+  getImportChanges,
+  CsvImportResult,
+  ImportPreviewItem,
+  ImportStatus,
+} from '../services/csvImport';
+import { pickTextFile } from '../services/fileShare';
+import { ConflictResolution, RESOLUTION_LABELS } from '../services/sessionValidation';
+import { formatSessionTime, formatDurationFromISO } from '../utils/formatters';
+import { time } from '../utils/time';
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Already logged',
+  overlap: 'Overlaps',
+};
+
+const STATUS_COLORS: Record<ImportStatus, string> = {
+  new: coddleTheme.colors.success,
+  duplicate: coddleTheme.colors.textTertiary,
+  overlap: coddleTheme.colors.warning,
+};
+
+type OverlapChoice = ConflictResolution | 'skip';
+
+const OVERLAP_CHOICES: { value: OverlapChoice; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'merge', label: RESOLUTION_LABELS.merge },
+  { value: 'trim', label: RESOLUTION_LABELS.trim },
+  { value: 'keepBoth', label: RESOLUTION_LABELS.keepBoth },
+];
+
+// Keeps the preview responsive for multi-year exports
+const PREVIEW_LIMIT = 100;
+
+interface ImportScreenProps {
+  onDone?: () => void;
+}
+
+export const ImportScreen: React.FC<ImportScreenProps> = ({ onDone }) => {
+  const sessions = useSleepSessionsStore((state) => state.sessions);
+  const importSessions = useSleepSessionsStore((state) => state.importSessions);
+  const profileName = useProfileStore((state) => state.profile?.name);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [overlapChoice, setOverlapChoice] = useState<OverlapChoice>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const preview: ImportPreviewItem[] = useMemo(
+    () => (result ? analyzeImport(result.sessions, sessions) : []),
+    [result, sessions]
+  );
+
+  const counts = useMemo(
+    () =>
+      preview.reduce(
+        (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+        { new: 0, duplicate: 0, overlap: 0 } as Record<ImportStatus, number>
+      ),
+    [preview]
+  );
+
+  const toImport = useMemo(
+    () => getImportChanges(preview, sessions, overlapChoice),
+    [preview, sessions, overlapChoice]
+  );
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(['text/csv', 'text/comma-separated-values', 'text/plain']);
+      if (!file) return;
+
+      const parsed = parseSleepCsv(file.contents);
+      if (parsed.error) {
+        Alert.alert('Cannot Import', parsed.error);
+        return;
+      }
+      setFileName(file.name);
+      setResult(parsed);
+      setOverlapChoice('skip');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to read CSV file');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await importSessions(toImport);
+      const { error } = useSleepSessionsStore.getState();
+      if (error) {
+        Alert.alert('Error', error);
+        return;
+      }
+      Alert.alert('Import Complete', `Saved ${toImport.length} sessions`, [
+        { text: 'OK', onPress: onDone },
+      ]);
+      setResult(null);
+      setFileName(null);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Import From Another App</CText>
+          <CText variant="bodySmall">
+            Bring in sleep history exported as CSV{profileName ? ` for ${profileName}` : ''}
+          </CText>
+        </View>
+
+        <Card style={styles.card}>
+          <CText variant="bodySmall" style={styles.detailText}>
+            Files need a start time and either an end time or a duration. Feeds and other
+            activities in the same file are left out.
+          </CText>
+          <PrimaryButton
+            label={fileName ? 'Choose a Different File' : 'Choose CSV File'}
+            variant={result ? 'secondary' : 'primary'}
+            onPress={handlePickFile}
+            disabled={isImporting}
+            style={styles.actionButton}
+          />
+        </Card>
+
+        {result && (
+          <>
+            <Card style={styles.card}>
+              <CText variant="h3">{fileName}</CText>
+              <CText variant="bodySmall" style={styles.detailText}>
+                {counts.new} new · {counts.duplicate} already logged · {counts.overlap} overlap
+                existing sleep
+              </CText>
+              {result.ignoredActivities > 0 && (
+                <CText variant="bodySmall" style={styles.detailText}>
+                  {result.ignoredActivities} non-sleep rows ignored
+                </CText>
+              )}
+              {result.skipped.length > 0 && (
+                <>
+                  <CText variant="label" style={styles.skippedTitle}>
+                    Skipped {result.skipped.length} unreadable rows
+                  </CText>
+                  {result.skipped.slice(0, 20).map((row) => (
+                    <CText key={row.line} variant="bodySmall" style={styles.detailText}>
+                      Line {row.line}: {row.reason}
+                    </CText>
+                  ))}
+                </>
+              )}
+
+              {counts.overlap > 0 && (
+                <>
+                  <CText variant="label" style={styles.choiceTitle}>
+                    Sessions that overlap existing sleep
+                  </CText>
+                  <View style={styles.choiceRow}>
+                    {OVERLAP_CHOICES.map((choice) => {
+                      const isSelected = choice.value === overlapChoice;
+                      return (
+                        <TouchableOpacity
+                          key={choice.value}
+                          onPress={() => setOverlapChoice(choice.value)}
+                          style={[styles.choiceChip, isSelected && styles.choiceChipActive]}
+                          activeOpacity={0.7}
+                        >
+                          <CText
+                            variant="bodySmall"
+                            style={[styles.choiceText, isSelected && styles.choiceTextActive]}
+                          >
+                            {choice.label}
+                          </CText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <PrimaryButton
+                label={
+                  isImporting
+                    ? 'Importing...'
+                    : `Import ${toImport.length} Session${toImport.length === 1 ? '' : 's'}`
+                }
+                onPress={handleImport}
+                disabled={isImporting || toImport.length === 0}
+                style={styles.actionButton}
+              />
+            </Card>
+
+            {preview.slice(0, PREVIEW_LIMIT).map((item) => (
+              <View key={item.session.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <CText variant="body">
+                    {formatSessionTime(item.session.startISO, item.session.endISO)}
+                  </CText>
+                  <CText variant="bodySmall" style={styles.rowDetail}>
+                    {time.parse(item.session.startISO).format('ddd, MMM D, YYYY')} ·{' '}
+                    {formatDurationFromISO(item.session.startISO, item.session.endISO)}
+                  </CText>
+                </View>
+                <View style={[styles.badge, { backgroundColor: STATUS_COLORS[item.status] }]}>
+                  <CText variant="label" style={styles.badgeText}>
+                    {STATUS_LABELS[item.status]}
+                  </CText>
+                </View>
+              </View>
+            ))}
+            {preview.length > PREVIEW_LIMIT && (
+              <CText variant="bodySmall" style={styles.detailText}>
+                and {preview.length - PREVIEW_LIMIT} more
+              </CText>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  actionButton: {
+    marginTop: coddleTheme.spacing(3),
+  },
+  skippedTitle: {
+    marginTop: coddleTheme.spacing(3),
+    color: coddleTheme.colors.error,
+  },
+  choiceTitle: {
+    marginTop: coddleTheme.spacing(3),
+    color: coddleTheme.colors.textPrimary,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(1),
+  },
+  choiceChip: {
+    paddingHorizontal: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+    borderRadius: coddleTheme.radius.pill,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  choiceChipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  choiceText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  choiceTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: coddleTheme.spacing(2),
+    borderBottomWidth: 1,
+    borderBottomColor: coddleTheme.colors.divider,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowDetail: {
+    color: coddleTheme.colors.textSecondary,
+  },
+  badge: {
+    borderRadius: coddleTheme.radius.pill,
+    paddingHorizontal: coddleTheme.spacing(2),
+    paddingVertical: coddleTheme.spacing(0.5),
+  },
+  badgeText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+});
@@ -19,11 +19,13 @@ import {
   formatNotificationTime,
   getNotificationKind,
   getScheduleBlockId,
+  getNotificationBabyId,
   cancelNotification,
   cancelAllNotifications,
 } from '../services/notifications';
 import { time } from '../utils/time';
 import { useNotificationStore } from '../stores/notificationStore';
+import { useProfileStore } from '../stores/profileStore';
 import { getKindColor } from '../utils/colors';
 import { EmptyState, LoadingSpinner } from '../components/common';
 
@@ -35,6 +37,7 @@ export const NotificationLogScreen = () => {
   const getUpcomingNotifications = useNotificationStore((state) => state.getUpcomingNotifications);
   const getSentNotifications = useNotificationStore((state) => state.getSentNotifications);
   const getCanceledNotifications = useNotificationStore((state) => state.getCanceledNotifications);
+  const activeProfileId = useProfileStore((state) => state.activeProfileId);
 
   const [scheduledNotifications, setScheduledNotifications] = useState<Notifications.NotificationRequest[]>([]);
   const [refreshing, setRefreshing] = useState(false);
@@ -72,10 +75,14 @@ export const NotificationLogScreen = () => {
     loadNotifications();
   }, [loadNotifications]);
 
-  const handleCancelNotification = useCallback(async (notificationId: string) => {
-    await cancelNotification(notificationId);
+  const handleCancelNotification = useCallback(async (notification: Notifications.NotificationRequest) => {
+    // Scheduled reminders from every child are listed; cancel against the owner's history
+    const babyId = getNotificationBabyId(notification) || activeProfileId;
+    if (babyId) {
+      await cancelNotification(notification.identifier, babyId);
+    }
     await loadNotifications();
-  }, [loadNotifications]);
+  }, [loadNotifications, activeProfileId]);
 
   const handleCancelAll = useCallback(() => {
     cancelAllNotifications();
@@ -227,7 +234,7 @@ export const NotificationLogScreen = () => {
             </View>
           </View>
           <TouchableOpacity
-            onPress={() => handleCancelNotification(notification.identifier)}
+            onPress={() => handleCancelNotification(notification)}
             style={styles.cancelIcon}
           >
             <CText variant="h3" style={styles.cancelIconText}>×</CText>
@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react';
+import {
+  SafeAreaView,
+  StyleSheet,
+  View,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Platform,
+  Alert,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { useProfileStore } from '../stores/profileStore';
+import { validateProfileInput } from '../services/profile';
+import { getAgeForBaby, getAgeRange, getAgeRangeDescription } from '../utils/ageBaseline';
+import { time } from '../utils/time';
+
+interface ProfileScreenProps {
+  // Profile to edit; omit to create a new child
+  profileId?: string;
+  onSaved?: () => void;
+  onDeleted?: () => void;
+}
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ profileId, onSaved, onDeleted }) => {
+  const profiles = useProfileStore((state) => state.profiles);
+  const saveProfile = useProfileStore((state) => state.saveProfile);
+  const deleteProfile = useProfileStore((state) => state.deleteProfile);
+  const profile = profileId ? profiles.find((p) => p.id === profileId) ?? null : null;
+
+  const [name, setName] = useState(profile?.name ?? '');
+  const [birthDate, setBirthDate] = useState<Date>(
+    profile ? time.parse(profile.birthDateISO).toDate() : new Date()
+  );
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [bornEarly, setBornEarly] = useState(Boolean(profile?.dueDateISO));
+  const [dueDate, setDueDate] = useState<Date>(
+    profile?.dueDateISO ? time.parse(profile.dueDateISO).toDate() : new Date()
+  );
+  const [showDueDatePicker, setShowDueDatePicker] = useState(false);
+  const [excludeMotionNaps, setExcludeMotionNaps] = useState(Boolean(profile?.excludeMotionNaps));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setName(profile.name);
+      setBirthDate(time.parse(profile.birthDateISO).toDate());
+      setBornEarly(Boolean(profile.dueDateISO));
+      setExcludeMotionNaps(Boolean(profile.excludeMotionNaps));
+      if (profile.dueDateISO) {
+        setDueDate(time.parse(profile.dueDateISO).toDate());
+      }
+    }
+  }, [profile]);
+
+  const birthDateISO = birthDate.toISOString();
+  const dueDateISO = bornEarly ? dueDate.toISOString() : undefined;
+  const validation = validateProfileInput({ name, birthDateISO, dueDateISO });
+  const ageInfo = validation.isValid ? getAgeForBaby(birthDateISO, dueDateISO) : null;
+  const ageDescription = ageInfo
+    ? getAgeRangeDescription(getAgeRange(ageInfo.ageMonths))
+    : null;
+
+  const handleSave = async () => {
+    if (!validation.isValid) {
+      Alert.alert('Error', validation.error || 'Invalid profile');
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveProfile(
+      { name, birthDateISO, dueDateISO, excludeMotionNaps },
+      profile?.id
+    );
+    setIsSaving(false);
+
+    if (!saved) {
+      Alert.alert('Error', useProfileStore.getState().error || 'Failed to save profile');
+      return;
+    }
+
+    if (onSaved) {
+      onSaved();
+    }
+  };
+
+  const handleDelete = () => {
+    if (!profile) return;
+
+    Alert.alert(
+      'Delete Profile',
+      `Delete ${profile.name} and all of their sleep history? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteProfile(profile.id);
+            if (onDeleted) {
+              onDeleted();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">
+            {profile ? 'Edit Profile' : profiles.length > 0 ? 'Add a Child' : 'Welcome to Coddle'}
+          </CText>
+          <CText variant="bodySmall">
+            {profile
+              ? 'Update your baby’s details'
+              : 'Tell us about your baby so schedules match their age'}
+          </CText>
+        </View>
+
+        <Card style={styles.card}>
+          <CText variant="label" style={styles.inputLabel}>
+            Name
+          </CText>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Baby's name"
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+            autoCapitalize="words"
+          />
+
+          <CText variant="label" style={styles.inputLabel}>
+            Birth Date
+          </CText>
+          <TouchableOpacity
+            style={styles.dateButton}
+            onPress={() => setShowDatePicker(true)}
+          >
+            <CText variant="body" style={styles.dateText}>
+              📅 {time.parse(birthDateISO).format('MMMM D, YYYY')}
+            </CText>
+          </TouchableOpacity>
+
+          {showDatePicker && (
+            <DateTimePicker
+              value={birthDate}
+              mode="date"
+              maximumDate={new Date()}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedDate) => {
+                setShowDatePicker(Platform.OS === 'ios');
+                if (selectedDate) {
+                  setBirthDate(selectedDate);
+                }
+              }}
+            />
+          )}
+
+          <TouchableOpacity
+            style={styles.toggleRow}
+            onPress={() => setBornEarly(!bornEarly)}
+          >
+            <CText variant="body" style={styles.dateText}>
+              {bornEarly ? '☑' : '☐'} Born before due date
+            </CText>
+          </TouchableOpacity>
+
+          {bornEarly && (
+            <>
+              <CText variant="label" style={styles.inputLabel}>
+                Original Due Date
+              </CText>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDueDatePicker(true)}
+              >
+                <CText variant="body" style={styles.dateText}>
+                  📅 {time.parse(dueDate.toISOString()).format('MMMM D, YYYY')}
+                </CText>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {bornEarly && showDueDatePicker && (
+            <DateTimePicker
+              value={dueDate}
+              mode="date"
+              minimumDate={birthDate}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedDate) => {
+                setShowDueDatePicker(Platform.OS === 'ios');
+                if (selectedDate) {
+                  setDueDate(selectedDate);
+                }
+              }}
+            />
+          )}
+
+          {!validation.isValid && bornEarly && validation.error && (
+            <CText variant="bodySmall" style={styles.errorText}>
+              {validation.error}
+            </CText>
+          )}
+
+          {ageDescription && ageInfo && (
+            <CText variant="bodySmall" style={styles.ageText}>
+              Age group: {ageDescription}
+              {ageInfo.isCorrected
+                ? ` (corrected age ${ageInfo.ageMonths.toFixed(1)} months)`
+                : ''}
+            </CText>
+          )}
+
+          <TouchableOpacity
+            style={styles.toggleRow}
+            onPress={() => setExcludeMotionNaps(!excludeMotionNaps)}
+          >
+            <CText variant="body" style={styles.dateText}>
+              {excludeMotionNaps ? '☑' : '☐'} Leave stroller, car and carrier naps out of
+              learned nap length
+            </CText>
+          </TouchableOpacity>
+
+          <PrimaryButton
+            label={isSaving ? 'Saving...' : 'Save Profile'}
+            onPress={handleSave}
+            disabled={isSaving}
+            style={styles.saveButton}
+          />
+
+          {profile && (
+            <PrimaryButton
+              label="Delete Profile"
+              onPress={handleDelete}
+              variant="secondary"
+              style={styles.deleteButton}
+            />
+          )}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  input: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+    fontSize: 14,
+  },
+  dateButton: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    alignItems: 'center',
+  },
+  dateText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  toggleRow: {
+    marginTop: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  errorText: {
+    color: coddleTheme.colors.error,
+    marginTop: coddleTheme.spacing(2),
+  },
+  ageText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(2),
+  },
+  saveButton: {
+    marginTop: coddleTheme.spacing(4),
+  },
+  deleteButton: {
+    marginTop: coddleTheme.spacing(2),
+  },
+});
@@ -0,0 +1,150 @@
+import React, { useEffect } from 'react';
+import { SafeAreaView, StyleSheet, View, ScrollView, Share, Alert } from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { EmptyState } from '../components/common';
+import { useRecoveryStore } from '../stores/recoveryStore';
+import { useProfileStore } from '../stores/profileStore';
+import { QuarantineEntry, QuarantinedDataType } from '../storage/sleepStorage';
+import { time } from '../utils/time';
+
+const DATA_TYPE_LABELS: Record<QuarantinedDataType, string> = {
+  sessions: 'Sleep sessions',
+  learner: 'Learned sleep patterns',
+  notificationHistory: 'Notification history',
+  profiles: 'Baby profiles',
+  sync: 'Sync settings',
+  caregivers: 'Caregivers',
+  feedings: 'Feeds',
+  disruptions: 'Disruptions',
+};
+
+export const RecoveryScreen = () => {
+  const entries = useRecoveryStore((state) => state.entries);
+  const loadEntries = useRecoveryStore((state) => state.loadEntries);
+  const discardEntry = useRecoveryStore((state) => state.discardEntry);
+  const profiles = useProfileStore((state) => state.profiles);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const getOwnerName = (entry: QuarantineEntry): string | null => {
+    if (!entry.babyId) return null;
+    return profiles.find((p) => p.id === entry.babyId)?.name ?? 'Removed profile';
+  };
+
+  const handleExport = async (entry: QuarantineEntry) => {
+    try {
+      await Share.share({
+        title: `${DATA_TYPE_LABELS[entry.dataType]} backup`,
+        message: entry.raw,
+      });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to export damaged data');
+    }
+  };
+
+  const handleDiscard = (entry: QuarantineEntry) => {
+    Alert.alert(
+      'Discard Damaged Data',
+      'The original copy will be deleted. Anything already recovered stays in the app.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardEntry(entry.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Data Recovery</CText>
+          <CText variant="bodySmall">
+            Some saved data could not be read. We kept the original so nothing is lost.
+          </CText>
+        </View>
+
+        {entries.length === 0 ? (
+          <EmptyState message="No damaged data found" subMessage="Everything loaded normally" />
+        ) : (
+          entries.map((entry) => {
+            const ownerName = getOwnerName(entry);
+            return (
+              <Card key={entry.id} style={styles.card}>
+                <CText variant="h3">{DATA_TYPE_LABELS[entry.dataType]}</CText>
+                {ownerName && (
+                  <CText variant="bodySmall" style={styles.detailText}>
+                    {ownerName}
+                  </CText>
+                )}
+                <CText variant="bodySmall" style={styles.detailText}>
+                  Found {time.parse(entry.quarantinedAtISO).format('MMM D, YYYY h:mm A')}
+                </CText>
+                <CText variant="bodySmall" style={styles.detailText}>
+                  {entry.recoveredCount > 0
+                    ? `Recovered ${entry.recoveredCount} item${entry.recoveredCount === 1 ? '' : 's'}`
+                    : 'Nothing could be recovered automatically'}
+                </CText>
+
+                <View style={styles.actions}>
+                  <PrimaryButton
+                    label="Export"
+                    onPress={() => handleExport(entry)}
+                    style={styles.actionButton}
+                  />
+                  <PrimaryButton
+                    label="Discard"
+                    variant="secondary"
+                    onPress={() => handleDiscard(entry)}
+                    style={styles.actionButton}
+                  />
+                </View>
+              </Card>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
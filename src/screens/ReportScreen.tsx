@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  SafeAreaView,
+  StyleSheet,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SleepSession } from '../types';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
+import { useLearnerStore } from '../stores/learnerStore';
+import { useProfileStore } from '../stores/profileStore';
+import {
+  DEFAULT_REPORT_DAYS,
+  getReportRange,
+  buildSleepReport,
+  renderSleepReportHtml,
+  getReportFileName,
+} from '../services/sleepReport';
+import { loadArchivedSessionsInRange, withArchivedSessions } from '../services/sessionArchive';
+import { shareTextFile } from '../services/fileShare';
+import { formatDurationFromMinutes } from '../utils/formatters';
+import { time } from '../utils/time';
+
+const RANGE_OPTIONS = [7, DEFAULT_REPORT_DAYS, 30];
+
+export const ReportScreen = () => {
+  const sessions = useSleepSessionsStore((state) => state.sessions);
+  const learnerState = useLearnerStore((state) => state.learnerState);
+  const profile = useProfileStore((state) => state.profile);
+  const [dayCount, setDayCount] = useState(DEFAULT_REPORT_DAYS);
+  const [isSharing, setIsSharing] = useState(false);
+  const [archivedSessions, setArchivedSessions] = useState<SleepSession[]>([]);
+
+  const range = useMemo(() => getReportRange(dayCount), [dayCount]);
+
+  // Long ranges can reach back into months that compaction has archived
+  useEffect(() => {
+    if (!profile) return;
+    let isCurrent = true;
+    const startISO = time.parse(range.startDayKey + 'T00:00:00').toISOString();
+    const endISO = time.parse(range.endDayKey + 'T00:00:00').add(1, 'day').toISOString();
+    loadArchivedSessionsInRange(profile.id, startISO, endISO)
+      .then((archived) => {
+        if (isCurrent) setArchivedSessions(archived);
+      })
+      .catch(() => {
+        if (isCurrent) setArchivedSessions([]);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [profile, range]);
+
+  const report = useMemo(() => {
+    if (!profile) return null;
+    return buildSleepReport({
+      profile,
+      sessions: withArchivedSessions(sessions, archivedSessions),
+      learnerState,
+      range,
+    });
+  }, [profile, sessions, archivedSessions, learnerState, range]);
+
+  const handleShare = async () => {
+    if (!report) return;
+    setIsSharing(true);
+    try {
+      await shareTextFile(
+        getReportFileName(report.profile.name, report.range),
+        renderSleepReportHtml(report),
+        `${report.profile.name}'s sleep report`
+      );
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share sleep report');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  if (!report) {
+    return null;
+  }
+
+  const { averages } = report;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Doctor Report</CText>
+          <CText variant="bodySmall">
+            A printable summary of {report.profile.name}&apos;s sleep for check-ups
+          </CText>
+        </View>
+
+        <Card style={styles.card}>
+          <CText variant="label">Period</CText>
+          <View style={styles.optionRow}>
+            {RANGE_OPTIONS.map((option) => {
+              const isSelected = option === dayCount;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setDayCount(option)}
+                  style={[styles.optionChip, isSelected && styles.optionChipActive]}
+                  activeOpacity={0.7}
+                >
+                  <CText
+                    variant="bodySmall"
+                    style={[styles.optionText, isSelected && styles.optionTextActive]}
+                  >
+                    Last {option} days
+                  </CText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <CText variant="bodySmall" style={styles.detailText}>
+            {time.parse(report.range.startDayKey + 'T00:00:00').format('MMM D')} –{' '}
+            {time.parse(report.range.endDayKey + 'T00:00:00').format('MMM D, YYYY')} ·{' '}
+            {report.loggedDayCount} of {report.days.length} days logged
+          </CText>
+        </Card>
+
+        <Card style={styles.card}>
+          <CText variant="h3">Summary</CText>
+          <CText variant="bodySmall" style={styles.detailText}>
+            Day sleep {formatDurationFromMinutes(averages.daySleepMin)} · Night sleep{' '}
+            {formatDurationFromMinutes(averages.nightSleepMin)} · {averages.napCount.toFixed(1)}{' '}
+            naps a day · {averages.nightWakings.toFixed(1)} night wakings
+          </CText>
+          <CText variant="bodySmall" style={styles.detailText}>
+            Wake window{' '}
+            {averages.wakeWindowMin !== null
+              ? formatDurationFromMinutes(averages.wakeWindowMin)
+              : 'not enough data'}
+            {report.longestNightStretch &&
+              ` · Longest night stretch ${formatDurationFromMinutes(
+                report.longestNightStretch.durationMin
+              )}`}
+          </CText>
+          <CText variant="bodySmall" style={styles.detailText}>
+            {report.tips.length} coach {report.tips.length === 1 ? 'note' : 'notes'} included
+          </CText>
+        </Card>
+
+        <PrimaryButton
+          label={isSharing ? 'Preparing...' : 'Share Report'}
+          onPress={handleShare}
+          disabled={isSharing || report.loggedDayCount === 0}
+          style={styles.actionButton}
+        />
+        <CText variant="bodySmall" style={styles.detailText}>
+          The report opens in any browser and can be printed or saved as PDF.
+        </CText>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(2),
+  },
+  optionChip: {
+    paddingHorizontal: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+    borderRadius: coddleTheme.radius.pill,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    backgroundColor: coddleTheme.colors.surface,
+  },
+  optionChipActive: {
+    backgroundColor: coddleTheme.colors.primary,
+    borderColor: coddleTheme.colors.primary,
+  },
+  optionText: {
+    color: coddleTheme.colors.textPrimary,
+  },
+  optionTextActive: {
+    color: coddleTheme.colors.textOnPrimary,
+    fontWeight: '600',
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  actionButton: {
+    marginTop: coddleTheme.spacing(1),
+  },
+});
@@ -8,21 +8,24 @@ import {
   Dimensions,
   FlatList,
   ListRenderItem,
+  Alert,
 } from 'react-native';
 import { coddleTheme } from '../theme/coddleTheme';
 import { Card } from '../components/ui/Card';
 import { CText } from '../components/ui/CText';
 import { ScheduleBlock } from '../types';
 import { time } from '../utils/time';
-import { TEST_BABY_PROFILE } from '../utils/testScheduler';
 import { scheduleNotificationsForBlocks } from '../services/notifications';
 import { useScheduleStore } from '../stores/scheduleStore';
 import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
 import { useLearnerStore } from '../stores/learnerStore';
+import { useProfileStore } from '../stores/profileStore';
 import { formatBlockTime } from '../utils/formatters';
 import { getBlockColor, getConfidenceColor } from '../utils/colors';
 import { getBlockIcon } from '../utils/icons';
 import { LoadingSpinner } from '../components/common';
+import { scheduleToICal, getICalFileName } from '../services/calendarExport';
+import { shareTextFile } from '../services/fileShare';
 
 export const ScheduleScreen = () => {
  
@@ -34,22 +37,25 @@ export const ScheduleScreen = () => {
   const generateSchedule = useScheduleStore((state) => state.generateSchedule);
   const generateWhatIfSchedule = useScheduleStore((state) => state.generateWhatIfSchedule);
   const resetWhatIf = useScheduleStore((state) => state.resetWhatIf);
+  const babyProfile = useProfileStore((state) => state.profile);
 
   const [sliderValue, setSliderValue] = useState(0);
 
   useEffect(() => {
-    generateSchedule(TEST_BABY_PROFILE);
-  }, [generateSchedule]);
+    if (babyProfile) {
+      generateSchedule(babyProfile);
+    }
+  }, [generateSchedule, babyProfile]);
 
 
   useEffect(() => {
-    if (!isWhatIfMode && todayBlocks.length > 0) {
+    if (!isWhatIfMode && todayBlocks.length > 0 && babyProfile) {
       const allBlocks = [...todayBlocks, ...tomorrowBlocks];
-      scheduleNotificationsForBlocks(allBlocks).catch((error) => {
+      scheduleNotificationsForBlocks(allBlocks, babyProfile).catch((error) => {
         console.error('Error scheduling notifications:', error);
       });
     }
-  }, [todayBlocks, tomorrowBlocks, isWhatIfMode]);
+  }, [todayBlocks, tomorrowBlocks, isWhatIfMode, babyProfile]);
 
 
   // Memoize render block function for FlatList
@@ -101,7 +107,26 @@ export const ScheduleScreen = () => {
     const value = Math.round((percentage * 60) - 30); // -30 to +30
     setSliderValue(value);
  
-    generateWhatIfSchedule(value, TEST_BABY_PROFILE);
+    if (babyProfile) {
+      generateWhatIfSchedule(value, babyProfile);
+    }
+  };
+
+  const handleExportCalendar = async () => {
+    if (!babyProfile) return;
+    try {
+      const ics = scheduleToICal([...todayBlocks, ...tomorrowBlocks], {
+        babyId: babyProfile.id,
+        babyName: babyProfile.name,
+      });
+      await shareTextFile(
+        getICalFileName(babyProfile.name),
+        ics,
+        `${babyProfile.name}'s sleep schedule`
+      );
+    } catch (error) {
+      Alert.alert('Error', 'Failed to export calendar');
+    }
   };
 
   const handleResetWhatIf = () => {
@@ -121,10 +146,20 @@ export const ScheduleScreen = () => {
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         <View style={styles.header}>
-          <CText variant="h2">Today&apos;s Schedule</CText>
-          <CText variant="bodySmall">
-            Personalized schedule based on your baby&apos;s patterns
-          </CText>
+          <View style={styles.headerText}>
+            <CText variant="h2">Today&apos;s Schedule</CText>
+            <CText variant="bodySmall">
+              Personalized schedule based on {babyProfile ? babyProfile.name : 'your baby'}&apos;s patterns
+            </CText>
+          </View>
+          {/* What-if previews are hypothetical, so only the real plan is exported */}
+          {!isWhatIfMode && todayBlocks.length + tomorrowBlocks.length > 0 && (
+            <TouchableOpacity onPress={handleExportCalendar} activeOpacity={0.7}>
+              <CText variant="bodySmall" style={styles.exportText}>
+                Add to Calendar
+              </CText>
+            </TouchableOpacity>
+          )}
         </View>
 
     
@@ -250,8 +285,18 @@ const styles = StyleSheet.create({
     paddingBottom: coddleTheme.spacing(4),
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
     marginBottom: coddleTheme.spacing(4),
   },
+  headerText: {
+    flex: 1,
+  },
+  exportText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
   section: {
     marginTop: coddleTheme.spacing(4),
   },
@@ -18,11 +18,43 @@ import { time } from '../utils/time';
 import { clearAllStorage } from '../storage/sleepStorage';
 import { generateMockData, clearMockData } from '../utils/mockData';
 import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
-import { EmptyState, SessionCard, LoadingSpinner } from '../components/common';
-import { TimerCard, ManualEntryModal } from '../components/sleep';
+import { useProfileStore } from '../stores/profileStore';
+import { useCaregiverStore } from '../stores/caregiverStore';
+import { useFeedingStore } from '../stores/feedingStore';
+import { EmptyState, SessionCard, LoadingSpinner, CaregiverFilter } from '../components/common';
+import {
+  TimerCard,
+  ManualEntryModal,
+  ManualEntryData,
+  SplitSessionModal,
+  FeedingQuickLog,
+  SessionTagsModal,
+  CsvExportModal,
+} from '../components/sleep';
 import { formatDateHeader } from '../utils/formatters';
-
-export const SleepLogScreen = () => {
+import { sessionsToCsv, getCsvFileName, CsvExportOptions } from '../services/csvExport';
+import { loadAllArchivedSessions, withArchivedSessions } from '../services/sessionArchive';
+import { shareTextFile } from '../services/fileShare';
+import { describeAttribution, filterSessionsByCaregiver } from '../services/caregivers';
+import {
+  ConflictResolution,
+  RESOLUTION_LABELS,
+  findSessionConflicts,
+  getResolutionOptions,
+  describeConflict,
+} from '../services/sessionValidation';
+import { getMergeError } from '../services/sessionSplitMerge';
+import { FeedingInput } from '../services/feedings';
+
+interface SleepLogScreenProps {
+  onNavigateToDataHealth?: () => void;
+  onNavigateToTrash?: () => void;
+}
+
+export const SleepLogScreen: React.FC<SleepLogScreenProps> = ({
+  onNavigateToDataHealth,
+  onNavigateToTrash,
+}) => {
   
   const sessions = useSleepSessionsStore((state) => state.sessions);
   const isLoading = useSleepSessionsStore((state) => state.isLoading);
@@ -30,12 +62,32 @@ export const SleepLogScreen = () => {
   const loadSessions = useSleepSessionsStore((state) => state.loadSessions);
   const addSession = useSleepSessionsStore((state) => state.addSession);
   const deleteSession = useSleepSessionsStore((state) => state.deleteSession);
+  const updateSession = useSleepSessionsStore((state) => state.updateSession);
+  const resolveSessionConflict = useSleepSessionsStore((state) => state.resolveSessionConflict);
   const clearAllSessions = useSleepSessionsStore((state) => state.clearAllSessions);
+  const mergeSessions = useSleepSessionsStore((state) => state.mergeSessions);
+  const splitSession = useSleepSessionsStore((state) => state.splitSession);
+  const activeProfileId = useProfileStore((state) => state.activeProfileId);
+  const profile = useProfileStore((state) => state.profile);
+  const caregivers = useCaregiverStore((state) => state.caregivers);
+  const feedings = useFeedingStore((state) => state.feedings);
+  const addFeeding = useFeedingStore((state) => state.addFeeding);
+  const [caregiverFilter, setCaregiverFilter] = useState<string | null>(null);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [timerStart, setTimerStart] = useState<string | null>(null);
+  // Set by "In Crib"; the timer counts settling time until the baby is asleep
+  const [timerPutDown, setTimerPutDown] = useState<string | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [showManualEntry, setShowManualEntry] = useState(false);
+  const [editingSession, setEditingSession] = useState<SleepSession | null>(null);
   const [showAllSessions, setShowAllSessions] = useState(false);
+  // Multi-select for merging sessions, or splitting a single one
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [splittingSession, setSplittingSession] = useState<SleepSession | null>(null);
+  // Timer session waiting for its location and method
+  const [taggingSession, setTaggingSession] = useState<SleepSession | null>(null);
+  const [showCsvExport, setShowCsvExport] = useState(false);
 
   useEffect(() => {
     loadSessions();
@@ -45,17 +97,18 @@ export const SleepLogScreen = () => {
  
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
-    if (isTimerRunning && timerStart) {
+    const countFrom = isTimerRunning ? timerStart : timerPutDown;
+    if (countFrom) {
       interval = setInterval(() => {
         const now = time.now();
-        const start = time.parse(timerStart);
+        const start = time.parse(countFrom);
         setElapsedSeconds(now.diff(start, 'second'));
       }, 1000);
     }
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isTimerRunning, timerStart]);
+  }, [isTimerRunning, timerStart, timerPutDown]);
 
   
   useEffect(() => {
@@ -64,6 +117,16 @@ export const SleepLogScreen = () => {
     }
   }, [error]);
 
+  const putDown = () => {
+    setTimerPutDown(time.nowISO());
+    setElapsedSeconds(0);
+  };
+
+  const cancelPutDown = () => {
+    setTimerPutDown(null);
+    setElapsedSeconds(0);
+  };
+
   const startTimer = () => {
     const startISO = time.nowISO();
     setTimerStart(startISO);
@@ -71,6 +134,14 @@ export const SleepLogScreen = () => {
     setElapsedSeconds(0);
   };
 
+  const handleLogFeeding = async (input: FeedingInput) => {
+    const feeding = await addFeeding(input);
+    if (!feeding) {
+      Alert.alert('Error', useFeedingStore.getState().error || 'Failed to log feed');
+    }
+    return feeding !== null;
+  };
+
   const stopTimer = async () => {
     if (!timerStart) return;
 
@@ -89,19 +160,41 @@ export const SleepLogScreen = () => {
       source: 'timer',
       updatedAtISO: time.nowISO(),
     };
+    if (timerPutDown) {
+      newSession.putDownISO = timerPutDown;
+    }
 
-    await saveSession(newSession);
     setIsTimerRunning(false);
     setTimerStart(null);
+    setTimerPutDown(null);
     setElapsedSeconds(0);
+
+    // Only asked when the timer session was saved as its own session
+    const saveAndAskForTags = async (resolution?: ConflictResolution) => {
+      await saveSession(newSession, resolution);
+      const saved = useSleepSessionsStore
+        .getState()
+        .sessions.find((session) => session.id === newSession.id && !session.deleted);
+      if (saved) {
+        setTaggingSession(saved);
+      }
+    };
+
+    const [conflict] = findSessionConflicts(newSession, sessions);
+    if (!conflict) {
+      await saveAndAskForTags();
+      return;
+    }
+    Alert.alert('Overlapping Sleep', describeConflict(conflict), [
+      ...getResolutionOptions(conflict).map((resolution) => ({
+        text: RESOLUTION_LABELS[resolution],
+        onPress: () => saveAndAskForTags(resolution),
+      })),
+      { text: 'Discard Timer', style: 'destructive' as const },
+    ]);
   };
 
-  const handleSaveManualEntry = async (data: {
-    startISO: string;
-    endISO: string;
-    quality?: 1 | 2 | 3 | 4 | 5;
-    notes?: string;
-  }) => {
+  const handleSaveManualEntry = async (data: ManualEntryData, resolution?: ConflictResolution) => {
     const validation = time.validateRange(data.startISO, data.endISO);
     if (!validation.isValid) {
       Alert.alert('Error', validation.error || 'Invalid time range');
@@ -114,18 +207,99 @@ export const SleepLogScreen = () => {
       endISO: data.endISO,
       quality: data.quality,
       notes: data.notes,
+      kind: data.kind,
+      wakings: data.wakings,
+      putDownISO: data.putDownISO,
+      location: data.location,
+      method: data.method,
       source: 'manual',
       updatedAtISO: time.nowISO(),
     };
 
-    await saveSession(newSession);
+    await saveSession(newSession, resolution);
   };
 
-  const saveSession = async (session: SleepSession) => {
-   
+  const saveSession = async (session: SleepSession, resolution?: ConflictResolution) => {
+    const [conflict] = findSessionConflicts(session, sessions);
+    if (conflict && resolution && resolution !== 'keepBoth') {
+      await resolveSessionConflict(conflict, resolution);
+      return;
+    }
     await addSession(session);
   };
 
+  // Edits keep the session's id and source, so timer sessions stay timer sessions
+  const handleSaveEdit = async (data: ManualEntryData, resolution?: ConflictResolution) => {
+    if (!editingSession) return;
+
+    const validation = time.validateRange(data.startISO, data.endISO);
+    if (!validation.isValid) {
+      Alert.alert('Error', validation.error || 'Invalid time range');
+      return;
+    }
+
+    await updateSession(editingSession.id, data, resolution);
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = useCallback((session: SleepSession) => {
+    setSelectedIds((ids) =>
+      ids.includes(session.id) ? ids.filter((id) => id !== session.id) : [...ids, session.id]
+    );
+  }, []);
+
+  const selectedSessions = useMemo(
+    () => sessions.filter((session) => selectedIds.includes(session.id)),
+    [sessions, selectedIds]
+  );
+
+  const handleMerge = () => {
+    const mergeError = getMergeError(selectedSessions);
+    if (mergeError) {
+      Alert.alert('Cannot Merge', mergeError);
+      return;
+    }
+
+    Alert.alert(
+      'Merge Sessions',
+      `Combine ${selectedSessions.length} sessions into one? The time between them is kept as wakings.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            await mergeSessions(selectedIds);
+            setIsSelecting(false);
+            setSelectedIds([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSplit = async (atISO: string) => {
+    if (!splittingSession) return;
+
+    await splitSession(splittingSession.id, atISO);
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const exportCsv = async (options: CsvExportOptions) => {
+    try {
+      const archived = profile ? await loadAllArchivedSessions(profile.id) : [];
+      const csv = sessionsToCsv(withArchivedSessions(sessions, archived), options);
+      const babyName = profile?.name ?? 'Baby';
+      await shareTextFile(getCsvFileName(babyName), csv, `${babyName}'s sleep log`);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to export sleep log');
+    }
+  };
+
   const handleDeleteSession = useCallback((id: string) => {
     Alert.alert(
       'Delete Session',
@@ -146,9 +320,12 @@ export const SleepLogScreen = () => {
 
 
  
+  const trashCount = useMemo(() => sessions.filter((s) => s.deleted).length, [sessions]);
+  const activeSessionCount = sessions.length - trashCount;
+
   const activeSessions = React.useMemo(
-    () => sessions.filter((s) => !s.deleted),
-    [sessions]
+    () => filterSessionsByCaregiver(sessions.filter((s) => !s.deleted), caregiverFilter),
+    [sessions, caregiverFilter]
   );
 
  
@@ -177,10 +354,15 @@ export const SleepLogScreen = () => {
     ({ item }) => (
       <SessionCard
         session={item}
+        onPress={isSelecting ? toggleSelected : undefined}
         onDelete={handleDeleteSession}
+        onEdit={isSelecting ? undefined : setEditingSession}
+        showDelete={!isSelecting}
+        highlighted={selectedIds.includes(item.id)}
+        attribution={describeAttribution(item, caregivers)}
       />
     ),
-    [handleDeleteSession]
+    [handleDeleteSession, caregivers, isSelecting, selectedIds, toggleSelected]
   );
 
   const renderDateGroup = useCallback((dateKey: string) => {
@@ -226,16 +408,57 @@ export const SleepLogScreen = () => {
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         <View style={styles.header}>
-          <CText variant="h2">Sleep Log</CText>
-          <CText variant="bodySmall">Track your baby&apos;s sleep patterns</CText>
+          <View style={styles.headerText}>
+            <CText variant="h2">Sleep Log</CText>
+            <CText variant="bodySmall">Track your baby&apos;s sleep patterns</CText>
+          </View>
+          <View style={styles.headerLinks}>
+            {activeSessionCount > 0 && (
+              <TouchableOpacity onPress={() => setShowCsvExport(true)} activeOpacity={0.7}>
+                <CText variant="bodySmall" style={styles.exportText}>
+                  Export CSV
+                </CText>
+              </TouchableOpacity>
+            )}
+            {activeSessionCount > 0 && onNavigateToDataHealth && (
+              <TouchableOpacity onPress={onNavigateToDataHealth} activeOpacity={0.7}>
+                <CText variant="bodySmall" style={styles.exportText}>
+                  Check Data
+                </CText>
+              </TouchableOpacity>
+            )}
+            {activeSessionCount > 1 && (
+              <TouchableOpacity onPress={toggleSelecting} activeOpacity={0.7}>
+                <CText variant="bodySmall" style={styles.exportText}>
+                  {isSelecting ? 'Done' : 'Merge / Split'}
+                </CText>
+              </TouchableOpacity>
+            )}
+            {trashCount > 0 && onNavigateToTrash && (
+              <TouchableOpacity onPress={onNavigateToTrash} activeOpacity={0.7}>
+                <CText variant="bodySmall" style={styles.exportText}>
+                  Trash ({trashCount})
+                </CText>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
        
         <TimerCard
           isRunning={isTimerRunning}
           elapsedSeconds={elapsedSeconds}
+          putDownISO={timerPutDown}
+          startISO={timerStart}
+          onPutDown={putDown}
           onStart={startTimer}
           onStop={stopTimer}
+          onCancel={cancelPutDown}
+        />
+
+        <FeedingQuickLog
+          lastFeeding={feedings[feedings.length - 1] ?? null}
+          onLog={handleLogFeeding}
         />
 
        
@@ -248,6 +471,13 @@ export const SleepLogScreen = () => {
 
        
         <View style={styles.sessionsSection}>
+          {caregivers.length > 0 && (
+            <CaregiverFilter
+              caregivers={caregivers}
+              selectedId={caregiverFilter}
+              onSelect={setCaregiverFilter}
+            />
+          )}
           <View style={styles.sectionHeader}>
             <CText variant="h3" style={styles.sectionTitle}>
               {showAllSessions ? 'All Sessions' : `Today's Sessions (${todaySessions.length})`}
@@ -263,12 +493,40 @@ export const SleepLogScreen = () => {
               </TouchableOpacity>
             )}
           </View>
-          {activeSessions.length === 0 ? (
+          {isSelecting && (
+            <Card style={styles.selectionCard}>
+              <CText variant="bodySmall" style={styles.selectionText}>
+                Select sessions to merge, or one to split ({selectedIds.length} selected)
+              </CText>
+              <View style={styles.selectionActions}>
+                <PrimaryButton
+                  label="Merge"
+                  onPress={handleMerge}
+                  disabled={selectedIds.length < 2}
+                  style={styles.actionButtonFlex}
+                />
+                <PrimaryButton
+                  label="Split"
+                  variant="secondary"
+                  onPress={() => setSplittingSession(selectedSessions[0] ?? null)}
+                  disabled={selectedIds.length !== 1}
+                  style={styles.actionButtonFlex}
+                />
+              </View>
+            </Card>
+          )}
+          {activeSessions.length === 0 && caregiverFilter !== null ? (
+            <EmptyState
+              message="No sleep sessions logged by this caregiver."
+              variant="compact"
+            />
+          ) : activeSessions.length === 0 ? (
             <EmptyState
               message="No sleep sessions logged. Start a timer or add a manual entry."
               actionLabel="Load Sample Data"
               onAction={async () => {
-                await generateMockData(true); // Replace existing
+                if (!activeProfileId) return;
+                await generateMockData(activeProfileId, true); // Replace existing
                 await loadSessions(); // Reload from store
               }}
             />
@@ -308,6 +566,35 @@ export const SleepLogScreen = () => {
         visible={showManualEntry}
         onClose={() => setShowManualEntry(false)}
         onSave={handleSaveManualEntry}
+        existingSessions={sessions}
+      />
+      <ManualEntryModal
+        visible={editingSession !== null}
+        session={editingSession}
+        onClose={() => setEditingSession(null)}
+        onSave={handleSaveEdit}
+        existingSessions={sessions}
+      />
+      <SplitSessionModal
+        visible={splittingSession !== null}
+        session={splittingSession}
+        onClose={() => setSplittingSession(null)}
+        onSplit={handleSplit}
+      />
+      <CsvExportModal
+        visible={showCsvExport}
+        onClose={() => setShowCsvExport(false)}
+        onExport={exportCsv}
+      />
+      <SessionTagsModal
+        visible={taggingSession !== null}
+        session={taggingSession}
+        onClose={() => setTaggingSession(null)}
+        onSave={(tags) => {
+          if (taggingSession) {
+            updateSession(taggingSession.id, tags);
+          }
+        }}
       />
     </SafeAreaView>
   );
@@ -327,8 +614,36 @@ const styles = StyleSheet.create({
     paddingBottom: coddleTheme.spacing(3),
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
     marginBottom: coddleTheme.spacing(4),
   },
+  headerText: {
+    flex: 1,
+  },
+  headerLinks: {
+    alignItems: 'flex-end',
+    gap: coddleTheme.spacing(2),
+  },
+  exportText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
+  selectionCard: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  selectionText: {
+    color: coddleTheme.colors.textSecondary,
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(2),
+  },
+  actionButtonFlex: {
+    flex: 1,
+  },
   manualButton: {
     marginBottom: coddleTheme.spacing(3),
   },
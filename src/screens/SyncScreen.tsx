@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { SafeAreaView, StyleSheet, View, ScrollView, TextInput, Alert } from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { useSyncStore } from '../stores/syncStore';
+import { useProfileStore } from '../stores/profileStore';
+import { time } from '../utils/time';
+
+export const SyncScreen = () => {
+  const config = useSyncStore((state) => state.config);
+  const isSyncing = useSyncStore((state) => state.isSyncing);
+  const reports = useSyncStore((state) => state.reports);
+  const lastSyncedAtISO = useSyncStore((state) => state.lastSyncedAtISO);
+  const error = useSyncStore((state) => state.error);
+  const loadConfig = useSyncStore((state) => state.loadConfig);
+  const connect = useSyncStore((state) => state.connect);
+  const disconnect = useSyncStore((state) => state.disconnect);
+  const syncNow = useSyncStore((state) => state.syncNow);
+  const profiles = useProfileStore((state) => state.profiles);
+
+  const [endpoint, setEndpoint] = useState('');
+  const [token, setToken] = useState('');
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  useEffect(() => {
+    if (config) {
+      setEndpoint(config.endpoint);
+      setToken(config.token);
+    }
+  }, [config]);
+
+  const handleDisconnect = () => {
+    Alert.alert(
+      'Turn Off Sync',
+      'This phone stops sharing sleep logs. Nothing already logged is removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Turn Off', style: 'destructive', onPress: () => disconnect() },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <CText variant="h2">Family Sync</CText>
+          <CText variant="bodySmall">
+            Share sleep logs between caregivers&apos; phones
+          </CText>
+        </View>
+
+        <Card style={styles.card}>
+          <CText variant="label" style={styles.inputLabel}>
+            Sync Server
+          </CText>
+          <TextInput
+            style={styles.input}
+            value={endpoint}
+            onChangeText={setEndpoint}
+            placeholder="https://sync.example.com"
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+
+          <CText variant="label" style={styles.inputLabel}>
+            Family Code
+          </CText>
+          <TextInput
+            style={styles.input}
+            value={token}
+            onChangeText={setToken}
+            placeholder="Same code on every phone"
+            placeholderTextColor={coddleTheme.colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          <CText variant="bodySmall" style={styles.detailText}>
+            Each phone needs the same child profiles. Set up the second phone by restoring a
+            backup from the first.
+          </CText>
+
+          {error && (
+            <CText variant="bodySmall" style={styles.errorText}>
+              {error}
+            </CText>
+          )}
+
+          <PrimaryButton
+            label={config ? 'Save & Sync' : 'Connect'}
+            onPress={() => connect(endpoint, token)}
+            disabled={isSyncing}
+            style={styles.actionButton}
+          />
+        </Card>
+
+        {config && (
+          <Card style={styles.card}>
+            <CText variant="h3">Status</CText>
+            <CText variant="bodySmall" style={styles.detailText}>
+              {lastSyncedAtISO
+                ? `Last synced ${time.parse(lastSyncedAtISO).format('MMM D, h:mm A')}`
+                : 'Not synced yet'}
+            </CText>
+            {profiles.map((child) => {
+              const report = reports[child.id];
+              if (!report) return null;
+              return (
+                <CText key={child.id} variant="bodySmall" style={styles.detailText}>
+                  {child.name}: sent {report.pushed} · received {report.received} · updated{' '}
+                  {report.applied}
+                  {report.conflicts > 0 && ` · ${report.conflicts} overlap existing sleep`}
+                </CText>
+              );
+            })}
+
+            {Object.values(reports).some((report) => report.conflicts > 0) && (
+              <CText variant="bodySmall" style={styles.detailText}>
+                Sessions logged on both phones were kept. Use Check Data in the Sleep Log to
+                merge or trim them.
+              </CText>
+            )}
+
+            <View style={styles.actions}>
+              <PrimaryButton
+                label={isSyncing ? 'Syncing...' : 'Sync Now'}
+                onPress={() => syncNow()}
+                disabled={isSyncing}
+                style={styles.actionButtonFlex}
+              />
+              <PrimaryButton
+                label="Turn Off"
+                variant="secondary"
+                onPress={handleDisconnect}
+                disabled={isSyncing}
+                style={styles.actionButtonFlex}
+              />
+            </View>
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    marginBottom: coddleTheme.spacing(4),
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  inputLabel: {
+    marginTop: coddleTheme.spacing(2),
+    marginBottom: coddleTheme.spacing(1),
+    color: coddleTheme.colors.textPrimary,
+  },
+  input: {
+    backgroundColor: coddleTheme.colors.surface,
+    borderWidth: 1,
+    borderColor: coddleTheme.colors.border,
+    borderRadius: coddleTheme.radius.md,
+    padding: coddleTheme.spacing(2),
+    color: coddleTheme.colors.textPrimary,
+    fontSize: 14,
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  errorText: {
+    color: coddleTheme.colors.error,
+    marginTop: coddleTheme.spacing(2),
+  },
+  actionButton: {
+    marginTop: coddleTheme.spacing(3),
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  actionButtonFlex: {
+    flex: 1,
+  },
+});
@@ -15,13 +15,41 @@ import { SleepSession } from '../types';
 import { time } from '../utils/time';
 import type { Dayjs } from '../utils/time';
 import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
+import { useCaregiverStore } from '../stores/caregiverStore';
+import { useFeedingStore } from '../stores/feedingStore';
+import { useDisruptionStore } from '../stores/disruptionStore';
 import { LineChart } from '../components/charts/LineChart';
 import { BarChart } from '../components/charts/BarChart';
 import { TimelineBar, SessionList } from '../components/timeline';
-import { DateNavigator } from '../components/common';
-import { formatSessionTime, formatDurationFromISO } from '../utils/formatters';
+import { DateNavigator, CaregiverFilter } from '../components/common';
+import { ManualEntryModal, ManualEntryData, DisruptionModal } from '../components/sleep';
+import { ConflictResolution } from '../services/sessionValidation';
+import {
+  formatSessionTime,
+  formatDurationFromISO,
+  formatDurationFromMinutes,
+} from '../utils/formatters';
 import { getSessionColor, getQualityColor } from '../utils/colors';
-import { useNapLengthChartData, useDaytimeSleepChartData } from '../hooks/useChartData';
+import {
+  useNapLengthChartData,
+  useDaytimeSleepChartData,
+  useNapLengthByLocationChartData,
+} from '../hooks/useChartData';
+import { getCaregiverName, filterSessionsByCaregiver } from '../services/caregivers';
+import { SESSION_KIND_LABELS, getSessionKind } from '../services/sessionClassification';
+import { NIGHT_WAKING_REASON_LABELS, getLongestStretch } from '../services/nightWakings';
+import { describeSleepTags } from '../services/sleepTags';
+import {
+  DisruptionInput,
+  getDisruptionForDay,
+  describeDisruption,
+} from '../services/disruptions';
+
+const SOURCE_LABELS: Record<SleepSession['source'], string> = {
+  timer: 'Timer',
+  manual: 'Manual Entry',
+  import: 'Imported',
+};
 
 interface TimelineSession extends SleepSession {
  
@@ -44,15 +72,23 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
  
   const allSessions = useSleepSessionsStore((state) => state.sessions);
   const loadSessions = useSleepSessionsStore((state) => state.loadSessions);
+  const caregivers = useCaregiverStore((state) => state.caregivers);
+  const feedings = useFeedingStore((state) => state.feedings);
+  const disruptions = useDisruptionStore((state) => state.episodes);
+  const addDisruption = useDisruptionStore((state) => state.addDisruption);
+  const deleteDisruption = useDisruptionStore((state) => state.deleteDisruption);
+  const [caregiverFilter, setCaregiverFilter] = useState<string | null>(null);
   
  
   const sessions = React.useMemo(
-    () => allSessions.filter((s) => !s.deleted),
-    [allSessions]
+    () => filterSessionsByCaregiver(allSessions.filter((s) => !s.deleted), caregiverFilter),
+    [allSessions, caregiverFilter]
   );
   
   const [selectedDate, setSelectedDate] = useState<string>(time.dayKey(time.nowISO()));
   const [selectedSession, setSelectedSession] = useState<SleepSession | null>(null);
+  const [editingSession, setEditingSession] = useState<SleepSession | null>(null);
+  const [isMarkingDisruption, setIsMarkingDisruption] = useState(false);
 
  
   const safeHighlightIds: string[] = (() => {
@@ -155,6 +191,7 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
   };
 
   const deleteSessionFromStore = useSleepSessionsStore((state) => state.deleteSession);
+  const updateSession = useSleepSessionsStore((state) => state.updateSession);
 
  
   const deleteSession = useCallback((id: string) => {
@@ -181,15 +218,62 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
  
   const napLengthChartData = useNapLengthChartData(sessions);
   const daytimeSleepChartData = useDaytimeSleepChartData(sessions);
+  const napLengthByLocationChartData = useNapLengthByLocationChartData(sessions);
 
  
   const handleSessionPress = useCallback((session: SleepSession) => {
     setSelectedSession(session);
   }, []);
 
+  const handleSessionEdit = useCallback((session: SleepSession) => {
+    setSelectedSession(null);
+    setEditingSession(session);
+  }, []);
+
+  const handleSaveEdit = async (data: ManualEntryData, resolution?: ConflictResolution) => {
+    if (!editingSession) return;
+
+    const validation = time.validateRange(data.startISO, data.endISO);
+    if (!validation.isValid) {
+      Alert.alert('Error', validation.error || 'Invalid time range');
+      return;
+    }
+
+    await updateSession(editingSession.id, data, resolution);
+  };
+
+  const handleSaveDisruption = async (input: DisruptionInput): Promise<boolean> => {
+    const episode = await addDisruption(input);
+    if (!episode) {
+      Alert.alert('Error', useDisruptionStore.getState().error || 'Failed to add disruption');
+      return false;
+    }
+    return true;
+  };
+
+  const handleRemoveDisruption = (id: string) => {
+    Alert.alert('Remove Disruption', 'Sleep on these days will count towards learning again.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteDisruption(id) },
+    ]);
+  };
+
 
 
   const daySessions = getDaySessions();
+  const dayFeedings = React.useMemo(
+    () => feedings.filter((feeding) => time.dayKey(feeding.startISO) === selectedDate),
+    [feedings, selectedDate]
+  );
+  const dayDisruption = React.useMemo(
+    () => getDisruptionForDay(disruptions, selectedDate),
+    [disruptions, selectedDate]
+  );
+  const loggedBy = selectedSession ? getCaregiverName(caregivers, selectedSession.createdBy) : null;
+  const editedBy =
+    selectedSession && selectedSession.updatedBy !== selectedSession.createdBy
+      ? getCaregiverName(caregivers, selectedSession.updatedBy)
+      : null;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -197,8 +281,19 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
         selectedDate={selectedDate}
         onDateChange={setSelectedDate}
         sessionCount={daySessions.length}
+        disruption={dayDisruption}
       />
 
+      {caregivers.length > 0 && (
+        <View style={styles.filterRow}>
+          <CaregiverFilter
+            caregivers={caregivers}
+            selectedId={caregiverFilter}
+            onSelect={setCaregiverFilter}
+          />
+        </View>
+      )}
+
       <ScrollView
         style={styles.timelineContainer}
         contentContainerStyle={styles.timelineContent}
@@ -215,10 +310,11 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
             onSessionPress={handleSessionPress}
             getSessionColor={getSessionColor}
             getQualityColor={getQualityColor}
+            feedings={dayFeedings}
           />
           
          
-          {daySessions.length > 0 && (
+          {(daySessions.length > 0 || dayFeedings.length > 0) && (
             <View style={styles.legend}>
               <View style={styles.legendItem}>
                 <View style={[styles.legendColor, { backgroundColor: coddleTheme.colors.sleepNight }]} />
@@ -232,7 +328,42 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
                 <View style={[styles.legendColor, { borderTopWidth: 3, borderTopColor: coddleTheme.colors.success }]} />
                 <CText variant="bodySmall" style={styles.legendText}>Top border = Quality</CText>
               </View>
+              {dayFeedings.length > 0 && (
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: coddleTheme.colors.accentMint }]} />
+                  <CText variant="bodySmall" style={styles.legendText}>
+                    Feed ({dayFeedings.length})
+                  </CText>
+                </View>
+              )}
+            </View>
+          )}
+
+          {dayDisruption ? (
+            <View style={styles.disruptionRow}>
+              <View style={styles.disruptionInfo}>
+                <CText variant="bodySmall" style={styles.disruptionTitle}>
+                  {describeDisruption(dayDisruption)}
+                </CText>
+                <CText variant="bodySmall" style={styles.legendText}>
+                  {dayDisruption.notes ? `${dayDisruption.notes} · ` : ''}Not used for learning
+                </CText>
+              </View>
+              <TouchableOpacity onPress={() => handleRemoveDisruption(dayDisruption.id)}>
+                <CText variant="bodySmall" style={styles.disruptionRemove}>
+                  Remove
+                </CText>
+              </TouchableOpacity>
             </View>
+          ) : (
+            <TouchableOpacity
+              onPress={() => setIsMarkingDisruption(true)}
+              style={styles.disruptionAdd}
+            >
+              <CText variant="bodySmall" style={styles.disruptionAddText}>
+                + Mark Illness, Teething or Travel
+              </CText>
+            </TouchableOpacity>
           )}
         </Card>
 
@@ -242,6 +373,8 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
           highlightSessionIds={safeHighlightIds}
           onSessionPress={handleSessionPress}
           onSessionDelete={deleteSession}
+          onSessionEdit={handleSessionEdit}
+          caregivers={caregivers}
         />
 
        
@@ -284,6 +417,22 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
                 </View>
               </Card>
             )}
+
+            {napLengthByLocationChartData.labels.length > 0 && (
+              <Card style={styles.chartCard}>
+                <CText variant="label" style={styles.chartTitle}>
+                  Average Nap Length by Location
+                </CText>
+                <View style={styles.chartContainer}>
+                  <BarChart
+                    data={napLengthByLocationChartData.datasets[0].data}
+                    labels={napLengthByLocationChartData.labels}
+                    color={coddleTheme.colors.accentPurple}
+                    yAxisLabel="m"
+                  />
+                </View>
+              </Card>
+            )}
           </View>
         )}
       </ScrollView>
@@ -307,6 +456,53 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
                 <CText variant="label">Duration:</CText>
                 <CText variant="body">{formatDurationFromISO(selectedSession.startISO, selectedSession.endISO)}</CText>
               </View>
+              {!!selectedSession.wakings?.length && (
+                <>
+                  <View style={styles.detailRow}>
+                    <CText variant="label">Wakings:</CText>
+                    <View>
+                      {selectedSession.wakings.map((waking) => (
+                        <CText key={waking.startISO} variant="body">
+                          {formatSessionTime(waking.startISO, waking.endISO)} ·{' '}
+                          {NIGHT_WAKING_REASON_LABELS[waking.reason]}
+                        </CText>
+                      ))}
+                    </View>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <CText variant="label">Longest stretch:</CText>
+                    <CText variant="body">
+                      {formatDurationFromMinutes(
+                        getLongestStretch([selectedSession])?.durationMin ?? 0
+                      )}
+                    </CText>
+                  </View>
+                </>
+              )}
+              <View style={styles.detailRow}>
+                <CText variant="label">Type:</CText>
+                <CText variant="body">
+                  {SESSION_KIND_LABELS[getSessionKind(selectedSession)]}
+                  {selectedSession.kind ? ' (set by hand)' : ''}
+                </CText>
+              </View>
+              {describeSleepTags(selectedSession) && (
+                <View style={styles.detailRow}>
+                  <CText variant="label">Slept:</CText>
+                  <CText variant="body">{describeSleepTags(selectedSession)}</CText>
+                </View>
+              )}
+              {selectedSession.putDownISO && (
+                <View style={styles.detailRow}>
+                  <CText variant="label">Put down:</CText>
+                  <CText variant="body">
+                    {time.format(selectedSession.putDownISO, 'h:mm A')} · asleep after{' '}
+                    {formatDurationFromMinutes(
+                      time.durationMinutes(selectedSession.putDownISO, selectedSession.startISO)
+                    )}
+                  </CText>
+                </View>
+              )}
               {selectedSession.quality && (
                 <View style={styles.detailRow}>
                   <CText variant="label">Quality:</CText>
@@ -321,13 +517,25 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
               )}
               <View style={styles.detailRow}>
                 <CText variant="label">Source:</CText>
-                <CText variant="body">{selectedSession.source === 'timer' ? 'Timer' : 'Manual Entry'}</CText>
+                <CText variant="body">{SOURCE_LABELS[selectedSession.source]}</CText>
               </View>
+              {loggedBy && (
+                <View style={styles.detailRow}>
+                  <CText variant="label">Logged by:</CText>
+                  <CText variant="body">{loggedBy}</CText>
+                </View>
+              )}
+              {editedBy && (
+                <View style={styles.detailRow}>
+                  <CText variant="label">Last edited by:</CText>
+                  <CText variant="body">{editedBy}</CText>
+                </View>
+              )}
             </View>
             <View style={styles.detailActions}>
               <PrimaryButton
-                label="Close"
-                onPress={() => setSelectedSession(null)}
+                label="Edit"
+                onPress={() => handleSessionEdit(selectedSession)}
                 variant="primary"
                 style={styles.detailButton}
               />
@@ -344,6 +552,21 @@ export const TimelineScreen: React.FC<TimelineScreenProps> = ({ highlightSession
           </Card>
         </View>
       )}
+
+      <ManualEntryModal
+        visible={editingSession !== null}
+        session={editingSession}
+        onClose={() => setEditingSession(null)}
+        onSave={handleSaveEdit}
+        existingSessions={allSessions}
+      />
+
+      <DisruptionModal
+        visible={isMarkingDisruption}
+        startDayKey={selectedDate}
+        onClose={() => setIsMarkingDisruption(false)}
+        onSave={handleSaveDisruption}
+      />
     </SafeAreaView>
   );
 };
@@ -400,6 +623,10 @@ const styles = StyleSheet.create({
     color: coddleTheme.colors.primary,
     fontWeight: '600',
   },
+  filterRow: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(2),
+  },
   timelineContainer: {
     flex: 1,
   },
@@ -434,10 +661,44 @@ const styles = StyleSheet.create({
     height: 12,
     borderRadius: coddleTheme.radius.xs,
   },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   legendText: {
     color: coddleTheme.colors.textSecondary,
     fontSize: 11,
   },
+  disruptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: coddleTheme.spacing(3),
+    padding: coddleTheme.spacing(2),
+    borderRadius: coddleTheme.radius.sm,
+    backgroundColor: coddleTheme.colors.accentPeach,
+  },
+  disruptionInfo: {
+    flex: 1,
+  },
+  disruptionTitle: {
+    color: coddleTheme.colors.textPrimary,
+    fontWeight: '600',
+  },
+  disruptionRemove: {
+    color: coddleTheme.colors.error,
+    fontWeight: '600',
+    marginLeft: coddleTheme.spacing(2),
+  },
+  disruptionAdd: {
+    alignSelf: 'center',
+    marginTop: coddleTheme.spacing(3),
+    paddingVertical: coddleTheme.spacing(1),
+  },
+  disruptionAddText: {
+    color: coddleTheme.colors.primary,
+    fontWeight: '600',
+  },
   modalOverlay: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import {
+  SafeAreaView,
+  StyleSheet,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { coddleTheme } from '../theme/coddleTheme';
+import { Card } from '../components/ui/Card';
+import { CText } from '../components/ui/CText';
+import { PrimaryButton } from '../components/ui/PrimaryButton';
+import { EmptyState } from '../components/common';
+import { useSleepSessionsStore } from '../stores/sleepSessionsStore';
+import { useCaregiverStore } from '../stores/caregiverStore';
+import { COMPACTION_CONFIG } from '../config/constants';
+import { getTrashedSessions, getDeletedAtISO, getTrashExpiryISO } from '../services/trash';
+import { getCaregiverName } from '../services/caregivers';
+import { formatSessionTime, formatDurationFromISO } from '../utils/formatters';
+import { time } from '../utils/time';
+
+export const TrashScreen = () => {
+  const sessions = useSleepSessionsStore((state) => state.sessions);
+  const restoreSession = useSleepSessionsStore((state) => state.restoreSession);
+  const purgeSessions = useSleepSessionsStore((state) => state.purgeSessions);
+  const caregivers = useCaregiverStore((state) => state.caregivers);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const trashed = useMemo(() => getTrashedSessions(sessions), [sessions]);
+
+  const showStoreError = () => {
+    const { error } = useSleepSessionsStore.getState();
+    if (error) {
+      Alert.alert('Error', error);
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    setIsWorking(true);
+    try {
+      await restoreSession(id);
+      showStoreError();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const purge = async (ids: string[]) => {
+    setIsWorking(true);
+    try {
+      const purged = await purgeSessions(ids);
+      showStoreError();
+      if (purged < ids.length && !useSleepSessionsStore.getState().error) {
+        Alert.alert(
+          'Waiting to Sync',
+          'Some deletions have not reached other caregivers yet. They will stay in the trash until the next sync.'
+        );
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePurge = (id: string) => {
+    Alert.alert('Delete Forever', 'This session cannot be restored afterwards.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => purge([id]) },
+    ]);
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trashed.length} ${trashed.length === 1 ? 'session' : 'sessions'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: () => purge(trashed.map((session) => session.id)),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <CText variant="h2">Trash</CText>
+            <CText variant="bodySmall">
+              Deleted sessions are removed for good after{' '}
+              {COMPACTION_CONFIG.tombstoneRetentionDays} days
+            </CText>
+          </View>
+          {trashed.length > 0 && (
+            <TouchableOpacity onPress={handleEmptyTrash} disabled={isWorking} activeOpacity={0.7}>
+              <CText variant="bodySmall" style={styles.emptyText}>
+                Empty Trash
+              </CText>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {trashed.length === 0 ? (
+          <EmptyState message="Trash is empty." variant="compact" />
+        ) : (
+          trashed.map((session) => {
+            const deletedBy = getCaregiverName(caregivers, session.updatedBy);
+            return (
+              <Card key={session.id} style={styles.card}>
+                <CText variant="label">
+                  {time.parse(session.startISO).format('ddd, MMM D')} ·{' '}
+                  {formatSessionTime(session.startISO, session.endISO)}
+                </CText>
+                <CText variant="bodySmall" style={styles.detailText}>
+                  {formatDurationFromISO(session.startISO, session.endISO)}
+                  {session.notes ? ` · ${session.notes}` : ''}
+                </CText>
+                <CText variant="bodySmall" style={styles.detailText}>
+                  Deleted {time.parse(getDeletedAtISO(session)).format('MMM D, h:mm A')}
+                  {deletedBy ? ` by ${deletedBy}` : ''} · removed on{' '}
+                  {time.parse(getTrashExpiryISO(session)).format('MMM D')}
+                </CText>
+                <View style={styles.actions}>
+                  <PrimaryButton
+                    label="Restore"
+                    onPress={() => handleRestore(session.id)}
+                    disabled={isWorking}
+                    style={styles.actionButtonFlex}
+                  />
+                  <PrimaryButton
+                    label="Delete Forever"
+                    variant="secondary"
+                    onPress={() => handlePurge(session.id)}
+                    disabled={isWorking}
+                    style={styles.actionButtonFlex}
+                  />
+                </View>
+              </Card>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: coddleTheme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: coddleTheme.spacing(4),
+    paddingTop: coddleTheme.spacing(6),
+    paddingBottom: coddleTheme.spacing(4),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: coddleTheme.spacing(4),
+  },
+  headerText: {
+    flex: 1,
+    marginRight: coddleTheme.spacing(2),
+  },
+  emptyText: {
+    color: coddleTheme.colors.error,
+    fontWeight: '600',
+  },
+  card: {
+    marginBottom: coddleTheme.spacing(3),
+  },
+  detailText: {
+    color: coddleTheme.colors.textSecondary,
+    marginTop: coddleTheme.spacing(1),
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: coddleTheme.spacing(2),
+    marginTop: coddleTheme.spacing(3),
+  },
+  actionButtonFlex: {
+    flex: 1,
+  },
+});
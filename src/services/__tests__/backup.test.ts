@@ -0,0 +1,361 @@
+/**
+ * Unit Tests for Backup and Restore
+ * 
+ * Tests cover:
+ * - Field-level validation of imported sessions
+ * - Backup document checks and migration of older schema versions
+ * - Merging by id using updatedAtISO
+ * - Round trip from one device's storage into another's
+ * - Archived sessions in backups and restores
+ * - Feeds and disruption episodes in backups and restores
+ */
+
+import {
+  validateSleepSession,
+  parseBackup,
+  mergeSessions,
+  createBackup,
+  restoreBackup,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+} from '../backup';
+import {
+  SleepSession,
+  BabyProfile,
+  Caregiver,
+  FeedingSession,
+  DisruptionEpisode,
+} from '../../types';
+import { CURRENT_SCHEMA_VERSION } from '../../config/constants';
+import { createMemoryAdapter } from '../../storage/adapters';
+import {
+  setStorageAdapter,
+  saveBabyProfiles,
+  saveSleepSessions,
+  loadSleepSessions,
+  loadBabyProfiles,
+  saveCaregivers,
+  loadCaregivers,
+  saveFeedings,
+  loadFeedings,
+  saveDisruptions,
+  loadDisruptions,
+} from '../../storage/sleepStorage';
+import { compactSleepSessions } from '../sessionArchive';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Backup and Restore', () => {
+  const profile: BabyProfile = {
+    id: 'baby_1',
+    name: 'Test Baby',
+    birthDateISO: '2024-01-01T00:00:00.000Z',
+  };
+
+  const createSession = (overrides: Partial<SleepSession> = {}): SleepSession => ({
+    id: 'session_1',
+    startISO: '2024-06-15T10:00:00.000Z',
+    endISO: '2024-06-15T11:00:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T11:00:00.000Z',
+    ...overrides,
+  });
+
+  const createDocument = (sessions: unknown[], schemaVersion = CURRENT_SCHEMA_VERSION) =>
+    JSON.stringify({
+      format: BACKUP_FORMAT,
+      backupVersion: BACKUP_VERSION,
+      schemaVersion,
+      exportedAtISO: '2024-06-16T00:00:00.000Z',
+      activeProfileId: profile.id,
+      profiles: [profile],
+      children: {
+        [profile.id]: { sessions, learnerState: null, notificationHistory: [] },
+      },
+    });
+
+  describe('validateSleepSession', () => {
+    it('should accept a complete session', () => {
+      const session = createSession({
+        quality: 4,
+        notes: 'Good nap',
+        deleted: true,
+        kind: 'fragment',
+        wakings: [
+          { startISO: '2024-06-15T10:20:00.000Z', endISO: '2024-06-15T10:30:00.000Z', reason: 'feed' },
+        ],
+        putDownISO: '2024-06-15T09:50:00.000Z',
+        location: 'stroller',
+        method: 'rocked',
+        createdBy: 'caregiver_1',
+        updatedBy: 'caregiver_2',
+      });
+
+      expect(validateSleepSession(session)).toEqual({ session });
+    });
+
+    it('should drop unknown fields', () => {
+      const result = validateSleepSession({ ...createSession(), extra: 'field' });
+
+      expect(result.session).toEqual(createSession());
+    });
+
+    it.each([
+      ['missing id', { id: '' }, 'Missing id'],
+      ['bad start date', { startISO: 'yesterday' }, 'Invalid startISO'],
+      ['date without time', { endISO: '2024-06-15' }, 'Invalid endISO'],
+      ['end before start', { endISO: '2024-06-15T09:00:00.000Z' }, 'End time must be after start time'],
+      ['quality out of range', { quality: 6 }, 'Quality must be a whole number from 1 to 5'],
+      ['fractional quality', { quality: 2.5 }, 'Quality must be a whole number from 1 to 5'],
+      ['unknown source', { source: 'guess' }, 'Unknown source "guess"'],
+      ['unknown kind', { kind: 'siesta' }, 'Unknown kind "siesta"'],
+      ['unknown location', { location: 'sofa' }, 'Unknown location "sofa"'],
+      ['unknown method', { method: 'shushed' }, 'Unknown method "shushed"'],
+      ['non-text notes', { notes: 42 }, 'Notes must be text'],
+      [
+        'put down after falling asleep',
+        { putDownISO: '2024-06-15T10:05:00.000Z' },
+        'Put-down time must be at or before the start time',
+      ],
+      ['non-text caregiver', { createdBy: 7 }, 'createdBy must be a caregiver id'],
+      [
+        'waking outside the session',
+        { wakings: [{ startISO: '2024-06-15T09:00:00.000Z', endISO: '2024-06-15T09:10:00.000Z' }] },
+        'Wakings must be ordered times inside the session',
+      ],
+    ])('should reject %s', (_label, overrides, error) => {
+      const result = validateSleepSession({ ...createSession(), ...overrides });
+
+      expect(result.session).toBeUndefined();
+      expect(result.error).toBe(error);
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should refuse files that are not backups', () => {
+      expect(parseBackup('not json').error).toBe('This file is not valid JSON');
+      expect(parseBackup('{"format":"other"}').error).toBe('This file is not a Coddle backup');
+    });
+
+    it('should refuse backups from a newer schema', () => {
+      const result = parseBackup(createDocument([], CURRENT_SCHEMA_VERSION + 1));
+
+      expect(result.backup).toBeNull();
+      expect(result.error).toContain('newer version');
+    });
+
+    it('should report rejected rows and keep valid ones', () => {
+      const result = parseBackup(
+        createDocument([createSession(), { ...createSession({ id: 'bad' }), quality: 9 }])
+      );
+
+      expect(result.backup?.children[profile.id].sessions).toHaveLength(1);
+      expect(result.rejected).toEqual([
+        {
+          babyId: profile.id,
+          index: 1,
+          id: 'bad',
+          reason: 'Quality must be a whole number from 1 to 5',
+        },
+      ]);
+    });
+
+    it('should report rejected feeds alongside rejected sessions', () => {
+      const document = JSON.parse(createDocument([createSession()]));
+      document.children[profile.id].feedings = [
+        { id: 'feeding_1', type: 'juice', startISO: '2024-06-15T09:30:00.000Z' },
+      ];
+
+      const result = parseBackup(JSON.stringify(document));
+
+      expect(result.backup?.children[profile.id].feedings).toEqual([]);
+      expect(result.rejected).toEqual([
+        {
+          babyId: profile.id,
+          kind: 'feeding',
+          index: 0,
+          id: 'feeding_1',
+          reason: 'Unknown feeding type "juice"',
+        },
+      ]);
+    });
+
+    it('should migrate sessions from older schema versions before validating', () => {
+      const { source, updatedAtISO, ...legacySession } = createSession();
+
+      const result = parseBackup(createDocument([legacySession], 0));
+
+      expect(result.rejected).toEqual([]);
+      expect(result.backup?.children[profile.id].sessions[0].source).toBe('manual');
+    });
+  });
+
+  describe('mergeSessions', () => {
+    it('should add new sessions and keep the newest edit of each', () => {
+      const local = [
+        createSession({ id: 'a', notes: 'local', updatedAtISO: '2024-06-15T12:00:00.000Z' }),
+        createSession({ id: 'b', notes: 'local', updatedAtISO: '2024-06-15T12:00:00.000Z' }),
+      ];
+      const incoming = [
+        createSession({ id: 'a', notes: 'older', updatedAtISO: '2024-06-15T11:30:00.000Z' }),
+        createSession({ id: 'b', notes: 'newer', updatedAtISO: '2024-06-15T13:00:00.000Z' }),
+        createSession({ id: 'c' }),
+      ];
+
+      const result = mergeSessions(local, incoming);
+
+      expect(result.added).toBe(1);
+      expect(result.updated).toBe(1);
+      expect(result.unchanged).toBe(1);
+      expect(result.sessions.find((s) => s.id === 'a')?.notes).toBe('local');
+      expect(result.sessions.find((s) => s.id === 'b')?.notes).toBe('newer');
+    });
+
+    it('should carry tombstones that are newer than the local copy', () => {
+      const local = [createSession()];
+      const incoming = [createSession({ deleted: true, updatedAtISO: '2024-06-16T00:00:00.000Z' })];
+
+      const result = mergeSessions(local, incoming);
+
+      expect(result.sessions[0].deleted).toBe(true);
+    });
+  });
+
+  describe('round trip', () => {
+    it('should move everything from one device to another', async () => {
+      setStorageAdapter(createMemoryAdapter());
+      await saveBabyProfiles([profile]);
+      await saveSleepSessions(profile.id, [
+        createSession(),
+        createSession({ id: 'deleted', deleted: true }),
+      ]);
+      const json = JSON.stringify(await createBackup());
+
+      setStorageAdapter(createMemoryAdapter());
+      const report = await restoreBackup(parseBackup(json));
+
+      expect(report.profilesAdded).toBe(1);
+      expect(report.sessionsAdded).toBe(2);
+      expect((await loadBabyProfiles()).value).toEqual([profile]);
+      expect((await loadSleepSessions(profile.id)).value).toHaveLength(2);
+    });
+
+    it('should back up archived sessions and not re-add them on restore', async () => {
+      const oldNap = createSession({
+        id: 'old',
+        startISO: '2024-01-15T10:00:00.000Z',
+        endISO: '2024-01-15T11:00:00.000Z',
+        updatedAtISO: '2024-01-15T11:00:00.000Z',
+      });
+      setStorageAdapter(createMemoryAdapter());
+      await saveBabyProfiles([profile]);
+      await saveSleepSessions(profile.id, [oldNap, createSession()]);
+      await compactSleepSessions(profile.id, [oldNap, createSession()], '2024-06-16T12:00:00.000Z');
+
+      const backup = await createBackup();
+      const report = await restoreBackup(parseBackup(JSON.stringify(backup)));
+
+      expect(backup.children[profile.id].sessions.map((s) => s.id)).toEqual(['old', 'session_1']);
+      expect(report.sessionsAdded).toBe(0);
+      expect(report.sessionsUnchanged).toBe(2);
+    });
+
+    it('should back up feeds and merge them by id on restore', async () => {
+      const feed = (overrides: Partial<FeedingSession> = {}): FeedingSession => ({
+        id: 'feeding_1',
+        type: 'bottle',
+        startISO: '2024-06-15T09:30:00.000Z',
+        endISO: '2024-06-15T09:30:00.000Z',
+        volumeMl: 120,
+        updatedAtISO: '2024-06-15T09:30:00.000Z',
+        ...overrides,
+      });
+      setStorageAdapter(createMemoryAdapter());
+      await saveBabyProfiles([profile]);
+      await saveFeedings(profile.id, [
+        feed({ volumeMl: 150, updatedAtISO: '2024-06-15T10:00:00.000Z' }),
+        feed({
+          id: 'feeding_2',
+          type: 'solids',
+          startISO: '2024-06-15T12:00:00.000Z',
+          endISO: '2024-06-15T12:00:00.000Z',
+        }),
+      ]);
+      const backup = await createBackup();
+      const json = JSON.stringify({
+        ...backup,
+        children: {
+          [profile.id]: {
+            ...backup.children[profile.id],
+            feedings: [...backup.children[profile.id].feedings, { id: 'bad', type: 'juice' }],
+          },
+        },
+      });
+
+      setStorageAdapter(createMemoryAdapter());
+      await saveFeedings(profile.id, [feed()]);
+      await restoreBackup(parseBackup(json));
+
+      const restored = (await loadFeedings(profile.id)).value;
+      expect(restored.map((f) => f.id)).toEqual(['feeding_1', 'feeding_2']);
+      expect(restored[0].volumeMl).toBe(150);
+    });
+
+    it('should back up disruption episodes and report invalid ones on restore', async () => {
+      const episode: DisruptionEpisode = {
+        id: 'disruption_1',
+        type: 'teething',
+        startDayKey: '2024-06-10',
+        endDayKey: '2024-06-12',
+        notes: 'Two new teeth',
+        updatedAtISO: '2024-06-10T08:00:00.000Z',
+      };
+      setStorageAdapter(createMemoryAdapter());
+      await saveBabyProfiles([profile]);
+      await saveDisruptions(profile.id, [episode]);
+      const backup = await createBackup();
+      const invalid = { ...episode, id: 'disruption_2', endDayKey: '2024-02-31' };
+      const json = JSON.stringify({
+        ...backup,
+        children: {
+          [profile.id]: {
+            ...backup.children[profile.id],
+            disruptions: [...backup.children[profile.id].disruptions, invalid],
+          },
+        },
+      });
+
+      setStorageAdapter(createMemoryAdapter());
+      const report = await restoreBackup(parseBackup(json));
+
+      expect((await loadDisruptions(profile.id)).value).toEqual([episode]);
+      expect(report.rejected).toEqual([
+        {
+          babyId: profile.id,
+          kind: 'disruption',
+          index: 1,
+          id: 'disruption_2',
+          reason: 'Invalid date',
+        },
+      ]);
+    });
+
+    it('should add caregivers without overwriting local ones', async () => {
+      const nanny: Caregiver = { id: 'caregiver_nanny', name: 'Rosa', role: 'nanny' };
+      const parent: Caregiver = { id: 'caregiver_parent', name: 'Sam', role: 'parent' };
+      setStorageAdapter(createMemoryAdapter());
+      await saveBabyProfiles([profile]);
+      await saveCaregivers([nanny, parent]);
+      const json = JSON.stringify(await createBackup());
+
+      setStorageAdapter(createMemoryAdapter());
+      await saveCaregivers([{ ...parent, name: 'Sam (me)' }]);
+      const report = await restoreBackup(parseBackup(json));
+
+      expect(report.caregiversAdded).toBe(1);
+      expect((await loadCaregivers()).value).toEqual([{ ...parent, name: 'Sam (me)' }, nanny]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Calendar Export
+ *
+ * Tests cover:
+ * - Event fields (UID, times, summary, description)
+ * - Stable UIDs across exports
+ * - Text escaping and line folding
+ */
+
+import { scheduleToICal, getBlockUid, getICalFileName } from '../calendarExport';
+import { ScheduleBlock } from '../../types';
+
+describe('Calendar Export', () => {
+  const options = { babyId: 'baby-1', babyName: 'Emma', nowISO: '2024-06-15T08:00:00Z' };
+
+  const createBlock = (overrides: Partial<ScheduleBlock>): ScheduleBlock => ({
+    id: 'schedule_nap_2024-06-15_10-00',
+    kind: 'nap',
+    startISO: '2024-06-15T14:00:00.000Z',
+    endISO: '2024-06-15T15:30:00.000Z',
+    confidence: 0.784,
+    rationale: 'Based on learned patterns',
+    ...overrides,
+  });
+
+  const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+  it('should wrap events in a calendar with CRLF line endings', () => {
+    const ics = scheduleToICal([createBlock({})], options);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it('should write UTC times, confidence in the summary and rationale as description', () => {
+    const lines = unfold(scheduleToICal([createBlock({})], options)).split('\r\n');
+
+    expect(lines).toContain('UID:baby-1.schedule_nap_2024-06-15_10-00@coddle.app');
+    expect(lines).toContain('DTSTAMP:20240615T080000Z');
+    expect(lines).toContain('DTSTART:20240615T140000Z');
+    expect(lines).toContain('DTEND:20240615T153000Z');
+    expect(lines).toContain('SUMMARY:Emma: Nap (78% confidence)');
+    expect(lines).toContain('DESCRIPTION:Based on learned patterns');
+  });
+
+  it('should give the same UID when the same block is exported again', () => {
+    const block = createBlock({});
+    const later = scheduleToICal([{ ...block, confidence: 0.5 }], {
+      ...options,
+      nowISO: '2024-06-15T12:00:00Z',
+    });
+
+    expect(unfold(later)).toContain(`UID:${getBlockUid('baby-1', block)}`);
+  });
+
+  it('should order events by start time', () => {
+    const ics = scheduleToICal(
+      [
+        createBlock({ id: 'b', kind: 'bedtime', startISO: '2024-06-15T23:00:00.000Z', endISO: '2024-06-16T09:00:00.000Z' }),
+        createBlock({ id: 'w', kind: 'windDown', startISO: '2024-06-15T22:30:00.000Z', endISO: '2024-06-15T23:00:00.000Z' }),
+      ],
+      options
+    );
+
+    expect(ics.indexOf('Wind-down')).toBeLessThan(ics.indexOf('Bedtime'));
+  });
+
+  it('should escape special characters in text', () => {
+    const ics = scheduleToICal(
+      [createBlock({ rationale: 'Short nap; earlier bedtime, see\nnotes \\ tips' })],
+      options
+    );
+
+    expect(unfold(ics)).toContain(
+      'DESCRIPTION:Short nap\\; earlier bedtime\\, see\\nnotes \\\\ tips'
+    );
+  });
+
+  it('should fold lines longer than 75 octets', () => {
+    const ics = scheduleToICal([createBlock({ rationale: 'é'.repeat(100) })], options);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+
+  it('should build a file name from the baby name', () => {
+    expect(getICalFileName('Emma Rose', '2024-06-15T12:00:00Z')).toBe(
+      'emma-rose-schedule-2024-06-15.ics'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for Caregiver Attribution
+ *
+ * Tests cover:
+ * - Caregiver input validation
+ * - Attribution labels, including unknown caregiver ids
+ * - Filtering sessions by caregiver
+ */
+
+import {
+  validateCaregiverInput,
+  createCaregiver,
+  getCaregiverName,
+  describeAttribution,
+  filterSessionsByCaregiver,
+  UNATTRIBUTED_FILTER,
+} from '../caregivers';
+import { Caregiver, SleepSession } from '../../types';
+
+describe('Caregivers', () => {
+  const anna: Caregiver = { id: 'caregiver_anna', name: 'Anna', role: 'parent' };
+  const daycare: Caregiver = { id: 'caregiver_daycare', name: 'Little Stars', role: 'daycare' };
+  const caregivers = [anna, daycare];
+
+  const createSession = (overrides: Partial<SleepSession>): SleepSession => ({
+    id: 'session',
+    startISO: '2024-06-15T14:00:00Z',
+    endISO: '2024-06-15T15:30:00Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T15:30:00Z',
+    ...overrides,
+  });
+
+  describe('validateCaregiverInput', () => {
+    it('should require a name', () => {
+      expect(validateCaregiverInput({ name: '  ', role: 'parent' }, []).isValid).toBe(false);
+    });
+
+    it('should reject duplicate names regardless of case', () => {
+      const result = validateCaregiverInput({ name: 'anna', role: 'nanny' }, caregivers);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('already');
+    });
+
+    it('should allow keeping the same name when editing', () => {
+      const result = validateCaregiverInput({ name: 'Anna', role: 'nanny' }, caregivers, anna.id);
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  it('should create a caregiver with a trimmed name', () => {
+    const caregiver = createCaregiver({ name: ' Grandma ', role: 'grandparent' });
+    expect(caregiver.name).toBe('Grandma');
+    expect(caregiver.id).toMatch(/^caregiver_/);
+  });
+
+  it('should label unknown ids instead of hiding them', () => {
+    expect(getCaregiverName(caregivers, 'caregiver_removed')).toBe('Another caregiver');
+    expect(getCaregiverName(caregivers, undefined)).toBeNull();
+  });
+
+  describe('describeAttribution', () => {
+    it('should name the caregiver who logged the session', () => {
+      const session = createSession({ createdBy: anna.id, updatedBy: anna.id });
+      expect(describeAttribution(session, caregivers)).toBe('Logged by Anna');
+    });
+
+    it('should mention a different caregiver who edited it', () => {
+      const session = createSession({ createdBy: daycare.id, updatedBy: anna.id });
+      expect(describeAttribution(session, caregivers)).toBe(
+        'Logged by Little Stars · edited by Anna'
+      );
+    });
+
+    it('should return null for unattributed sessions', () => {
+      expect(describeAttribution(createSession({}), caregivers)).toBeNull();
+    });
+  });
+
+  describe('filterSessionsByCaregiver', () => {
+    const sessions = [
+      createSession({ id: 'home', createdBy: anna.id }),
+      createSession({ id: 'daycare', createdBy: daycare.id, updatedBy: anna.id }),
+      createSession({ id: 'old' }),
+    ];
+
+    it('should keep every session without a filter', () => {
+      expect(filterSessionsByCaregiver(sessions, null)).toHaveLength(3);
+    });
+
+    it('should filter by who logged the session, not who edited it', () => {
+      expect(filterSessionsByCaregiver(sessions, anna.id).map((s) => s.id)).toEqual(['home']);
+      expect(filterSessionsByCaregiver(sessions, daycare.id).map((s) => s.id)).toEqual([
+        'daycare',
+      ]);
+    });
+
+    it('should find sessions nobody is credited with', () => {
+      expect(filterSessionsByCaregiver(sessions, UNATTRIBUTED_FILTER).map((s) => s.id)).toEqual([
+        'old',
+      ]);
+    });
+  });
+});
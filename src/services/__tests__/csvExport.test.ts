@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for CSV Export
+ * 
+ * Tests cover:
+ * - Column layout and chronological ordering
+ * - Timezone and date format options
+ * - Nap/night classification
+ * - Escaping of commas, quotes, newlines and formula characters
+ */
+
+import { sessionsToCsv, getCsvFileName, CSV_DATE_FORMATS } from '../csvExport';
+import { SleepSession } from '../../types';
+
+describe('CSV Export', () => {
+  const TZ = 'America/New_York';
+
+  const createSession = (overrides: Partial<SleepSession>): SleepSession => ({
+    id: 'session',
+    startISO: '2024-06-15T14:00:00Z',
+    endISO: '2024-06-15T15:30:00Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T15:30:00Z',
+    ...overrides,
+  });
+
+  const parseRows = (csv: string) => csv.split('\r\n');
+
+  it('should write a header with the export timezone', () => {
+    const csv = sessionsToCsv([], { timeZone: TZ });
+
+    expect(parseRows(csv)[0]).toBe(
+      `Start (${TZ}),End (${TZ}),Duration (min),Type,Quality,Notes,Source`
+    );
+  });
+
+  it('should format times in the requested timezone and format', () => {
+    const csv = sessionsToCsv([createSession({ quality: 4 })], {
+      timeZone: TZ,
+      dateFormat: CSV_DATE_FORMATS.us,
+    });
+
+    expect(parseRows(csv)[1]).toBe('06/15/2024 10:00 AM,06/15/2024 11:30 AM,90,nap,4,,manual');
+  });
+
+  it('should write UTC times in the day-first format', () => {
+    const csv = sessionsToCsv([createSession({})], {
+      timeZone: 'UTC',
+      dateFormat: CSV_DATE_FORMATS.eu,
+    });
+
+    const rows = parseRows(csv);
+    expect(rows[0].startsWith('Start (UTC),End (UTC)')).toBe(true);
+    expect(rows[1]).toBe('15/06/2024 14:00,15/06/2024 15:30,90,nap,,,manual');
+  });
+
+  it('should classify long or evening sessions as night sleep', () => {
+    const csv = sessionsToCsv(
+      [
+        createSession({
+          id: 'night',
+          startISO: '2024-06-15T23:30:00Z',
+          endISO: '2024-06-16T10:00:00Z',
+          source: 'timer',
+        }),
+      ],
+      { timeZone: TZ }
+    );
+
+    expect(parseRows(csv)[1]).toBe('2024-06-15 19:30,2024-06-16 06:00,630,night,,,timer');
+  });
+
+  it('should sort sessions and skip deleted ones', () => {
+    const csv = sessionsToCsv(
+      [
+        createSession({ id: 'late', startISO: '2024-06-15T18:00:00Z', endISO: '2024-06-15T18:45:00Z' }),
+        createSession({ id: 'gone', deleted: true }),
+        createSession({ id: 'early', startISO: '2024-06-15T12:00:00Z', endISO: '2024-06-15T13:00:00Z' }),
+      ],
+      { timeZone: TZ }
+    );
+
+    const rows = parseRows(csv);
+    expect(rows).toHaveLength(3);
+    expect(rows[1].startsWith('2024-06-15 08:00')).toBe(true);
+    expect(rows[2].startsWith('2024-06-15 14:00')).toBe(true);
+  });
+
+  it('should escape notes with commas, quotes and newlines', () => {
+    const csv = sessionsToCsv(
+      [createSession({ notes: 'Fussy, then "out cold"\nafter feed' })],
+      { timeZone: TZ }
+    );
+
+    expect(csv).toContain('"Fussy, then ""out cold""\nafter feed"');
+  });
+
+  it('should neutralise formula characters in notes', () => {
+    const csv = sessionsToCsv([createSession({ notes: '=SUM(A1:A2)' })], { timeZone: TZ });
+
+    expect(parseRows(csv)[1]).toContain(",'=SUM(A1:A2),");
+  });
+
+  it('should build a file name from the baby name and date', () => {
+    expect(getCsvFileName('Ada Lovelace!', '2024-06-15T12:00:00Z')).toMatch(
+      /^ada-lovelace-sleep-2024-06-1[45]\.csv$/
+    );
+  });
+});
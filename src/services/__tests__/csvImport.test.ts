@@ -0,0 +1,263 @@
+/**
+ * Unit Tests for CSV Import
+ *
+ * Tests cover:
+ * - RFC 4180 parsing (quotes, CRLF, BOM)
+ * - Start/end and start/duration layouts
+ * - Date order detection and 12h/24h clocks
+ * - Filtering of non-sleep activities and row-level errors
+ * - Duplicate and overlap detection against existing sessions
+ * - Applying the chosen overlap resolution
+ */
+
+import {
+  parseCsv,
+  parseSleepCsv,
+  parseDurationMinutes,
+  detectDateOrder,
+  analyzeImport,
+  getImportChanges,
+} from '../csvImport';
+import { sessionsToCsv } from '../csvExport';
+import { SleepSession } from '../../types';
+
+describe('CSV Import', () => {
+  const TZ = 'America/New_York';
+  const NOW = '2024-07-01T12:00:00.000Z';
+  const options = { timeZone: TZ, nowISO: NOW };
+
+  const createSession = (overrides: Partial<SleepSession>): SleepSession => ({
+    id: 'existing',
+    startISO: '2024-06-15T14:00:00.000Z',
+    endISO: '2024-06-15T15:30:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T15:30:00.000Z',
+    ...overrides,
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted fields, CRLF and a BOM', () => {
+      const rows = parseCsv('﻿a,b\r\n"x, y","say ""hi"""\r\n\r\n"multi\nline",z\n');
+
+      expect(rows).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['x, y', 'say "hi"'] },
+        { line: 4, fields: ['multi\nline', 'z'] },
+      ]);
+    });
+  });
+
+  describe('parseDurationMinutes', () => {
+    it.each([
+      ['95', 95],
+      ['95 min', 95],
+      ['1:35', 95],
+      ['01:35:00', 95],
+      ['1h 35m', 95],
+      ['1 hr 35 min', 95],
+      ['2h', 120],
+    ])('should read "%s" as %d minutes', (value, expected) => {
+      expect(parseDurationMinutes(value)).toBe(expected);
+    });
+
+    it('should return null for unreadable values', () => {
+      expect(parseDurationMinutes('a while')).toBeNull();
+      expect(parseDurationMinutes('')).toBeNull();
+    });
+  });
+
+  describe('detectDateOrder', () => {
+    it('should pick DMY when the first part cannot be a month', () => {
+      expect(detectDateOrder(['03/04/2024 10:00', '25/04/2024 10:00'])).toBe('DMY');
+    });
+
+    it('should default to MDY when ambiguous', () => {
+      expect(detectDateOrder(['03/04/2024 10:00'])).toBe('MDY');
+    });
+  });
+
+  describe('parseSleepCsv', () => {
+    it('should import a start/end layout as local time', () => {
+      const result = parseSleepCsv(
+        'Start,End,Notes\n2024-06-15 10:00,2024-06-15 11:30,Good nap\n',
+        options
+      );
+
+      expect(result.layout).toBe('startEnd');
+      expect(result.sessions).toHaveLength(1);
+      expect(result.sessions[0]).toMatchObject({
+        startISO: '2024-06-15T14:00:00.000Z',
+        endISO: '2024-06-15T15:30:00.000Z',
+        source: 'import',
+        notes: 'Good nap',
+        updatedAtISO: NOW,
+      });
+    });
+
+    it('should import a start/duration layout with 12h clocks', () => {
+      const result = parseSleepCsv(
+        'Time,Duration\n06/15/2024 1:00 pm,1h 30m\n06/16/2024 9:15 AM,45\n',
+        options
+      );
+
+      expect(result.layout).toBe('startDuration');
+      expect(result.sessions.map((s) => [s.startISO, s.endISO])).toEqual([
+        ['2024-06-15T17:00:00.000Z', '2024-06-15T18:30:00.000Z'],
+        ['2024-06-16T13:15:00.000Z', '2024-06-16T14:00:00.000Z'],
+      ]);
+    });
+
+    it('should combine a date column with time-only start and end across midnight', () => {
+      const result = parseSleepCsv('Date,Start Time,End Time\n15/06/2024,19:30,06:15\n', options);
+
+      expect(result.dateOrder).toBe('DMY');
+      expect(result.sessions[0].startISO).toBe('2024-06-15T23:30:00.000Z');
+      expect(result.sessions[0].endISO).toBe('2024-06-16T10:15:00.000Z');
+    });
+
+    it('should keep only sleep rows when the file has an activity column', () => {
+      const csv = [
+        'Type,Start,End',
+        'Sleep,2024-06-15 10:00,2024-06-15 11:00',
+        'Feed,2024-06-15 11:05,2024-06-15 11:20',
+        'Diaper,2024-06-15 11:30,',
+        'Nap,2024-06-15 13:00,2024-06-15 14:00',
+      ].join('\n');
+
+      const result = parseSleepCsv(csv, options);
+
+      expect(result.sessions).toHaveLength(2);
+      expect(result.ignoredActivities).toBe(2);
+    });
+
+    it('should report unreadable rows without failing the file', () => {
+      const csv = [
+        'Start,End',
+        'yesterday,2024-06-15 11:00',
+        '2024-06-15 12:00,2024-06-15 11:00',
+        '2024-06-15 13:00,2024-06-15 14:00',
+        '2024-06-15 13:00,2024-06-15 14:00',
+      ].join('\n');
+
+      const result = parseSleepCsv(csv, options);
+
+      expect(result.sessions).toHaveLength(1);
+      expect(result.skipped).toEqual([
+        { line: 2, reason: 'Unreadable start time "yesterday"' },
+        { line: 3, reason: 'End time must be after start time' },
+        { line: 5, reason: 'Repeated row' },
+      ]);
+    });
+
+    it('should give the same ids when the same file is imported twice', () => {
+      const csv = 'Start,End\n2024-06-15 10:00,2024-06-15 11:00\n';
+
+      expect(parseSleepCsv(csv, options).sessions[0].id).toBe(
+        parseSleepCsv(csv, { ...options, nowISO: '2025-01-01T00:00:00Z' }).sessions[0].id
+      );
+    });
+
+    it('should fail clearly when no usable columns exist', () => {
+      expect(parseSleepCsv('Name,Weight\nBaby,4.2\n', options).error).toBe(
+        'Could not find a start time column'
+      );
+      expect(parseSleepCsv('Start\n2024-06-15 10:00\n', options).error).toBe(
+        'Could not find an end time or duration column'
+      );
+    });
+
+    it('should read back a file from our own export', () => {
+      const original = [
+        createSession({ id: 'a', notes: '=5 wakings' }),
+        createSession({
+          id: 'b',
+          startISO: '2024-06-16T00:30:00.000Z',
+          endISO: '2024-06-16T10:45:00.000Z',
+        }),
+      ];
+
+      const result = parseSleepCsv(sessionsToCsv(original, { timeZone: TZ }), options);
+
+      expect(result.sessions.map((s) => [s.startISO, s.endISO, s.notes])).toEqual([
+        ['2024-06-15T14:00:00.000Z', '2024-06-15T15:30:00.000Z', '=5 wakings'],
+        ['2024-06-16T00:30:00.000Z', '2024-06-16T10:45:00.000Z', undefined],
+      ]);
+    });
+  });
+
+  describe('analyzeImport', () => {
+    it('should flag duplicates, overlaps and new sessions', () => {
+      const existing = [createSession({})];
+      const imported = [
+        createSession({ id: 'near', startISO: '2024-06-15T14:03:00.000Z', source: 'import' }),
+        createSession({
+          id: 'partial',
+          startISO: '2024-06-15T15:00:00.000Z',
+          endISO: '2024-06-15T16:00:00.000Z',
+          source: 'import',
+        }),
+        createSession({
+          id: 'later',
+          startISO: '2024-06-15T18:00:00.000Z',
+          endISO: '2024-06-15T19:00:00.000Z',
+          source: 'import',
+        }),
+      ];
+
+      expect(analyzeImport(imported, existing).map((item) => [item.status, item.conflictId])).toEqual([
+        ['duplicate', 'existing'],
+        ['overlap', 'existing'],
+        ['new', undefined],
+      ]);
+    });
+
+    it('should ignore deleted sessions', () => {
+      const existing = [createSession({ deleted: true })];
+      const imported = [createSession({ id: 'again', source: 'import' })];
+
+      expect(analyzeImport(imported, existing)[0].status).toBe('new');
+    });
+  });
+
+  describe('getImportChanges', () => {
+    const existing = [createSession({})];
+    const imported = [
+      createSession({ id: 'near', startISO: '2024-06-15T14:03:00.000Z', source: 'import' }),
+      createSession({
+        id: 'partial',
+        startISO: '2024-06-15T15:00:00.000Z',
+        endISO: '2024-06-15T16:00:00.000Z',
+        source: 'import',
+      }),
+      createSession({
+        id: 'later',
+        startISO: '2024-06-15T18:00:00.000Z',
+        endISO: '2024-06-15T19:00:00.000Z',
+        source: 'import',
+      }),
+    ];
+    const preview = analyzeImport(imported, existing);
+
+    it('should skip duplicates and overlaps when asked', () => {
+      expect(getImportChanges(preview, existing, 'skip', NOW).map((s) => s.id)).toEqual(['later']);
+    });
+
+    it('should trim overlapping imports around existing sessions', () => {
+      const changes = getImportChanges(preview, existing, 'trim', NOW);
+
+      expect(changes.map((s) => [s.id, s.startISO])).toEqual([
+        ['partial', '2024-06-15T15:30:00.000Z'],
+        ['later', '2024-06-15T18:00:00.000Z'],
+      ]);
+    });
+
+    it('should merge overlapping imports into existing sessions', () => {
+      const changes = getImportChanges(preview, existing, 'merge', NOW);
+
+      expect(changes.map((s) => [s.id, s.endISO])).toEqual([
+        ['existing', '2024-06-15T16:00:00.000Z'],
+        ['later', '2024-06-15T19:00:00.000Z'],
+      ]);
+    });
+  });
+});
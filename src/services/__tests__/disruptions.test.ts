@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Disruption Episodes
+ *
+ * Tests cover:
+ * - Episode input validation
+ * - Finding the episode covering a day or session
+ * - Coach tips drawn from disrupted days
+ */
+
+import {
+  validateDisruptionInput,
+  createDisruption,
+  getEpisodeDays,
+  getDisruptionForDay,
+  isDisruptedSession,
+  describeDisruption,
+} from '../disruptions';
+import { generateCoachTips } from '../coach';
+import { BabyProfile, DisruptionEpisode, SleepSession } from '../../types';
+import { time } from '../../utils/time';
+
+describe('Disruptions', () => {
+  const nowISO = '2024-06-15T16:00:00.000Z';
+
+  const createEpisode = (overrides: Partial<DisruptionEpisode>): DisruptionEpisode => ({
+    id: 'episode',
+    type: 'teething',
+    startDayKey: '2024-06-10',
+    endDayKey: '2024-06-12',
+    updatedAtISO: nowISO,
+    ...overrides,
+  });
+
+  describe('validateDisruptionInput', () => {
+    it('should accept a single-day episode', () => {
+      const result = validateDisruptionInput({
+        type: 'vaccination',
+        startDayKey: '2024-06-10',
+        endDayKey: '2024-06-10',
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject an end before the start', () => {
+      const result = validateDisruptionInput({
+        type: 'illness',
+        startDayKey: '2024-06-10',
+        endDayKey: '2024-06-09',
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('End date must be on or after the start date');
+    });
+
+    it('should reject malformed dates and unknown types', () => {
+      expect(
+        validateDisruptionInput({
+          type: 'illness',
+          startDayKey: 'June 10',
+          endDayKey: '2024-06-10',
+        }).isValid
+      ).toBe(false);
+      expect(
+        validateDisruptionInput({
+          type: 'holiday' as DisruptionEpisode['type'],
+          startDayKey: '2024-06-10',
+          endDayKey: '2024-06-10',
+        }).isValid
+      ).toBe(false);
+    });
+
+    it('should reject days that do not exist', () => {
+      for (const dayKey of ['2024-02-31', '2024-13-01', '2023-02-29']) {
+        const result = validateDisruptionInput({
+          type: 'illness',
+          startDayKey: dayKey,
+          endDayKey: dayKey,
+        });
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('Invalid date');
+      }
+      expect(
+        validateDisruptionInput({
+          type: 'illness',
+          startDayKey: '2024-02-29',
+          endDayKey: '2024-02-29',
+        }).isValid
+      ).toBe(true);
+    });
+
+    it('should reject episodes that are too long', () => {
+      const result = validateDisruptionInput({
+        type: 'regression',
+        startDayKey: '2024-01-01',
+        endDayKey: '2024-06-01',
+      });
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('createDisruption', () => {
+    it('should trim notes and drop empty ones', () => {
+      const episode = createDisruption(
+        { type: 'travel', startDayKey: '2024-06-10', endDayKey: '2024-06-14', notes: '  ' },
+        nowISO,
+        'caregiver-1'
+      );
+      expect(episode.notes).toBeUndefined();
+      expect(episode.createdBy).toBe('caregiver-1');
+      expect(episode.updatedAtISO).toBe(nowISO);
+      expect(getEpisodeDays(episode)).toBe(5);
+    });
+  });
+
+  describe('getDisruptionForDay', () => {
+    it('should include both the first and last day', () => {
+      const episodes = [createEpisode({})];
+      expect(getDisruptionForDay(episodes, '2024-06-09')).toBeNull();
+      expect(getDisruptionForDay(episodes, '2024-06-10')?.id).toBe('episode');
+      expect(getDisruptionForDay(episodes, '2024-06-12')?.id).toBe('episode');
+      expect(getDisruptionForDay(episodes, '2024-06-13')).toBeNull();
+    });
+
+    it('should prefer the later episode where two overlap', () => {
+      const episodes = [
+        createEpisode({ id: 'later', type: 'vaccination', startDayKey: '2024-06-11' }),
+        createEpisode({ id: 'earlier' }),
+      ];
+      expect(getDisruptionForDay(episodes, '2024-06-10')?.id).toBe('earlier');
+      expect(getDisruptionForDay(episodes, '2024-06-11')?.id).toBe('later');
+    });
+
+    it('should judge a session by the day it started', () => {
+      const episodes = [createEpisode({})];
+      const start = time.parse('2024-06-12T20:00:00');
+      const night: SleepSession = {
+        id: 'night',
+        startISO: start.toISOString(),
+        endISO: start.add(10, 'hour').toISOString(),
+        source: 'manual',
+        updatedAtISO: nowISO,
+      };
+      expect(isDisruptedSession(episodes, night)).toBe(true);
+      expect(
+        isDisruptedSession(episodes, { ...night, startISO: start.add(1, 'day').toISOString() })
+      ).toBe(false);
+    });
+  });
+
+  describe('describeDisruption', () => {
+    it('should show one date for single-day episodes', () => {
+      expect(describeDisruption(createEpisode({ endDayKey: '2024-06-10' }))).toBe(
+        'Teething · Jun 10'
+      );
+      expect(describeDisruption(createEpisode({}))).toBe('Teething · Jun 10 – Jun 12');
+    });
+  });
+
+  describe('coach tips', () => {
+    const profile: BabyProfile = {
+      id: 'baby-1',
+      name: 'Test Baby',
+      birthDateISO: time.now().subtract(6, 'month').toISOString(),
+    };
+    const dayStart = (daysAgo: number) =>
+      time.now().subtract(daysAgo, 'day').hour(0).minute(0).second(0).millisecond(0);
+    const dayKey = (daysAgo: number) => time.dayKey(dayStart(daysAgo).toISOString());
+    // Two 20-minute naps a day trip the short nap streak rule
+    const shortNaps = (...daysAgo: number[]): SleepSession[] =>
+      daysAgo.flatMap((days) =>
+        [10, 14].map((hour) => ({
+          id: `nap-${days}-${hour}`,
+          startISO: dayStart(days).hour(hour).toISOString(),
+          endISO: dayStart(days).hour(hour).add(20, 'minute').toISOString(),
+          source: 'manual' as const,
+          updatedAtISO: nowISO,
+        }))
+      );
+    const shortNapTip = (tips: ReturnType<typeof generateCoachTips>) =>
+      tips.find((tip) => tip.title.includes('Short Nap'));
+
+    it('should drop tips drawn only from disrupted days', () => {
+      const sessions = shortNaps(1, 2);
+      expect(shortNapTip(generateCoachTips(sessions, null, profile))).toBeDefined();
+
+      const episode = createEpisode({ startDayKey: dayKey(2), endDayKey: dayKey(1) });
+      const tips = generateCoachTips(sessions, null, profile, [], [episode]);
+      expect(shortNapTip(tips)).toBeUndefined();
+    });
+
+    it('should soften tips drawn partly from disrupted days', () => {
+      const sessions = shortNaps(1, 2);
+      const episode = createEpisode({
+        type: 'illness',
+        startDayKey: dayKey(1),
+        endDayKey: dayKey(1),
+      });
+
+      const tip = shortNapTip(generateCoachTips(sessions, null, profile, [], [episode]));
+      expect(tip).toBeDefined();
+      expect(tip?.severity).toBe('low');
+      expect(tip?.type).toBe('info');
+      expect(tip?.message).toContain('during illness');
+    });
+  });
+});
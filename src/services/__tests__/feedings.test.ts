@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Feeding Log
+ *
+ * Tests cover:
+ * - Feed input validation per feed type
+ * - Building feeds that end at the logged time
+ * - Feed-to-sleep intervals
+ */
+
+import {
+  validateFeedingInput,
+  createFeeding,
+  describeFeeding,
+  getFeedToSleepIntervals,
+} from '../feedings';
+import { FeedingSession, SleepSession } from '../../types';
+
+describe('Feedings', () => {
+  const nowISO = '2024-06-15T16:00:00.000Z';
+
+  const createSession = (overrides: Partial<SleepSession>): SleepSession => ({
+    id: 'session',
+    startISO: '2024-06-15T14:00:00.000Z',
+    endISO: '2024-06-15T15:30:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T15:30:00.000Z',
+    ...overrides,
+  });
+
+  const createFeed = (id: string, startISO: string, endISO: string): FeedingSession => ({
+    id,
+    type: 'breastLeft',
+    startISO,
+    endISO,
+    updatedAtISO: endISO,
+  });
+
+  describe('validateFeedingInput', () => {
+    it('should require a duration for breast feeds', () => {
+      const result = validateFeedingInput({ type: 'breastRight', endISO: nowISO });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('minutes');
+    });
+
+    it('should require a volume for bottles', () => {
+      expect(validateFeedingInput({ type: 'bottle', endISO: nowISO }).isValid).toBe(false);
+      expect(
+        validateFeedingInput({ type: 'bottle', endISO: nowISO, volumeMl: 120 }).isValid
+      ).toBe(true);
+    });
+
+    it('should accept solids without an amount', () => {
+      expect(validateFeedingInput({ type: 'solids', endISO: nowISO }).isValid).toBe(true);
+    });
+  });
+
+  describe('createFeeding', () => {
+    it('should end a breast feed at the logged time', () => {
+      const feeding = createFeeding(
+        { type: 'breastLeft', endISO: nowISO, durationMin: 12, volumeMl: 90 },
+        nowISO,
+        'caregiver_anna'
+      );
+
+      expect(feeding).toMatchObject({
+        type: 'breastLeft',
+        startISO: '2024-06-15T15:48:00.000Z',
+        endISO: nowISO,
+        createdBy: 'caregiver_anna',
+      });
+      expect(feeding.volumeMl).toBeUndefined();
+      expect(describeFeeding(feeding)).toBe('Left · 12m');
+    });
+
+    it('should log bottles as a moment with a volume', () => {
+      const feeding = createFeeding({ type: 'bottle', endISO: nowISO, volumeMl: 120 }, nowISO);
+
+      expect(feeding.startISO).toBe(nowISO);
+      expect(describeFeeding(feeding)).toBe('Bottle · 120 ml');
+    });
+  });
+
+  describe('getFeedToSleepIntervals', () => {
+    it('should measure from the end of the last feed before each sleep', () => {
+      const feedings = [
+        createFeed('early', '2024-06-15T11:00:00.000Z', '2024-06-15T11:15:00.000Z'),
+        createFeed('late', '2024-06-15T13:30:00.000Z', '2024-06-15T13:50:00.000Z'),
+      ];
+
+      expect(getFeedToSleepIntervals(feedings, [createSession({})])).toEqual([
+        { sessionId: 'session', feedingId: 'late', intervalMin: 10 },
+      ]);
+    });
+
+    it('should count a feed still going at sleep time as no gap', () => {
+      const feedings = [
+        createFeed('onto', '2024-06-15T13:45:00.000Z', '2024-06-15T14:05:00.000Z'),
+      ];
+
+      expect(getFeedToSleepIntervals(feedings, [createSession({})])[0].intervalMin).toBe(0);
+    });
+
+    it('should skip deleted sleeps and feeds too long before', () => {
+      const feedings = [
+        createFeed('morning', '2024-06-15T08:00:00.000Z', '2024-06-15T08:20:00.000Z'),
+      ];
+      const sessions = [
+        createSession({}),
+        createSession({ id: 'deleted', startISO: '2024-06-15T09:00:00.000Z', deleted: true }),
+      ];
+
+      expect(getFeedToSleepIntervals(feedings, sessions)).toEqual([]);
+    });
+  });
+});
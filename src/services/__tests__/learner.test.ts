@@ -4,16 +4,25 @@
  * Tests cover:
  * - EWMA calculation
  * - Wake window extraction
- * - Nap extraction
+ * - Nap extraction, optionally without motion naps
  * - Confidence calculation
  * - Baseline fallback
  * - Age-based clamping
+ * - Time to fall asleep and its trend
+ * - Leaving out days marked as disrupted
  */
 
-import { updateLearner, getLearnedWakeWindow, getLearnedNapLength } from '../learner';
-import { SleepSession, LearnerState, BabyProfile } from '../../types';
+import {
+  updateLearner,
+  getLearnedWakeWindow,
+  getLearnedNapLength,
+  getOnsetLatencyMin,
+  getOnsetLatencyTrend,
+} from '../learner';
+import { SleepSession, LearnerState, BabyProfile, DisruptionEpisode } from '../../types';
 import { time } from '../../utils/time';
 import { getBaselineForBaby } from '../../utils/ageBaseline';
+import { getDisruptionsKey } from '../disruptions';
 import { MIN_SESSIONS_FOR_LEARNING, EWMA_ALPHA } from '../../config/constants';
 
 describe('Learner Service - EWMA/Baseline', () => {
@@ -110,6 +119,29 @@ describe('Learner Service - EWMA/Baseline', () => {
       expect(result.ewmaNapLengthMin).toBeLessThanOrEqual(90);
     });
 
+    it('should leave motion naps out when the profile asks for it', () => {
+      const profile: BabyProfile = {
+        ...testBabyProfile,
+        birthDateISO: time.now().subtract(6, 'month').toISOString(),
+      };
+      const yesterday = time.now().subtract(1, 'day').minute(0).second(0).millisecond(0);
+      const nap = (hour: number, durationMin: number): SleepSession =>
+        createSession(
+          yesterday.hour(hour).toISOString(),
+          yesterday.hour(hour).add(durationMin, 'minute').toISOString()
+        );
+      const sessions: SleepSession[] = [
+        nap(9, 60),
+        { ...nap(12, 180), location: 'stroller' },
+        nap(16, 60),
+      ];
+
+      const withMotion = updateLearner(sessions, profile, null);
+      const withoutMotion = updateLearner(sessions, { ...profile, excludeMotionNaps: true }, null);
+
+      expect(withoutMotion.ewmaNapLengthMin).toBeLessThan(withMotion.ewmaNapLengthMin);
+    });
+
     it('should exclude night sleep from nap calculations', () => {
       const sessions: SleepSession[] = [
         createSession('2024-06-01T20:00:00Z', '2024-06-02T06:00:00Z'), // 10h night sleep
@@ -312,5 +344,128 @@ describe('Learner Service - EWMA/Baseline', () => {
       expect(result.ewmaNapLengthMin).toBeLessThanOrEqual(baseline.maxNapLengthMin);
     });
   });
-});
 
+  describe('Onset Latency', () => {
+    // Hour-long nap starting an hour before `nowISO` on the day `daysAgo`,
+    // put down `latencyMin` earlier
+    const createPutDownSession = (
+      nowISO: string,
+      daysAgo: number,
+      latencyMin: number
+    ): SleepSession => {
+      const start = time.parse(nowISO).subtract(daysAgo, 'day').subtract(1, 'hour');
+      return {
+        ...createSession(start.toISOString(), start.add(1, 'hour').toISOString()),
+        putDownISO: start.subtract(latencyMin, 'minute').toISOString(),
+      };
+    };
+
+    it('should ignore missing and implausible put-down times', () => {
+      const session = createSession('2024-06-01T13:00:00Z', '2024-06-01T14:00:00Z');
+
+      expect(getOnsetLatencyMin(session)).toBeNull();
+      expect(getOnsetLatencyMin({ ...session, putDownISO: '2024-06-01T12:45:00Z' })).toBe(15);
+      expect(getOnsetLatencyMin({ ...session, putDownISO: '2024-06-01T13:05:00Z' })).toBeNull();
+      expect(getOnsetLatencyMin({ ...session, putDownISO: '2024-06-01T09:00:00Z' })).toBeNull();
+    });
+
+    it('should learn the time to fall asleep from recent sessions', () => {
+      const nowISO = time.nowISO();
+      const sessions = [1, 2, 3].map((daysAgo) => createPutDownSession(nowISO, daysAgo, 20));
+
+      const result = updateLearner(sessions, testBabyProfile, null);
+
+      expect(result.ewmaOnsetLatencyMin).toBeCloseTo(20);
+    });
+
+    it('should leave the time to fall asleep unset without put-down times', () => {
+      const sessions = Array.from({ length: 3 }, (_, i) =>
+        createSession(`2024-06-01T${10 + i * 2}:00:00Z`, `2024-06-01T${11 + i * 2}:00:00Z`)
+      );
+
+      expect(updateLearner(sessions, testBabyProfile, null).ewmaOnsetLatencyMin).toBeUndefined();
+    });
+
+    it('should compare recent days with the days before', () => {
+      const nowISO = '2024-06-20T18:00:00Z';
+      const sessions = [
+        ...[0, 1, 2].map((daysAgo) => createPutDownSession(nowISO, daysAgo, 30)),
+        ...[5, 6, 7, 8].map((daysAgo) => createPutDownSession(nowISO, daysAgo, 10)),
+        { ...createPutDownSession(nowISO, 4, 90), deleted: true },
+      ];
+
+      expect(getOnsetLatencyTrend(sessions, nowISO)).toEqual({
+        recentAvgMin: 30,
+        recentCount: 3,
+        previousAvgMin: 10,
+        previousCount: 4,
+      });
+      expect(getOnsetLatencyTrend(sessions.slice(0, 5), nowISO)).toBeNull();
+    });
+  });
+
+  describe('Disruption Episodes', () => {
+    const profile: BabyProfile = {
+      ...testBabyProfile,
+      birthDateISO: time.now().subtract(6, 'month').toISOString(),
+    };
+    const dayStart = (daysAgo: number) =>
+      time.now().subtract(daysAgo, 'day').hour(0).minute(0).second(0).millisecond(0);
+    const napsOn = (daysAgo: number, durationMin: number): SleepSession[] =>
+      [9, 13, 16].map((hour) =>
+        createSession(
+          dayStart(daysAgo).hour(hour).toISOString(),
+          dayStart(daysAgo).hour(hour).add(durationMin, 'minute').toISOString()
+        )
+      );
+    const episodeOn = (...daysAgo: number[]): DisruptionEpisode => ({
+      id: 'episode-1',
+      type: 'illness',
+      startDayKey: time.dayKey(dayStart(Math.max(...daysAgo)).toISOString()),
+      endDayKey: time.dayKey(dayStart(Math.min(...daysAgo)).toISOString()),
+      updatedAtISO: time.nowISO(),
+    });
+
+    it('should leave out naps on disrupted days', () => {
+      const sessions = [...napsOn(3, 60), ...napsOn(1, 25)];
+
+      const withSick = updateLearner(sessions, profile, null);
+      const withoutSick = updateLearner(sessions, profile, null, [episodeOn(1)]);
+
+      expect(withoutSick.ewmaNapLengthMin).toBeGreaterThan(withSick.ewmaNapLengthMin);
+      expect(withoutSick.ewmaNapLengthMin).toBe(
+        updateLearner(napsOn(3, 60), profile, null).ewmaNapLengthMin
+      );
+    });
+
+    it('should keep the previous values when every recent day is disrupted', () => {
+      const episodes = [episodeOn(2, 1)];
+      const previousState: LearnerState = {
+        version: 1,
+        ewmaWakeWindowMin: 150,
+        ewmaNapLengthMin: 70,
+        lastUpdatedISO: time.nowISO(),
+        confidence: 0.6,
+        disruptionsKey: getDisruptionsKey(episodes),
+      };
+      const sessions = [...napsOn(2, 25), ...napsOn(1, 25)];
+
+      const result = updateLearner(sessions, profile, previousState, episodes);
+
+      expect(result.ewmaNapLengthMin).toBe(previousState.ewmaNapLengthMin);
+      expect(result.ewmaWakeWindowMin).toBe(previousState.ewmaWakeWindowMin);
+      expect(result.disruptionsKey).toBe(previousState.disruptionsKey);
+    });
+
+    it('should re-learn from the baseline once days are newly marked as disrupted', () => {
+      const sessions = [...napsOn(3, 60), ...napsOn(1, 25)];
+      const learnedWhileSick = updateLearner(sessions, profile, null);
+
+      const result = updateLearner(sessions, profile, learnedWhileSick, [episodeOn(1)]);
+
+      expect(result.ewmaNapLengthMin).toBe(
+        updateLearner(napsOn(3, 60), profile, null).ewmaNapLengthMin
+      );
+    });
+  });
+});
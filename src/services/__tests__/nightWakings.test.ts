@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Night Wakings
+ *
+ * Tests cover:
+ * - Checking wakings fit inside their session
+ * - Sleep time without the wakings
+ * - Unbroken stretches of sleep
+ */
+
+import { SleepSession, NightWaking } from '../../types';
+import {
+  getWakingsError,
+  getSleepMinutes,
+  getSleepStretches,
+  getLongestStretch,
+} from '../nightWakings';
+
+describe('Night Wakings', () => {
+  const waking = (startISO: string, endISO: string): NightWaking => ({
+    startISO,
+    endISO,
+    reason: 'feed',
+  });
+
+  const night: SleepSession = {
+    id: 'night',
+    startISO: '2024-06-15T19:00:00.000Z',
+    endISO: '2024-06-16T06:00:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-16T06:00:00.000Z',
+    wakings: [
+      waking('2024-06-15T23:00:00.000Z', '2024-06-15T23:20:00.000Z'),
+      waking('2024-06-16T02:00:00.000Z', '2024-06-16T02:40:00.000Z'),
+    ],
+  };
+
+  describe('getWakingsError', () => {
+    it('should accept ordered wakings inside the session', () => {
+      expect(getWakingsError(night.startISO, night.endISO, night.wakings ?? [])).toBeNull();
+    });
+
+    it.each([
+      [
+        'outside the session',
+        [waking('2024-06-15T18:00:00.000Z', '2024-06-15T18:30:00.000Z')],
+        'Wakings must be inside the session',
+      ],
+      [
+        'past the end',
+        [waking('2024-06-16T05:50:00.000Z', '2024-06-16T06:10:00.000Z')],
+        'Wakings must be inside the session',
+      ],
+      [
+        'overlapping',
+        [
+          waking('2024-06-15T23:00:00.000Z', '2024-06-15T23:30:00.000Z'),
+          waking('2024-06-15T23:20:00.000Z', '2024-06-15T23:40:00.000Z'),
+        ],
+        'Wakings cannot overlap',
+      ],
+      [
+        'ending before they start',
+        [waking('2024-06-15T23:30:00.000Z', '2024-06-15T23:00:00.000Z')],
+        'Each waking must end after it starts',
+      ],
+    ])('should reject wakings %s', (_label, wakings, error) => {
+      expect(getWakingsError(night.startISO, night.endISO, wakings)).toBe(error);
+    });
+  });
+
+  it('should leave wakings out of the sleep time', () => {
+    expect(getSleepMinutes(night)).toBe(660 - 60);
+  });
+
+  it('should split the session into stretches between wakings', () => {
+    expect(getSleepStretches(night).map((stretch) => stretch.durationMin)).toEqual([
+      240, 160, 200,
+    ]);
+    expect(getLongestStretch([night])).toEqual({
+      startISO: '2024-06-15T19:00:00.000Z',
+      endISO: '2024-06-15T23:00:00.000Z',
+      durationMin: 240,
+    });
+  });
+
+  it('should treat a session without wakings as one stretch', () => {
+    const nap: SleepSession = { ...night, wakings: undefined };
+
+    expect(getSleepStretches(nap)).toEqual([
+      { startISO: nap.startISO, endISO: nap.endISO, durationMin: 660 },
+    ]);
+    expect(getLongestStretch([])).toBeNull();
+  });
+});
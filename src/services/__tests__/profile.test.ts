@@ -0,0 +1,160 @@
+/**
+ * Unit Tests for Baby Profiles
+ *
+ * Tests cover:
+ * - Profile input validation
+ * - Creating and editing profiles
+ * - Picking the active profile and switching between children
+ * - Moving a single-profile install onto the profile list
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  validateProfileInput,
+  createBabyProfile,
+  applyProfileInput,
+  resolveActiveProfile,
+} from '../profile';
+import { BabyProfile, SleepSession } from '../../types';
+import { time } from '../../utils/time';
+import { STORAGE_KEYS } from '../../config/constants';
+import {
+  loadBabyProfiles,
+  getActiveProfileId,
+  setActiveProfileId,
+  saveSleepSessions,
+  loadSleepSessions,
+} from '../../storage/sleepStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Baby Profiles', () => {
+  const input = {
+    name: '  Emma ',
+    birthDateISO: '2024-01-10T00:00:00.000Z',
+  };
+
+  describe('validateProfileInput', () => {
+    it('should accept a name and a past birth date', () => {
+      expect(validateProfileInput(input)).toEqual({ isValid: true });
+    });
+
+    it('should require a name', () => {
+      expect(validateProfileInput({ ...input, name: '   ' })).toEqual({
+        isValid: false,
+        error: 'Please enter a name',
+      });
+    });
+
+    it('should reject unparseable and future birth dates', () => {
+      expect(validateProfileInput({ ...input, birthDateISO: 'not a date' }).error).toBe(
+        'Invalid birth date'
+      );
+      expect(
+        validateProfileInput({ ...input, birthDateISO: time.now().add(1, 'day').toISOString() })
+          .error
+      ).toBe('Birth date cannot be in the future');
+    });
+
+    it('should require a due date after the birth date', () => {
+      expect(
+        validateProfileInput({ ...input, dueDateISO: '2024-01-10T12:00:00.000Z' }).error
+      ).toBe('Due date must be after the birth date');
+      const dueDateISO = '2024-02-20T00:00:00.000Z';
+      expect(validateProfileInput({ ...input, dueDateISO }).isValid).toBe(true);
+    });
+  });
+
+  describe('createBabyProfile', () => {
+    it('should trim the name and give each profile its own id', () => {
+      const first = createBabyProfile(input);
+      const second = createBabyProfile(input);
+
+      expect(first.name).toBe('Emma');
+      expect(first.birthDateISO).toBe(input.birthDateISO);
+      expect(first.dueDateISO).toBeUndefined();
+      expect(first.id).toMatch(/^baby_/);
+      expect(second.id).not.toBe(first.id);
+    });
+
+    it('should only set excludeMotionNaps when asked', () => {
+      expect(createBabyProfile(input)).not.toHaveProperty('excludeMotionNaps');
+      expect(createBabyProfile({ ...input, excludeMotionNaps: true }).excludeMotionNaps).toBe(true);
+    });
+  });
+
+  describe('applyProfileInput', () => {
+    it('should keep the id and clear fields left out of the input', () => {
+      const profile: BabyProfile = {
+        id: 'baby_1',
+        name: 'Emma',
+        birthDateISO: input.birthDateISO,
+        dueDateISO: '2024-02-20T00:00:00.000Z',
+        excludeMotionNaps: true,
+      };
+
+      const updated = applyProfileInput(profile, {
+        name: 'Emma Rose',
+        birthDateISO: '2024-01-12T00:00:00.000Z',
+      });
+
+      expect(updated).toEqual({
+        id: 'baby_1',
+        name: 'Emma Rose',
+        birthDateISO: '2024-01-12T00:00:00.000Z',
+      });
+      expect(updated.dueDateISO).toBeUndefined();
+      expect(updated).not.toHaveProperty('excludeMotionNaps');
+    });
+  });
+
+  describe('active profile', () => {
+    const emma: BabyProfile = { id: 'baby_emma', name: 'Emma', birthDateISO: input.birthDateISO };
+    const noah: BabyProfile = { id: 'baby_noah', name: 'Noah', birthDateISO: input.birthDateISO };
+
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('should pick the last selected profile', () => {
+      expect(resolveActiveProfile([emma, noah], 'baby_noah')).toBe(noah);
+    });
+
+    it('should fall back to the first profile when the selected one is gone', () => {
+      expect(resolveActiveProfile([emma, noah], 'baby_deleted')).toBe(emma);
+      expect(resolveActiveProfile([emma, noah], null)).toBe(emma);
+      expect(resolveActiveProfile([], 'baby_noah')).toBeNull();
+    });
+
+    it('should remember the switch and keep each child data apart', async () => {
+      const nap: SleepSession = {
+        id: 'nap',
+        startISO: '2024-06-15T13:00:00.000Z',
+        endISO: '2024-06-15T14:00:00.000Z',
+        source: 'manual',
+        updatedAtISO: '2024-06-15T14:00:00.000Z',
+      };
+      await saveSleepSessions(emma.id, [nap]);
+
+      await setActiveProfileId(noah.id);
+      const activeId = await getActiveProfileId();
+
+      expect(resolveActiveProfile([emma, noah], activeId)).toBe(noah);
+      expect((await loadSleepSessions(noah.id)).value).toEqual([]);
+      expect((await loadSleepSessions(emma.id)).value).toEqual([nap]);
+
+      await setActiveProfileId(null);
+      expect(await getActiveProfileId()).toBeNull();
+    });
+
+    it('should move a single stored profile onto the list and select it', async () => {
+      await AsyncStorage.setItem(STORAGE_KEYS.legacyProfile, JSON.stringify(emma));
+
+      expect((await loadBabyProfiles()).value).toEqual([emma]);
+      expect(await getActiveProfileId()).toBe(emma.id);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.legacyProfile)).toBeNull();
+    });
+  });
+});
@@ -355,5 +355,36 @@ describe('Schedule Generator Service', () => {
       }
     });
   });
-});
 
+  describe('generateSchedule - Corrected Age', () => {
+    it('should mention corrected age in rationale for premature babies', () => {
+      const prematureProfile: BabyProfile = {
+        ...testBabyProfile,
+        dueDateISO: '2024-02-26T00:00:00Z',
+      };
+      const referenceTime = '2024-06-15T10:00:00Z';
+
+      const result = generateSchedule([], null, prematureProfile, {
+        referenceTimeISO: referenceTime,
+      });
+
+      const naps = result.today.filter((b) => b.kind === 'nap');
+      expect(naps.length).toBeGreaterThan(0);
+      naps.forEach((nap) => {
+        expect(nap.rationale).toContain('corrected age');
+      });
+    });
+
+    it('should not mention corrected age without a due date', () => {
+      const referenceTime = '2024-06-15T10:00:00Z';
+
+      const result = generateSchedule([], null, testBabyProfile, {
+        referenceTimeISO: referenceTime,
+      });
+
+      [...result.today, ...result.tomorrow].forEach((block) => {
+        expect(block.rationale).not.toContain('corrected age');
+      });
+    });
+  });
+});
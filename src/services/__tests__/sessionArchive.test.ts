@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for Session Archive
+ *
+ * Tests cover:
+ * - Choosing sessions to archive and tombstones to purge
+ * - Keeping unsynced edits live
+ * - Monthly archive buckets and range reads
+ * - Removing archives with the child
+ */
+
+import { SleepSession } from '../../types';
+import { createMemoryAdapter } from '../../storage/adapters';
+import {
+  setStorageAdapter,
+  saveSleepSessions,
+  loadSleepSessions,
+  saveSyncState,
+  listArchivedMonths,
+  clearChildStorage,
+} from '../../storage/sleepStorage';
+import {
+  planCompaction,
+  getArchiveCutoffISO,
+  compactSleepSessions,
+  loadArchivedSessionsInRange,
+  withArchivedSessions,
+} from '../sessionArchive';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Session Archive', () => {
+  const NOW = '2024-06-16T12:00:00.000Z';
+  const babyId = 'baby_1';
+
+  const createSession = (
+    id: string,
+    startISO: string,
+    overrides: Partial<SleepSession> = {}
+  ): SleepSession => {
+    const endISO = new Date(Date.parse(startISO) + 60 * 60000).toISOString();
+    return { id, startISO, endISO, source: 'manual', updatedAtISO: endISO, ...overrides };
+  };
+
+  const januaryNap = createSession('jan', '2024-01-15T13:00:00.000Z');
+  const februaryNap = createSession('feb', '2024-02-15T13:00:00.000Z');
+  const recentNap = createSession('recent', '2024-06-10T13:00:00.000Z');
+  const oldTombstone = createSession('gone', '2024-01-20T13:00:00.000Z', { deleted: true });
+  const recentTombstone = createSession('deleted', '2024-06-01T13:00:00.000Z', {
+    deleted: true,
+  });
+
+  beforeEach(() => {
+    setStorageAdapter(createMemoryAdapter());
+  });
+
+  describe('planCompaction', () => {
+    it('should archive whole months older than the cutoff', () => {
+      expect(getArchiveCutoffISO(NOW, 3)).toBe(new Date(2024, 2, 1).toISOString());
+
+      const plan = planCompaction([januaryNap, februaryNap, recentNap], {
+        nowISO: NOW,
+        pushedThroughISO: null,
+        archiveAfterMonths: 3,
+      });
+
+      expect(plan.keep).toEqual([recentNap]);
+      expect(plan.archive).toEqual({ '2024-01': [januaryNap], '2024-02': [februaryNap] });
+      expect(plan.purgeIds).toEqual([]);
+    });
+
+    it('should purge tombstones past retention and keep newer ones', () => {
+      const plan = planCompaction([oldTombstone, recentTombstone], {
+        nowISO: NOW,
+        pushedThroughISO: null,
+        tombstoneRetentionDays: 90,
+      });
+
+      expect(plan.purgeIds).toEqual(['gone']);
+      expect(plan.keep).toEqual([recentTombstone]);
+      expect(plan.archive).toEqual({});
+    });
+
+    it('should keep sessions whose edits have not been pushed', () => {
+      const editedOffline = { ...januaryNap, updatedAtISO: '2024-06-15T08:00:00.000Z' };
+      const deletedOffline = { ...oldTombstone, updatedAtISO: '2024-03-01T08:00:00.000Z' };
+
+      const plan = planCompaction([editedOffline, deletedOffline, februaryNap], {
+        nowISO: NOW,
+        pushedThroughISO: '2024-02-20T00:00:00.000Z',
+      });
+
+      expect(plan.keep).toEqual([editedOffline, deletedOffline]);
+      expect(plan.archive).toEqual({ '2024-02': [februaryNap] });
+      expect(plan.purgeIds).toEqual([]);
+    });
+  });
+
+  describe('compactSleepSessions', () => {
+    it('should move old sessions into monthly buckets', async () => {
+      await saveSleepSessions(babyId, [januaryNap, februaryNap, recentNap, oldTombstone]);
+
+      const report = await compactSleepSessions(
+        babyId,
+        (await loadSleepSessions(babyId)).value,
+        NOW
+      );
+
+      expect(report).toMatchObject({ archived: 2, purged: 1 });
+      expect(report.sessions.map((s) => s.id)).toEqual(['recent']);
+      expect((await loadSleepSessions(babyId)).value.map((s) => s.id)).toEqual(['recent']);
+      expect(await listArchivedMonths(babyId)).toEqual(['2024-01', '2024-02']);
+    });
+
+    it('should respect the sync watermark', async () => {
+      await saveSyncState(babyId, {
+        cursor: 'c1',
+        pushedThroughISO: '2024-01-01T00:00:00.000Z',
+        lastSyncedAtISO: '2024-01-01T00:00:00.000Z',
+      });
+
+      const report = await compactSleepSessions(babyId, [januaryNap], NOW);
+
+      expect(report).toMatchObject({ archived: 0, purged: 0, sessions: [januaryNap] });
+    });
+
+    it('should read archived sessions back by range', async () => {
+      await saveSleepSessions(babyId, [januaryNap, februaryNap, recentNap]);
+      await compactSleepSessions(babyId, [januaryNap, februaryNap, recentNap], NOW);
+
+      const archived = await loadArchivedSessionsInRange(
+        babyId,
+        '2024-02-01T00:00:00.000Z',
+        '2024-03-01T00:00:00.000Z'
+      );
+
+      expect(archived).toEqual([februaryNap]);
+    });
+  });
+
+  describe('withArchivedSessions', () => {
+    it('should prefer the live copy of a session', () => {
+      const edited = { ...januaryNap, notes: 'Edited on another phone' };
+
+      expect(withArchivedSessions([edited, recentNap], [januaryNap, februaryNap])).toEqual([
+        februaryNap,
+        edited,
+        recentNap,
+      ]);
+    });
+  });
+
+  describe('clearChildStorage', () => {
+    it('should remove archives with the child', async () => {
+      await saveSleepSessions(babyId, [januaryNap]);
+      await compactSleepSessions(babyId, [januaryNap], NOW);
+
+      await clearChildStorage(babyId);
+
+      expect(await listArchivedMonths(babyId)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for Session Classification
+ *
+ * Tests cover:
+ * - Naps, night sleep and night fragments from session times
+ * - The user's override
+ */
+
+import { SleepSession } from '../../types';
+import {
+  inferSessionKind,
+  getSessionKind,
+  isNapSession,
+  isNightSession,
+} from '../sessionClassification';
+
+describe('Session Classification', () => {
+  // Local times, so the hour rules do not depend on the machine's time zone
+  const createSession = (
+    startISO: string,
+    endISO: string,
+    overrides: Partial<SleepSession> = {}
+  ): SleepSession => ({
+    id: `session-${startISO}`,
+    startISO,
+    endISO,
+    source: 'manual',
+    updatedAtISO: endISO,
+    ...overrides,
+  });
+
+  it.each([
+    ['a daytime nap', '2024-06-15T13:00:00', '2024-06-15T14:30:00', 'nap'],
+    ['an early morning nap', '2024-06-15T06:00:00', '2024-06-15T06:45:00', 'nap'],
+    ['the main night sleep', '2024-06-15T19:00:00', '2024-06-16T02:00:00', 'night'],
+    ['a long daytime sleep', '2024-06-15T10:00:00', '2024-06-15T14:00:00', 'night'],
+    ['sleep after a night feed', '2024-06-16T03:00:00', '2024-06-16T06:30:00', 'fragment'],
+    ['a short evening sleep', '2024-06-15T18:00:00', '2024-06-15T19:00:00', 'fragment'],
+  ])('should classify %s', (_label, startISO, endISO, kind) => {
+    expect(inferSessionKind(createSession(startISO, endISO))).toBe(kind);
+  });
+
+  it('should prefer the kind set by the user', () => {
+    const catnap = createSession('2024-06-15T18:00:00', '2024-06-15T18:30:00', { kind: 'nap' });
+
+    expect(inferSessionKind(catnap)).toBe('fragment');
+    expect(getSessionKind(catnap)).toBe('nap');
+    expect(isNapSession(catnap)).toBe(true);
+    expect(isNightSession(catnap)).toBe(false);
+  });
+
+  it('should count fragments as night sleep', () => {
+    const fragment = createSession('2024-06-16T03:00:00', '2024-06-16T04:00:00');
+
+    expect(isNightSession(fragment)).toBe(true);
+    expect(isNapSession(fragment)).toBe(false);
+  });
+});
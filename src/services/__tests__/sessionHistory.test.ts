@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Session History
+ *
+ * Tests cover:
+ * - Recording sessions before and after a change
+ * - Undoing adds, edits and deletes as fresh edits
+ * - Redoing an undone change
+ */
+
+import { SleepSession } from '../../types';
+import { applySessionEdit } from '../../sync/merge';
+import { createHistoryEntry, getUndoChanges, getRedoChanges } from '../sessionHistory';
+
+describe('Session History', () => {
+  const babyId = 'baby_1';
+  const EDIT_TIME = '2024-06-15T15:00:00.000Z';
+  const UNDO_TIME = '2024-06-15T15:01:00.000Z';
+  const REDO_TIME = '2024-06-15T15:02:00.000Z';
+
+  const nap: SleepSession = {
+    id: 'nap',
+    startISO: '2024-06-15T13:00:00.000Z',
+    endISO: '2024-06-15T14:00:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T14:00:00.000Z',
+  };
+
+  describe('createHistoryEntry', () => {
+    it('should record new sessions as missing before the change', () => {
+      const added = { ...nap, id: 'added' };
+      const entry = createHistoryEntry(babyId, 'Sleep saved', [nap], [added]);
+
+      expect(entry.babyId).toBe(babyId);
+      expect(entry.before).toEqual({ added: null });
+      expect(entry.after).toEqual({ added });
+    });
+  });
+
+  describe('getUndoChanges', () => {
+    it('should delete a session the change added', () => {
+      const entry = createHistoryEntry(babyId, 'Sleep saved', [], [nap]);
+
+      const [undone] = getUndoChanges(entry, [nap], UNDO_TIME);
+
+      expect(undone).toMatchObject({ id: 'nap', deleted: true, updatedAtISO: UNDO_TIME });
+    });
+
+    it('should restore a deleted session with a newer clock', () => {
+      const tombstone = applySessionEdit(nap, { deleted: true }, EDIT_TIME);
+      const entry = createHistoryEntry(babyId, 'Session deleted', [nap], [tombstone]);
+
+      const [restored] = getUndoChanges(entry, [tombstone], UNDO_TIME);
+
+      expect(restored.deleted).toBeUndefined();
+      expect(restored.updatedAtISO).toBe(UNDO_TIME);
+    });
+
+    it('should put edited fields back, clearing fields the edit added', () => {
+      const edited = applySessionEdit(
+        nap,
+        { endISO: '2024-06-15T14:30:00.000Z', notes: 'Car' },
+        EDIT_TIME
+      );
+      const entry = createHistoryEntry(babyId, 'Session updated', [nap], [edited]);
+
+      const [undone] = getUndoChanges(entry, [edited], UNDO_TIME);
+
+      expect(undone.endISO).toBe(nap.endISO);
+      expect(undone.notes).toBeUndefined();
+      expect(undone.startISO).toBe(nap.startISO);
+    });
+
+    it('should skip sessions that are no longer loaded', () => {
+      const entry = createHistoryEntry(babyId, 'Sleep saved', [], [nap]);
+
+      expect(getUndoChanges(entry, [], UNDO_TIME)).toEqual([]);
+    });
+  });
+
+  describe('getRedoChanges', () => {
+    it('should reapply a change after it was undone', () => {
+      const edited = applySessionEdit(nap, { quality: 2 }, EDIT_TIME);
+      const entry = createHistoryEntry(babyId, 'Session updated', [nap], [edited]);
+      const [undone] = getUndoChanges(entry, [edited], UNDO_TIME);
+
+      const [redone] = getRedoChanges(entry, [undone], REDO_TIME);
+
+      expect(redone.quality).toBe(2);
+      expect(redone.updatedAtISO).toBe(REDO_TIME);
+    });
+
+    it('should bring back a session whose add was undone', () => {
+      const entry = createHistoryEntry(babyId, 'Sleep saved', [], [nap]);
+      const [undone] = getUndoChanges(entry, [nap], UNDO_TIME);
+
+      const [redone] = getRedoChanges(entry, [undone], REDO_TIME);
+
+      expect(redone.deleted).toBeUndefined();
+    });
+  });
+});
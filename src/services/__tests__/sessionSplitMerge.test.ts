@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Session Split and Merge
+ *
+ * Tests cover:
+ * - Which sessions can be merged
+ * - Gaps kept as wakings when merging
+ * - Splitting at a time and inside a waking
+ * - Location and method tags kept on merged and split sessions
+ */
+
+import { SleepSession } from '../../types';
+import { getMergeError, mergeSessions, splitSession } from '../sessionSplitMerge';
+
+describe('Session Split and Merge', () => {
+  const NOW = '2024-06-16T08:00:00.000Z';
+
+  const createSession = (
+    id: string,
+    startISO: string,
+    endISO: string,
+    overrides: Partial<SleepSession> = {}
+  ): SleepSession => ({
+    id,
+    startISO,
+    endISO,
+    source: 'timer',
+    updatedAtISO: endISO,
+    ...overrides,
+  });
+
+  const beforeStir = createSession('a', '2024-06-15T13:00:00.000Z', '2024-06-15T13:40:00.000Z', {
+    quality: 3,
+    notes: 'Stirred',
+  });
+  const afterStir = createSession('b', '2024-06-15T13:50:00.000Z', '2024-06-15T14:30:00.000Z', {
+    notes: 'Resettled',
+  });
+  const lateNap = createSession('c', '2024-06-15T16:00:00.000Z', '2024-06-15T16:45:00.000Z');
+
+  describe('getMergeError', () => {
+    it('should allow sessions separated by a short gap', () => {
+      expect(getMergeError([afterStir, beforeStir], 30)).toBeNull();
+    });
+
+    it('should refuse a single session or a long gap', () => {
+      expect(getMergeError([beforeStir], 30)).toBe('Select at least two sessions to merge');
+      expect(getMergeError([beforeStir, afterStir, lateNap], 30)).toBe(
+        'Only sessions less than 30 minutes apart can be merged'
+      );
+    });
+  });
+
+  describe('mergeSessions', () => {
+    it('should keep the earliest session and record the gap as a waking', () => {
+      const [merged, removed] = mergeSessions([afterStir, beforeStir], NOW, 30);
+
+      expect(merged).toMatchObject({
+        id: 'a',
+        startISO: '2024-06-15T13:00:00.000Z',
+        endISO: '2024-06-15T14:30:00.000Z',
+        quality: 3,
+        notes: 'Stirred / Resettled',
+        wakings: [{ startISO: '2024-06-15T13:40:00.000Z', endISO: '2024-06-15T13:50:00.000Z' }],
+        updatedAtISO: NOW,
+      });
+      expect(removed).toMatchObject({ id: 'b', deleted: true, updatedAtISO: NOW });
+    });
+
+    it('should not add a waking for overlapping sessions', () => {
+      const overlapping = createSession('d', '2024-06-15T13:30:00.000Z', '2024-06-15T14:00:00.000Z');
+
+      const [merged] = mergeSessions([beforeStir, overlapping], NOW, 30);
+
+      expect(merged.endISO).toBe('2024-06-15T14:00:00.000Z');
+      expect(merged.wakings).toBeUndefined();
+    });
+
+    it('should fall back to the location and method of later sessions', () => {
+      const strollerNap: SleepSession = { ...afterStir, location: 'stroller', method: 'rocked' };
+
+      const [merged] = mergeSessions([beforeStir, strollerNap], NOW, 30);
+
+      expect(merged.location).toBe('stroller');
+      expect(merged.method).toBe('rocked');
+    });
+
+    it('should throw when the sessions cannot be merged', () => {
+      expect(() => mergeSessions([beforeStir, lateNap], NOW, 30)).toThrow(
+        'Only sessions less than 30 minutes apart can be merged'
+      );
+    });
+  });
+
+  describe('splitSession', () => {
+    const nap = createSession('nap', '2024-06-15T13:00:00.000Z', '2024-06-15T15:00:00.000Z', {
+      quality: 4,
+      notes: 'Long nap',
+      createdBy: 'caregiver_1',
+    });
+
+    it('should cut the session in two at the given time', () => {
+      const [first, second] = splitSession(nap, '2024-06-15T14:00:00.000Z', NOW, 5);
+
+      expect(first).toMatchObject({
+        id: 'nap',
+        startISO: '2024-06-15T13:00:00.000Z',
+        endISO: '2024-06-15T14:00:00.000Z',
+        notes: 'Long nap',
+      });
+      expect(second).toMatchObject({
+        startISO: '2024-06-15T14:00:00.000Z',
+        endISO: '2024-06-15T15:00:00.000Z',
+        quality: 4,
+        source: 'timer',
+        createdBy: 'caregiver_1',
+        updatedAtISO: NOW,
+      });
+      expect(second.id).not.toBe('nap');
+      expect(second.notes).toBeUndefined();
+    });
+
+    it('should turn a waking at the split time into the gap', () => {
+      const [merged] = mergeSessions([afterStir, beforeStir], NOW, 30);
+
+      const [first, second] = splitSession(merged, '2024-06-15T13:45:00.000Z', NOW, 5);
+
+      expect(first.endISO).toBe('2024-06-15T13:40:00.000Z');
+      expect(second.startISO).toBe('2024-06-15T13:50:00.000Z');
+      expect(first.wakings).toBeUndefined();
+      expect(second.wakings).toBeUndefined();
+    });
+
+    it('should keep the location and method on both parts', () => {
+      const carNap: SleepSession = { ...nap, location: 'car', method: 'rocked' };
+
+      const parts = splitSession(carNap, '2024-06-15T14:00:00.000Z', NOW, 5);
+
+      parts.forEach((part) => {
+        expect(part.location).toBe('car');
+        expect(part.method).toBe('rocked');
+      });
+    });
+
+    it('should refuse to leave a part shorter than the minimum', () => {
+      expect(() => splitSession(nap, '2024-06-15T13:03:00.000Z', NOW, 5)).toThrow(
+        'Both parts must be at least 5 minutes long'
+      );
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit Tests for Session Validation
+ *
+ * Tests cover:
+ * - Overlap and duplicate detection
+ * - Merge, trim and keep-both resolutions, including wakings
+ * - Data health scan over existing history
+ */
+
+import {
+  findSessionConflicts,
+  getResolutionOptions,
+  resolveConflict,
+  scanSessionHealth,
+  describeConflict,
+} from '../sessionValidation';
+import { SleepSession } from '../../types';
+import { getWakingsError } from '../nightWakings';
+
+describe('Session Validation', () => {
+  const NOW = '2024-06-16T08:00:00.000Z';
+
+  const createSession = (
+    id: string,
+    startISO: string,
+    endISO: string,
+    overrides: Partial<SleepSession> = {}
+  ): SleepSession => ({
+    id,
+    startISO,
+    endISO,
+    source: 'manual',
+    updatedAtISO: '2024-06-15T20:00:00.000Z',
+    ...overrides,
+  });
+
+  const nap = createSession('nap', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z', {
+    quality: 4,
+    notes: 'Crib',
+  });
+
+  describe('findSessionConflicts', () => {
+    it('should flag sessions that intersect', () => {
+      const timer = createSession('timer', '2024-06-15T13:40:00.000Z', '2024-06-15T14:30:00.000Z');
+      const [conflict] = findSessionConflicts(timer, [nap]);
+
+      expect(conflict).toMatchObject({ kind: 'overlap', other: nap, overlapMinutes: 20 });
+    });
+
+    it('should call near-identical times a duplicate', () => {
+      const repeat = createSession('repeat', '2024-06-15T13:03:00.000Z', '2024-06-15T13:58:00.000Z');
+
+      expect(findSessionConflicts(repeat, [nap])[0].kind).toBe('duplicate');
+    });
+
+    it('should allow back-to-back sessions and ignore deleted ones', () => {
+      const next = createSession('next', '2024-06-15T14:00:00.000Z', '2024-06-15T15:00:00.000Z');
+      const deleted = { ...nap, id: 'deleted', deleted: true };
+
+      expect(findSessionConflicts(next, [nap])).toEqual([]);
+      expect(findSessionConflicts(nap, [deleted])).toEqual([]);
+    });
+
+    it('should not compare a session with itself', () => {
+      expect(findSessionConflicts(nap, [nap])).toEqual([]);
+    });
+  });
+
+  describe('resolveConflict', () => {
+    const timer = createSession('timer', '2024-06-15T13:40:00.000Z', '2024-06-15T14:30:00.000Z', {
+      notes: 'Stroller',
+    });
+    const [conflict] = findSessionConflicts(timer, [nap]);
+
+    it('should merge into the existing session and drop the new one', () => {
+      const { sessions, discardedId } = resolveConflict(conflict, 'merge', NOW);
+
+      expect(discardedId).toBe('timer');
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        id: 'nap',
+        startISO: nap.startISO,
+        endISO: timer.endISO,
+        quality: 4,
+        notes: 'Crib / Stroller',
+        updatedAtISO: NOW,
+      });
+      expect(sessions[0].fieldUpdatedAtISO?.startISO).toBe(nap.updatedAtISO);
+    });
+
+    it('should keep the wakings of both sessions when merging', () => {
+      const feed = {
+        startISO: '2024-06-15T13:20:00.000Z',
+        endISO: '2024-06-15T13:30:00.000Z',
+        reason: 'feed' as const,
+      };
+      const comfort = {
+        startISO: '2024-06-15T14:10:00.000Z',
+        endISO: '2024-06-15T14:20:00.000Z',
+        reason: 'comfort' as const,
+      };
+      const [wakingConflict] = findSessionConflicts({ ...timer, wakings: [comfort] }, [
+        { ...nap, wakings: [feed] },
+      ]);
+
+      const [merged] = resolveConflict(wakingConflict, 'merge', NOW).sessions;
+
+      expect(merged.wakings).toEqual([feed, comfort]);
+    });
+
+    it('should carry over the put-down time that goes with the merged start', () => {
+      const earlier = createSession(
+        'earlier',
+        '2024-06-15T12:50:00.000Z',
+        '2024-06-15T13:30:00.000Z',
+        { putDownISO: '2024-06-15T12:35:00.000Z' }
+      );
+      const [putDownConflict] = findSessionConflicts(earlier, [
+        { ...nap, putDownISO: '2024-06-15T12:55:00.000Z' },
+      ]);
+
+      const [merged] = resolveConflict(putDownConflict, 'merge', NOW).sessions;
+
+      expect(merged.startISO).toBe(earlier.startISO);
+      expect(merged.putDownISO).toBe(earlier.putDownISO);
+    });
+
+    it('should fall back to the dropped session tags when merging', () => {
+      const [tagConflict] = findSessionConflicts(
+        { ...timer, location: 'stroller', method: 'rocked' },
+        [{ ...nap, method: 'independent' }]
+      );
+
+      const [merged] = resolveConflict(tagConflict, 'merge', NOW).sessions;
+
+      expect(merged).toMatchObject({ location: 'stroller', method: 'independent' });
+    });
+
+    it('should trim the new session to start when the other ends', () => {
+      const { sessions, discardedId } = resolveConflict(conflict, 'trim', NOW);
+
+      expect(discardedId).toBeNull();
+      expect(sessions[0]).toMatchObject({
+        id: 'timer',
+        startISO: nap.endISO,
+        endISO: timer.endISO,
+      });
+    });
+
+    it('should keep the longer piece when the other sits inside it', () => {
+      const long = createSession('long', '2024-06-15T12:00:00.000Z', '2024-06-15T13:30:00.000Z');
+      const inner = createSession('inner', '2024-06-15T12:15:00.000Z', '2024-06-15T12:30:00.000Z');
+      const [innerConflict] = findSessionConflicts(long, [inner]);
+
+      expect(resolveConflict(innerConflict, 'trim', NOW).sessions[0]).toMatchObject({
+        startISO: inner.endISO,
+        endISO: long.endISO,
+      });
+    });
+
+    it('should drop or clip wakings left outside a trimmed night', () => {
+      const waking = (startISO: string, endISO: string, reason: 'feed' | 'comfort') => ({
+        startISO,
+        endISO,
+        reason,
+      });
+      const night = createSession('night', '2024-06-15T19:00:00.000Z', '2024-06-16T06:00:00.000Z', {
+        wakings: [
+          waking('2024-06-15T22:00:00.000Z', '2024-06-15T22:20:00.000Z', 'feed'),
+          waking('2024-06-16T02:50:00.000Z', '2024-06-16T03:10:00.000Z', 'comfort'),
+          waking('2024-06-16T04:00:00.000Z', '2024-06-16T04:15:00.000Z', 'feed'),
+        ],
+      });
+      const early = createSession('early', '2024-06-16T03:00:00.000Z', '2024-06-16T07:00:00.000Z');
+      const [nightConflict] = findSessionConflicts(night, [early]);
+
+      const [trimmed] = resolveConflict(nightConflict, 'trim', NOW).sessions;
+
+      expect(trimmed.endISO).toBe(early.startISO);
+      expect(trimmed.wakings).toEqual([
+        waking('2024-06-15T22:00:00.000Z', '2024-06-15T22:20:00.000Z', 'feed'),
+        waking('2024-06-16T02:50:00.000Z', '2024-06-16T03:00:00.000Z', 'comfort'),
+      ]);
+      expect(getWakingsError(trimmed.startISO, trimmed.endISO, trimmed.wakings ?? [])).toBeNull();
+    });
+
+    it('should keep both unchanged', () => {
+      expect(resolveConflict(conflict, 'keepBoth', NOW)).toEqual({
+        sessions: [timer],
+        discardedId: null,
+      });
+    });
+  });
+
+  describe('getResolutionOptions', () => {
+    it('should not offer trimming when nothing would be left', () => {
+      const inside = createSession('inside', '2024-06-15T13:10:00.000Z', '2024-06-15T13:50:00.000Z');
+      const [conflict] = findSessionConflicts(inside, [nap]);
+
+      expect(getResolutionOptions(conflict)).toEqual(['merge', 'keepBoth']);
+      expect(() => resolveConflict(conflict, 'trim', NOW)).toThrow();
+    });
+
+    it('should offer every resolution for a partial overlap', () => {
+      const timer = createSession('timer', '2024-06-15T13:40:00.000Z', '2024-06-15T14:30:00.000Z');
+      const [conflict] = findSessionConflicts(timer, [nap]);
+
+      expect(getResolutionOptions(conflict)).toEqual(['merge', 'trim', 'keepBoth']);
+      expect(describeConflict(conflict)).toMatch(/^Overlaps .* by 20m$/);
+    });
+  });
+
+  describe('scanSessionHealth', () => {
+    it('should report each clashing pair once with the later session to fix', () => {
+      const sessions = [
+        createSession('night', '2024-06-14T19:00:00.000Z', '2024-06-15T06:00:00.000Z'),
+        createSession('early', '2024-06-15T05:30:00.000Z', '2024-06-15T06:30:00.000Z'),
+        nap,
+        createSession('copy', '2024-06-15T13:01:00.000Z', '2024-06-15T14:00:00.000Z'),
+        createSession('later', '2024-06-15T16:00:00.000Z', '2024-06-15T17:00:00.000Z'),
+      ];
+
+      const conflicts = scanSessionHealth(sessions);
+
+      expect(conflicts.map((c) => [c.kind, c.other.id, c.session.id])).toEqual([
+        ['overlap', 'night', 'early'],
+        ['duplicate', 'nap', 'copy'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit Tests for the Pediatrician Sleep Report
+ *
+ * Tests cover:
+ * - Date range and per-day totals
+ * - Wake windows, longest night stretch and bedtime trend
+ * - Self-contained HTML with inline SVG charts and escaped text
+ */
+
+import {
+  getReportRange,
+  buildSleepReport,
+  renderSleepReportHtml,
+  getReportFileName,
+} from '../sleepReport';
+import { BabyProfile, LearnerState, SleepSession } from '../../types';
+import { time } from '../../utils/time';
+
+describe('Sleep Report', () => {
+  const profile: BabyProfile = {
+    id: 'baby_1',
+    name: 'Emma <3',
+    birthDateISO: '2024-01-01T00:00:00.000Z',
+  };
+
+  const learnerState: LearnerState = {
+    version: 1,
+    ewmaNapLengthMin: 75,
+    ewmaWakeWindowMin: 150,
+    lastUpdatedISO: '2024-06-14T12:00:00.000Z',
+    confidence: 0.8,
+  };
+
+  // Local wall-clock times, so day grouping does not depend on the test machine's zone
+  const local = (wallclock: string) => time.parse(wallclock).toISOString();
+
+  let counter = 0;
+  const createSession = (start: string, end: string, overrides: Partial<SleepSession> = {}): SleepSession => ({
+    id: `session_${++counter}`,
+    startISO: local(start),
+    endISO: local(end),
+    source: 'manual',
+    updatedAtISO: local(end),
+    ...overrides,
+  });
+
+  const range = { startDayKey: '2024-06-10', endDayKey: '2024-06-13' };
+  const nowISO = local('2024-06-14T09:00:00');
+
+  const sessions = [
+    createSession('2024-06-10T09:00:00', '2024-06-10T10:00:00'),
+    createSession('2024-06-10T13:00:00', '2024-06-10T14:30:00'),
+    createSession('2024-06-10T19:00:00', '2024-06-11T06:00:00'),
+    createSession('2024-06-11T09:30:00', '2024-06-11T10:30:00'),
+    createSession('2024-06-11T19:30:00', '2024-06-12T02:00:00'),
+    createSession('2024-06-12T02:30:00', '2024-06-12T06:30:00'),
+    createSession('2024-06-12T20:00:00', '2024-06-13T06:00:00'),
+    createSession('2024-06-13T20:30:00', '2024-06-14T06:00:00'),
+    // Outside the range or deleted
+    createSession('2024-06-09T10:00:00', '2024-06-09T11:00:00'),
+    createSession('2024-06-11T13:00:00', '2024-06-11T14:00:00', { deleted: true }),
+  ];
+
+  const report = buildSleepReport({ profile, sessions, learnerState, range, nowISO });
+
+  it('should cover the requested number of days ending today', () => {
+    expect(getReportRange(14, local('2024-06-14T09:00:00'))).toEqual({
+      startDayKey: '2024-06-01',
+      endDayKey: '2024-06-14',
+    });
+  });
+
+  it('should total day and night sleep per day, skipping deleted sessions', () => {
+    expect(report.days.map((day) => day.dayKey)).toEqual([
+      '2024-06-10',
+      '2024-06-11',
+      '2024-06-12',
+      '2024-06-13',
+    ]);
+    expect(report.days[0]).toMatchObject({
+      daySleepMin: 150,
+      nightSleepMin: 660,
+      napCount: 2,
+      longestNightStretchMin: 660,
+    });
+    expect(report.days[1]).toMatchObject({ daySleepMin: 60, napCount: 1, nightSleepMin: 390 });
+    expect(report.loggedDayCount).toBe(4);
+  });
+
+  it('should take the first evening night sleep as bedtime', () => {
+    expect(report.days[2].bedtimeISO).toBe(local('2024-06-12T20:00:00'));
+    expect(report.days[2].nightSleepMin).toBe(240 + 600);
+  });
+
+  it('should report the longest night stretch in the range', () => {
+    expect(report.longestNightStretch).toEqual({
+      durationMin: 660,
+      startISO: local('2024-06-10T19:00:00'),
+    });
+  });
+
+  it('should count night wakings and leave them out of sleep and stretches', () => {
+    const night = createSession('2024-06-10T19:00:00', '2024-06-11T06:00:00', {
+      wakings: [
+        { startISO: local('2024-06-10T23:00:00'), endISO: local('2024-06-10T23:30:00'), reason: 'feed' },
+        { startISO: local('2024-06-11T03:00:00'), endISO: local('2024-06-11T03:15:00'), reason: 'comfort' },
+      ],
+    });
+
+    const withWakings = buildSleepReport({
+      profile,
+      sessions: [night],
+      learnerState,
+      range: { startDayKey: '2024-06-10', endDayKey: '2024-06-10' },
+      nowISO,
+    });
+
+    expect(withWakings.days[0]).toMatchObject({
+      nightSleepMin: 660 - 45,
+      nightWakingCount: 2,
+      longestNightStretchMin: 240,
+    });
+    expect(withWakings.averages.nightWakings).toBe(2);
+    expect(withWakings.longestNightStretch).toEqual({
+      durationMin: 240,
+      startISO: local('2024-06-10T19:00:00'),
+    });
+  });
+
+  it('should average wake windows using the learner bounds', () => {
+    // 3h between naps, 4h30 before bed, 3h30 before the nap on the 11th and a
+    // 30m night waking; the longer all-day gaps fall outside 15-480m
+    expect(report.averages.wakeWindowMin).toBeCloseTo((180 + 270 + 210 + 30) / 4);
+  });
+
+  it('should show bedtime moving later', () => {
+    // 19:00 and 19:30 against 20:00 and 20:30
+    expect(report.bedtimeShiftMin).toBe(60);
+  });
+
+  it('should reuse the chart data for the whole range', () => {
+    expect(report.daytimeSleepChart.datasets[0].data).toEqual([150, 60, 0, 0]);
+    expect(report.napLengthChart.datasets[0].data).toEqual([75, 60, 0, 0]);
+  });
+
+  describe('renderSleepReportHtml', () => {
+    const html = renderSleepReportHtml(report);
+
+    it('should be a self-contained document with inline SVG charts', () => {
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html.match(/<svg /g)).toHaveLength(4);
+      expect(html).not.toMatch(/<(script|link|img)\b/);
+    });
+
+    it('should escape user text', () => {
+      expect(html).toContain('Emma &lt;3 – Sleep Report');
+      expect(html).not.toContain('Emma <3');
+    });
+
+    it('should include the learned pattern and daily totals', () => {
+      expect(html).toContain('Learned wake window');
+      expect(html).toContain('2h 30m');
+      expect(html).toContain('80%');
+      expect(html).toContain('1h 00m later over the period');
+    });
+  });
+
+  it('should name the file after the baby and the range', () => {
+    expect(getReportFileName('Emma Rose', range)).toBe(
+      'emma-rose-sleep-report-2024-06-10-to-2024-06-13.html'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Sleep Location and Method Tags
+ *
+ * Tests cover:
+ * - Tag labels shown on sessions
+ * - Motion naps
+ * - Average nap length per location
+ */
+
+import {
+  describeSleepTags,
+  isMotionSleep,
+  getNapLengthByLocation,
+} from '../sleepTags';
+import { SleepSession } from '../../types';
+
+describe('Sleep Tags', () => {
+  // Local wall-clock times so every test session is a daytime nap
+  const createNap = (
+    id: string,
+    durationMin: number,
+    overrides: Partial<SleepSession> = {}
+  ): SleepSession => {
+    const start = new Date(2024, 5, 15, 13, 0);
+    return {
+      id,
+      startISO: start.toISOString(),
+      endISO: new Date(start.getTime() + durationMin * 60000).toISOString(),
+      source: 'manual',
+      updatedAtISO: start.toISOString(),
+      ...overrides,
+    };
+  };
+
+  it('should describe whichever tags are set', () => {
+    expect(describeSleepTags(createNap('a', 60, { location: 'crib', method: 'rocked' }))).toBe(
+      'Crib · Rocked'
+    );
+    expect(describeSleepTags(createNap('b', 60, { method: 'independent' }))).toBe('Independent');
+    expect(describeSleepTags(createNap('c', 60))).toBeNull();
+  });
+
+  it('should treat stroller, car and carrier naps as motion naps', () => {
+    expect(isMotionSleep(createNap('a', 60, { location: 'stroller' }))).toBe(true);
+    expect(isMotionSleep(createNap('b', 60, { location: 'carrier' }))).toBe(true);
+    expect(isMotionSleep(createNap('c', 60, { location: 'contact' }))).toBe(false);
+    expect(isMotionSleep(createNap('d', 60))).toBe(false);
+  });
+
+  it('should average nap length per location with untagged naps last', () => {
+    const sessions = [
+      createNap('untagged', 45),
+      createNap('car', 90, { location: 'car' }),
+      createNap('crib1', 40, { location: 'crib' }),
+      createNap('crib2', 80, { location: 'crib' }),
+      createNap('deleted', 200, { location: 'crib', deleted: true }),
+    ];
+
+    expect(getNapLengthByLocation(sessions)).toEqual([
+      { location: 'crib', label: 'Crib', napCount: 2, avgMinutes: 60 },
+      { location: 'car', label: 'Car', napCount: 1, avgMinutes: 90 },
+      { location: null, label: 'Untagged', napCount: 1, avgMinutes: 45 },
+    ]);
+  });
+});
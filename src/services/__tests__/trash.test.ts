@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for Trash
+ *
+ * Tests cover:
+ * - Deletion time taken from the deleted field's clock
+ * - Ordering of trashed sessions
+ * - Automatic removal date
+ */
+
+import { SleepSession } from '../../types';
+import { applySessionEdit } from '../../sync/merge';
+import { getDeletedAtISO, getTrashedSessions, getTrashExpiryISO } from '../trash';
+
+describe('Trash', () => {
+  const createSession = (id: string, overrides: Partial<SleepSession> = {}): SleepSession => ({
+    id,
+    startISO: '2024-06-15T13:00:00.000Z',
+    endISO: '2024-06-15T14:00:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T14:00:00.000Z',
+    ...overrides,
+  });
+
+  it('should keep the deletion time when other fields change later', () => {
+    const deleted = applySessionEdit(
+      createSession('nap'),
+      { deleted: true },
+      '2024-06-16T08:00:00.000Z'
+    );
+    const annotated = applySessionEdit(deleted, { notes: 'Wrong day' }, '2024-06-17T08:00:00.000Z');
+
+    expect(getDeletedAtISO(annotated)).toBe('2024-06-16T08:00:00.000Z');
+  });
+
+  it('should list only deleted sessions, most recently deleted first', () => {
+    const sessions = [
+      createSession('kept'),
+      createSession('older', { deleted: true, updatedAtISO: '2024-06-16T08:00:00.000Z' }),
+      createSession('newer', { deleted: true, updatedAtISO: '2024-06-17T08:00:00.000Z' }),
+    ];
+
+    expect(getTrashedSessions(sessions).map((session) => session.id)).toEqual(['newer', 'older']);
+  });
+
+  it('should expire after the retention period', () => {
+    const deleted = createSession('nap', {
+      deleted: true,
+      updatedAtISO: '2024-06-16T08:00:00.000Z',
+    });
+
+    expect(getTrashExpiryISO(deleted, 90)).toBe('2024-09-14T08:00:00.000Z');
+  });
+});
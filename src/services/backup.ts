@@ -0,0 +1,668 @@
+import {
+  BabyProfile,
+  SleepSession,
+  LearnerState,
+  SessionMergeField,
+  Caregiver,
+  NightWaking,
+  NightWakingReason,
+  SessionKind,
+  SleepLocation,
+  SleepMethod,
+  FeedingSession,
+  FeedingType,
+  DisruptionEpisode,
+  DisruptionType,
+} from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../config/constants';
+import {
+  NotificationHistoryItem,
+  loadBabyProfiles,
+  saveBabyProfiles,
+  getActiveProfileId,
+  setActiveProfileId,
+  loadSleepSessions,
+  saveSleepSessions,
+  loadLearnerState,
+  saveLearnerState,
+  loadNotificationHistory,
+  saveNotificationHistory,
+  loadCaregivers,
+  saveCaregivers,
+  loadFeedings,
+  saveFeedings,
+  loadDisruptions,
+  saveDisruptions,
+} from '../storage/sleepStorage';
+import { CAREGIVER_ROLE_LABELS } from './caregivers';
+import { loadAllArchivedSessions, withArchivedSessions } from './sessionArchive';
+import { SESSION_KINDS } from './sessionClassification';
+import { NIGHT_WAKING_REASONS, getWakingsError } from './nightWakings';
+import { SLEEP_LOCATIONS, SLEEP_METHODS } from './sleepTags';
+import { FEEDING_TYPES, sortFeedings } from './feedings';
+import { validateDisruptionInput, sortDisruptions } from './disruptions';
+import { getPendingMigrations, applyMigrations } from '../storage/migrations';
+import { MERGED_SESSION_FIELDS } from '../sync/merge';
+import { time } from '../utils/time';
+
+export const BACKUP_FORMAT = 'coddle-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupChildData {
+  // Includes soft-deleted and archived sessions so deletions survive a restore
+  sessions: SleepSession[];
+  learnerState: LearnerState | null;
+  notificationHistory: NotificationHistoryItem[];
+  // Empty when read from backups made before the feeding log
+  feedings: FeedingSession[];
+  // Empty when read from backups made before disruption episodes
+  disruptions: DisruptionEpisode[];
+}
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  schemaVersion: number;
+  exportedAtISO: string;
+  activeProfileId: string | null;
+  profiles: BabyProfile[];
+  // Missing from backups made before caregiver attribution
+  caregivers?: Caregiver[];
+  children: Record<string, BackupChildData>;
+}
+
+export interface RejectedRow {
+  babyId: string;
+  // Which list the row came from; absent for sleep sessions
+  kind?: 'feeding' | 'disruption';
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface ParsedBackup {
+  backup: BackupDocument | null;
+  error?: string;
+  rejected: RejectedRow[];
+}
+
+export interface RestoreReport {
+  profilesAdded: number;
+  caregiversAdded: number;
+  sessionsAdded: number;
+  sessionsUpdated: number;
+  sessionsUnchanged: number;
+  rejected: RejectedRow[];
+}
+
+const SESSION_SOURCES: SleepSession['source'][] = ['manual', 'timer', 'import'];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isISODate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && time.parse(value).isValid();
+}
+
+// Wakings must be in order and fall inside the session. Wakings from before
+// reasons were recorded are read as unknown.
+function validateWakings(
+  value: unknown,
+  startISO: string,
+  endISO: string
+): { wakings?: NightWaking[]; error?: string } {
+  const invalid = { error: 'Wakings must be ordered times inside the session' };
+  if (!Array.isArray(value)) {
+    return invalid;
+  }
+
+  const wakings: NightWaking[] = [];
+  for (const waking of value) {
+    if (!isRecord(waking) || !isISODate(waking.startISO) || !isISODate(waking.endISO)) {
+      return invalid;
+    }
+    const reason = waking.reason ?? 'unknown';
+    if (!NIGHT_WAKING_REASONS.includes(reason as NightWakingReason)) {
+      return { error: `Unknown waking reason "${String(reason)}"` };
+    }
+    wakings.push({
+      startISO: waking.startISO,
+      endISO: waking.endISO,
+      reason: reason as NightWakingReason,
+    });
+  }
+  return getWakingsError(startISO, endISO, wakings) ? invalid : { wakings };
+}
+
+export async function createBackup(): Promise<BackupDocument> {
+  const { value: profiles } = await loadBabyProfiles();
+  const children: Record<string, BackupChildData> = {};
+
+  for (const profile of profiles) {
+    const [sessions, archived, learner, history, feedings, disruptions] = await Promise.all([
+      loadSleepSessions(profile.id),
+      loadAllArchivedSessions(profile.id),
+      loadLearnerState(profile.id),
+      loadNotificationHistory(profile.id),
+      loadFeedings(profile.id),
+      loadDisruptions(profile.id),
+    ]);
+    children[profile.id] = {
+      sessions: withArchivedSessions(sessions.value, archived),
+      learnerState: learner.value,
+      notificationHistory: history.value,
+      feedings: feedings.value,
+      disruptions: disruptions.value,
+    };
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAtISO: time.nowISO(),
+    activeProfileId: await getActiveProfileId(),
+    profiles,
+    caregivers: (await loadCaregivers()).value,
+    children,
+  };
+}
+
+export function getBackupFileName(nowISO: string = time.nowISO()): string {
+  return `coddle-backup-${time.dayKey(nowISO)}.json`;
+}
+
+/**
+ * Checks every field of a session from an untrusted source.
+ * Returns the session with only known fields, or the reason it was rejected.
+ */
+export function validateSleepSession(value: unknown): { session?: SleepSession; error?: string } {
+  if (!isRecord(value)) {
+    return { error: 'Not an object' };
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    return { error: 'Missing id' };
+  }
+  if (!isISODate(value.startISO)) {
+    return { error: 'Invalid startISO' };
+  }
+  if (!isISODate(value.endISO)) {
+    return { error: 'Invalid endISO' };
+  }
+  if (!time.parse(value.endISO).isAfter(time.parse(value.startISO))) {
+    return { error: 'End time must be after start time' };
+  }
+  if (!isISODate(value.updatedAtISO)) {
+    return { error: 'Invalid updatedAtISO' };
+  }
+  if (!SESSION_SOURCES.includes(value.source as SleepSession['source'])) {
+    return { error: `Unknown source "${String(value.source)}"` };
+  }
+  if (
+    value.quality !== undefined &&
+    (typeof value.quality !== 'number' ||
+      !Number.isInteger(value.quality) ||
+      value.quality < 1 ||
+      value.quality > 5)
+  ) {
+    return { error: 'Quality must be a whole number from 1 to 5' };
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    return { error: 'Notes must be text' };
+  }
+  if (value.deleted !== undefined && typeof value.deleted !== 'boolean') {
+    return { error: 'Deleted must be true or false' };
+  }
+  const wakings =
+    value.wakings !== undefined
+      ? validateWakings(value.wakings, value.startISO, value.endISO)
+      : {};
+  if (wakings.error) {
+    return { error: wakings.error };
+  }
+  if (value.kind !== undefined && !SESSION_KINDS.includes(value.kind as SessionKind)) {
+    return { error: `Unknown kind "${String(value.kind)}"` };
+  }
+  if (
+    value.location !== undefined &&
+    !SLEEP_LOCATIONS.includes(value.location as SleepLocation)
+  ) {
+    return { error: `Unknown location "${String(value.location)}"` };
+  }
+  if (value.method !== undefined && !SLEEP_METHODS.includes(value.method as SleepMethod)) {
+    return { error: `Unknown method "${String(value.method)}"` };
+  }
+  if (
+    value.putDownISO !== undefined &&
+    (!isISODate(value.putDownISO) ||
+      time.parse(value.putDownISO).isAfter(time.parse(value.startISO)))
+  ) {
+    return { error: 'Put-down time must be at or before the start time' };
+  }
+  if (value.createdBy !== undefined && typeof value.createdBy !== 'string') {
+    return { error: 'createdBy must be a caregiver id' };
+  }
+  if (value.updatedBy !== undefined && typeof value.updatedBy !== 'string') {
+    return { error: 'updatedBy must be a caregiver id' };
+  }
+  if (
+    value.fieldUpdatedAtISO !== undefined &&
+    (!isRecord(value.fieldUpdatedAtISO) ||
+      !Object.entries(value.fieldUpdatedAtISO).every(
+        ([field, clock]) =>
+          MERGED_SESSION_FIELDS.includes(field as SessionMergeField) && isISODate(clock)
+      ))
+  ) {
+    return { error: 'Invalid fieldUpdatedAtISO' };
+  }
+
+  const session: SleepSession = {
+    id: value.id,
+    startISO: value.startISO,
+    endISO: value.endISO,
+    source: value.source as SleepSession['source'],
+    updatedAtISO: value.updatedAtISO,
+  };
+  if (value.quality !== undefined) session.quality = value.quality as SleepSession['quality'];
+  if (value.notes !== undefined) session.notes = value.notes;
+  if (value.deleted !== undefined) session.deleted = value.deleted;
+  if (wakings.wakings) session.wakings = wakings.wakings;
+  if (value.kind !== undefined) session.kind = value.kind as SessionKind;
+  if (value.putDownISO !== undefined) session.putDownISO = value.putDownISO;
+  if (value.location !== undefined) session.location = value.location as SleepLocation;
+  if (value.method !== undefined) session.method = value.method as SleepMethod;
+  if (value.createdBy !== undefined) session.createdBy = value.createdBy;
+  if (value.updatedBy !== undefined) session.updatedBy = value.updatedBy;
+  if (value.fieldUpdatedAtISO !== undefined) {
+    session.fieldUpdatedAtISO = value.fieldUpdatedAtISO as SleepSession['fieldUpdatedAtISO'];
+  }
+
+  return { session };
+}
+
+function validateProfile(value: unknown): BabyProfile | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !isISODate(value.birthDateISO)
+  ) {
+    return null;
+  }
+  if (value.dueDateISO !== undefined && !isISODate(value.dueDateISO)) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    name: value.name,
+    birthDateISO: value.birthDateISO,
+    ...(value.dueDateISO ? { dueDateISO: value.dueDateISO as string } : {}),
+    ...(value.excludeMotionNaps === true ? { excludeMotionNaps: true } : {}),
+  };
+}
+
+function validateCaregiver(value: unknown): Caregiver | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !(typeof value.role === 'string' && value.role in CAREGIVER_ROLE_LABELS)
+  ) {
+    return null;
+  }
+  return { id: value.id, name: value.name, role: value.role as Caregiver['role'] };
+}
+
+function validateLearnerState(value: unknown): LearnerState | null {
+  if (
+    !isRecord(value) ||
+    typeof value.ewmaNapLengthMin !== 'number' ||
+    typeof value.ewmaWakeWindowMin !== 'number' ||
+    typeof value.confidence !== 'number' ||
+    !isISODate(value.lastUpdatedISO)
+  ) {
+    return null;
+  }
+  return value as unknown as LearnerState;
+}
+
+function validateFeeding(value: unknown): { feeding?: FeedingSession; error?: string } {
+  if (!isRecord(value)) {
+    return { error: 'Not an object' };
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    return { error: 'Missing id' };
+  }
+  if (!FEEDING_TYPES.includes(value.type as FeedingType)) {
+    return { error: `Unknown feeding type "${String(value.type)}"` };
+  }
+  if (!isISODate(value.startISO)) {
+    return { error: 'Invalid startISO' };
+  }
+  if (!isISODate(value.endISO)) {
+    return { error: 'Invalid endISO' };
+  }
+  if (time.parse(value.endISO).isBefore(time.parse(value.startISO))) {
+    return { error: 'End time must not be before start time' };
+  }
+  if (!isISODate(value.updatedAtISO)) {
+    return { error: 'Invalid updatedAtISO' };
+  }
+  if (value.volumeMl !== undefined && (typeof value.volumeMl !== 'number' || value.volumeMl <= 0)) {
+    return { error: 'Volume must be a positive number' };
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    return { error: 'Notes must be text' };
+  }
+  if (value.createdBy !== undefined && typeof value.createdBy !== 'string') {
+    return { error: 'createdBy must be a caregiver id' };
+  }
+
+  const feeding: FeedingSession = {
+    id: value.id,
+    type: value.type as FeedingType,
+    startISO: value.startISO,
+    endISO: value.endISO,
+    updatedAtISO: value.updatedAtISO,
+  };
+  if (value.volumeMl !== undefined) feeding.volumeMl = value.volumeMl;
+  if (value.notes !== undefined) feeding.notes = value.notes;
+  if (value.createdBy !== undefined) feeding.createdBy = value.createdBy;
+  return { feeding };
+}
+
+function validateDisruption(value: unknown): { episode?: DisruptionEpisode; error?: string } {
+  if (!isRecord(value)) {
+    return { error: 'Not an object' };
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    return { error: 'Missing id' };
+  }
+  if (!isISODate(value.updatedAtISO)) {
+    return { error: 'Invalid updatedAtISO' };
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    return { error: 'Notes must be text' };
+  }
+  if (value.createdBy !== undefined && typeof value.createdBy !== 'string') {
+    return { error: 'createdBy must be a caregiver id' };
+  }
+  const input = {
+    type: value.type as DisruptionType,
+    startDayKey: value.startDayKey as string,
+    endDayKey: value.endDayKey as string,
+  };
+  const validation = validateDisruptionInput(input);
+  if (!validation.isValid) {
+    return { error: validation.error || 'Invalid disruption' };
+  }
+
+  const episode: DisruptionEpisode = { id: value.id, ...input, updatedAtISO: value.updatedAtISO };
+  if (value.notes !== undefined) episode.notes = value.notes;
+  if (value.createdBy !== undefined) episode.createdBy = value.createdBy;
+  return { episode };
+}
+
+function isNotificationHistoryItem(value: unknown): value is NotificationHistoryItem {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.scheduleBlockId === 'string' &&
+    isISODate(value.scheduledForISO)
+  );
+}
+
+/**
+ * Parses and validates a backup file. Backups from older schema versions are
+ * migrated first; backups from a newer app version are refused.
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { backup: null, error: 'This file is not valid JSON', rejected: [] };
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    return { backup: null, error: 'This file is not a Coddle backup', rejected: [] };
+  }
+  if (typeof raw.backupVersion !== 'number' || raw.backupVersion > BACKUP_VERSION) {
+    return { backup: null, error: 'This backup was made by a newer version of the app', rejected: [] };
+  }
+
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { backup: null, error: 'This backup was made by a newer version of the app', rejected: [] };
+  }
+  const migrations = getPendingMigrations(schemaVersion, CURRENT_SCHEMA_VERSION);
+
+  const rawProfiles = Array.isArray(raw.profiles) ? raw.profiles : [];
+  const profiles = rawProfiles
+    .map(validateProfile)
+    .filter((profile): profile is BabyProfile => profile !== null);
+  if (profiles.length === 0) {
+    return { backup: null, error: 'This backup contains no valid baby profiles', rejected: [] };
+  }
+
+  const rawChildren = isRecord(raw.children) ? raw.children : {};
+  const children: Record<string, BackupChildData> = {};
+  const rejected: RejectedRow[] = [];
+
+  for (const profile of profiles) {
+    const rawChild = rawChildren[profile.id];
+    const child: Record<string, unknown> = isRecord(rawChild) ? rawChild : {};
+    const migrated = applyMigrations(
+      {
+        sessions: child.sessions,
+        learner: child.learnerState,
+        notificationHistory: child.notificationHistory,
+      },
+      migrations
+    );
+
+    const sessions: SleepSession[] = [];
+    const rawSessions = Array.isArray(migrated.sessions) ? migrated.sessions : [];
+    rawSessions.forEach((item, index) => {
+      const result = validateSleepSession(item);
+      if (result.session) {
+        sessions.push(result.session);
+      } else {
+        rejected.push({
+          babyId: profile.id,
+          index,
+          id: isRecord(item) && typeof item.id === 'string' ? item.id : undefined,
+          reason: result.error || 'Invalid session',
+        });
+      }
+    });
+
+    const history = Array.isArray(migrated.notificationHistory)
+      ? migrated.notificationHistory.filter(isNotificationHistoryItem)
+      : [];
+
+    const feedings: FeedingSession[] = [];
+    const rawFeedings = Array.isArray(child.feedings) ? child.feedings : [];
+    rawFeedings.forEach((item, index) => {
+      const result = validateFeeding(item);
+      if (result.feeding) {
+        feedings.push(result.feeding);
+      } else {
+        rejected.push({
+          babyId: profile.id,
+          kind: 'feeding',
+          index,
+          id: isRecord(item) && typeof item.id === 'string' ? item.id : undefined,
+          reason: result.error || 'Invalid feeding',
+        });
+      }
+    });
+
+    const disruptions: DisruptionEpisode[] = [];
+    const rawDisruptions = Array.isArray(child.disruptions) ? child.disruptions : [];
+    rawDisruptions.forEach((item, index) => {
+      const result = validateDisruption(item);
+      if (result.episode) {
+        disruptions.push(result.episode);
+      } else {
+        rejected.push({
+          babyId: profile.id,
+          kind: 'disruption',
+          index,
+          id: isRecord(item) && typeof item.id === 'string' ? item.id : undefined,
+          reason: result.error || 'Invalid disruption',
+        });
+      }
+    });
+
+    children[profile.id] = {
+      sessions,
+      learnerState: validateLearnerState(migrated.learner),
+      notificationHistory: history,
+      feedings,
+      disruptions,
+    };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      backupVersion: raw.backupVersion,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAtISO: typeof raw.exportedAtISO === 'string' ? raw.exportedAtISO : time.nowISO(),
+      activeProfileId: typeof raw.activeProfileId === 'string' ? raw.activeProfileId : null,
+      profiles,
+      caregivers: Array.isArray(raw.caregivers)
+        ? raw.caregivers
+            .map(validateCaregiver)
+            .filter((caregiver): caregiver is Caregiver => caregiver !== null)
+        : [],
+      children,
+    },
+    rejected,
+  };
+}
+
+/**
+ * Merges records by id. An incoming record replaces the existing one only
+ * when its updatedAtISO is strictly newer, so restoring an old backup never
+ * undoes later edits.
+ */
+function mergeById<T extends { id: string; updatedAtISO: string }>(
+  existing: T[],
+  incoming: T[]
+): { items: T[]; added: number; updated: number; unchanged: number } {
+  const byId = new Map(existing.map((item) => [item.id, item]));
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  for (const item of incoming) {
+    const current = byId.get(item.id);
+    if (!current) {
+      byId.set(item.id, item);
+      added++;
+    } else if (time.parse(item.updatedAtISO).isAfter(time.parse(current.updatedAtISO))) {
+      byId.set(item.id, item);
+      updated++;
+    } else {
+      unchanged++;
+    }
+  }
+
+  return { items: Array.from(byId.values()), added, updated, unchanged };
+}
+
+export function mergeSessions(
+  existing: SleepSession[],
+  incoming: SleepSession[]
+): { sessions: SleepSession[]; added: number; updated: number; unchanged: number } {
+  const { items, ...counts } = mergeById(existing, incoming);
+  return { sessions: items, ...counts };
+}
+
+/**
+ * Writes a parsed backup into storage, merging with what is already there.
+ * Feeds and disruption episodes are merged by id like sessions. Existing
+ * profiles and caregivers keep their local details; learner state and
+ * notification history are only filled in where missing.
+ */
+export async function restoreBackup(parsed: ParsedBackup): Promise<RestoreReport> {
+  const { backup } = parsed;
+  if (!backup) {
+    throw new Error(parsed.error || 'Invalid backup');
+  }
+
+  const report: RestoreReport = {
+    profilesAdded: 0,
+    caregiversAdded: 0,
+    sessionsAdded: 0,
+    sessionsUpdated: 0,
+    sessionsUnchanged: 0,
+    rejected: parsed.rejected,
+  };
+
+  const { value: localProfiles } = await loadBabyProfiles();
+  const localIds = new Set(localProfiles.map((p) => p.id));
+  const newProfiles = backup.profiles.filter((p) => !localIds.has(p.id));
+  report.profilesAdded = newProfiles.length;
+
+  for (const profile of backup.profiles) {
+    const child = backup.children[profile.id];
+
+    // Archived sessions come back into the live list; the next compaction moves them again
+    const { value: liveSessions } = await loadSleepSessions(profile.id);
+    const localSessions = withArchivedSessions(
+      liveSessions,
+      await loadAllArchivedSessions(profile.id)
+    );
+    const merged = mergeSessions(localSessions, child.sessions);
+    await saveSleepSessions(profile.id, merged.sessions);
+    report.sessionsAdded += merged.added;
+    report.sessionsUpdated += merged.updated;
+    report.sessionsUnchanged += merged.unchanged;
+
+    const { value: localFeedings } = await loadFeedings(profile.id);
+    const mergedFeedings = mergeById(localFeedings, child.feedings);
+    if (mergedFeedings.added + mergedFeedings.updated > 0) {
+      await saveFeedings(profile.id, sortFeedings(mergedFeedings.items));
+    }
+
+    const { value: localDisruptions } = await loadDisruptions(profile.id);
+    const mergedDisruptions = mergeById(localDisruptions, child.disruptions);
+    if (mergedDisruptions.added + mergedDisruptions.updated > 0) {
+      await saveDisruptions(profile.id, sortDisruptions(mergedDisruptions.items));
+    }
+
+    const { value: localLearner } = await loadLearnerState(profile.id);
+    if (!localLearner && child.learnerState) {
+      await saveLearnerState(profile.id, child.learnerState);
+    }
+
+    const { value: localHistory } = await loadNotificationHistory(profile.id);
+    const historyIds = new Set(localHistory.map((item) => item.id));
+    const missingHistory = child.notificationHistory.filter((item) => !historyIds.has(item.id));
+    if (missingHistory.length > 0) {
+      await saveNotificationHistory(profile.id, [...localHistory, ...missingHistory]);
+    }
+  }
+
+  const { value: localCaregivers } = await loadCaregivers();
+  const caregiverIds = new Set(localCaregivers.map((c) => c.id));
+  const newCaregivers = (backup.caregivers ?? []).filter((c) => !caregiverIds.has(c.id));
+  if (newCaregivers.length > 0) {
+    await saveCaregivers([...localCaregivers, ...newCaregivers]);
+  }
+  report.caregiversAdded = newCaregivers.length;
+
+  await saveBabyProfiles([...localProfiles, ...newProfiles]);
+  const activeInBackup = backup.profiles.some((p) => p.id === backup.activeProfileId);
+  if (localProfiles.length === 0 && backup.activeProfileId && activeInBackup) {
+    await setActiveProfileId(backup.activeProfileId);
+  }
+
+  return report;
+}
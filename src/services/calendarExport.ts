@@ -0,0 +1,122 @@
+import { ScheduleBlock } from '../types';
+import { time } from '../utils/time';
+
+export interface CalendarExportOptions {
+  babyId: string;
+  babyName: string;
+  nowISO?: string;
+}
+
+const PRODUCT_ID = '-//Coddle//Sleep Schedule//EN';
+const UID_DOMAIN = 'coddle.app';
+// RFC 5545 limits content lines to 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+const BLOCK_TITLES: Record<ScheduleBlock['kind'], string> = {
+  nap: 'Nap',
+  windDown: 'Wind-down',
+  bedtime: 'Bedtime',
+};
+
+function formatICalDate(iso: string): string {
+  return time.parse(iso).utc().format('YYYYMMDD[T]HHmmss[Z]');
+}
+
+function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Splits a content line into 75-octet pieces; continuation lines start with
+ * a single space. Never breaks inside a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * UID stays the same across exports as long as the block does, so calendar
+ * apps update events in place instead of duplicating them. Block ids come
+ * from the scheduler's generateBlockId and are only unique per child.
+ */
+export function getBlockUid(babyId: string, block: ScheduleBlock): string {
+  return `${babyId}.${block.id}@${UID_DOMAIN}`;
+}
+
+function blockToEvent(block: ScheduleBlock, options: CalendarExportOptions, stamp: string): string[] {
+  const confidence = Math.round(block.confidence * 100);
+  const summary = `${options.babyName}: ${BLOCK_TITLES[block.kind]} (${confidence}% confidence)`;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getBlockUid(options.babyId, block)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatICalDate(block.startISO)}`,
+    `DTEND:${formatICalDate(block.endISO)}`,
+    `SUMMARY:${escapeICalText(summary)}`,
+    `DESCRIPTION:${escapeICalText(block.rationale)}`,
+    `CATEGORIES:${BLOCK_TITLES[block.kind].toUpperCase()}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds an iCalendar feed of nap, wind-down and bedtime blocks in start
+ * order. Times are written in UTC so every subscriber sees them in their
+ * own zone.
+ */
+export function scheduleToICal(blocks: ScheduleBlock[], options: CalendarExportOptions): string {
+  const stamp = formatICalDate(options.nowISO ?? time.nowISO());
+  const events = [...blocks]
+    .sort((a, b) => time.parse(a.startISO).diff(time.parse(b.startISO)))
+    .flatMap((block) => blockToEvent(block, options, stamp));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(`${options.babyName}'s sleep schedule`)}`,
+    ...events,
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function getICalFileName(babyName: string, nowISO: string = time.nowISO()): string {
+  const slug = babyName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'baby'}-schedule-${time.dayKey(nowISO)}.ics`;
+}
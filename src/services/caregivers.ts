@@ -0,0 +1,99 @@
+import { Caregiver, CaregiverRole, SleepSession } from '../types';
+
+export interface CaregiverInput {
+  name: string;
+  role: CaregiverRole;
+}
+
+export const CAREGIVER_ROLE_LABELS: Record<CaregiverRole, string> = {
+  parent: 'Parent',
+  nanny: 'Nanny',
+  grandparent: 'Grandparent',
+  daycare: 'Daycare',
+  other: 'Other',
+};
+
+// Sessions logged before attribution existed, or imported from another app
+export const UNATTRIBUTED_FILTER = 'unattributed';
+
+function generateCaregiverId(): string {
+  return `caregiver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function validateCaregiverInput(
+  input: CaregiverInput,
+  existing: Caregiver[],
+  editingId?: string
+): { isValid: boolean; error?: string } {
+  const name = input.name.trim();
+  if (!name) {
+    return { isValid: false, error: 'Please enter a name' };
+  }
+  if (!(input.role in CAREGIVER_ROLE_LABELS)) {
+    return { isValid: false, error: 'Please choose a role' };
+  }
+
+  const duplicate = existing.some(
+    (caregiver) =>
+      caregiver.id !== editingId && caregiver.name.toLowerCase() === name.toLowerCase()
+  );
+  if (duplicate) {
+    return { isValid: false, error: `${name} is already a caregiver` };
+  }
+
+  return { isValid: true };
+}
+
+export function createCaregiver(input: CaregiverInput): Caregiver {
+  return {
+    id: generateCaregiverId(),
+    name: input.name.trim(),
+    role: input.role,
+  };
+}
+
+/**
+ * Name to show for a caregiver id. Ids from another phone that are not in
+ * the local list (e.g. a caregiver added after the last backup restore)
+ * still get a readable label.
+ */
+export function getCaregiverName(caregivers: Caregiver[], caregiverId?: string): string | null {
+  if (!caregiverId) {
+    return null;
+  }
+  return caregivers.find((caregiver) => caregiver.id === caregiverId)?.name ?? 'Another caregiver';
+}
+
+/**
+ * "Logged by Anna", or "Logged by Anna · edited by Ben" when someone else
+ * changed it later. Null for unattributed sessions.
+ */
+export function describeAttribution(session: SleepSession, caregivers: Caregiver[]): string | null {
+  const createdBy = getCaregiverName(caregivers, session.createdBy);
+  const updatedBy = getCaregiverName(caregivers, session.updatedBy);
+
+  if (!createdBy) {
+    return updatedBy ? `Edited by ${updatedBy}` : null;
+  }
+  if (updatedBy && session.updatedBy !== session.createdBy) {
+    return `Logged by ${createdBy} · edited by ${updatedBy}`;
+  }
+  return `Logged by ${createdBy}`;
+}
+
+/**
+ * Sessions logged by the given caregiver. `null` keeps everything;
+ * UNATTRIBUTED_FILTER keeps sessions with no caregiver.
+ */
+export function filterSessionsByCaregiver(
+  sessions: SleepSession[],
+  caregiverId: string | null
+): SleepSession[] {
+  if (caregiverId === null) {
+    return sessions;
+  }
+  if (caregiverId === UNATTRIBUTED_FILTER) {
+    return sessions.filter((session) => !session.createdBy);
+  }
+  return sessions.filter((session) => session.createdBy === caregiverId);
+}
@@ -1,8 +1,23 @@
-import { SleepSession, LearnerState, BabyProfile, CoachTip } from '../types';
+import {
+  SleepSession,
+  LearnerState,
+  BabyProfile,
+  CoachTip,
+  FeedingSession,
+  DisruptionEpisode,
+} from '../types';
 import { time } from '../utils/time';
 import { getBaselineForBaby, calculateAgeMonths } from '../utils/ageBaseline';
-import { getLearnedWakeWindow, getLearnedNapLength } from './learner';
-import { COACH_THRESHOLDS } from '../config/constants';
+import {
+  getLearnedWakeWindow,
+  getLearnedNapLength,
+  getOnsetLatencyMin,
+  getOnsetLatencyTrend,
+} from './learner';
+import { COACH_THRESHOLDS, FEEDING_CONFIG, ONSET_LATENCY_CONFIG } from '../config/constants';
+import { getSessionKind, isNapSession } from './sessionClassification';
+import { getFeedToSleepIntervals } from './feedings';
+import { getDisruptionForDay, DISRUPTION_TYPE_LABELS } from './disruptions';
 
 function generateTipId(): string {
   return `tip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -20,17 +35,7 @@ function detectShortNapStreak(
   });
 
   
-  const naps: SleepSession[] = [];
-  for (const session of recentSessions) {
-    const start = time.parse(session.startISO);
-    const durationMin = time.durationMinutes(session.startISO, session.endISO);
-    const hour = start.hour();
-    const isDaytime = hour >= 6 && hour < 20;
-
-    if (durationMin < 240 && isDaytime) {
-      naps.push(session);
-    }
-  }
+  const naps = recentSessions.filter(isNapSession);
 
   
   naps.sort((a, b) => time.parse(b.startISO).diff(time.parse(a.startISO)));
@@ -158,11 +163,10 @@ function detectBedtimeShift(
 
   for (const session of recentSessions) {
     const start = time.parse(session.startISO);
-    const durationMin = time.durationMinutes(session.startISO, session.endISO);
     const hour = start.hour();
 
-    
-    if (hour >= 18 && durationMin >= 240) {
+    // Night sleep that began in the evening rather than after midnight
+    if (hour >= 18 && getSessionKind(session) === 'night') {
       bedtimes.push({
         session,
         bedtimeHour: hour,
@@ -176,7 +180,11 @@ function detectBedtimeShift(
   }
 
 
-  const baseline = getBaselineForBaby(babyProfile.birthDateISO);
+  const baseline = getBaselineForBaby(
+    babyProfile.birthDateISO,
+    undefined,
+    babyProfile.dueDateISO
+  );
   const typicalBedtimeHour = 19; 
   const bedtimeShiftThreshold = 30; 
 
@@ -242,13 +250,10 @@ function detectSplitNight(
 
   // Check each day for split nights
   for (const [dayKey, daySessions] of Object.entries(sessionsByDay)) {
-    // Find night sleep sessions (start after 6 PM, duration >4 hours)
-    const nightSessions = daySessions.filter((s) => {
-      const start = time.parse(s.startISO);
-      const durationMin = time.durationMinutes(s.startISO, s.endISO);
-      const hour = start.hour();
-      return hour >= 18 && durationMin >= 240;
-    });
+    // Find night sleep sessions that began in the evening
+    const nightSessions = daySessions.filter(
+      (s) => time.parse(s.startISO).hour() >= 18 && getSessionKind(s) === 'night'
+    );
 
     if (nightSessions.length >= 2) {
       // Multiple night sleep sessions on same day = split night
@@ -261,39 +266,186 @@ function detectSplitNight(
         const gapMinutes = nextStart.diff(prevEnd, 'minute');
 
         if (gapMinutes > COACH_THRESHOLDS.splitNightGapMinutes) {
-          // Split night detected
-          const gapHours = Math.floor(gapMinutes / 60);
-          const gapMins = Math.round(gapMinutes % 60);
-          const gapMinsStr = gapMins < 10 ? `0${gapMins}` : `${gapMins}`;
-          
-          return {
-            id: generateTipId(),
-            type: 'warning',
-            title: 'Split Night Detected',
-            message: `Night sleep was interrupted with a ${gapHours}h ${gapMinsStr}m wake period. Consider adjusting daytime schedule to prevent split nights.`,
-            justification: `Found ${nightSessions.length} night sleep sessions on ${dayKey} with a ${Math.round(gapMinutes)}-minute gap between them.`,
-            severity: gapMinutes > 120 ? 'high' : 'medium',
-            relatedSessionIds: nightSessions.map((s) => s.id),
-            relatedDateKeys: [dayKey],
-            createdAtISO: time.nowISO(),
-          };
+          return createSplitNightTip(
+            dayKey,
+            gapMinutes,
+            `Found ${nightSessions.length} night sleep sessions on ${dayKey} with a ${Math.round(gapMinutes)}-minute gap between them.`,
+            nightSessions.map((s) => s.id)
+          );
         }
       }
     }
+
+    // A long waking logged inside one night session is a split night too
+    for (const night of nightSessions) {
+      const longWaking = (night.wakings ?? []).find(
+        (waking) =>
+          time.durationMinutes(waking.startISO, waking.endISO) >
+          COACH_THRESHOLDS.splitNightGapMinutes
+      );
+      if (longWaking) {
+        const gapMinutes = time.durationMinutes(longWaking.startISO, longWaking.endISO);
+        return createSplitNightTip(
+          dayKey,
+          gapMinutes,
+          `A ${Math.round(gapMinutes)}-minute night waking was logged on ${dayKey}.`,
+          [night.id]
+        );
+      }
+    }
   }
 
   return null;
 }
 
+function createSplitNightTip(
+  dayKey: string,
+  gapMinutes: number,
+  justification: string,
+  relatedSessionIds: string[]
+): CoachTip {
+  const gapHours = Math.floor(gapMinutes / 60);
+  const gapMins = Math.round(gapMinutes % 60);
+  const gapMinsStr = gapMins < 10 ? `0${gapMins}` : `${gapMins}`;
+
+  return {
+    id: generateTipId(),
+    type: 'warning',
+    title: 'Split Night Detected',
+    message: `Night sleep was interrupted with a ${gapHours}h ${gapMinsStr}m wake period. Consider adjusting daytime schedule to prevent split nights.`,
+    justification,
+    severity: gapMinutes > 120 ? 'high' : 'medium',
+    relatedSessionIds,
+    relatedDateKeys: [dayKey],
+    createdAtISO: time.nowISO(),
+  };
+}
+
+/**
+ * Rule 5: Feeding to Sleep
+ * Detects when most recent sleeps start straight after a feed, which can
+ * make it hard for the baby to settle without one
+ */
+function detectFeedToSleep(
+  sessions: SleepSession[],
+  feedings: FeedingSession[]
+): CoachTip | null {
+  const now = time.now();
+  const recentSessions = sessions.filter(
+    (s) => now.diff(time.parse(s.startISO), 'day') <= 7 && !s.deleted
+  );
+
+  const intervals = getFeedToSleepIntervals(feedings, recentSessions);
+  if (intervals.length < FEEDING_CONFIG.feedToSleepMinSleeps) {
+    return null;
+  }
+
+  const fedToSleep = intervals.filter(
+    (interval) => interval.intervalMin <= FEEDING_CONFIG.feedToSleepMin
+  );
+  const share = fedToSleep.length / intervals.length;
+  if (share < FEEDING_CONFIG.feedToSleepShare) {
+    return null;
+  }
+
+  const fedSessions = recentSessions.filter((s) =>
+    fedToSleep.some((interval) => interval.sessionId === s.id)
+  );
+  const averageGap =
+    intervals.reduce((sum, interval) => sum + interval.intervalMin, 0) / intervals.length;
+
+  return {
+    id: generateTipId(),
+    type: 'suggestion',
+    title: 'Feeding to Sleep',
+    message: `${fedToSleep.length} of the last ${intervals.length} sleeps started within ${FEEDING_CONFIG.feedToSleepMin} minutes of a feed. Try moving the feed earlier in the wind-down routine so baby learns to fall asleep without it.`,
+    justification: `${Math.round(share * 100)}% of sleeps with a feed logged beforehand began within ${FEEDING_CONFIG.feedToSleepMin} minutes of it ending (average gap ${Math.round(averageGap)} minutes).`,
+    severity: share >= 0.9 ? 'medium' : 'low',
+    relatedSessionIds: fedSessions.map((s) => s.id),
+    relatedDateKeys: [...new Set(fedSessions.map((s) => time.dayKey(s.startISO)))],
+    createdAtISO: time.nowISO(),
+  };
+}
+
+/**
+ * Rule 6: Rising Onset Latency
+ * Detects when the baby is taking longer to fall asleep after being put
+ * down, a classic sign the wake window is too short
+ */
+function detectRisingOnsetLatency(
+  sessions: SleepSession[],
+  learnerState: LearnerState | null,
+  babyProfile: BabyProfile
+): CoachTip | null {
+  const trend = getOnsetLatencyTrend(sessions);
+  if (
+    !trend ||
+    trend.recentAvgMin < ONSET_LATENCY_CONFIG.longOnsetLatencyMin ||
+    trend.recentAvgMin - trend.previousAvgMin < ONSET_LATENCY_CONFIG.risingByMin
+  ) {
+    return null;
+  }
+
+  const now = time.now();
+  const recentSessions = sessions.filter(
+    (s) =>
+      getOnsetLatencyMin(s) !== null &&
+      now.diff(time.parse(s.startISO), 'day', true) <= ONSET_LATENCY_CONFIG.recentDays
+  );
+  const wakeWindow = Math.round(getLearnedWakeWindow(learnerState, babyProfile));
+  const suggested = wakeWindow + ONSET_LATENCY_CONFIG.wakeWindowStepMin;
+
+  return {
+    id: generateTipId(),
+    type: 'suggestion',
+    title: 'Taking Longer to Fall Asleep',
+    message: `Baby has taken about ${Math.round(trend.recentAvgMin)} minutes to fall asleep lately, up from ${Math.round(trend.previousAvgMin)}. The ${wakeWindow}-minute wake window may be too short; try ${suggested} minutes.`,
+    justification: `Average time from put-down to asleep over the last ${ONSET_LATENCY_CONFIG.recentDays} days (${trend.recentCount} sleeps) was ${Math.round(trend.recentAvgMin)} minutes, compared with ${Math.round(trend.previousAvgMin)} minutes over the ${trend.previousCount} sleeps before.`,
+    severity: trend.recentAvgMin >= ONSET_LATENCY_CONFIG.longOnsetLatencyMin * 2 ? 'medium' : 'low',
+    relatedSessionIds: recentSessions.map((s) => s.id),
+    relatedDateKeys: [...new Set(recentSessions.map((s) => time.dayKey(s.startISO)))],
+    createdAtISO: time.nowISO(),
+  };
+}
+
+/**
+ * Tips drawn only from disrupted days are dropped, since they describe the
+ * episode rather than the baby's usual sleep. Tips drawn partly from them
+ * are kept but softened and say which episode may be behind them.
+ */
+function applyDisruptions(tip: CoachTip, disruptions: DisruptionEpisode[]): CoachTip | null {
+  const episodes = tip.relatedDateKeys
+    .map((dayKey) => getDisruptionForDay(disruptions, dayKey))
+    .filter((episode): episode is DisruptionEpisode => episode !== null);
+  if (episodes.length === 0) {
+    return tip;
+  }
+  if (episodes.length === tip.relatedDateKeys.length) {
+    return null;
+  }
+
+  const labels = [...new Set(episodes.map((e) => DISRUPTION_TYPE_LABELS[e.type].toLowerCase()))];
+  const dayCount = episodes.length;
+  return {
+    ...tip,
+    type: 'info',
+    severity: 'low',
+    message: `${tip.message} Some of these days were during ${labels.join(' and ')}, so this may settle by itself.`,
+    justification: `${tip.justification} ${dayCount} of the ${tip.relatedDateKeys.length} days behind this tip were marked as disrupted.`,
+  };
+}
+
 /**
  * Generates all coach tips by running all rule detectors
  */
 export function generateCoachTips(
   sessions: SleepSession[],
   learnerState: LearnerState | null,
-  babyProfile: BabyProfile
+  babyProfile: BabyProfile,
+  feedings: FeedingSession[] = [],
+  disruptions: DisruptionEpisode[] = []
 ): CoachTip[] {
-  const tips: CoachTip[] = [];
+  let tips: CoachTip[] = [];
 
   // Filter out deleted sessions
   const activeSessions = sessions.filter((s) => !s.deleted);
@@ -316,6 +468,16 @@ export function generateCoachTips(
   const splitNightTip = detectSplitNight(activeSessions, babyProfile);
   if (splitNightTip) tips.push(splitNightTip);
 
+  const feedToSleepTip = detectFeedToSleep(activeSessions, feedings);
+  if (feedToSleepTip) tips.push(feedToSleepTip);
+
+  const onsetLatencyTip = detectRisingOnsetLatency(activeSessions, learnerState, babyProfile);
+  if (onsetLatencyTip) tips.push(onsetLatencyTip);
+
+  tips = tips
+    .map((tip) => applyDisruptions(tip, disruptions))
+    .filter((tip): tip is CoachTip => tip !== null);
+
   // Sort by severity (high first) and creation time (newest first)
   tips.sort((a, b) => {
     const severityOrder = { high: 3, medium: 2, low: 1 };
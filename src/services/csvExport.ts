@@ -0,0 +1,73 @@
+import { SleepSession } from '../types';
+import { time } from '../utils/time';
+import { getSessionKind } from './sessionClassification';
+
+export const CSV_DATE_FORMATS = {
+  iso: 'YYYY-MM-DD HH:mm',
+  us: 'MM/DD/YYYY h:mm A',
+  eu: 'DD/MM/YYYY HH:mm',
+};
+
+export type CsvDateFormat = keyof typeof CSV_DATE_FORMATS;
+
+export const CSV_DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = {
+  iso: 'YYYY-MM-DD',
+  us: 'MM/DD/YYYY',
+  eu: 'DD/MM/YYYY',
+};
+
+export interface CsvExportOptions {
+  // IANA zone the times are written in; defaults to the device zone
+  timeZone?: string;
+  // dayjs format string for start/end columns
+  dateFormat?: string;
+}
+
+const CSV_COLUMNS = ['Start', 'End', 'Duration (min)', 'Type', 'Quality', 'Notes', 'Source'];
+
+/**
+ * Quotes a field when needed. Leading formula characters are neutralised so
+ * notes like "=5 wakings" open as text in spreadsheet apps.
+ */
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(safe)) {
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+  return safe;
+}
+
+/**
+ * Builds a CSV of active sessions in chronological order. Deleted sessions
+ * are left out.
+ */
+export function sessionsToCsv(sessions: SleepSession[], options: CsvExportOptions = {}): string {
+  const timeZone = options.timeZone ?? time.timeZone();
+  const dateFormat = options.dateFormat ?? CSV_DATE_FORMATS.iso;
+
+  const rows = sessions
+    .filter((session) => !session.deleted)
+    .sort((a, b) => time.parse(a.startISO).diff(time.parse(b.startISO)))
+    .map((session) => [
+      time.format(session.startISO, dateFormat, timeZone),
+      time.format(session.endISO, dateFormat, timeZone),
+      Math.round(time.durationMinutes(session.startISO, session.endISO)).toString(),
+      getSessionKind(session),
+      session.quality ? session.quality.toString() : '',
+      session.notes ?? '',
+      session.source,
+    ]);
+
+  const header = CSV_COLUMNS.map((column, index) =>
+    index < 2 ? `${column} (${timeZone})` : column
+  );
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+export function getCsvFileName(babyName: string, nowISO: string = time.nowISO()): string {
+  const slug = babyName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'baby'}-sleep-${time.dayKey(nowISO)}.csv`;
+}
@@ -0,0 +1,487 @@
+import { SleepSession } from '../types';
+import { time } from '../utils/time';
+import {
+  ConflictResolution,
+  findSessionConflicts,
+  getResolutionOptions,
+  resolveConflict,
+} from './sessionValidation';
+
+/**
+ * Import of sleep logs exported by other baby trackers.
+ *
+ * Trackers disagree on almost everything: column names, whether the end time
+ * or a duration is given, date order, 12h vs 24h clocks, and whether feeds
+ * and diapers share the same file. We detect the layout from the header row
+ * and read every timestamp as wall-clock time in the device zone.
+ */
+
+export type CsvLayout = 'startEnd' | 'startDuration';
+export type DateOrder = 'MDY' | 'DMY';
+
+export interface CsvImportOptions {
+  // IANA zone the file's times are read in; defaults to the device zone
+  timeZone?: string;
+  // Forces the order of ambiguous dates like 03/04/2024
+  dateOrder?: DateOrder;
+  nowISO?: string;
+}
+
+export interface SkippedCsvRow {
+  // 1-based line number in the file, header included
+  line: number;
+  reason: string;
+}
+
+export interface CsvImportResult {
+  layout: CsvLayout | null;
+  dateOrder: DateOrder;
+  sessions: SleepSession[];
+  skipped: SkippedCsvRow[];
+  // Rows of other activities (feeds, diapers...) that were left out
+  ignoredActivities: number;
+  error?: string;
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'overlap';
+
+export interface ImportPreviewItem {
+  session: SleepSession;
+  status: ImportStatus;
+  // Existing session this one duplicates or overlaps
+  conflictId?: string;
+}
+
+const MAX_SESSION_MINUTES = 24 * 60;
+
+const START_HEADERS = ['start', 'start time', 'starttime', 'start date time', 'start date', 'begin', 'from', 'sleep start', 'fell asleep'];
+const END_HEADERS = ['end', 'end time', 'endtime', 'end date time', 'end date', 'finish', 'stop', 'to', 'sleep end', 'woke up'];
+const DURATION_HEADERS = ['duration', 'duration min', 'duration minutes', 'length', 'minutes', 'duration hh mm'];
+const DATE_HEADERS = ['date', 'day', 'start date'];
+const ACTIVITY_HEADERS = ['type', 'activity', 'event', 'category', 'kind'];
+const NOTES_HEADERS = ['notes', 'note', 'comment', 'comments'];
+// Used for start only when nothing more specific exists
+const FALLBACK_START_HEADERS = ['time', 'date time', 'datetime', 'timestamp'];
+
+// Strict parsing treats "6/5" and "06/05" as different formats, so both are listed
+const DATE_FORMATS: Record<DateOrder | 'ISO', string[]> = {
+  ISO: ['YYYY-MM-DD', 'YYYY/MM/DD'],
+  MDY: ['M/D/YYYY', 'MM/DD/YYYY', 'M/D/YY', 'MM/DD/YY', 'M-D-YYYY', 'MM-DD-YYYY', 'MMM D, YYYY', 'MMM D YYYY', 'D MMM YYYY'],
+  DMY: ['D/M/YYYY', 'DD/MM/YYYY', 'D/M/YY', 'DD/MM/YY', 'D.M.YYYY', 'DD.MM.YYYY', 'D-M-YYYY', 'DD-MM-YYYY', 'D MMM YYYY', 'MMM D, YYYY'],
+};
+const TIME_FORMATS = ['HH:mm', 'H:mm', 'HH:mm:ss', 'H:mm:ss', 'h:mm A', 'hh:mm A', 'h:mm:ss A', 'hh:mm:ss A', 'h:mmA', 'hh:mmA', 'h A', 'hA'];
+const DATE_TIME_SEPARATORS = [' ', 'T', ', '];
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, doubled quotes and line breaks). A leading BOM is dropped and
+ * blank lines are skipped. Each row keeps its 1-based starting line number.
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const input = text.replace(/^﻿/, '');
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== '')) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  // Units and zones in parentheses, e.g. "Duration (min)", are dropped
+  return header
+    .replace(/\(.*?\)/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function findColumn(headers: string[], candidates: string[], exclude: number[] = []): number {
+  for (const candidate of candidates) {
+    const index = headers.findIndex((header, i) => header === candidate && !exclude.includes(i));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Undoes the formula guard our own CSV export adds to text fields.
+ */
+function unescapeField(value: string): string {
+  const trimmed = value.trim();
+  return /^'[=+\-@]/.test(trimmed) ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * Picks the date order from values that can only be read one way
+ * (e.g. 25/03 is DMY). Defaults to MDY when nothing is conclusive.
+ */
+export function detectDateOrder(values: string[]): DateOrder {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return 'DMY';
+    if (Number(match[2]) > 12) return 'MDY';
+  }
+  return 'MDY';
+}
+
+const formatCache: Partial<Record<DateOrder, string[]>> = {};
+
+function dateTimeFormats(order: DateOrder): string[] {
+  const cached = formatCache[order];
+  if (cached) return cached;
+
+  const formats: string[] = [];
+  for (const date of [...DATE_FORMATS.ISO, ...DATE_FORMATS[order]]) {
+    for (const separator of DATE_TIME_SEPARATORS) {
+      for (const clock of TIME_FORMATS) {
+        formats.push(`${date}${separator}${clock}`);
+      }
+    }
+  }
+  formatCache[order] = formats;
+  return formats;
+}
+
+/**
+ * Reads a timestamp cell. Values with an explicit offset are taken as-is;
+ * everything else is wall-clock time in `timeZone`. Returns an ISO string
+ * (UTC) or null.
+ */
+export function parseTimestamp(value: string, order: DateOrder, timeZone: string): string | null {
+  // Strict parsing wants "PM", not "pm" or "p.m."
+  const trimmed = value.trim().replace(/([ap])\.?m\.?$/i, (_, p: string) => `${p.toUpperCase()}M`);
+  if (!trimmed) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const parsed = time.parse(trimmed);
+    return parsed.isValid() ? parsed.toISOString() : null;
+  }
+
+  // A file almost always uses one format throughout, so the last match is
+  // moved to the front to keep large imports fast.
+  const formats = dateTimeFormats(order);
+  for (let i = 0; i < formats.length; i++) {
+    const parsed = time.parseLocal(trimmed, [formats[i]], timeZone);
+    if (parsed) {
+      if (i > 0) formats.unshift(...formats.splice(i, 1));
+      return parsed.toISOString();
+    }
+  }
+  return null;
+}
+
+function parseTimeOnly(dateValue: string, timeValue: string, order: DateOrder, timeZone: string) {
+  return parseTimestamp(`${dateValue.trim()} ${timeValue.trim()}`, order, timeZone);
+}
+
+function isSleepActivity(value: string): boolean {
+  return /sleep|nap/i.test(value) || value.toLowerCase() === 'night';
+}
+
+function isTimeOnly(value: string): boolean {
+  return /^\d{1,2}(:\d{2}){0,2}\s*([AaPp][Mm])?$/.test(value.trim());
+}
+
+/**
+ * Reads a duration as minutes. Accepts plain minutes ("95", "95 min"),
+ * clock style ("1:35", "01:35:00") and unit style ("1h 35m", "1 hr 35 min").
+ */
+export function parseDurationMinutes(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  const plain = trimmed.match(/^(\d+(?:\.\d+)?)\s*(m|min|mins|minutes)?$/);
+  if (plain) {
+    return Number(plain[1]);
+  }
+
+  const clock = trimmed.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+  }
+
+  const units = trimmed.match(
+    /^(?:(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours))?\s*(?:(\d+)\s*(?:m|min|mins|minute|minutes))?$/
+  );
+  if (units && (units[1] || units[2])) {
+    return Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0);
+  }
+
+  return null;
+}
+
+/**
+ * Stable id so importing the same file twice maps to the same sessions.
+ */
+function importId(startISO: string, endISO: string): string {
+  const input = `${startISO}|${endISO}`;
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) >>> 0;
+  }
+  return `import_${hash.toString(36)}_${time.parse(startISO).valueOf().toString(36)}`;
+}
+
+/**
+ * Converts another tracker's CSV export into sleep sessions. Rows that cannot
+ * be read are reported in `skipped` rather than failing the whole file.
+ */
+export function parseSleepCsv(text: string, options: CsvImportOptions = {}): CsvImportResult {
+  const timeZone = options.timeZone ?? time.timeZone();
+  const nowISO = options.nowISO ?? time.nowISO();
+  const rows = parseCsv(text);
+
+  const empty = (error: string): CsvImportResult => ({
+    layout: null,
+    dateOrder: options.dateOrder ?? 'MDY',
+    sessions: [],
+    skipped: [],
+    ignoredActivities: 0,
+    error,
+  });
+
+  if (rows.length < 2) {
+    return empty('The file has no rows to import');
+  }
+
+  const headers = rows[0].fields.map(normalizeHeader);
+  let startCol = findColumn(headers, START_HEADERS);
+  if (startCol === -1) startCol = findColumn(headers, FALLBACK_START_HEADERS);
+  const endCol = findColumn(headers, END_HEADERS, [startCol]);
+  const durationCol = headers.findIndex(
+    (header) => DURATION_HEADERS.includes(header) || header.startsWith('duration')
+  );
+  const dateCol = findColumn(headers, DATE_HEADERS, [startCol, endCol]);
+  const activityCol = findColumn(headers, ACTIVITY_HEADERS);
+  const notesCol = findColumn(headers, NOTES_HEADERS);
+
+  if (startCol === -1) {
+    return empty('Could not find a start time column');
+  }
+  if (endCol === -1 && durationCol === -1) {
+    return empty('Could not find an end time or duration column');
+  }
+  const layout: CsvLayout = endCol !== -1 ? 'startEnd' : 'startDuration';
+
+  const dataRows = rows.slice(1);
+  const cell = (fields: string[], col: number) => (col === -1 ? '' : (fields[col] ?? '').trim());
+  const dateOrder =
+    options.dateOrder ??
+    detectDateOrder(
+      dataRows.flatMap((row) => [cell(row.fields, startCol), cell(row.fields, dateCol)])
+    );
+
+  const sessions: SleepSession[] = [];
+  const skipped: SkippedCsvRow[] = [];
+  const seenIds = new Set<string>();
+  let ignoredActivities = 0;
+
+  for (const { line, fields } of dataRows) {
+    if (activityCol !== -1 && !isSleepActivity(cell(fields, activityCol))) {
+      ignoredActivities++;
+      continue;
+    }
+
+    const startValue = cell(fields, startCol);
+    if (!startValue) {
+      skipped.push({ line, reason: 'Missing start time' });
+      continue;
+    }
+
+    const dateValue = cell(fields, dateCol);
+    const startIsTimeOnly = isTimeOnly(startValue);
+    if (startIsTimeOnly && !dateValue) {
+      skipped.push({ line, reason: 'Start time has no date' });
+      continue;
+    }
+    const startISO = startIsTimeOnly
+      ? parseTimeOnly(dateValue, startValue, dateOrder, timeZone)
+      : parseTimestamp(startValue, dateOrder, timeZone);
+    if (!startISO) {
+      skipped.push({ line, reason: `Unreadable start time "${startValue}"` });
+      continue;
+    }
+
+    let endISO: string | null = null;
+    const endValue = cell(fields, endCol);
+    if (endValue) {
+      if (isTimeOnly(endValue)) {
+        const startDate = time.format(startISO, 'YYYY-MM-DD', timeZone);
+        endISO = parseTimeOnly(startDate, endValue, 'MDY', timeZone);
+        // Time-only end at or before the start means the sleep crossed midnight
+        if (endISO && !time.parse(endISO).isAfter(time.parse(startISO))) {
+          endISO = time.parse(endISO).add(1, 'day').toISOString();
+        }
+      } else {
+        endISO = parseTimestamp(endValue, dateOrder, timeZone);
+      }
+      if (!endISO) {
+        skipped.push({ line, reason: `Unreadable end time "${endValue}"` });
+        continue;
+      }
+    } else {
+      const durationValue = cell(fields, durationCol);
+      const minutes = parseDurationMinutes(durationValue);
+      if (minutes === null) {
+        skipped.push({
+          line,
+          reason: durationValue ? `Unreadable duration "${durationValue}"` : 'Missing end time',
+        });
+        continue;
+      }
+      endISO = time.parse(startISO).add(Math.round(minutes), 'minute').toISOString();
+    }
+
+    const duration = time.durationMinutes(startISO, endISO);
+    if (duration <= 0) {
+      skipped.push({ line, reason: 'End time must be after start time' });
+      continue;
+    }
+    if (duration > MAX_SESSION_MINUTES) {
+      skipped.push({ line, reason: 'Sleep longer than 24 hours' });
+      continue;
+    }
+
+    const id = importId(startISO, endISO);
+    if (seenIds.has(id)) {
+      skipped.push({ line, reason: 'Repeated row' });
+      continue;
+    }
+    seenIds.add(id);
+
+    const notes = unescapeField(cell(fields, notesCol));
+    sessions.push({
+      id,
+      startISO,
+      endISO,
+      source: 'import',
+      updatedAtISO: nowISO,
+      ...(notes ? { notes } : {}),
+    });
+  }
+
+  sessions.sort((a, b) => time.parse(a.startISO).diff(time.parse(b.startISO)));
+
+  return { layout, dateOrder, sessions, skipped, ignoredActivities };
+}
+
+/**
+ * Compares imported sessions with the ones already logged. A session is a
+ * duplicate when an existing one has the same id, or starts and ends within
+ * a few minutes of it; an overlap when the two intersect otherwise.
+ */
+export function analyzeImport(
+  imported: SleepSession[],
+  existing: SleepSession[]
+): ImportPreviewItem[] {
+  const active = existing.filter((session) => !session.deleted);
+  const ids = new Set(active.map((session) => session.id));
+
+  return imported.map((session) => {
+    if (ids.has(session.id)) {
+      return { session, status: 'duplicate', conflictId: session.id };
+    }
+
+    const conflicts = findSessionConflicts(session, active);
+    const duplicate = conflicts.find((conflict) => conflict.kind === 'duplicate');
+    if (duplicate) {
+      return { session, status: 'duplicate', conflictId: duplicate.other.id };
+    }
+    if (conflicts.length > 0) {
+      return { session, status: 'overlap', conflictId: conflicts[0].other.id };
+    }
+
+    return { session, status: 'new' };
+  });
+}
+
+/**
+ * Sessions to write for an import. New sessions are added as they are;
+ * overlapping ones are skipped or resolved one by one against the history
+ * as it stands after the previous ones, so two imported naps merged into
+ * the same existing sleep both count. Duplicates are never imported.
+ */
+export function getImportChanges(
+  preview: ImportPreviewItem[],
+  existing: SleepSession[],
+  overlapResolution: ConflictResolution | 'skip',
+  nowISO: string = time.nowISO()
+): SleepSession[] {
+  const changes = new Map<string, SleepSession>();
+  let working = existing.filter((session) => !session.deleted);
+
+  const apply = (updated: SleepSession[]) => {
+    for (const session of updated) {
+      changes.set(session.id, session);
+      working = [...working.filter((other) => other.id !== session.id), session];
+    }
+  };
+
+  for (const item of preview) {
+    if (item.status === 'new') {
+      apply([item.session]);
+      continue;
+    }
+    if (item.status !== 'overlap' || overlapResolution === 'skip') {
+      continue;
+    }
+
+    const [conflict] = findSessionConflicts(item.session, working);
+    if (!conflict) {
+      apply([item.session]);
+    } else if (getResolutionOptions(conflict).includes(overlapResolution)) {
+      apply(resolveConflict(conflict, overlapResolution, nowISO).sessions);
+    }
+  }
+
+  return [...changes.values()];
+}
@@ -0,0 +1,135 @@
+import { DisruptionEpisode, DisruptionType, SleepSession } from '../types';
+import { DISRUPTION_CONFIG } from '../config/constants';
+import { time } from '../utils/time';
+
+export const DISRUPTION_TYPES: DisruptionType[] = [
+  'illness',
+  'teething',
+  'vaccination',
+  'travel',
+  'regression',
+];
+
+export const DISRUPTION_TYPE_LABELS: Record<DisruptionType, string> = {
+  illness: 'Illness',
+  teething: 'Teething',
+  vaccination: 'Vaccination',
+  travel: 'Travel',
+  regression: 'Regression',
+};
+
+export interface DisruptionInput {
+  type: DisruptionType;
+  startDayKey: string;
+  endDayKey: string;
+  notes?: string;
+}
+
+function generateDisruptionId(): string {
+  return `disruption_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Strict, so impossible days such as 2024-02-31 are refused rather than rolled over
+export function isValidDayKey(value: unknown): value is string {
+  return typeof value === 'string' && time.parseLocal(value, ['YYYY-MM-DD']) !== null;
+}
+
+export function validateDisruptionInput(
+  input: DisruptionInput
+): { isValid: boolean; error?: string } {
+  if (!(input.type in DISRUPTION_TYPE_LABELS)) {
+    return { isValid: false, error: 'Please choose what disrupted sleep' };
+  }
+  if (!isValidDayKey(input.startDayKey) || !isValidDayKey(input.endDayKey)) {
+    return { isValid: false, error: 'Invalid date' };
+  }
+  if (input.endDayKey < input.startDayKey) {
+    return { isValid: false, error: 'End date must be on or after the start date' };
+  }
+  if (getEpisodeDays(input) > DISRUPTION_CONFIG.maxEpisodeDays) {
+    return {
+      isValid: false,
+      error: `Episodes can last at most ${DISRUPTION_CONFIG.maxEpisodeDays} days`,
+    };
+  }
+  return { isValid: true };
+}
+
+export function createDisruption(
+  input: DisruptionInput,
+  nowISO: string,
+  createdBy?: string
+): DisruptionEpisode {
+  const notes = input.notes?.trim();
+  return {
+    id: generateDisruptionId(),
+    type: input.type,
+    startDayKey: input.startDayKey,
+    endDayKey: input.endDayKey,
+    ...(notes ? { notes } : {}),
+    updatedAtISO: nowISO,
+    ...(createdBy ? { createdBy } : {}),
+  };
+}
+
+// Number of days covered, counting both ends
+export function getEpisodeDays(
+  episode: Pick<DisruptionEpisode, 'startDayKey' | 'endDayKey'>
+): number {
+  return (
+    time
+      .parse(episode.endDayKey + 'T00:00:00')
+      .diff(time.parse(episode.startDayKey + 'T00:00:00'), 'day') + 1
+  );
+}
+
+export function sortDisruptions(episodes: DisruptionEpisode[]): DisruptionEpisode[] {
+  return [...episodes].sort((a, b) => a.startDayKey.localeCompare(b.startDayKey));
+}
+
+/**
+ * The episode covering a day, or null. Where episodes overlap the one that
+ * started last wins.
+ */
+export function getDisruptionForDay(
+  episodes: DisruptionEpisode[],
+  dayKey: string
+): DisruptionEpisode | null {
+  const covering = episodes.filter(
+    (episode) => episode.startDayKey <= dayKey && episode.endDayKey >= dayKey
+  );
+  return sortDisruptions(covering).pop() ?? null;
+}
+
+export function isDisruptedDay(episodes: DisruptionEpisode[], dayKey: string): boolean {
+  return getDisruptionForDay(episodes, dayKey) !== null;
+}
+
+// A session belongs to the day it started on, so a night is judged by its evening
+export function isDisruptedSession(episodes: DisruptionEpisode[], session: SleepSession): boolean {
+  return isDisruptedDay(episodes, time.dayKey(session.startISO));
+}
+
+/**
+ * Identifies a set of episodes, so learned values can tell whether they were
+ * worked out with the same days left out. Empty when there are none.
+ */
+export function getDisruptionsKey(episodes: DisruptionEpisode[]): string {
+  return episodes
+    .map((episode) => `${episode.id}:${episode.startDayKey}:${episode.endDayKey}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * "Teething · Jun 3" or "Illness · Jun 3 – Jun 6".
+ */
+export function describeDisruption(episode: DisruptionEpisode): string {
+  const label = DISRUPTION_TYPE_LABELS[episode.type];
+  const start = time.parse(episode.startDayKey + 'T00:00:00').format('MMM D');
+  if (episode.startDayKey === episode.endDayKey) {
+    return `${label} · ${start}`;
+  }
+  const end = time.parse(episode.endDayKey + 'T00:00:00').format('MMM D');
+  return `${label} · ${start} – ${end}`;
+}
@@ -0,0 +1,126 @@
+import { FeedingSession, FeedingType, SleepSession } from '../types';
+import { FEEDING_CONFIG } from '../config/constants';
+import { time } from '../utils/time';
+
+export const FEEDING_TYPES: FeedingType[] = ['breastLeft', 'breastRight', 'bottle', 'solids'];
+
+export const FEEDING_TYPE_LABELS: Record<FeedingType, string> = {
+  breastLeft: 'Left',
+  breastRight: 'Right',
+  bottle: 'Bottle',
+  solids: 'Solids',
+};
+
+// Feed ending at endISO; breast feeds give a duration, bottles a volume
+export interface FeedingInput {
+  type: FeedingType;
+  endISO: string;
+  durationMin?: number;
+  volumeMl?: number;
+  notes?: string;
+}
+
+// Time from the end of the last feed before a sleep to the sleep itself
+export interface FeedToSleepInterval {
+  sessionId: string;
+  feedingId: string;
+  intervalMin: number;
+}
+
+function generateFeedingId(): string {
+  return `feeding_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function isBreastFeed(type: FeedingType): boolean {
+  return type === 'breastLeft' || type === 'breastRight';
+}
+
+export function validateFeedingInput(input: FeedingInput): { isValid: boolean; error?: string } {
+  if (!(input.type in FEEDING_TYPE_LABELS)) {
+    return { isValid: false, error: 'Please choose a feed type' };
+  }
+  if (isBreastFeed(input.type)) {
+    const durationMin = input.durationMin ?? 0;
+    if (!(durationMin > 0) || durationMin > FEEDING_CONFIG.maxBreastFeedMin) {
+      return {
+        isValid: false,
+        error: `Feed length must be 1-${FEEDING_CONFIG.maxBreastFeedMin} minutes`,
+      };
+    }
+  }
+  if (input.type === 'bottle') {
+    const volumeMl = input.volumeMl ?? 0;
+    if (!(volumeMl > 0) || volumeMl > FEEDING_CONFIG.maxBottleMl) {
+      return { isValid: false, error: `Volume must be 1-${FEEDING_CONFIG.maxBottleMl} ml` };
+    }
+  }
+  return { isValid: true };
+}
+
+export function createFeeding(
+  input: FeedingInput,
+  nowISO: string,
+  createdBy?: string
+): FeedingSession {
+  const durationMin = isBreastFeed(input.type) ? input.durationMin ?? 0 : 0;
+  const notes = input.notes?.trim();
+  return {
+    id: generateFeedingId(),
+    type: input.type,
+    startISO: time.parse(input.endISO).subtract(durationMin, 'minute').toISOString(),
+    endISO: input.endISO,
+    ...(input.type === 'bottle' ? { volumeMl: input.volumeMl } : {}),
+    ...(notes ? { notes } : {}),
+    updatedAtISO: nowISO,
+    ...(createdBy ? { createdBy } : {}),
+  };
+}
+
+/**
+ * "Left · 12m", "Bottle · 120 ml" or just "Solids".
+ */
+export function describeFeeding(feeding: FeedingSession): string {
+  const label = FEEDING_TYPE_LABELS[feeding.type];
+  if (feeding.type === 'bottle' && feeding.volumeMl) {
+    return `${label} · ${feeding.volumeMl} ml`;
+  }
+  const durationMin = time.durationMinutes(feeding.startISO, feeding.endISO);
+  return durationMin > 0 ? `${label} · ${Math.round(durationMin)}m` : label;
+}
+
+export function sortFeedings(feedings: FeedingSession[]): FeedingSession[] {
+  return [...feedings].sort((a, b) => Date.parse(a.startISO) - Date.parse(b.startISO));
+}
+
+/**
+ * For each sleep, the last feed that started before it, and how long after
+ * that feed ended the sleep began. A feed still going when the baby fell
+ * asleep counts as 0 minutes. Sleeps with no feed in the preceding
+ * maxFeedToSleepMin are left out.
+ */
+export function getFeedToSleepIntervals(
+  feedings: FeedingSession[],
+  sessions: SleepSession[],
+  maxIntervalMin: number = FEEDING_CONFIG.maxFeedToSleepMin
+): FeedToSleepInterval[] {
+  const sorted = sortFeedings(feedings);
+  const intervals: FeedToSleepInterval[] = [];
+
+  for (const session of sessions) {
+    if (session.deleted) {
+      continue;
+    }
+    const sleepMs = Date.parse(session.startISO);
+    const lastFeed = sorted.filter((feeding) => Date.parse(feeding.startISO) <= sleepMs).pop();
+    if (!lastFeed) {
+      continue;
+    }
+
+    const intervalMin = Math.max(0, (sleepMs - Date.parse(lastFeed.endISO)) / 60000);
+    if (intervalMin <= maxIntervalMin) {
+      intervals.push({ sessionId: session.id, feedingId: lastFeed.id, intervalMin });
+    }
+  }
+
+  return intervals;
+}
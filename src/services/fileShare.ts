@@ -0,0 +1,41 @@
+import { Share, Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+
+/**
+ * Writes `contents` to a file in the cache directory and opens the share sheet.
+ * iOS shares the file itself; Android's built-in share sheet only takes text,
+ * so the contents are shared as the message there.
+ */
+export async function shareTextFile(
+  fileName: string,
+  contents: string,
+  title: string
+): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(contents);
+
+  const content =
+    Platform.OS === 'ios' ? { title, url: file.uri } : { title, message: contents };
+  await Share.share(content, { subject: title });
+}
+
+/**
+ * Lets the user pick a file and returns its text, or null if they cancel.
+ */
+export async function pickTextFile(
+  mimeTypes: string[]
+): Promise<{ name: string; contents: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const contents = await new File(asset.uri).text();
+  return { name: asset.name, contents };
+}
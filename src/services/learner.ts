@@ -1,8 +1,8 @@
-import { SleepSession, LearnerState, BabyProfile } from '../types';
+import { SleepSession, LearnerState, BabyProfile, DisruptionEpisode } from '../types';
 import { time } from '../utils/time';
 import {
   getBaselineForBaby,
-  calculateAgeMonths,
+  getAgeForBaby,
   clampWakeWindow,
   clampNapLength,
 } from '../utils/ageBaseline';
@@ -11,7 +11,11 @@ import {
   MIN_SESSIONS_FOR_LEARNING,
   MAX_SESSION_AGE_DAYS,
   CONFIDENCE_PARAMS,
+  ONSET_LATENCY_CONFIG,
 } from '../config/constants';
+import { isNapSession, isNightSession } from './sessionClassification';
+import { isMotionSleep } from './sleepTags';
+import { isDisruptedDay, isDisruptedSession, getDisruptionsKey } from './disruptions';
 
 interface WakeWindow {
   durationMin: number;
@@ -26,9 +30,90 @@ interface NapInfo {
   quality?: number;
 }
 
+interface OnsetLatency {
+  durationMin: number;
+  startISO: string;
+}
+
+// Average time to fall asleep over recent days and the days before them
+export interface OnsetLatencyTrend {
+  recentAvgMin: number;
+  recentCount: number;
+  previousAvgMin: number;
+  previousCount: number;
+}
+
+/**
+ * Minutes from put-down to asleep, or null when no put-down time was logged
+ * or the gap is too long to be real.
+ */
+export function getOnsetLatencyMin(session: SleepSession): number | null {
+  if (!session.putDownISO) {
+    return null;
+  }
+  const latencyMin = time.durationMinutes(session.putDownISO, session.startISO);
+  return latencyMin >= 0 && latencyMin <= ONSET_LATENCY_CONFIG.maxOnsetLatencyMin
+    ? latencyMin
+    : null;
+}
+
+function extractOnsetLatencies(sessions: SleepSession[]): OnsetLatency[] {
+  const latencies: OnsetLatency[] = [];
+  for (const session of sessions) {
+    const durationMin = getOnsetLatencyMin(session);
+    if (durationMin !== null) {
+      latencies.push({ durationMin, startISO: session.startISO });
+    }
+  }
+  return latencies;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Compares time to fall asleep over the last few days with the days before.
+ * Null until both periods have enough put-down times logged.
+ */
+export function getOnsetLatencyTrend(
+  sessions: SleepSession[],
+  nowISO: string = time.nowISO()
+): OnsetLatencyTrend | null {
+  const now = time.parse(nowISO);
+  const recent: number[] = [];
+  const previous: number[] = [];
+
+  for (const latency of extractOnsetLatencies(sessions.filter((s) => !s.deleted))) {
+    const daysAgo = now.diff(time.parse(latency.startISO), 'day', true);
+    if (daysAgo < 0) {
+      continue;
+    }
+    if (daysAgo <= ONSET_LATENCY_CONFIG.recentDays) {
+      recent.push(latency.durationMin);
+    } else if (daysAgo <= ONSET_LATENCY_CONFIG.previousDays) {
+      previous.push(latency.durationMin);
+    }
+  }
+
+  if (
+    recent.length < ONSET_LATENCY_CONFIG.minSamples ||
+    previous.length < ONSET_LATENCY_CONFIG.minSamples
+  ) {
+    return null;
+  }
+
+  return {
+    recentAvgMin: average(recent),
+    recentCount: recent.length,
+    previousAvgMin: average(previous),
+    previousCount: previous.length,
+  };
+}
+
 function extractWakeWindows(
   sessions: SleepSession[],
-  birthDateISO: string
+  babyProfile: BabyProfile
 ): WakeWindow[] {
   const wakeWindows: WakeWindow[] = [];
   
@@ -40,14 +125,20 @@ function extractWakeWindows(
     const prevSession = sortedSessions[i - 1];
     const currentSession = sortedSessions[i];
 
+    // A gap between two stretches of night sleep is a night waking
+    if (isNightSession(prevSession) && isNightSession(currentSession)) {
+      continue;
+    }
+
     const wakeWindowMin = time.durationMinutes(
       prevSession.endISO,
       currentSession.startISO
     );
 
     if (wakeWindowMin >= 15 && wakeWindowMin <= 480) {
-      const ageMonths = calculateAgeMonths(
-        birthDateISO,
+      const { ageMonths } = getAgeForBaby(
+        babyProfile.birthDateISO,
+        babyProfile.dueDateISO,
         currentSession.startISO
       );
 
@@ -64,19 +155,20 @@ function extractWakeWindows(
 
 function extractNaps(
   sessions: SleepSession[],
-  birthDateISO: string
+  babyProfile: BabyProfile
 ): NapInfo[] {
   const naps: NapInfo[] = [];
 
   for (const session of sessions) {
-    const start = time.parse(session.startISO);
     const durationMin = time.durationMinutes(session.startISO, session.endISO);
 
-    const hour = start.hour();
-    const isDaytime = hour >= 6 && hour < 20;
-
-    if (durationMin < 240 && isDaytime) {
-      const ageMonths = calculateAgeMonths(birthDateISO, session.startISO);
+    // Motion keeps naps going, so they can be left out of the learned length
+    if (isNapSession(session) && !(babyProfile.excludeMotionNaps && isMotionSleep(session))) {
+      const { ageMonths } = getAgeForBaby(
+        babyProfile.birthDateISO,
+        babyProfile.dueDateISO,
+        session.startISO
+      );
 
       naps.push({
         durationMin,
@@ -182,18 +274,29 @@ function calculateConfidence(
   return Math.min(1, Math.max(0.1, confidence));
 }
 
+/**
+ * Learns wake window, nap length and time to fall asleep from recent
+ * sessions. Sessions on days covered by a disruption episode are left out;
+ * when every recent one is, the previous values are kept as they were.
+ * Previous values learned with a different set of episodes are not built on,
+ * since they still carry days that are now marked (or no longer marked).
+ */
 export function updateLearner(
   sessions: SleepSession[],
   babyProfile: BabyProfile,
-  previousState: LearnerState | null
+  previousState: LearnerState | null,
+  disruptions: DisruptionEpisode[] = []
 ): LearnerState {
  
   const activeSessions = sessions.filter((s) => !s.deleted);
 
   if (activeSessions.length < MIN_SESSIONS_FOR_LEARNING) {
   
-    const baseline = getBaselineForBaby(babyProfile.birthDateISO);
-    const ageMonths = calculateAgeMonths(babyProfile.birthDateISO);
+    const baseline = getBaselineForBaby(
+      babyProfile.birthDateISO,
+      undefined,
+      babyProfile.dueDateISO
+    );
 
     return {
       version: 1,
@@ -204,14 +307,30 @@ export function updateLearner(
     };
   }
 
-  const wakeWindows = extractWakeWindows(activeSessions, babyProfile.birthDateISO);
-  const naps = extractNaps(activeSessions, babyProfile.birthDateISO);
-
-  const baseline = getBaselineForBaby(babyProfile.birthDateISO);
-  const ageMonths = calculateAgeMonths(babyProfile.birthDateISO);
+  // Wake windows are found before dropping disrupted days so that no window
+  // spans an episode; the ones ending inside it are dropped afterwards
+  const disruptionsKey = getDisruptionsKey(disruptions);
+  const seedState =
+    previousState && (previousState.disruptionsKey ?? '') === disruptionsKey ? previousState : null;
+  const allWakeWindows = extractWakeWindows(activeSessions, babyProfile);
+  const wakeWindows = allWakeWindows.filter(
+    (w) => !isDisruptedDay(disruptions, time.dayKey(w.endISO))
+  );
+  const learnedSessions = activeSessions.filter((s) => !isDisruptedSession(disruptions, s));
+  const allNaps = extractNaps(activeSessions, babyProfile);
+  const naps = extractNaps(learnedSessions, babyProfile);
+
+  const baseline = getBaselineForBaby(
+    babyProfile.birthDateISO,
+    undefined,
+    babyProfile.dueDateISO
+  );
+  const { ageMonths } = getAgeForBaby(babyProfile.birthDateISO, babyProfile.dueDateISO);
 
   let ewmaWakeWindow: number;
-  if (wakeWindows.length === 0) {
+  if (wakeWindows.length === 0 && allWakeWindows.length > 0 && seedState) {
+    ewmaWakeWindow = seedState.ewmaWakeWindowMin;
+  } else if (wakeWindows.length === 0) {
     ewmaWakeWindow = baseline.typicalWakeWindowMin;
   } else {
     const sortedWindows = [...wakeWindows].sort((a, b) =>
@@ -231,14 +350,16 @@ export function updateLearner(
     );
 
     const previousWakeWindow =
-      previousState?.ewmaWakeWindowMin ?? baseline.typicalWakeWindowMin;
+      seedState?.ewmaWakeWindowMin ?? baseline.typicalWakeWindowMin;
     ewmaWakeWindow = calculateEWMA(windowDurations, previousWakeWindow, recencyWeights);
 
     ewmaWakeWindow = clampWakeWindow(ewmaWakeWindow, ageMonths);
   }
 
   let ewmaNapLength: number;
-  if (naps.length === 0) {
+  if (naps.length === 0 && allNaps.length > 0 && seedState) {
+    ewmaNapLength = seedState.ewmaNapLengthMin;
+  } else if (naps.length === 0) {
     ewmaNapLength = baseline.typicalNapLengthMin;
   } else {
     const sortedNaps = [...naps].sort((a, b) =>
@@ -258,7 +379,7 @@ export function updateLearner(
     );
 
     const previousNapLength =
-      previousState?.ewmaNapLengthMin ?? baseline.typicalNapLengthMin;
+      seedState?.ewmaNapLengthMin ?? baseline.typicalNapLengthMin;
     ewmaNapLength = calculateEWMA(napDurations, previousNapLength, recencyWeights);
 
     ewmaNapLength = clampNapLength(ewmaNapLength, ageMonths);
@@ -271,13 +392,32 @@ export function updateLearner(
     ewmaNapLength
   );
 
-  return {
+  const recentLatencies = extractOnsetLatencies(learnedSessions).filter(
+    (l) => time.now().diff(time.parse(l.startISO), 'day') <= 14
+  );
+  const ewmaOnsetLatency =
+    recentLatencies.length > 0
+      ? calculateEWMA(
+          recentLatencies.map((l) => l.durationMin),
+          seedState?.ewmaOnsetLatencyMin ?? null,
+          recentLatencies.map((l) => calculateRecencyWeight(l.startISO))
+        )
+      : seedState?.ewmaOnsetLatencyMin;
+
+  const state: LearnerState = {
     version: 1,
     ewmaNapLengthMin: ewmaNapLength,
     ewmaWakeWindowMin: ewmaWakeWindow,
     lastUpdatedISO: time.nowISO(),
     confidence,
   };
+  if (ewmaOnsetLatency !== undefined) {
+    state.ewmaOnsetLatencyMin = ewmaOnsetLatency;
+  }
+  if (disruptionsKey) {
+    state.disruptionsKey = disruptionsKey;
+  }
+  return state;
 }
 
 export function getLearnedWakeWindow(
@@ -288,7 +428,11 @@ export function getLearnedWakeWindow(
     return learnerState.ewmaWakeWindowMin;
   }
 
-  const baseline = getBaselineForBaby(babyProfile.birthDateISO);
+  const baseline = getBaselineForBaby(
+    babyProfile.birthDateISO,
+    undefined,
+    babyProfile.dueDateISO
+  );
   return baseline.typicalWakeWindowMin;
 }
 
@@ -300,7 +444,11 @@ export function getLearnedNapLength(
     return learnerState.ewmaNapLengthMin;
   }
 
-  const baseline = getBaselineForBaby(babyProfile.birthDateISO);
+  const baseline = getBaselineForBaby(
+    babyProfile.birthDateISO,
+    undefined,
+    babyProfile.dueDateISO
+  );
   return baseline.typicalNapLengthMin;
 }
 
@@ -0,0 +1,130 @@
+import { SleepSession, NightWaking, NightWakingReason } from '../types';
+import { time } from '../utils/time';
+
+export const NIGHT_WAKING_REASONS: NightWakingReason[] = ['feed', 'comfort', 'unknown'];
+
+export const NIGHT_WAKING_REASON_LABELS: Record<NightWakingReason, string> = {
+  feed: 'Feed',
+  comfort: 'Comfort',
+  unknown: 'Unknown',
+};
+
+export interface SleepStretch {
+  startISO: string;
+  endISO: string;
+  durationMin: number;
+}
+
+function toMs(iso: string): number {
+  return time.parse(iso).valueOf();
+}
+
+export function sortWakings(wakings: NightWaking[]): NightWaking[] {
+  return [...wakings].sort((a, b) => toMs(a.startISO) - toMs(b.startISO));
+}
+
+/**
+ * Wakings cut to fit a session that was shortened or stretched. Wakings
+ * outside the range are dropped and overlapping ones joined, keeping the
+ * reason of the first.
+ */
+export function clipWakings(
+  wakings: NightWaking[],
+  startISO: string,
+  endISO: string
+): NightWaking[] {
+  const startMs = toMs(startISO);
+  const endMs = toMs(endISO);
+  const clipped: NightWaking[] = [];
+  for (const waking of sortWakings(wakings)) {
+    const wakingStartMs = Math.max(toMs(waking.startISO), startMs);
+    const wakingEndMs = Math.min(toMs(waking.endISO), endMs);
+    if (wakingEndMs <= wakingStartMs) {
+      continue;
+    }
+    const last = clipped[clipped.length - 1];
+    if (last && wakingStartMs < toMs(last.endISO)) {
+      if (wakingEndMs > toMs(last.endISO)) {
+        last.endISO = new Date(wakingEndMs).toISOString();
+      }
+      continue;
+    }
+    clipped.push({
+      ...waking,
+      startISO: new Date(wakingStartMs).toISOString(),
+      endISO: new Date(wakingEndMs).toISOString(),
+    });
+  }
+  return clipped;
+}
+
+/**
+ * Why the wakings do not fit the session, or null if they do. Wakings must
+ * be in order, not overlap and fall inside the session.
+ */
+export function getWakingsError(
+  startISO: string,
+  endISO: string,
+  wakings: NightWaking[]
+): string | null {
+  let previousEndMs = toMs(startISO);
+  for (const waking of wakings) {
+    if (toMs(waking.endISO) <= toMs(waking.startISO)) {
+      return 'Each waking must end after it starts';
+    }
+    if (toMs(waking.startISO) < previousEndMs) {
+      return toMs(waking.startISO) < toMs(startISO)
+        ? 'Wakings must be inside the session'
+        : 'Wakings cannot overlap';
+    }
+    previousEndMs = toMs(waking.endISO);
+  }
+  return previousEndMs > toMs(endISO) ? 'Wakings must be inside the session' : null;
+}
+
+export function getAwakeMinutes(session: SleepSession): number {
+  return (session.wakings ?? []).reduce(
+    (sum, waking) => sum + time.durationMinutes(waking.startISO, waking.endISO),
+    0
+  );
+}
+
+// Time in bed minus the time spent awake during the session
+export function getSleepMinutes(session: SleepSession): number {
+  return time.durationMinutes(session.startISO, session.endISO) - getAwakeMinutes(session);
+}
+
+/**
+ * The stretches of unbroken sleep between a session's wakings, in order.
+ */
+export function getSleepStretches(session: SleepSession): SleepStretch[] {
+  const stretches: SleepStretch[] = [];
+  let startISO = session.startISO;
+  for (const waking of sortWakings(session.wakings ?? [])) {
+    stretches.push({
+      startISO,
+      endISO: waking.startISO,
+      durationMin: time.durationMinutes(startISO, waking.startISO),
+    });
+    startISO = waking.endISO;
+  }
+  stretches.push({
+    startISO,
+    endISO: session.endISO,
+    durationMin: time.durationMinutes(startISO, session.endISO),
+  });
+  return stretches.filter((stretch) => stretch.durationMin > 0);
+}
+
+/**
+ * Longest unbroken sleep across the sessions, or null if there is none.
+ */
+export function getLongestStretch(sessions: SleepSession[]): SleepStretch | null {
+  return sessions
+    .flatMap(getSleepStretches)
+    .reduce<SleepStretch | null>(
+      (longest, stretch) =>
+        !longest || stretch.durationMin > longest.durationMin ? stretch : longest,
+      null
+    );
+}
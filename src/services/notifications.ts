@@ -1,9 +1,10 @@
 
-import { ScheduleBlock } from '../types';
+import { ScheduleBlock, BabyProfile } from '../types';
 import { time } from '../utils/time';
 import {
   loadNotificationHistory,
   saveNotificationHistory,
+  loadBabyProfiles,
   NotificationHistoryItem,
 } from '../storage/sleepStorage';
 
@@ -54,43 +55,47 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 }
 
 
-function getNotificationMessage(block: ScheduleBlock): { title: string; body: string } {
+function getNotificationMessage(
+  block: ScheduleBlock,
+  babyName: string
+): { title: string; body: string } {
   const blockTime = time.parse(block.startISO);
   const timeStr = blockTime.format('h:mm A');
 
   switch (block.kind) {
     case 'windDown':
       return {
-        title: '🌙 Wind-Down Time',
-        body: `Start wind-down routine at ${timeStr}. Time to prepare for sleep.`,
+        title: `🌙 Wind-Down Time · ${babyName}`,
+        body: `Start ${babyName}'s wind-down routine at ${timeStr}. Time to prepare for sleep.`,
       };
     case 'nap':
       return {
-        title: '💤 Nap Time',
-        body: `Nap time at ${timeStr}. Your baby should be ready for sleep.`,
+        title: `💤 Nap Time · ${babyName}`,
+        body: `Nap time for ${babyName} at ${timeStr}. ${babyName} should be ready for sleep.`,
       };
     case 'bedtime':
       return {
-        title: '🌙 Bedtime',
-        body: `Bedtime at ${timeStr}. Start your bedtime routine now.`,
+        title: `🌙 Bedtime · ${babyName}`,
+        body: `Bedtime for ${babyName} at ${timeStr}. Start the bedtime routine now.`,
       };
     default:
       return {
-        title: 'Sleep Reminder',
-        body: `Scheduled sleep time at ${timeStr}.`,
+        title: `Sleep Reminder · ${babyName}`,
+        body: `Scheduled sleep time for ${babyName} at ${timeStr}.`,
       };
   }
 }
 
 
 export async function scheduleNotificationForBlock(
-  block: ScheduleBlock
+  block: ScheduleBlock,
+  babyProfile: BabyProfile
 ): Promise<string | null> {
   try {
     setupNotificationHandler(); 
     const hasPermission = await requestNotificationPermissions();
     if (!hasPermission) {
-      await saveNotificationToHistory(block, null, 'canceled');
+      await saveNotificationToHistory(block, babyProfile, null, 'canceled');
       return null;
     }
 
@@ -98,17 +103,17 @@ export async function scheduleNotificationForBlock(
     const now = time.now();
 
     if (blockTime.isBefore(now)) {
-      await saveNotificationToHistory(block, null, 'sent', blockTime.toISOString());
+      await saveNotificationToHistory(block, babyProfile, null, 'sent', blockTime.toISOString());
       return null;
     }
 
-    const { title, body } = getNotificationMessage(block);
+    const { title, body } = getNotificationMessage(block, babyProfile.name);
 
     const triggerDate = blockTime.toDate();
     const nowDate = new Date();
 
     if (triggerDate <= nowDate) {
-      await saveNotificationToHistory(block, null, 'canceled');
+      await saveNotificationToHistory(block, babyProfile, null, 'canceled');
       return null;
     }
 
@@ -119,6 +124,7 @@ export async function scheduleNotificationForBlock(
         data: {
           scheduleBlockId: block.id,
           kind: block.kind,
+          babyId: babyProfile.id,
         },
         sound: true,
       },
@@ -128,11 +134,11 @@ export async function scheduleNotificationForBlock(
       } as any, 
     });
 
-    await saveNotificationToHistory(block, notificationId, 'scheduled');
+    await saveNotificationToHistory(block, babyProfile, notificationId, 'scheduled');
     return notificationId;
   } catch (error) {
     console.error('Error scheduling notification:', error);
-    await saveNotificationToHistory(block, null, 'canceled');
+    await saveNotificationToHistory(block, babyProfile, null, 'canceled');
     return null;
   }
 }
@@ -140,15 +146,16 @@ export async function scheduleNotificationForBlock(
 
 async function saveNotificationToHistory(
   block: ScheduleBlock,
+  babyProfile: BabyProfile,
   notificationId: string | null,
   status: 'scheduled' | 'canceled' | 'sent',
   sentAtISO?: string
 ): Promise<void> {
   try {
-    const historyResult = await loadNotificationHistory();
+    const historyResult = await loadNotificationHistory(babyProfile.id);
     const history = historyResult.value;
 
-    const { title, body } = getNotificationMessage(block);
+    const { title, body } = getNotificationMessage(block, babyProfile.name);
 
     const historyItem: NotificationHistoryItem = {
       id: `hist_${block.id}_${Date.now()}`,
@@ -166,38 +173,48 @@ async function saveNotificationToHistory(
 
     history.push(historyItem);
     const trimmedHistory = history.slice(-100);
-    await saveNotificationHistory(trimmedHistory);
+    await saveNotificationHistory(babyProfile.id, trimmedHistory);
   } catch (error) {
     console.error('Error saving notification history:', error);
   }
 }
 
-export async function cancelNotification(notificationId: string): Promise<void> {
+export async function cancelNotification(notificationId: string, babyId: string): Promise<void> {
   try {
     await Notifications.cancelScheduledNotificationAsync(notificationId);
     
-    const historyResult = await loadNotificationHistory();
+    const historyResult = await loadNotificationHistory(babyId);
     const history = historyResult.value;
     const item = history.find((h) => h.notificationId === notificationId);
     if (item && item.status === 'scheduled') {
       item.status = 'canceled';
       item.canceledAtISO = time.nowISO();
-      await saveNotificationHistory(history);
+      await saveNotificationHistory(babyId, history);
     }
   } catch (error) {
     console.error('Error canceling notification:', error);
   }
 }
 
-export async function cancelAllNotifications(): Promise<void> {
+/**
+ * Cancels only the given child's pending reminders, leaving siblings' untouched.
+ * Reminders are found by the babyId they carry rather than from the history,
+ * which is trimmed and may no longer list older ones.
+ */
+export async function cancelNotificationsForBaby(babyId: string): Promise<void> {
   try {
-    await Notifications.cancelAllScheduledNotificationsAsync();
-    
-    const historyResult = await loadNotificationHistory();
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const notification of scheduled) {
+      if (getNotificationBabyId(notification) === babyId) {
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+      }
+    }
+
+    const historyResult = await loadNotificationHistory(babyId);
     const history = historyResult.value;
     const now = time.nowISO();
     let updated = false;
-    
+
     for (const item of history) {
       if (item.status === 'scheduled') {
         item.status = 'canceled';
@@ -205,9 +222,38 @@ export async function cancelAllNotifications(): Promise<void> {
         updated = true;
       }
     }
-    
+
     if (updated) {
-      await saveNotificationHistory(history);
+      await saveNotificationHistory(babyId, history);
+    }
+  } catch (error) {
+    console.error('Error canceling notifications for baby:', error);
+  }
+}
+
+export async function cancelAllNotifications(): Promise<void> {
+  try {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    
+    const profilesResult = await loadBabyProfiles();
+    const now = time.nowISO();
+
+    for (const profile of profilesResult.value) {
+      const historyResult = await loadNotificationHistory(profile.id);
+      const history = historyResult.value;
+      let updated = false;
+
+      for (const item of history) {
+        if (item.status === 'scheduled') {
+          item.status = 'canceled';
+          item.canceledAtISO = now;
+          updated = true;
+        }
+      }
+
+      if (updated) {
+        await saveNotificationHistory(profile.id, history);
+      }
     }
   } catch (error) {
     console.error('Error canceling all notifications:', error);
@@ -215,14 +261,15 @@ export async function cancelAllNotifications(): Promise<void> {
 }
 
 export async function scheduleNotificationsForBlocks(
-  blocks: ScheduleBlock[]
+  blocks: ScheduleBlock[],
+  babyProfile: BabyProfile
 ): Promise<Map<string, string>> {
-  await cancelAllNotifications();
+  await cancelNotificationsForBaby(babyProfile.id);
 
   const notificationMap = new Map<string, string>();
 
   for (const block of blocks) {
-    const notificationId = await scheduleNotificationForBlock(block);
+    const notificationId = await scheduleNotificationForBlock(block, babyProfile);
     if (notificationId) {
       notificationMap.set(block.id, notificationId);
     }
@@ -241,9 +288,9 @@ export async function getAllScheduledNotifications(): Promise<
   }
 }
 
-export async function getNotificationHistory(): Promise<NotificationHistoryItem[]> {
+export async function getNotificationHistory(babyId: string): Promise<NotificationHistoryItem[]> {
   try {
-    const historyResult = await loadNotificationHistory();
+    const historyResult = await loadNotificationHistory(babyId);
     return historyResult.value;
   } catch (error) {
     console.error('Error getting notification history:', error);
@@ -251,15 +298,18 @@ export async function getNotificationHistory(): Promise<NotificationHistoryItem[
   }
 }
 
-export async function markNotificationAsSent(notificationId: string): Promise<void> {
+export async function markNotificationAsSent(
+  notificationId: string,
+  babyId: string
+): Promise<void> {
   try {
-    const historyResult = await loadNotificationHistory();
+    const historyResult = await loadNotificationHistory(babyId);
     const history = historyResult.value;
     const item = history.find((h) => h.notificationId === notificationId);
     if (item && item.status === 'scheduled') {
       item.status = 'sent';
       item.sentAtISO = time.nowISO();
-      await saveNotificationHistory(history);
+      await saveNotificationHistory(babyId, history);
     }
   } catch (error) {
     console.error('Error marking notification as sent:', error);
@@ -323,3 +373,9 @@ export function getScheduleBlockId(
   return data?.scheduleBlockId || null;
 }
 
+export function getNotificationBabyId(
+  notification: import('expo-notifications').NotificationRequest
+): string | null {
+  const data = notification.content.data as any;
+  return data?.babyId || null;
+}
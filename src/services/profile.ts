@@ -0,0 +1,86 @@
+import { BabyProfile } from '../types';
+import { time } from '../utils/time';
+
+export interface ProfileInput {
+  name: string;
+  birthDateISO: string;
+  // Set only for babies born before their due date
+  dueDateISO?: string;
+  excludeMotionNaps?: boolean;
+}
+
+function generateProfileId(): string {
+  return `baby_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Validates profile input before it is persisted.
+ * The learner and baseline tables cannot handle future or unparseable birth dates.
+ */
+export function validateProfileInput(input: ProfileInput): { isValid: boolean; error?: string } {
+  if (!input.name.trim()) {
+    return { isValid: false, error: 'Please enter a name' };
+  }
+
+  const birthDate = time.parse(input.birthDateISO);
+  if (!birthDate.isValid()) {
+    return { isValid: false, error: 'Invalid birth date' };
+  }
+
+  if (birthDate.isAfter(time.now())) {
+    return { isValid: false, error: 'Birth date cannot be in the future' };
+  }
+
+  if (input.dueDateISO) {
+    const dueDate = time.parse(input.dueDateISO);
+    if (!dueDate.isValid()) {
+      return { isValid: false, error: 'Invalid due date' };
+    }
+
+    if (!dueDate.isAfter(birthDate, 'day')) {
+      return { isValid: false, error: 'Due date must be after the birth date' };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Profile to show on launch: the one last selected, or the first one when
+ * that profile no longer exists.
+ */
+export function resolveActiveProfile(
+  profiles: BabyProfile[],
+  storedActiveId: string | null
+): BabyProfile | null {
+  return profiles.find((p) => p.id === storedActiveId) || profiles[0] || null;
+}
+
+function normalizeDueDate(dueDateISO?: string): string | undefined {
+  return dueDateISO ? time.parse(dueDateISO).toISOString() : undefined;
+}
+
+export function createBabyProfile(input: ProfileInput): BabyProfile {
+  return {
+    id: generateProfileId(),
+    name: input.name.trim(),
+    birthDateISO: time.parse(input.birthDateISO).toISOString(),
+    dueDateISO: normalizeDueDate(input.dueDateISO),
+    ...(input.excludeMotionNaps ? { excludeMotionNaps: true } : {}),
+  };
+}
+
+/**
+ * Applies edited fields to an existing profile.
+ * Omitting dueDateISO clears it, switching the learner back to chronological age.
+ */
+export function applyProfileInput(profile: BabyProfile, input: ProfileInput): BabyProfile {
+  const { excludeMotionNaps, ...rest } = profile;
+  return {
+    ...rest,
+    name: input.name.trim(),
+    birthDateISO: time.parse(input.birthDateISO).toISOString(),
+    dueDateISO: normalizeDueDate(input.dueDateISO),
+    ...(input.excludeMotionNaps ? { excludeMotionNaps: true } : {}),
+  };
+}
@@ -5,6 +5,7 @@ import {
   getLearnedNapLength,
 } from './learner';
 import { SCHEDULE_CONFIG } from '../config/constants';
+import { getAgeForBaby } from '../utils/ageBaseline';
 
 export interface ScheduleOptions {
   wakeWindowAdjustmentMin?: number;
@@ -36,27 +37,32 @@ function generateRationale(
   learnerState: LearnerState | null,
   wakeWindowMin: number,
   napLengthMin: number,
-  isWhatIf: boolean
+  isWhatIf: boolean,
+  correctedAgeMonths: number | null = null
 ): string {
   const confidence = learnerState?.confidence ?? 0;
   const confidenceLevel = confidence > 0.7 ? 'high' : confidence > 0.4 ? 'moderate' : 'low';
+  const correctedAgeNote =
+    correctedAgeMonths !== null
+      ? ` · using corrected age (${correctedAgeMonths.toFixed(1)} months)`
+      : '';
 
   if (isWhatIf) {
-    return `What-if scenario: ${Math.round(wakeWindowMin)}min wake window`;
+    return `What-if scenario: ${Math.round(wakeWindowMin)}min wake window${correctedAgeNote}`;
   }
 
   switch (kind) {
     case 'nap':
       if (learnerState && confidence > 0.2) {
-        return `Based on learned pattern (${confidenceLevel} confidence): ${Math.round(wakeWindowMin)}min wake window, ${Math.round(napLengthMin)}min nap`;
+        return `Based on learned pattern (${confidenceLevel} confidence): ${Math.round(wakeWindowMin)}min wake window, ${Math.round(napLengthMin)}min nap${correctedAgeNote}`;
       }
-      return `Based on age baseline: ${Math.round(wakeWindowMin)}min wake window, ${Math.round(napLengthMin)}min nap`;
+      return `Based on age baseline: ${Math.round(wakeWindowMin)}min wake window, ${Math.round(napLengthMin)}min nap${correctedAgeNote}`;
 
     case 'bedtime':
       if (learnerState && confidence > 0.2) {
-        return `Learned bedtime pattern (${confidenceLevel} confidence)`;
+        return `Learned bedtime pattern (${confidenceLevel} confidence)${correctedAgeNote}`;
       }
-      return 'Age-appropriate bedtime window';
+      return `Age-appropriate bedtime window${correctedAgeNote}`;
 
     case 'windDown':
       return `Start wind-down ${SCHEDULE_CONFIG.windDownDurationMin} minutes before sleep`;
@@ -92,7 +98,8 @@ function generateNaps(
   napLengthMin: number,
   learnerState: LearnerState | null,
   referenceTimeISO: string,
-  maxNaps: number = SCHEDULE_CONFIG.maxNapsPerDay
+  maxNaps: number = SCHEDULE_CONFIG.maxNapsPerDay,
+  correctedAgeMonths: number | null = null
 ): ScheduleBlock[] {
   const naps: ScheduleBlock[] = [];
   let currentTime = time.parse(startFromISO);
@@ -119,7 +126,14 @@ function generateNaps(
       startISO: napStartISO,
       endISO: napEndISO,
       confidence: calculateBlockConfidence(learnerState, napStartISO, referenceTimeISO),
-      rationale: generateRationale('nap', learnerState, wakeWindowMin, napLengthMin, false),
+      rationale: generateRationale(
+        'nap',
+        learnerState,
+        wakeWindowMin,
+        napLengthMin,
+        false,
+        correctedAgeMonths
+      ),
     });
 
     currentTime = napEnd;
@@ -132,7 +146,8 @@ function generateBedtime(
   lastWakeTimeISO: string,
   wakeWindowMin: number,
   learnerState: LearnerState | null,
-  referenceTimeISO: string
+  referenceTimeISO: string,
+  correctedAgeMonths: number | null = null
 ): ScheduleBlock | null {
   const lastWake = time.parse(lastWakeTimeISO);
   let bedtime = lastWake.add(wakeWindowMin, 'minute');
@@ -156,7 +171,7 @@ function generateBedtime(
     startISO: bedtimeISO,
     endISO: bedtime.add(10, 'hour').toISOString(), 
     confidence: calculateBlockConfidence(learnerState, bedtimeISO, referenceTimeISO),
-    rationale: generateRationale('bedtime', learnerState, wakeWindowMin, 0, false),
+    rationale: generateRationale('bedtime', learnerState, wakeWindowMin, 0, false, correctedAgeMonths),
   };
 }
 
@@ -188,6 +203,9 @@ function generateDaySchedule(
   const dayStart = time.parse(dayStartISO).startOf('day');
   const dayEnd = time.parse(dayStartISO).endOf('day');
 
+  const ageInfo = getAgeForBaby(babyProfile.birthDateISO, babyProfile.dueDateISO, referenceTime);
+  const correctedAgeMonths = ageInfo.isCorrected ? ageInfo.ageMonths : null;
+
   let wakeWindowMin = getLearnedWakeWindow(learnerState, babyProfile);
   let napLengthMin = getLearnedNapLength(learnerState, babyProfile);
 
@@ -218,25 +236,46 @@ function generateDaySchedule(
     napLengthMin,
     learnerState,
     referenceTime,
-    SCHEDULE_CONFIG.maxNapsPerDay
+    SCHEDULE_CONFIG.maxNapsPerDay,
+    correctedAgeMonths
   );
   
  
   if (isWhatIf) {
     naps.forEach((nap) => {
-      nap.rationale = generateRationale('nap', learnerState, wakeWindowMin, napLengthMin, true);
+      nap.rationale = generateRationale(
+        'nap',
+        learnerState,
+        wakeWindowMin,
+        napLengthMin,
+        true,
+        correctedAgeMonths
+      );
     });
   }
   
   blocks.push(...naps);
 
   const lastNapEnd = naps.length > 0 ? naps[naps.length - 1].endISO : lastWakeTime;
-  const bedtime = generateBedtime(lastNapEnd, wakeWindowMin, learnerState, referenceTime);
+  const bedtime = generateBedtime(
+    lastNapEnd,
+    wakeWindowMin,
+    learnerState,
+    referenceTime,
+    correctedAgeMonths
+  );
   
   if (bedtime) {
 
     if (isWhatIf) {
-      bedtime.rationale = generateRationale('bedtime', learnerState, wakeWindowMin, 0, true);
+      bedtime.rationale = generateRationale(
+        'bedtime',
+        learnerState,
+        wakeWindowMin,
+        0,
+        true,
+        correctedAgeMonths
+      );
     }
     
     
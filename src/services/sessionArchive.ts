@@ -0,0 +1,174 @@
+import { SleepSession } from '../types';
+import { COMPACTION_CONFIG } from '../config/constants';
+import {
+  loadSyncState,
+  listArchivedMonths,
+  loadArchivedSessions,
+  archiveSleepSessions,
+} from '../storage/sleepStorage';
+import { getDeletedAtISO } from './trash';
+import { time } from '../utils/time';
+
+export interface CompactionOptions {
+  nowISO: string;
+  // Local edits after this have not reached other phones yet; null if never synced
+  pushedThroughISO: string | null;
+  tombstoneRetentionDays?: number;
+  archiveAfterMonths?: number;
+}
+
+export interface CompactionPlan {
+  // Sessions that stay in the live list
+  keep: SleepSession[];
+  // Sessions to move, keyed by the month (YYYY-MM) they started in
+  archive: Record<string, SleepSession[]>;
+  // Tombstones to drop entirely
+  purgeIds: string[];
+}
+
+export interface CompactionReport {
+  sessions: SleepSession[];
+  archived: number;
+  purged: number;
+}
+
+export function getArchiveMonthKey(iso: string): string {
+  return time.format(iso, 'YYYY-MM');
+}
+
+/**
+ * True once every local edit to the session has been pushed, or when this
+ * phone has never synced. Only settled sessions may leave the live list.
+ */
+export function isSyncSettled(session: SleepSession, pushedThroughISO: string | null): boolean {
+  return (
+    pushedThroughISO === null || Date.parse(session.updatedAtISO) <= Date.parse(pushedThroughISO)
+  );
+}
+
+/**
+ * Start of the oldest month that stays live. Whole months are archived at
+ * once so every bucket is complete.
+ */
+export function getArchiveCutoffISO(
+  nowISO: string,
+  archiveAfterMonths: number = COMPACTION_CONFIG.archiveAfterMonths
+): string {
+  return time.parse(nowISO).startOf('month').subtract(archiveAfterMonths, 'month').toISOString();
+}
+
+/**
+ * Splits a child's sessions into those to keep, archive and purge.
+ *
+ * Sessions with edits that have not been pushed yet stay live so sync still
+ * sends them. Tombstones are never archived: they are kept for the retention
+ * period so other phones learn about the delete, then dropped.
+ */
+export function planCompaction(
+  sessions: SleepSession[],
+  options: CompactionOptions
+): CompactionPlan {
+  const {
+    nowISO,
+    pushedThroughISO,
+    tombstoneRetentionDays = COMPACTION_CONFIG.tombstoneRetentionDays,
+    archiveAfterMonths = COMPACTION_CONFIG.archiveAfterMonths,
+  } = options;
+  const purgeBeforeMs = time.parse(nowISO).subtract(tombstoneRetentionDays, 'day').valueOf();
+  const archiveBeforeMs = Date.parse(getArchiveCutoffISO(nowISO, archiveAfterMonths));
+
+  const plan: CompactionPlan = { keep: [], archive: {}, purgeIds: [] };
+  for (const session of sessions) {
+    const isSettled = isSyncSettled(session, pushedThroughISO);
+
+    if (session.deleted) {
+      if (isSettled && Date.parse(getDeletedAtISO(session)) < purgeBeforeMs) {
+        plan.purgeIds.push(session.id);
+      } else {
+        plan.keep.push(session);
+      }
+    } else if (isSettled && Date.parse(session.endISO) < archiveBeforeMs) {
+      const monthKey = getArchiveMonthKey(session.startISO);
+      plan.archive[monthKey] = [...(plan.archive[monthKey] ?? []), session];
+    } else {
+      plan.keep.push(session);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Runs the compaction job for a child and returns the sessions left live.
+ * Storage is only touched when there is something to move or drop.
+ */
+export async function compactSleepSessions(
+  babyId: string,
+  sessions: SleepSession[],
+  nowISO: string = time.nowISO()
+): Promise<CompactionReport> {
+  const { pushedThroughISO } = await loadSyncState(babyId);
+  const plan = planCompaction(sessions, { nowISO, pushedThroughISO });
+  const archived = Object.values(plan.archive).reduce((sum, bucket) => sum + bucket.length, 0);
+
+  if (archived > 0 || plan.purgeIds.length > 0) {
+    await archiveSleepSessions(babyId, plan.archive, plan.purgeIds);
+  }
+
+  return { sessions: plan.keep, archived, purged: plan.purgeIds.length };
+}
+
+/**
+ * Archived sessions overlapping [startISO, endISO). Buckets are keyed by
+ * start month, so the month before the range is read too for sessions that
+ * cross into it.
+ */
+export async function loadArchivedSessionsInRange(
+  babyId: string,
+  startISO: string,
+  endISO: string
+): Promise<SleepSession[]> {
+  const firstMonth = time.parse(startISO).subtract(1, 'month').format('YYYY-MM');
+  const lastMonth = getArchiveMonthKey(endISO);
+  const months = (await listArchivedMonths(babyId)).filter(
+    (monthKey) => monthKey >= firstMonth && monthKey <= lastMonth
+  );
+
+  const startMs = Date.parse(startISO);
+  const endMs = Date.parse(endISO);
+  const sessions: SleepSession[] = [];
+  for (const monthKey of months) {
+    const { value } = await loadArchivedSessions(babyId, monthKey);
+    sessions.push(
+      ...value.filter(
+        (session) => Date.parse(session.startISO) < endMs && Date.parse(session.endISO) > startMs
+      )
+    );
+  }
+  return sessions;
+}
+
+/**
+ * Every archived session for a child, oldest month first.
+ */
+export async function loadAllArchivedSessions(babyId: string): Promise<SleepSession[]> {
+  const sessions: SleepSession[] = [];
+  for (const monthKey of await listArchivedMonths(babyId)) {
+    const { value } = await loadArchivedSessions(babyId, monthKey);
+    sessions.push(...value);
+  }
+  return sessions;
+}
+
+/**
+ * Live sessions plus archived ones. A session found in both (after an
+ * interrupted compaction, or an old session edited by another phone) is
+ * taken from the live list.
+ */
+export function withArchivedSessions(
+  sessions: SleepSession[],
+  archived: SleepSession[]
+): SleepSession[] {
+  const liveIds = new Set(sessions.map((session) => session.id));
+  return [...archived.filter((session) => !liveIds.has(session.id)), ...sessions];
+}
@@ -0,0 +1,42 @@
+import { SleepSession, SessionKind } from '../types';
+import { SESSION_KIND_CONFIG } from '../config/constants';
+import { time } from '../utils/time';
+
+export const SESSION_KINDS: SessionKind[] = ['nap', 'night', 'fragment'];
+
+export const SESSION_KIND_LABELS: Record<SessionKind, string> = {
+  nap: 'Nap',
+  night: 'Night',
+  fragment: 'Night Fragment',
+};
+
+/**
+ * Kind worked out from the session's times alone: long sleep is night
+ * sleep, shorter sleep is a nap in the day and a fragment at night.
+ */
+export function inferSessionKind(session: SleepSession): SessionKind {
+  const { dayStartHour, nightStartHour, minNightSleepMin } = SESSION_KIND_CONFIG;
+  if (time.durationMinutes(session.startISO, session.endISO) >= minNightSleepMin) {
+    return 'night';
+  }
+
+  const startHour = time.parse(session.startISO).hour();
+  return startHour >= dayStartHour && startHour < nightStartHour ? 'nap' : 'fragment';
+}
+
+/**
+ * The session's kind, honouring the user's override. Everything that tells
+ * naps from night sleep goes through this so they all agree.
+ */
+export function getSessionKind(session: SleepSession): SessionKind {
+  return session.kind ?? inferSessionKind(session);
+}
+
+export function isNapSession(session: SleepSession): boolean {
+  return getSessionKind(session) === 'nap';
+}
+
+// Night sleep and the fragments around it
+export function isNightSession(session: SleepSession): boolean {
+  return getSessionKind(session) !== 'nap';
+}
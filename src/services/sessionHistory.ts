@@ -0,0 +1,90 @@
+import { SleepSession } from '../types';
+import { applySessionEdit, MERGED_SESSION_FIELDS } from '../sync/merge';
+
+// Older changes fall off the end
+export const MAX_HISTORY_ENTRIES = 20;
+
+/**
+ * One user-visible change to a child's sessions, e.g. a delete or a
+ * clear-all, with every affected session as it was before and after.
+ */
+export interface SessionHistoryEntry {
+  id: string;
+  babyId: string;
+  label: string;
+  // Null where the change created the session
+  before: Record<string, SleepSession | null>;
+  after: Record<string, SleepSession>;
+}
+
+export function createHistoryEntry(
+  babyId: string,
+  label: string,
+  previous: SleepSession[],
+  changes: SleepSession[]
+): SessionHistoryEntry {
+  const previousById = new Map(previous.map((session) => [session.id, session]));
+  const before: Record<string, SleepSession | null> = {};
+  const after: Record<string, SleepSession> = {};
+  for (const session of changes) {
+    before[session.id] = previousById.get(session.id) ?? null;
+    after[session.id] = session;
+  }
+
+  return {
+    id: `change_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    babyId,
+    label,
+    before,
+    after,
+  };
+}
+
+function pickMergedFields(session: SleepSession): Partial<SleepSession> {
+  const fields: Partial<SleepSession> = {};
+  for (const field of MERGED_SESSION_FIELDS) {
+    // Copied even when undefined so fields added by the change are cleared
+    (fields as Record<string, unknown>)[field] = session[field];
+  }
+  return fields;
+}
+
+/**
+ * Edits that take the affected sessions back to (or forward to) `targets`.
+ * These are fresh edits rather than the old records, so the reverted values
+ * win over the change on every phone. A session created by the change is
+ * undone by deleting it. Sessions no longer loaded are skipped.
+ */
+function revertTo(
+  targets: Record<string, SleepSession | null>,
+  current: SleepSession[],
+  nowISO: string
+): SleepSession[] {
+  const currentById = new Map(current.map((session) => [session.id, session]));
+  const changes: SleepSession[] = [];
+  for (const [id, target] of Object.entries(targets)) {
+    const session = currentById.get(id);
+    if (!session) {
+      continue;
+    }
+    const updates = target ? pickMergedFields(target) : { deleted: true };
+    changes.push(applySessionEdit(session, updates, nowISO));
+  }
+  return changes;
+}
+
+export function getUndoChanges(
+  entry: SessionHistoryEntry,
+  current: SleepSession[],
+  nowISO: string
+): SleepSession[] {
+  return revertTo(entry.before, current, nowISO);
+}
+
+export function getRedoChanges(
+  entry: SessionHistoryEntry,
+  current: SleepSession[],
+  nowISO: string
+): SleepSession[] {
+  return revertTo(entry.after, current, nowISO);
+}
@@ -0,0 +1,140 @@
+import { SleepSession, NightWaking } from '../types';
+import { SPLIT_MERGE_CONFIG } from '../config/constants';
+import { applySessionEdit } from '../sync/merge';
+import { mergeNotes } from './sessionValidation';
+import { time } from '../utils/time';
+
+function toMs(iso: string): number {
+  return time.parse(iso).valueOf();
+}
+
+function byStart<T extends { startISO: string }>(a: T, b: T): number {
+  return toMs(a.startISO) - toMs(b.startISO);
+}
+
+/**
+ * Why the sessions cannot be merged, or null if they can. Sessions may
+ * overlap, but each must start less than `maxGapMin` after the ones before
+ * it have ended.
+ */
+export function getMergeError(
+  sessions: SleepSession[],
+  maxGapMin: number = SPLIT_MERGE_CONFIG.maxMergeGapMin
+): string | null {
+  if (sessions.length < 2) {
+    return 'Select at least two sessions to merge';
+  }
+  if (sessions.some((session) => session.deleted)) {
+    return 'Deleted sessions cannot be merged';
+  }
+
+  const sorted = [...sessions].sort(byStart);
+  let endMs = toMs(sorted[0].endISO);
+  for (const session of sorted.slice(1)) {
+    if (toMs(session.startISO) - endMs >= maxGapMin * 60000) {
+      return `Only sessions less than ${maxGapMin} minutes apart can be merged`;
+    }
+    endMs = Math.max(endMs, toMs(session.endISO));
+  }
+  return null;
+}
+
+/**
+ * Combines sessions into the earliest one and deletes the rest. Each gap
+ * between them becomes a waking, so the time awake is not counted as sleep
+ * or as a wake window. Returns every changed session, ready to save.
+ */
+export function mergeSessions(
+  sessions: SleepSession[],
+  nowISO: string = time.nowISO(),
+  maxGapMin: number = SPLIT_MERGE_CONFIG.maxMergeGapMin
+): SleepSession[] {
+  const error = getMergeError(sessions, maxGapMin);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const [first, ...rest] = [...sessions].sort(byStart);
+  let endISO = first.endISO;
+  const wakings: NightWaking[] = [...(first.wakings ?? [])];
+  for (const session of rest) {
+    if (toMs(session.startISO) > toMs(endISO)) {
+      wakings.push({ startISO: endISO, endISO: session.startISO, reason: 'unknown' });
+    }
+    wakings.push(...(session.wakings ?? []));
+    if (toMs(session.endISO) > toMs(endISO)) {
+      endISO = session.endISO;
+    }
+  }
+
+  const merged = applySessionEdit(
+    first,
+    {
+      endISO,
+      quality: first.quality ?? rest.find((session) => session.quality)?.quality,
+      location: first.location ?? rest.find((session) => session.location)?.location,
+      method: first.method ?? rest.find((session) => session.method)?.method,
+      notes: rest.reduce((notes, session) => mergeNotes(notes, session.notes), first.notes),
+      wakings: wakings.length > 0 ? wakings.sort(byStart) : undefined,
+    },
+    nowISO
+  );
+  return [
+    merged,
+    ...rest.map((session) => applySessionEdit(session, { deleted: true }, nowISO)),
+  ];
+}
+
+/**
+ * Cuts a session in two at `atISO`. Splitting inside a waking drops the
+ * waking and leaves it as the gap between the parts. The first part keeps
+ * the id and notes; both keep the quality, location and method. Returns
+ * [first, second].
+ */
+export function splitSession(
+  session: SleepSession,
+  atISO: string,
+  nowISO: string = time.nowISO(),
+  minPartMin: number = SPLIT_MERGE_CONFIG.minSplitPartMin
+): SleepSession[] {
+  const atMs = toMs(atISO);
+  const splitWaking = session.wakings?.find(
+    (waking) => toMs(waking.startISO) < atMs && atMs < toMs(waking.endISO)
+  );
+  const firstEndISO = splitWaking?.startISO ?? atISO;
+  const secondStartISO = splitWaking?.endISO ?? atISO;
+
+  if (
+    time.durationMinutes(session.startISO, firstEndISO) < minPartMin ||
+    time.durationMinutes(secondStartISO, session.endISO) < minPartMin
+  ) {
+    throw new Error(`Both parts must be at least ${minPartMin} minutes long`);
+  }
+
+  const wakingsBefore = (session.wakings ?? []).filter(
+    (waking) => toMs(waking.endISO) <= toMs(firstEndISO)
+  );
+  const wakingsAfter = (session.wakings ?? []).filter(
+    (waking) => toMs(waking.startISO) >= toMs(secondStartISO)
+  );
+
+  const first = applySessionEdit(
+    session,
+    { endISO: firstEndISO, wakings: wakingsBefore.length > 0 ? wakingsBefore : undefined },
+    nowISO
+  );
+  const second: SleepSession = {
+    id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    startISO: secondStartISO,
+    endISO: session.endISO,
+    source: session.source,
+    updatedAtISO: nowISO,
+  };
+  if (session.quality !== undefined) second.quality = session.quality;
+  if (session.location !== undefined) second.location = session.location;
+  if (session.method !== undefined) second.method = session.method;
+  if (wakingsAfter.length > 0) second.wakings = wakingsAfter;
+  if (session.createdBy !== undefined) second.createdBy = session.createdBy;
+
+  return [first, second];
+}
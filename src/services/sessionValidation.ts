@@ -0,0 +1,217 @@
+import { SleepSession } from '../types';
+import { time } from '../utils/time';
+import { applySessionEdit } from '../sync/merge';
+import { clipWakings } from './nightWakings';
+import { formatSessionTime, formatDurationFromMinutes } from '../utils/formatters';
+
+// Start and end both within this many minutes of another session
+export const DUPLICATE_TOLERANCE_MIN = 5;
+// Trimming must leave at least this much sleep
+const MIN_TRIMMED_MINUTES = 1;
+
+export type SessionConflictKind = 'duplicate' | 'overlap';
+
+/**
+ * How to settle a conflict between `session` and `other`:
+ * - merge: stretch `other` over both and drop `session`
+ * - trim: shorten `session` so it ends before or starts after `other`
+ * - keepBoth: save `session` unchanged
+ */
+export type ConflictResolution = 'merge' | 'trim' | 'keepBoth';
+
+export interface SessionConflict {
+  kind: SessionConflictKind;
+  // Session being saved (or, in a health scan, the later of the pair)
+  session: SleepSession;
+  // Session it clashes with
+  other: SleepSession;
+  overlapMinutes: number;
+}
+
+export interface ResolvedConflict {
+  // Sessions to save, new or updated
+  sessions: SleepSession[];
+  // Id of a session that no longer exists after the resolution
+  discardedId: string | null;
+}
+
+export const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  merge: 'Merge',
+  trim: 'Trim',
+  keepBoth: 'Keep Both',
+};
+
+function toMs(iso: string): number {
+  return time.parse(iso).valueOf();
+}
+
+function overlapMinutes(a: SleepSession, b: SleepSession): number {
+  const start = Math.max(toMs(a.startISO), toMs(b.startISO));
+  const end = Math.min(toMs(a.endISO), toMs(b.endISO));
+  return Math.max(0, (end - start) / 60000);
+}
+
+function classifyPair(session: SleepSession, other: SleepSession): SessionConflict | null {
+  const isDuplicate =
+    Math.abs(toMs(session.startISO) - toMs(other.startISO)) <= DUPLICATE_TOLERANCE_MIN * 60000 &&
+    Math.abs(toMs(session.endISO) - toMs(other.endISO)) <= DUPLICATE_TOLERANCE_MIN * 60000;
+  const minutes = overlapMinutes(session, other);
+
+  if (isDuplicate) {
+    return { kind: 'duplicate', session, other, overlapMinutes: minutes };
+  }
+  if (minutes > 0) {
+    return { kind: 'overlap', session, other, overlapMinutes: minutes };
+  }
+  return null;
+}
+
+/**
+ * Active sessions that `session` duplicates or overlaps, biggest overlap
+ * first. Sessions that merely touch (one ends as the next starts) are fine.
+ */
+export function findSessionConflicts(
+  session: SleepSession,
+  existing: SleepSession[]
+): SessionConflict[] {
+  return existing
+    .filter((other) => !other.deleted && other.id !== session.id)
+    .map((other) => classifyPair(session, other))
+    .filter((conflict): conflict is SessionConflict => conflict !== null)
+    .sort((a, b) => b.overlapMinutes - a.overlapMinutes);
+}
+
+/**
+ * One-line explanation for prompts, e.g. "Overlaps 1:00 PM - 2:30 PM by 20m".
+ */
+export function describeConflict(conflict: SessionConflict): string {
+  const range = formatSessionTime(conflict.other.startISO, conflict.other.endISO);
+  if (conflict.kind === 'duplicate') {
+    return `Looks like a repeat of ${range}`;
+  }
+  return `Overlaps ${range} by ${formatDurationFromMinutes(conflict.overlapMinutes)}`;
+}
+
+/**
+ * The part of `session` left after cutting out `other`. When `other` sits
+ * inside it, the longer of the two remaining pieces is kept. Null if too
+ * little would remain.
+ */
+function getTrimmedRange(
+  session: SleepSession,
+  other: SleepSession
+): { startISO: string; endISO: string } | null {
+  const start = toMs(session.startISO);
+  const end = toMs(session.endISO);
+  const otherStart = toMs(other.startISO);
+  const otherEnd = toMs(other.endISO);
+
+  const before = start < otherStart ? { startISO: session.startISO, endISO: other.startISO } : null;
+  const after = end > otherEnd ? { startISO: other.endISO, endISO: session.endISO } : null;
+  const length = (range: { startISO: string; endISO: string } | null) =>
+    range ? time.durationMinutes(range.startISO, range.endISO) : 0;
+
+  const kept = length(before) >= length(after) ? before : after;
+  return kept && length(kept) >= MIN_TRIMMED_MINUTES ? kept : null;
+}
+
+/**
+ * Resolutions that make sense for a conflict. Trim is left out when it
+ * would remove the whole session, e.g. for duplicates.
+ */
+export function getResolutionOptions(conflict: SessionConflict): ConflictResolution[] {
+  const options: ConflictResolution[] = ['merge'];
+  if (conflict.kind === 'overlap' && getTrimmedRange(conflict.session, conflict.other)) {
+    options.push('trim');
+  }
+  options.push('keepBoth');
+  return options;
+}
+
+export function mergeNotes(a?: string, b?: string): string | undefined {
+  const notes = [a, b].filter((note): note is string => !!note && note.trim().length > 0);
+  const unique = notes.filter((note, index) => notes.indexOf(note) === index);
+  return unique.length > 0 ? unique.join(' / ') : undefined;
+}
+
+/**
+ * Applies a resolution. Edits to stored sessions go through applySessionEdit
+ * so the change syncs like any other edit.
+ */
+export function resolveConflict(
+  conflict: SessionConflict,
+  resolution: ConflictResolution,
+  nowISO: string = time.nowISO()
+): ResolvedConflict {
+  const { session, other } = conflict;
+
+  if (resolution === 'merge') {
+    const startISO = toMs(session.startISO) < toMs(other.startISO) ? session.startISO : other.startISO;
+    const endISO = toMs(session.endISO) > toMs(other.endISO) ? session.endISO : other.endISO;
+    const updates: Partial<SleepSession> = {
+      startISO,
+      endISO,
+      quality: other.quality ?? session.quality,
+      notes: mergeNotes(other.notes, session.notes),
+      location: other.location ?? session.location,
+      method: other.method ?? session.method,
+    };
+    const wakings = clipWakings(
+      [...(other.wakings ?? []), ...(session.wakings ?? [])],
+      startISO,
+      endISO
+    );
+    if (wakings.length > 0) {
+      updates.wakings = wakings;
+    }
+    // The put-down goes with the merged start; one logged after it no longer fits
+    const putDowns = [other.putDownISO, session.putDownISO].filter(
+      (iso): iso is string => !!iso && toMs(iso) <= toMs(startISO)
+    );
+    if (putDowns.length > 0) {
+      updates.putDownISO = putDowns.reduce((a, b) => (toMs(a) <= toMs(b) ? a : b));
+    }
+    return { sessions: [applySessionEdit(other, updates, nowISO)], discardedId: session.id };
+  }
+
+  if (resolution === 'trim') {
+    const trimmed = getTrimmedRange(session, other);
+    if (!trimmed) {
+      throw new Error('Nothing would be left of this session after trimming');
+    }
+    const updates: Partial<SleepSession> = { ...trimmed };
+    // Wakings left outside the shorter session would make it invalid
+    if (session.wakings) {
+      const wakings = clipWakings(session.wakings, trimmed.startISO, trimmed.endISO);
+      updates.wakings = wakings.length > 0 ? wakings : undefined;
+    }
+    return { sessions: [applySessionEdit(session, updates, nowISO)], discardedId: null };
+  }
+
+  return { sessions: [session], discardedId: null };
+}
+
+/**
+ * Checks the whole history for overlapping or duplicated sessions. Each
+ * clashing pair is reported once, with the later-starting session as
+ * `session` so resolutions trim or drop that one.
+ */
+export function scanSessionHealth(sessions: SleepSession[]): SessionConflict[] {
+  const active = sessions
+    .filter((session) => !session.deleted)
+    .sort((a, b) => toMs(a.startISO) - toMs(b.startISO) || a.id.localeCompare(b.id));
+  const conflicts: SessionConflict[] = [];
+
+  for (let i = 0; i < active.length; i++) {
+    const clashUntilMs = toMs(active[i].endISO) + DUPLICATE_TOLERANCE_MIN * 60000;
+    // Sorted by start, so once one starts after this window none of the rest can clash
+    for (let j = i + 1; j < active.length && toMs(active[j].startISO) < clashUntilMs; j++) {
+      const conflict = classifyPair(active[j], active[i]);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,576 @@
+import { BabyProfile, CoachTip, LearnerState, SleepSession } from '../types';
+import { time } from '../utils/time';
+import { getAgeForBaby, getBaselineForBaby } from '../utils/ageBaseline';
+import { formatDurationFromMinutes } from '../utils/formatters';
+import { coddleTheme } from '../theme/coddleTheme';
+import {
+  ChartData,
+  getNapLengthChartData,
+  getDaytimeSleepChartData,
+} from '../hooks/useChartData';
+import { generateCoachTips } from './coach';
+import { isNapSession, isNightSession } from './sessionClassification';
+import { getSleepMinutes, getLongestStretch } from './nightWakings';
+
+// Doctors usually ask for the last two weeks
+export const DEFAULT_REPORT_DAYS = 14;
+
+// Same bounds the learner uses when extracting wake windows
+const MIN_WAKE_WINDOW_MIN = 15;
+const MAX_WAKE_WINDOW_MIN = 480;
+// Night sleep that starts this late counts as the day's bedtime
+const BEDTIME_EARLIEST_HOUR = 17;
+// Bedtime changes smaller than this are reported as steady
+const BEDTIME_TREND_THRESHOLD_MIN = 10;
+
+export interface ReportRange {
+  startDayKey: string;
+  endDayKey: string;
+}
+
+export interface DailySleepSummary {
+  dayKey: string;
+  daySleepMin: number;
+  nightSleepMin: number;
+  napCount: number;
+  // Wakings logged inside the night's sessions
+  nightWakingCount: number;
+  // Longest sleep without a waking
+  longestNightStretchMin: number;
+  // Start of the first night sleep from 5 PM on; null when none was logged
+  bedtimeISO: string | null;
+}
+
+export interface SleepReport {
+  profile: BabyProfile;
+  ageMonths: number;
+  isCorrectedAge: boolean;
+  range: ReportRange;
+  generatedAtISO: string;
+  days: DailySleepSummary[];
+  // Averages below only count days with at least one logged session
+  loggedDayCount: number;
+  averages: {
+    daySleepMin: number;
+    nightSleepMin: number;
+    napCount: number;
+    // Per day with night sleep logged
+    nightWakings: number;
+    wakeWindowMin: number | null;
+  };
+  longestNightStretch: { durationMin: number; startISO: string } | null;
+  // Average bedtime in the second half of the range minus the first half;
+  // positive means later. Null with fewer than four bedtimes.
+  bedtimeShiftMin: number | null;
+  napLengthChart: ChartData;
+  daytimeSleepChart: ChartData;
+  learnerState: LearnerState | null;
+  tips: CoachTip[];
+}
+
+export interface SleepReportInput {
+  profile: BabyProfile;
+  sessions: SleepSession[];
+  learnerState: LearnerState | null;
+  range: ReportRange;
+  nowISO?: string;
+}
+
+/**
+ * The `dayCount` days ending today, inclusive.
+ */
+export function getReportRange(
+  dayCount: number = DEFAULT_REPORT_DAYS,
+  nowISO: string = time.nowISO()
+): ReportRange {
+  const endDayKey = time.dayKey(nowISO);
+  const startDayKey = time
+    .parse(endDayKey + 'T00:00:00')
+    .subtract(dayCount - 1, 'day')
+    .format('YYYY-MM-DD');
+  return { startDayKey, endDayKey };
+}
+
+function getDayKeysInRange(range: ReportRange): string[] {
+  const dayKeys: string[] = [];
+  let day = time.parse(range.startDayKey + 'T00:00:00');
+  while (day.format('YYYY-MM-DD') <= range.endDayKey) {
+    dayKeys.push(day.format('YYYY-MM-DD'));
+    day = day.add(1, 'day');
+  }
+  return dayKeys;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+/**
+ * Minutes since midnight, with after-midnight bedtimes counted past 24:00
+ * so they average correctly with evening ones.
+ */
+function getBedtimeMinutes(bedtimeISO: string): number {
+  const bedtime = time.parse(bedtimeISO);
+  const minutes = bedtime.hour() * 60 + bedtime.minute();
+  return bedtime.hour() < 12 ? minutes + 24 * 60 : minutes;
+}
+
+function summarizeDay(dayKey: string, sessions: SleepSession[]): DailySleepSummary {
+  const naps = sessions.filter(isNapSession);
+  const nights = sessions.filter(isNightSession);
+  const bedtime = nights
+    .filter((night) => time.parse(night.startISO).hour() >= BEDTIME_EARLIEST_HOUR)
+    .sort((a, b) => time.parse(a.startISO).diff(time.parse(b.startISO)))[0];
+
+  return {
+    dayKey,
+    daySleepMin: sum(naps.map(getSleepMinutes)),
+    nightSleepMin: sum(nights.map(getSleepMinutes)),
+    napCount: naps.length,
+    nightWakingCount: sum(nights.map((night) => night.wakings?.length ?? 0)),
+    longestNightStretchMin: getLongestStretch(nights)?.durationMin ?? 0,
+    bedtimeISO: bedtime ? bedtime.startISO : null,
+  };
+}
+
+function getAverageWakeWindow(sessions: SleepSession[]): number | null {
+  const sorted = [...sessions].sort((a, b) => time.parse(a.startISO).diff(time.parse(b.startISO)));
+  const wakeWindows: number[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const wakeWindowMin = time.durationMinutes(sorted[i - 1].endISO, sorted[i].startISO);
+    if (wakeWindowMin >= MIN_WAKE_WINDOW_MIN && wakeWindowMin <= MAX_WAKE_WINDOW_MIN) {
+      wakeWindows.push(wakeWindowMin);
+    }
+  }
+
+  return wakeWindows.length > 0 ? average(wakeWindows) : null;
+}
+
+function getBedtimeShift(days: DailySleepSummary[]): number | null {
+  const bedtimes = days
+    .filter((day) => day.bedtimeISO !== null)
+    .map((day) => getBedtimeMinutes(day.bedtimeISO as string));
+  if (bedtimes.length < 4) {
+    return null;
+  }
+
+  const half = Math.floor(bedtimes.length / 2);
+  return average(bedtimes.slice(-half)) - average(bedtimes.slice(0, half));
+}
+
+/**
+ * Collects everything the report shows for the given range. Deleted
+ * sessions are ignored; sessions belong to the day they started on, the
+ * same way the timeline charts group them.
+ */
+export function buildSleepReport(input: SleepReportInput): SleepReport {
+  const { profile, range, learnerState } = input;
+  const nowISO = input.nowISO ?? time.nowISO();
+
+  const activeSessions = input.sessions.filter((session) => !session.deleted);
+  const rangeSessions = activeSessions.filter((session) => {
+    const dayKey = time.dayKey(session.startISO);
+    return dayKey >= range.startDayKey && dayKey <= range.endDayKey;
+  });
+
+  const dayKeys = getDayKeysInRange(range);
+  const days = dayKeys.map((dayKey) =>
+    summarizeDay(
+      dayKey,
+      rangeSessions.filter((session) => time.dayKey(session.startISO) === dayKey)
+    )
+  );
+  const loggedDays = days.filter((day) => day.napCount > 0 || day.nightSleepMin > 0);
+
+  const nightDays = days.filter((day) => day.nightSleepMin > 0);
+  const longestNight = getLongestStretch(rangeSessions.filter(isNightSession));
+
+  const rangeEndISO = time.parse(range.endDayKey + 'T23:59:59').toISOString();
+  const ageReferenceISO = rangeEndISO < nowISO ? rangeEndISO : nowISO;
+  const { ageMonths, isCorrected } = getAgeForBaby(
+    profile.birthDateISO,
+    profile.dueDateISO,
+    ageReferenceISO
+  );
+
+  return {
+    profile,
+    ageMonths,
+    isCorrectedAge: isCorrected,
+    range,
+    generatedAtISO: nowISO,
+    days,
+    loggedDayCount: loggedDays.length,
+    averages: {
+      daySleepMin: average(loggedDays.map((day) => day.daySleepMin)),
+      nightSleepMin: average(loggedDays.map((day) => day.nightSleepMin)),
+      napCount: average(loggedDays.map((day) => day.napCount)),
+      nightWakings: average(nightDays.map((day) => day.nightWakingCount)),
+      wakeWindowMin: getAverageWakeWindow(rangeSessions),
+    },
+    longestNightStretch: longestNight
+      ? { durationMin: longestNight.durationMin, startISO: longestNight.startISO }
+      : null,
+    bedtimeShiftMin: getBedtimeShift(days),
+    napLengthChart: getNapLengthChartData(rangeSessions, dayKeys.length),
+    daytimeSleepChart: getDaytimeSleepChartData(rangeSessions, dayKeys.length),
+    learnerState,
+    // Tips look at the most recent days, so they describe the baby today
+    tips: generateCoachTips(activeSessions, learnerState, profile),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatAge(ageMonths: number): string {
+  const months = Math.floor(ageMonths);
+  const weeks = Math.floor((ageMonths - months) * 4.345);
+  if (months === 0) {
+    return `${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+  }
+  return `${months} ${months === 1 ? 'month' : 'months'}`;
+}
+
+function formatBedtimeMinutes(minutes: number): string {
+  return time
+    .parse('2000-01-01T00:00:00')
+    .add(minutes % (24 * 60), 'minute')
+    .format('h:mm A');
+}
+
+function formatRange(range: ReportRange): string {
+  const start = time.parse(range.startDayKey + 'T00:00:00');
+  const end = time.parse(range.endDayKey + 'T00:00:00');
+  return `${start.format('MMM D')} – ${end.format('MMM D, YYYY')}`;
+}
+
+function describeBedtimeShift(shiftMin: number | null): string {
+  if (shiftMin === null) {
+    return 'Not enough bedtimes logged';
+  }
+  if (Math.abs(shiftMin) < BEDTIME_TREND_THRESHOLD_MIN) {
+    return 'Steady';
+  }
+  const direction = shiftMin > 0 ? 'later' : 'earlier';
+  return `${formatDurationFromMinutes(Math.abs(shiftMin))} ${direction} over the period`;
+}
+
+const SVG_WIDTH = 640;
+const SVG_HEIGHT = 200;
+const SVG_PADDING = 36;
+
+interface SvgChartOptions {
+  title: string;
+  color: string;
+  formatValue: (value: number) => string;
+  // Lowest value on the y axis; defaults to 0
+  minValue?: number;
+}
+
+function renderAxes(minValue: number, maxValue: number, options: SvgChartOptions): string {
+  const graphHeight = SVG_HEIGHT - SVG_PADDING * 2;
+  return [0, 0.5, 1]
+    .map((ratio) => {
+      const y = SVG_PADDING + graphHeight - ratio * graphHeight;
+      const value = minValue + (maxValue - minValue) * ratio;
+      return (
+        `<line x1="${SVG_PADDING}" y1="${y}" x2="${SVG_WIDTH - SVG_PADDING / 2}" y2="${y}" ` +
+        `stroke="${coddleTheme.colors.border}" />` +
+        `<text x="${SVG_PADDING - 4}" y="${y + 4}" font-size="10" text-anchor="end" ` +
+        `fill="${coddleTheme.colors.textSecondary}">${escapeHtml(options.formatValue(value))}</text>`
+      );
+    })
+    .join('');
+}
+
+function renderXLabels(labels: string[], slotWidth: number): string {
+  // Every other label once the chart gets crowded
+  const step = labels.length > 10 ? 2 : 1;
+  return labels
+    .map((label, index) => {
+      if (index % step !== 0) return '';
+      const x = SVG_PADDING + slotWidth * index + slotWidth / 2;
+      return (
+        `<text x="${x}" y="${SVG_HEIGHT - SVG_PADDING / 2}" font-size="10" text-anchor="middle" ` +
+        `fill="${coddleTheme.colors.textSecondary}">${escapeHtml(label)}</text>`
+      );
+    })
+    .join('');
+}
+
+function renderSvg(options: SvgChartOptions, body: string): string {
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SVG_WIDTH} ${SVG_HEIGHT}" ` +
+    `role="img" aria-label="${escapeHtml(options.title)}">${body}</svg>`
+  );
+}
+
+function renderSvgBarChart(chart: ChartData, options: SvgChartOptions): string {
+  const data = chart.datasets[0]?.data ?? [];
+  if (data.length === 0) {
+    return '<p class="muted">No sessions logged in this period.</p>';
+  }
+
+  const graphWidth = SVG_WIDTH - SVG_PADDING * 1.5;
+  const graphHeight = SVG_HEIGHT - SVG_PADDING * 2;
+  const maxValue = Math.max(...data, 1);
+  const slotWidth = graphWidth / data.length;
+  const barWidth = slotWidth * 0.7;
+
+  const bars = data
+    .map((value, index) => {
+      const height = (value / maxValue) * graphHeight;
+      const x = SVG_PADDING + slotWidth * index + (slotWidth - barWidth) / 2;
+      const y = SVG_PADDING + graphHeight - height;
+      return (
+        `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" ` +
+        `height="${height.toFixed(1)}" rx="3" fill="${options.color}" />`
+      );
+    })
+    .join('');
+
+  return renderSvg(
+    options,
+    renderAxes(0, maxValue, options) + bars + renderXLabels(chart.labels, slotWidth)
+  );
+}
+
+function renderSvgLineChart(chart: ChartData, options: SvgChartOptions): string {
+  const data = chart.datasets[0]?.data ?? [];
+  if (data.length === 0) {
+    return '<p class="muted">No sessions logged in this period.</p>';
+  }
+
+  const graphWidth = SVG_WIDTH - SVG_PADDING * 1.5;
+  const graphHeight = SVG_HEIGHT - SVG_PADDING * 2;
+  const minValue = options.minValue ?? 0;
+  const maxValue = Math.max(...data, minValue + 1);
+  const slotWidth = graphWidth / data.length;
+
+  const points = data.map((value, index) => {
+    const x = SVG_PADDING + slotWidth * index + slotWidth / 2;
+    const y = SVG_PADDING + graphHeight - ((value - minValue) / (maxValue - minValue)) * graphHeight;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const dots = points
+    .map((point) => {
+      const [x, y] = point.split(',');
+      return `<circle cx="${x}" cy="${y}" r="3.5" fill="${options.color}" />`;
+    })
+    .join('');
+
+  return renderSvg(
+    options,
+    renderAxes(minValue, maxValue, options) +
+      `<polyline points="${points.join(' ')}" fill="none" stroke="${options.color}" stroke-width="2.5" />` +
+      dots +
+      renderXLabels(chart.labels, slotWidth)
+  );
+}
+
+function getNightSleepChart(days: DailySleepSummary[]): ChartData {
+  return {
+    labels: days.map((day) => time.parse(day.dayKey + 'T00:00:00').format('MMM D')),
+    datasets: [{ data: days.map((day) => Math.round(day.nightSleepMin)) }],
+  };
+}
+
+function getBedtimeChart(days: DailySleepSummary[]): ChartData {
+  const withBedtime = days.filter((day) => day.bedtimeISO !== null);
+  return {
+    labels: withBedtime.map((day) => time.parse(day.dayKey + 'T00:00:00').format('MMM D')),
+    datasets: [{ data: withBedtime.map((day) => getBedtimeMinutes(day.bedtimeISO as string)) }],
+  };
+}
+
+function renderLearnerSection(report: SleepReport): string {
+  const { learnerState, profile } = report;
+  const baseline = getBaselineForBaby(profile.birthDateISO, undefined, profile.dueDateISO);
+  const baselineRow =
+    `<tr><th>Typical for age</th><td>Wake window ${formatDurationFromMinutes(baseline.typicalWakeWindowMin)}, ` +
+    `nap ${formatDurationFromMinutes(baseline.typicalNapLengthMin)}, ${baseline.typicalNapCount} naps a day</td></tr>`;
+
+  if (!learnerState) {
+    return `<table>${baselineRow}<tr><th>Learned pattern</th><td>Not enough sleep logged yet</td></tr></table>`;
+  }
+
+  return (
+    '<table>' +
+    `<tr><th>Learned wake window</th><td>${formatDurationFromMinutes(learnerState.ewmaWakeWindowMin)}</td></tr>` +
+    `<tr><th>Learned nap length</th><td>${formatDurationFromMinutes(learnerState.ewmaNapLengthMin)}</td></tr>` +
+    (learnerState.ewmaOnsetLatencyMin !== undefined
+      ? `<tr><th>Time to fall asleep</th><td>${formatDurationFromMinutes(learnerState.ewmaOnsetLatencyMin)}</td></tr>`
+      : '') +
+    `<tr><th>Confidence</th><td>${Math.round(learnerState.confidence * 100)}%</td></tr>` +
+    `<tr><th>Last updated</th><td>${time.parse(learnerState.lastUpdatedISO).format('MMM D, YYYY h:mm A')}</td></tr>` +
+    baselineRow +
+    '</table>'
+  );
+}
+
+function renderTipsSection(tips: CoachTip[]): string {
+  if (tips.length === 0) {
+    return '<p class="muted">No concerns flagged.</p>';
+  }
+  return (
+    '<ul class="tips">' +
+    tips
+      .map(
+        (tip) =>
+          `<li><strong>${escapeHtml(tip.title)}</strong> <span class="muted">(${tip.severity})</span>` +
+          `<br />${escapeHtml(tip.message)}<br /><span class="muted">${escapeHtml(tip.justification)}</span></li>`
+      )
+      .join('') +
+    '</ul>'
+  );
+}
+
+function renderDailyTable(days: DailySleepSummary[]): string {
+  const rows = days
+    .map((day) => {
+      const logged = day.napCount > 0 || day.nightSleepMin > 0;
+      const cells = logged
+        ? [
+            formatDurationFromMinutes(day.daySleepMin),
+            formatDurationFromMinutes(day.nightSleepMin),
+            formatDurationFromMinutes(day.daySleepMin + day.nightSleepMin),
+            day.napCount.toString(),
+            day.nightWakingCount.toString(),
+            day.longestNightStretchMin > 0 ? formatDurationFromMinutes(day.longestNightStretchMin) : '–',
+            day.bedtimeISO ? time.parse(day.bedtimeISO).format('h:mm A') : '–',
+          ]
+        : ['Not logged', '', '', '', '', '', ''];
+      return (
+        `<tr><th>${time.parse(day.dayKey + 'T00:00:00').format('ddd MMM D')}</th>` +
+        cells.map((cell) => `<td>${cell}</td>`).join('') +
+        '</tr>'
+      );
+    })
+    .join('');
+
+  return (
+    '<table class="daily"><thead><tr><th>Day</th><th>Day sleep</th><th>Night sleep</th>' +
+    '<th>Total</th><th>Naps</th><th>Wakings</th><th>Longest stretch</th><th>Bedtime</th>' +
+    '</tr></thead>' +
+    `<tbody>${rows}</tbody></table>`
+  );
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: ${coddleTheme.colors.textPrimary}; margin: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid ${coddleTheme.colors.border}; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid ${coddleTheme.colors.divider}; }
+  .daily td { text-align: right; }
+  .muted { color: ${coddleTheme.colors.textSecondary}; }
+  .summary { display: flex; flex-wrap: wrap; gap: 8px; }
+  .stat { border: 1px solid ${coddleTheme.colors.border}; border-radius: 8px; padding: 8px 12px; min-width: 130px; }
+  .stat strong { display: block; font-size: 16px; }
+  .tips li { margin-bottom: 8px; }
+  svg { width: 100%; height: auto; }
+  @page { size: A4; margin: 16mm; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } svg, table { break-inside: avoid; } }
+`;
+
+/**
+ * Self-contained HTML (inline styles and SVG, no external assets) that
+ * prints cleanly to PDF from a browser or the share sheet.
+ */
+export function renderSleepReportHtml(report: SleepReport): string {
+  const { profile, averages } = report;
+  const name = escapeHtml(profile.name);
+  const age = report.isCorrectedAge
+    ? `${formatAge(report.ageMonths)} corrected age`
+    : formatAge(report.ageMonths);
+  const stat = (label: string, value: string) =>
+    `<div class="stat"><span class="muted">${label}</span><strong>${value}</strong></div>`;
+
+  const summary = [
+    stat('Avg day sleep', formatDurationFromMinutes(averages.daySleepMin)),
+    stat('Avg night sleep', formatDurationFromMinutes(averages.nightSleepMin)),
+    stat('Avg naps a day', averages.napCount.toFixed(1)),
+    stat('Avg night wakings', averages.nightWakings.toFixed(1)),
+    stat(
+      'Avg wake window',
+      averages.wakeWindowMin !== null ? formatDurationFromMinutes(averages.wakeWindowMin) : '–'
+    ),
+    stat(
+      'Longest night stretch',
+      report.longestNightStretch
+        ? `${formatDurationFromMinutes(report.longestNightStretch.durationMin)} (${time
+            .parse(report.longestNightStretch.startISO)
+            .format('MMM D')})`
+        : '–'
+    ),
+    stat('Bedtime trend', describeBedtimeShift(report.bedtimeShiftMin)),
+  ].join('');
+
+  const minutes = (value: number) => formatDurationFromMinutes(value);
+  const bedtimeChart = getBedtimeChart(report.days);
+  const bedtimeValues = bedtimeChart.datasets[0].data;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${name} – Sleep Report</title>`,
+    `<style>${REPORT_STYLES}</style></head><body>`,
+    `<h1>${name} – Sleep Report</h1>`,
+    `<p class="muted">${escapeHtml(formatRange(report.range))} · Age ${age} · Born ${time
+      .parse(profile.birthDateISO)
+      .format('MMM D, YYYY')}</p>`,
+    `<p class="muted">Averages cover ${report.loggedDayCount} of ${report.days.length} days with sleep logged.</p>`,
+    `<div class="summary">${summary}</div>`,
+    '<h2>Night sleep per day</h2>',
+    renderSvgBarChart(getNightSleepChart(report.days), {
+      title: 'Night sleep per day',
+      color: coddleTheme.colors.sleepNight,
+      formatValue: minutes,
+    }),
+    '<h2>Day sleep per day</h2>',
+    renderSvgBarChart(report.daytimeSleepChart, {
+      title: 'Day sleep per day',
+      color: coddleTheme.colors.accentMint,
+      formatValue: minutes,
+    }),
+    '<h2>Average nap length</h2>',
+    renderSvgLineChart(report.napLengthChart, {
+      title: 'Average nap length',
+      color: coddleTheme.colors.sleepNap,
+      formatValue: minutes,
+    }),
+    '<h2>Bedtime</h2>',
+    renderSvgLineChart(bedtimeChart, {
+      title: 'Bedtime',
+      color: coddleTheme.colors.primary,
+      formatValue: formatBedtimeMinutes,
+      minValue: bedtimeValues.length > 0 ? Math.min(...bedtimeValues) - 30 : 0,
+    }),
+    '<h2>Daily totals</h2>',
+    renderDailyTable(report.days),
+    '<h2>Learned sleep pattern</h2>',
+    renderLearnerSection(report),
+    '<h2>Coach notes</h2>',
+    renderTipsSection(report.tips),
+    `<p class="muted">Generated ${time.parse(report.generatedAtISO).format('MMM D, YYYY h:mm A')} by Coddle from parent-logged data.</p>`,
+    '</body></html>',
+  ].join('\n');
+}
+
+export function getReportFileName(babyName: string, range: ReportRange): string {
+  const slug = babyName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'baby'}-sleep-report-${range.startDayKey}-to-${range.endDayKey}.html`;
+}
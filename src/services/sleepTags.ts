@@ -0,0 +1,82 @@
+import { SleepSession, SleepLocation, SleepMethod } from '../types';
+import { time } from '../utils/time';
+import { isNapSession } from './sessionClassification';
+
+export const SLEEP_LOCATIONS: SleepLocation[] = [
+  'crib',
+  'bassinet',
+  'contact',
+  'stroller',
+  'car',
+  'carrier',
+];
+
+export const SLEEP_LOCATION_LABELS: Record<SleepLocation, string> = {
+  crib: 'Crib',
+  bassinet: 'Bassinet',
+  contact: 'Contact',
+  stroller: 'Stroller',
+  car: 'Car',
+  carrier: 'Carrier',
+};
+
+export const SLEEP_METHODS: SleepMethod[] = ['rocked', 'fed', 'independent'];
+
+export const SLEEP_METHOD_LABELS: Record<SleepMethod, string> = {
+  rocked: 'Rocked',
+  fed: 'Fed',
+  independent: 'Independent',
+};
+
+// Movement keeps babies asleep, so these naps run unusually long or short
+export const MOTION_LOCATIONS: SleepLocation[] = ['stroller', 'car', 'carrier'];
+
+export interface NapLengthByLocation {
+  // Null for naps logged without a location
+  location: SleepLocation | null;
+  label: string;
+  napCount: number;
+  avgMinutes: number;
+}
+
+export function isMotionSleep(session: SleepSession): boolean {
+  return session.location !== undefined && MOTION_LOCATIONS.includes(session.location);
+}
+
+/**
+ * "Crib · Independent", "Stroller" or null when the session has no tags.
+ */
+export function describeSleepTags(session: SleepSession): string | null {
+  const tags = [
+    session.location ? SLEEP_LOCATION_LABELS[session.location] : null,
+    session.method ? SLEEP_METHOD_LABELS[session.method] : null,
+  ].filter((tag): tag is string => tag !== null);
+  return tags.length > 0 ? tags.join(' · ') : null;
+}
+
+/**
+ * Average nap length for each location with naps, in SLEEP_LOCATIONS order,
+ * followed by untagged naps.
+ */
+export function getNapLengthByLocation(sessions: SleepSession[]): NapLengthByLocation[] {
+  const naps = sessions.filter((session) => !session.deleted && isNapSession(session));
+
+  const rows: NapLengthByLocation[] = [];
+  for (const location of [...SLEEP_LOCATIONS, null]) {
+    const locationNaps = naps.filter((nap) => (nap.location ?? null) === location);
+    if (locationNaps.length === 0) {
+      continue;
+    }
+    const totalMinutes = locationNaps.reduce(
+      (sum, nap) => sum + time.durationMinutes(nap.startISO, nap.endISO),
+      0
+    );
+    rows.push({
+      location,
+      label: location ? SLEEP_LOCATION_LABELS[location] : 'Untagged',
+      napCount: locationNaps.length,
+      avgMinutes: totalMinutes / locationNaps.length,
+    });
+  }
+  return rows;
+}
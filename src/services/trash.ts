@@ -0,0 +1,31 @@
+import { SleepSession } from '../types';
+import { COMPACTION_CONFIG } from '../config/constants';
+import { getFieldUpdatedAt } from '../sync/merge';
+import { time } from '../utils/time';
+
+/**
+ * When the session was deleted. Later edits to other fields (e.g. a note
+ * synced from another phone) do not move it.
+ */
+export function getDeletedAtISO(session: SleepSession): string {
+  return getFieldUpdatedAt(session, 'deleted');
+}
+
+/**
+ * Deleted sessions, most recently deleted first.
+ */
+export function getTrashedSessions(sessions: SleepSession[]): SleepSession[] {
+  return sessions
+    .filter((session) => session.deleted)
+    .sort((a, b) => Date.parse(getDeletedAtISO(b)) - Date.parse(getDeletedAtISO(a)));
+}
+
+/**
+ * When compaction purges the session on its own.
+ */
+export function getTrashExpiryISO(
+  session: SleepSession,
+  retentionDays: number = COMPACTION_CONFIG.tombstoneRetentionDays
+): string {
+  return time.parse(getDeletedAtISO(session)).add(retentionDays, 'day').toISOString();
+}
@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Storage Migrations
+ * 
+ * Tests cover:
+ * - Ordering and gap detection in the migration registry
+ * - v0 -> v1 backfill of session and learner fields
+ * - Missing or unreadable values passing through untouched
+ * - Retrying a failed migration run on the next access
+ */
+
+import {
+  Migration,
+  MigrationData,
+  MIGRATIONS,
+  getPendingMigrations,
+  applyMigrations,
+} from '../migrations';
+import { createMemoryAdapter } from '../adapters';
+import { setStorageAdapter, runMigrations } from '../sleepStorage';
+import { STORAGE_KEYS, CURRENT_SCHEMA_VERSION } from '../../config/constants';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Storage Migrations', () => {
+  describe('getPendingMigrations', () => {
+    const registry: Migration[] = [
+      { version: 2, description: 'second', migrate: (data) => data },
+      { version: 1, description: 'first', migrate: (data) => data },
+      { version: 3, description: 'third', migrate: (data) => data },
+    ];
+
+    it('should return migrations in version order', () => {
+      const pending = getPendingMigrations(0, 3, registry);
+
+      expect(pending.map((m) => m.version)).toEqual([1, 2, 3]);
+    });
+
+    it('should only include migrations after the stored version', () => {
+      const pending = getPendingMigrations(1, 3, registry);
+
+      expect(pending.map((m) => m.version)).toEqual([2, 3]);
+    });
+
+    it('should return nothing when already up to date', () => {
+      expect(getPendingMigrations(3, 3, registry)).toEqual([]);
+    });
+
+    it('should throw when a version is missing from the registry', () => {
+      const withGap = registry.filter((m) => m.version !== 2);
+
+      expect(() => getPendingMigrations(0, 3, withGap)).toThrow('schema version 2');
+    });
+
+    it('should throw when the target version has no migration', () => {
+      expect(() => getPendingMigrations(0, 4, registry)).toThrow('schema version 4');
+    });
+
+    it('should cover every version in the default registry', () => {
+      const latest = Math.max(...MIGRATIONS.map((m) => m.version));
+
+      expect(() => getPendingMigrations(0, latest)).not.toThrow();
+    });
+  });
+
+  describe('applyMigrations', () => {
+    it('should run migrations in sequence', () => {
+      const registry: Migration[] = [
+        {
+          version: 1,
+          description: 'append a',
+          migrate: (data) => ({ ...data, sessions: [...(data.sessions as string[]), 'a'] }),
+        },
+        {
+          version: 2,
+          description: 'append b',
+          migrate: (data) => ({ ...data, sessions: [...(data.sessions as string[]), 'b'] }),
+        },
+      ];
+      const data: MigrationData = { sessions: [], learner: undefined, notificationHistory: undefined };
+
+      const result = applyMigrations(data, registry);
+
+      expect(result.sessions).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('v0 -> v1', () => {
+    const v1 = getPendingMigrations(0, 1);
+
+    it('should backfill missing session fields', () => {
+      const data: MigrationData = {
+        sessions: [
+          { id: 's1', startISO: '2024-06-15T10:00:00Z', endISO: '2024-06-15T11:00:00Z' },
+          {
+            id: 's2',
+            startISO: '2024-06-15T13:00:00Z',
+            endISO: '2024-06-15T14:00:00Z',
+            source: 'timer',
+            updatedAtISO: '2024-06-15T14:05:00Z',
+          },
+        ],
+        learner: undefined,
+        notificationHistory: undefined,
+      };
+
+      const result = applyMigrations(data, v1);
+      const sessions = result.sessions as Record<string, unknown>[];
+
+      expect(sessions[0].source).toBe('manual');
+      expect(sessions[0].updatedAtISO).toBe('2024-06-15T11:00:00Z');
+      expect(sessions[1].source).toBe('timer');
+      expect(sessions[1].updatedAtISO).toBe('2024-06-15T14:05:00Z');
+    });
+
+    it('should add a version to learner state', () => {
+      const data: MigrationData = {
+        sessions: undefined,
+        learner: { ewmaNapLengthMin: 60, ewmaWakeWindowMin: 120 },
+        notificationHistory: undefined,
+      };
+
+      const result = applyMigrations(data, v1);
+
+      expect(result.learner).toEqual({ ewmaNapLengthMin: 60, ewmaWakeWindowMin: 120, version: 1 });
+    });
+
+    it('should leave missing values untouched', () => {
+      const data: MigrationData = { sessions: undefined, learner: null, notificationHistory: undefined };
+
+      const result = applyMigrations(data, v1);
+
+      expect(result).toEqual(data);
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('should try again after a failed run instead of keeping its report', async () => {
+      const adapter = createMemoryAdapter();
+      const learner = JSON.stringify({ ewmaNapLengthMin: 60 });
+      await adapter.setItem(`${STORAGE_KEYS.learner}:baby_1`, learner);
+      const multiSet = adapter.multiSet;
+      let failWrites = true;
+      adapter.multiSet = async (pairs) => {
+        if (failWrites) {
+          throw new Error('Disk full');
+        }
+        return multiSet(pairs);
+      };
+      setStorageAdapter(adapter);
+
+      const failed = await runMigrations();
+      failWrites = false;
+      const retried = await runMigrations();
+
+      expect(failed).toMatchObject({ success: false, error: 'Disk full' });
+      expect(retried).toMatchObject({ success: true, migratedKeys: 1 });
+      expect(await adapter.getItem(STORAGE_KEYS.schemaVersion)).toBe(
+        CURRENT_SCHEMA_VERSION.toString()
+      );
+      expect(await runMigrations()).toBe(retried);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for Storage Recovery
+ * 
+ * Tests cover:
+ * - Salvaging complete objects from truncated JSON arrays
+ * - Strings containing braces and escaped quotes
+ * - Filtering salvaged items by shape
+ */
+
+import {
+  salvageJsonArray,
+  arrayRecovery,
+  isSleepSessionLike,
+} from '../recovery';
+
+describe('Storage Recovery', () => {
+  const session = (id: string, notes?: string) => ({
+    id,
+    startISO: '2024-06-15T10:00:00Z',
+    endISO: '2024-06-15T11:00:00Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T11:00:00Z',
+    ...(notes !== undefined ? { notes } : {}),
+  });
+
+  describe('salvageJsonArray', () => {
+    it('should return every element of an intact array', () => {
+      const raw = JSON.stringify([session('s1'), session('s2')]);
+
+      expect(salvageJsonArray(raw)).toEqual([session('s1'), session('s2')]);
+    });
+
+    it('should keep complete objects before a truncation', () => {
+      const full = JSON.stringify([session('s1'), session('s2'), session('s3')]);
+      const truncated = full.slice(0, full.length - 20);
+
+      expect(salvageJsonArray(truncated)).toEqual([session('s1'), session('s2')]);
+    });
+
+    it('should not be confused by braces and quotes inside strings', () => {
+      const tricky = session('s1', 'woke up {again} after "the" ] noise \\ }');
+      const raw = JSON.stringify([tricky, session('s2')]).slice(0, -10);
+
+      expect(salvageJsonArray(raw)).toEqual([tricky]);
+    });
+
+    it('should skip a damaged element and continue', () => {
+      const raw = `[${JSON.stringify(session('s1'))},{"id": "s2", "startISO": },${JSON.stringify(session('s3'))}]`;
+
+      expect(salvageJsonArray(raw)).toEqual([session('s1'), session('s3')]);
+    });
+
+    it('should return nothing for a payload without an array', () => {
+      expect(salvageJsonArray('garbage')).toEqual([]);
+    });
+  });
+
+  describe('arrayRecovery', () => {
+    it('should drop salvaged items that are not sessions', () => {
+      const raw = `[${JSON.stringify(session('s1'))},{"unexpected": true},${JSON.stringify(session('s2'))}`;
+      const recover = arrayRecovery(isSleepSessionLike);
+
+      expect(recover(raw)).toEqual([session('s1'), session('s2')]);
+    });
+
+    it('should return null when nothing can be saved', () => {
+      const recover = arrayRecovery(isSleepSessionLike);
+
+      expect(recover('[{"id": "s1", "sta')).toBeNull();
+    });
+  });
+});
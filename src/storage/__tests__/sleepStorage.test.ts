@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for Sleep Storage - Adapters
+ * 
+ * Tests cover:
+ * - Per-session upserts and permanent removal
+ * - Date-range queries on indexed and plain key-value backends
+ * - Whole-array document view of indexed session tables
+ * - One-time adoption of data from a previous backend
+ */
+
+import { SleepSession } from '../../types';
+import { STORAGE_KEYS } from '../../config/constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createMemoryAdapter, asyncStorageAdapter, StorageAdapter } from '../adapters';
+import {
+  setStorageAdapter,
+  loadSleepSessions,
+  saveSleepSessions,
+  upsertSleepSessions,
+  removeSleepSessions,
+  loadSleepSessionsInRange,
+  adoptStorageFrom,
+} from '../sleepStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function createSession(id: string, startISO: string, endISO: string): SleepSession {
+  return {
+    id,
+    startISO,
+    endISO,
+    source: 'manual',
+    updatedAtISO: endISO,
+  };
+}
+
+/**
+ * The same adapter without its session index, to exercise the fallback path.
+ */
+function withoutIndex(adapter: StorageAdapter): StorageAdapter {
+  const { sessions, ...keyValue } = adapter;
+  return { ...keyValue, name: 'keyValueOnly' };
+}
+
+const babyId = 'baby_1';
+const morningNap = createSession('nap1', '2024-06-15T09:00:00Z', '2024-06-15T10:00:00Z');
+const afternoonNap = createSession('nap2', '2024-06-15T13:00:00Z', '2024-06-15T14:30:00Z');
+const night = createSession('night1', '2024-06-15T19:00:00Z', '2024-06-16T06:00:00Z');
+
+describe.each([
+  ['indexed', () => createMemoryAdapter()],
+  ['key-value', () => withoutIndex(createMemoryAdapter())],
+])('Sleep Storage - %s backend', (_name, createAdapter) => {
+  beforeEach(() => {
+    setStorageAdapter(createAdapter());
+  });
+
+  it('should insert and replace sessions by id', async () => {
+    await upsertSleepSessions(babyId, [afternoonNap, morningNap]);
+    await upsertSleepSessions(babyId, [{ ...morningNap, notes: 'Short and fussy' }]);
+
+    const { value } = await loadSleepSessions(babyId);
+
+    expect(value).toHaveLength(2);
+    expect(value.find((s) => s.id === 'nap1')?.notes).toBe('Short and fussy');
+  });
+
+  it('should keep children separate', async () => {
+    await upsertSleepSessions(babyId, [morningNap]);
+    await upsertSleepSessions('baby_2', [afternoonNap]);
+
+    const { value } = await loadSleepSessions(babyId);
+
+    expect(value.map((s) => s.id)).toEqual(['nap1']);
+  });
+
+  it('should permanently remove sessions', async () => {
+    await saveSleepSessions(babyId, [morningNap, afternoonNap]);
+    await removeSleepSessions(babyId, ['nap1']);
+
+    const { value } = await loadSleepSessions(babyId);
+
+    expect(value.map((s) => s.id)).toEqual(['nap2']);
+  });
+
+  it('should return sessions overlapping a range in start order', async () => {
+    await saveSleepSessions(babyId, [night, afternoonNap, morningNap]);
+
+    const result = await loadSleepSessionsInRange(
+      babyId,
+      '2024-06-15T09:30:00Z',
+      '2024-06-15T13:00:00Z'
+    );
+
+    // Afternoon nap starts exactly at the range end, so it is excluded
+    expect(result.map((s) => s.id)).toEqual(['nap1']);
+  });
+
+  it('should include sessions spanning the whole range', async () => {
+    await saveSleepSessions(babyId, [night]);
+
+    const result = await loadSleepSessionsInRange(
+      babyId,
+      '2024-06-16T00:00:00Z',
+      '2024-06-16T01:00:00Z'
+    );
+
+    expect(result.map((s) => s.id)).toEqual(['night1']);
+  });
+});
+
+describe('Memory Adapter - session document view', () => {
+  it('should expose indexed sessions as a sorted JSON array', async () => {
+    const adapter = createMemoryAdapter();
+    await adapter.sessions?.upsertSessions(babyId, [afternoonNap, morningNap]);
+
+    const raw = await adapter.getItem(`${STORAGE_KEYS.sessions}:${babyId}`);
+
+    expect(JSON.parse(raw as string).map((s: SleepSession) => s.id)).toEqual(['nap1', 'nap2']);
+    expect(await adapter.getAllKeys()).toContain(`${STORAGE_KEYS.sessions}:${babyId}`);
+  });
+
+  it('should reject session documents that are not arrays', async () => {
+    const adapter = createMemoryAdapter();
+
+    await expect(
+      adapter.multiSet([
+        ['other', 'value'],
+        [`${STORAGE_KEYS.sessions}:${babyId}`, '{}'],
+      ])
+    ).rejects.toThrow();
+    expect(await adapter.getItem('other')).toBeNull();
+  });
+});
+
+describe('adoptStorageFrom', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should copy data once and clear the source', async () => {
+    const source = withoutIndex(createMemoryAdapter());
+    await source.setItem(`${STORAGE_KEYS.sessions}:${babyId}`, JSON.stringify([morningNap]));
+    await source.setItem(STORAGE_KEYS.activeProfileId, babyId);
+
+    const target = createMemoryAdapter();
+    setStorageAdapter(target);
+
+    expect(await adoptStorageFrom(source)).toBe(2);
+    expect(await source.getAllKeys()).toEqual([]);
+    expect((await loadSleepSessions(babyId)).value.map((s) => s.id)).toEqual(['nap1']);
+
+    await source.setItem(STORAGE_KEYS.activeProfileId, 'stale');
+    expect(await adoptStorageFrom(source)).toBe(0);
+  });
+
+  it('should quarantine unreadable session arrays instead of failing', async () => {
+    // AsyncStorage holds raw strings, so a truncated write is possible there
+    const source = asyncStorageAdapter;
+    const truncated = JSON.stringify([morningNap, afternoonNap]).slice(0, -10);
+    await source.setItem(`${STORAGE_KEYS.sessions}:${babyId}`, truncated);
+
+    setStorageAdapter(createMemoryAdapter());
+    await adoptStorageFrom(source);
+
+    const { value } = await loadSleepSessions(babyId);
+    expect(value.map((s) => s.id)).toEqual(['nap1']);
+  });
+});
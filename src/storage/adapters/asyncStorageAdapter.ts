@@ -0,0 +1,17 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from './types';
+
+/**
+ * Plain AsyncStorage. Sessions are kept as one JSON array per child, so
+ * there is no session index.
+ */
+export const asyncStorageAdapter: StorageAdapter = {
+  name: 'asyncStorage',
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+  getAllKeys: () => AsyncStorage.getAllKeys(),
+  multiGet: (keys) => AsyncStorage.multiGet(keys),
+  multiSet: (pairs) => AsyncStorage.multiSet(pairs),
+  multiRemove: (keys) => AsyncStorage.multiRemove(keys),
+};
@@ -0,0 +1,5 @@
+export type { KeyValueStore, SessionIndex, StorageAdapter } from './types';
+export { asyncStorageAdapter } from './asyncStorageAdapter';
+export { createMemoryAdapter } from './memoryAdapter';
+// createSQLiteAdapter is imported from './sqliteAdapter' directly so the
+// native module is only loaded by the app, never by Jest
@@ -0,0 +1,128 @@
+import { SleepSession } from '../../types';
+import {
+  StorageAdapter,
+  parseSessionsKey,
+  sessionsKeyFor,
+  parseSessionsDocument,
+} from './types';
+
+interface SessionRow {
+  startMs: number;
+  endMs: number;
+  // Serialized so callers can never mutate stored sessions in place
+  data: string;
+}
+
+function toRow(session: SleepSession): SessionRow {
+  return {
+    startMs: Date.parse(session.startISO),
+    endMs: Date.parse(session.endISO),
+    data: JSON.stringify(session),
+  };
+}
+
+function sortedRows(table: Map<string, SessionRow>): SessionRow[] {
+  return Array.from(table.values()).sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * In-memory adapter with an indexed session table. Used by Jest and anywhere
+ * data should not outlive the process. Nothing is shared between instances.
+ */
+export function createMemoryAdapter(): StorageAdapter {
+  const values = new Map<string, string>();
+  const sessionTables = new Map<string, Map<string, SessionRow>>();
+
+  const getItem = async (key: string): Promise<string | null> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      return values.get(key) ?? null;
+    }
+
+    const table = sessionTables.get(babyId);
+    if (!table || table.size === 0) {
+      return null;
+    }
+    return `[${sortedRows(table).map((row) => row.data).join(',')}]`;
+  };
+
+  const setItem = async (key: string, value: string): Promise<void> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      values.set(key, value);
+      return;
+    }
+
+    const sessions = parseSessionsDocument(value);
+    sessionTables.set(babyId, new Map(sessions.map((s) => [s.id, toRow(s)])));
+  };
+
+  const removeItem = async (key: string): Promise<void> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      values.delete(key);
+    } else {
+      sessionTables.delete(babyId);
+    }
+  };
+
+  return {
+    name: 'memory',
+    getItem,
+    setItem,
+    removeItem,
+
+    getAllKeys: async () => {
+      const sessionKeys = Array.from(sessionTables.entries())
+        .filter(([, table]) => table.size > 0)
+        .map(([babyId]) => sessionsKeyFor(babyId));
+      return [...values.keys(), ...sessionKeys];
+    },
+
+    multiGet: async (keys) =>
+      Promise.all(keys.map(async (key) => [key, await getItem(key)] as const)),
+
+    multiSet: async (pairs) => {
+      // Validate session documents up front so a bad pair writes nothing
+      pairs.forEach(([key, value]) => {
+        if (parseSessionsKey(key) !== null) {
+          parseSessionsDocument(value);
+        }
+      });
+      for (const [key, value] of pairs) {
+        await setItem(key, value);
+      }
+    },
+
+    multiRemove: async (keys) => {
+      for (const key of keys) {
+        await removeItem(key);
+      }
+    },
+
+    sessions: {
+      upsertSessions: async (babyId, sessions) => {
+        const table = sessionTables.get(babyId) ?? new Map<string, SessionRow>();
+        sessions.forEach((session) => table.set(session.id, toRow(session)));
+        sessionTables.set(babyId, table);
+      },
+
+      removeSessions: async (babyId, sessionIds) => {
+        const table = sessionTables.get(babyId);
+        sessionIds.forEach((id) => table?.delete(id));
+      },
+
+      getSessionsInRange: async (babyId, startISO, endISO) => {
+        const table = sessionTables.get(babyId);
+        if (!table) {
+          return [];
+        }
+        const startMs = Date.parse(startISO);
+        const endMs = Date.parse(endISO);
+        return sortedRows(table)
+          .filter((row) => row.startMs < endMs && row.endMs > startMs)
+          .map((row) => JSON.parse(row.data) as SleepSession);
+      },
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import * as SQLite from 'expo-sqlite';
+import { SleepSession } from '../../types';
+import {
+  StorageAdapter,
+  parseSessionsKey,
+  sessionsKeyFor,
+  parseSessionsDocument,
+} from './types';
+
+const DEFAULT_DATABASE_NAME = 'coddle.db';
+
+interface SessionRow {
+  baby_id: string;
+  data: string;
+}
+
+/**
+ * SQLite adapter. Small documents live in a `kv` table; sleep sessions get
+ * their own table indexed by child and start time, so logging one session is
+ * a single-row upsert instead of rewriting months of history.
+ */
+export async function createSQLiteAdapter(
+  databaseName: string = DEFAULT_DATABASE_NAME
+): Promise<StorageAdapter> {
+  const db = await SQLite.openDatabaseAsync(databaseName);
+
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS kv (
+      key TEXT PRIMARY KEY NOT NULL,
+      value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sleep_sessions (
+      baby_id TEXT NOT NULL,
+      id TEXT NOT NULL,
+      start_ms INTEGER NOT NULL,
+      end_ms INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (baby_id, id)
+    );
+    CREATE INDEX IF NOT EXISTS sleep_sessions_by_start ON sleep_sessions (baby_id, start_ms);
+  `);
+
+  const upsertRows = async (babyId: string, sessions: SleepSession[]): Promise<void> => {
+    for (const session of sessions) {
+      await db.runAsync(
+        `INSERT INTO sleep_sessions (baby_id, id, start_ms, end_ms, data)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (baby_id, id) DO UPDATE SET
+           start_ms = excluded.start_ms, end_ms = excluded.end_ms, data = excluded.data`,
+        babyId,
+        session.id,
+        Date.parse(session.startISO),
+        Date.parse(session.endISO),
+        JSON.stringify(session)
+      );
+    }
+  };
+
+  const getItem = async (key: string): Promise<string | null> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      const row = await db.getFirstAsync<{ value: string }>(
+        'SELECT value FROM kv WHERE key = ?',
+        key
+      );
+      return row ? row.value : null;
+    }
+
+    const rows = await db.getAllAsync<SessionRow>(
+      'SELECT baby_id, data FROM sleep_sessions WHERE baby_id = ? ORDER BY start_ms',
+      babyId
+    );
+    return rows.length > 0 ? `[${rows.map((row) => row.data).join(',')}]` : null;
+  };
+
+  // Callers wrap these in a transaction
+  const writeItem = async (key: string, value: string): Promise<void> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      await db.runAsync(
+        'INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+        key,
+        value
+      );
+      return;
+    }
+
+    const sessions = parseSessionsDocument(value);
+    await db.runAsync('DELETE FROM sleep_sessions WHERE baby_id = ?', babyId);
+    await upsertRows(babyId, sessions);
+  };
+
+  const deleteItem = async (key: string): Promise<void> => {
+    const babyId = parseSessionsKey(key);
+    if (babyId === null) {
+      await db.runAsync('DELETE FROM kv WHERE key = ?', key);
+    } else {
+      await db.runAsync('DELETE FROM sleep_sessions WHERE baby_id = ?', babyId);
+    }
+  };
+
+  return {
+    name: 'sqlite',
+    getItem,
+
+    setItem: (key, value) => db.withTransactionAsync(() => writeItem(key, value)),
+
+    removeItem: (key) => deleteItem(key),
+
+    getAllKeys: async () => {
+      const kvRows = await db.getAllAsync<{ key: string }>('SELECT key FROM kv');
+      const sessionRows = await db.getAllAsync<{ baby_id: string }>(
+        'SELECT DISTINCT baby_id FROM sleep_sessions'
+      );
+      return [
+        ...kvRows.map((row) => row.key),
+        ...sessionRows.map((row) => sessionsKeyFor(row.baby_id)),
+      ];
+    },
+
+    multiGet: async (keys) =>
+      Promise.all(keys.map(async (key) => [key, await getItem(key)] as const)),
+
+    multiSet: (pairs) =>
+      db.withTransactionAsync(async () => {
+        for (const [key, value] of pairs) {
+          await writeItem(key, value);
+        }
+      }),
+
+    multiRemove: (keys) =>
+      db.withTransactionAsync(async () => {
+        for (const key of keys) {
+          await deleteItem(key);
+        }
+      }),
+
+    sessions: {
+      upsertSessions: (babyId, sessions) =>
+        db.withTransactionAsync(() => upsertRows(babyId, sessions)),
+
+      removeSessions: (babyId, sessionIds) =>
+        db.withTransactionAsync(async () => {
+          for (const id of sessionIds) {
+            await db.runAsync(
+              'DELETE FROM sleep_sessions WHERE baby_id = ? AND id = ?',
+              babyId,
+              id
+            );
+          }
+        }),
+
+      getSessionsInRange: async (babyId, startISO, endISO) => {
+        const rows = await db.getAllAsync<SessionRow>(
+          `SELECT baby_id, data FROM sleep_sessions
+           WHERE baby_id = ? AND start_ms < ? AND end_ms > ?
+           ORDER BY start_ms`,
+          babyId,
+          Date.parse(endISO),
+          Date.parse(startISO)
+        );
+        return rows.map((row) => JSON.parse(row.data) as SleepSession);
+      },
+    },
+  };
+}
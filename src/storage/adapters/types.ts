@@ -0,0 +1,60 @@
+import { SleepSession } from '../../types';
+import { STORAGE_KEYS } from '../../config/constants';
+
+/**
+ * Minimal key-value contract, shaped after AsyncStorage so it can be passed
+ * straight through. Every adapter must support it; migrations, quarantine and
+ * backups only ever talk to storage through these methods.
+ */
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  multiGet(keys: readonly string[]): Promise<readonly (readonly [string, string | null])[]>;
+  multiSet(pairs: [string, string][]): Promise<void>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+/**
+ * Row-level access to sleep sessions for adapters that index them.
+ */
+export interface SessionIndex {
+  upsertSessions(babyId: string, sessions: SleepSession[]): Promise<void>;
+  removeSessions(babyId: string, sessionIds: string[]): Promise<void>;
+  // Sessions overlapping [startISO, endISO), ordered by start
+  getSessionsInRange(babyId: string, startISO: string, endISO: string): Promise<SleepSession[]>;
+}
+
+export interface StorageAdapter extends KeyValueStore {
+  readonly name: string;
+  // Absent on plain key-value adapters; callers fall back to the whole-array document
+  readonly sessions?: SessionIndex;
+}
+
+/**
+ * Indexed adapters still expose each child's sessions as a JSON array under the
+ * usual `<sessionsKey>:<babyId>` key. Returns the child id for such keys, the
+ * empty string for the unpartitioned key, or null for anything else.
+ */
+export function parseSessionsKey(key: string): string | null {
+  if (key === STORAGE_KEYS.sessions) {
+    return '';
+  }
+  if (key.startsWith(`${STORAGE_KEYS.sessions}:`)) {
+    return key.slice(STORAGE_KEYS.sessions.length + 1);
+  }
+  return null;
+}
+
+export function sessionsKeyFor(babyId: string): string {
+  return babyId ? `${STORAGE_KEYS.sessions}:${babyId}` : STORAGE_KEYS.sessions;
+}
+
+export function parseSessionsDocument(value: string): SleepSession[] {
+  const parsed = JSON.parse(value);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Sleep sessions must be stored as an array');
+  }
+  return parsed as SleepSession[];
+}
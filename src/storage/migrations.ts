@@ -0,0 +1,105 @@
+/**
+ * Schema migrations for persisted child data.
+ *
+ * Each migration upgrades one child's sessions, learner state and notification
+ * history by exactly one schema version. Migrations are pure so the runner in
+ * sleepStorage can compute every result before writing anything.
+ */
+
+export interface MigrationData {
+  // Parsed values as stored; undefined when the key is missing or unreadable
+  sessions: unknown;
+  learner: unknown;
+  notificationHistory: unknown;
+}
+
+export interface Migration {
+  // Schema version this migration upgrades to
+  version: number;
+  description: string;
+  migrate: (data: MigrationData) => MigrationData;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: { version: number; description: string }[];
+  migratedKeys: number;
+  success: boolean;
+  backupKey: string | null;
+  error?: string;
+  completedAtISO: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * v0 -> v1: early builds wrote sessions without `source` or `updatedAtISO`
+ * and learner state without a `version` field.
+ */
+function migrateToV1(data: MigrationData): MigrationData {
+  const sessions = Array.isArray(data.sessions)
+    ? data.sessions.map((session) => {
+        if (!isRecord(session)) {
+          return session;
+        }
+        return {
+          ...session,
+          source: session.source ?? 'manual',
+          updatedAtISO: session.updatedAtISO ?? session.endISO ?? session.startISO,
+        };
+      })
+    : data.sessions;
+
+  const learner = isRecord(data.learner)
+    ? { ...data.learner, version: data.learner.version ?? 1 }
+    : data.learner;
+
+  return { ...data, sessions, learner };
+}
+
+/**
+ * Ordered registry. Append new migrations with the next version number and
+ * bump CURRENT_SCHEMA_VERSION to match.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Backfill session source/updatedAtISO and learner version',
+    migrate: migrateToV1,
+  },
+];
+
+/**
+ * Returns the migrations needed to go from `fromVersion` to `toVersion`, in order.
+ * Throws if the registry has a gap, since skipping a step would corrupt data.
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  toVersion: number,
+  registry: Migration[] = MIGRATIONS
+): Migration[] {
+  const pending = registry
+    .filter((m) => m.version > fromVersion && m.version <= toVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let expected = fromVersion + 1;
+  for (const migration of pending) {
+    if (migration.version !== expected) {
+      throw new Error(`Missing migration to schema version ${expected}`);
+    }
+    expected++;
+  }
+
+  if (fromVersion < toVersion && expected !== toVersion + 1) {
+    throw new Error(`Missing migration to schema version ${expected}`);
+  }
+
+  return pending;
+}
+
+export function applyMigrations(data: MigrationData, migrations: Migration[]): MigrationData {
+  return migrations.reduce((current, migration) => migration.migrate(current), data);
+}
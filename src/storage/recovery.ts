@@ -0,0 +1,107 @@
+/**
+ * Partial recovery for corrupted storage payloads.
+ *
+ * Most corruption we see is truncation: the app was killed mid-write and the
+ * tail of a JSON array is missing. Every complete object before the damage
+ * can still be parsed on its own.
+ */
+
+/**
+ * Extracts each complete top-level object from a (possibly truncated) JSON array.
+ * Objects that fail to parse are skipped.
+ */
+export function salvageJsonArray(raw: string): unknown[] {
+  const start = raw.indexOf('[');
+  if (start === -1) {
+    return [];
+  }
+
+  const salvaged: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  for (let i = start + 1; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0 && char === '{') {
+        objectStart = i;
+      }
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) {
+        // End of the outer array
+        break;
+      }
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        try {
+          salvaged.push(JSON.parse(raw.slice(objectStart, i + 1)));
+        } catch {
+          // Damaged element; keep scanning for the next one
+        }
+        objectStart = -1;
+      }
+    }
+  }
+
+  return salvaged;
+}
+
+function hasStringFields(value: unknown, fields: string[]): value is Record<string, string> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return fields.every((field) => typeof record[field] === 'string');
+}
+
+export function isSleepSessionLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'startISO', 'endISO']);
+}
+
+export function isNotificationHistoryItemLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'scheduleBlockId', 'scheduledForISO']);
+}
+
+export function isBabyProfileLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'name', 'birthDateISO']);
+}
+
+export function isCaregiverLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'name', 'role']);
+}
+
+export function isFeedingLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'type', 'startISO', 'endISO']);
+}
+
+export function isDisruptionLike(value: unknown): boolean {
+  return hasStringFields(value, ['id', 'type', 'startDayKey', 'endDayKey']);
+}
+
+/**
+ * Builds a recovery function for array payloads that keeps only salvaged
+ * elements passing `isValid`. Returns null when nothing could be saved.
+ */
+export function arrayRecovery<T>(isValid: (value: unknown) => boolean) {
+  return (raw: string): T[] | null => {
+    const items = salvageJsonArray(raw).filter(isValid) as T[];
+    return items.length > 0 ? items : null;
+  };
+}
@@ -0,0 +1,19 @@
+import { asyncStorageAdapter } from './adapters';
+import { createSQLiteAdapter } from './adapters/sqliteAdapter';
+import { setStorageAdapter, adoptStorageFrom } from './sleepStorage';
+
+/**
+ * Moves the app onto the SQLite backend, copying over anything still in
+ * AsyncStorage on first run. Falls back to AsyncStorage if SQLite is
+ * unavailable (e.g. on web) or the copy fails, leaving the original data intact.
+ */
+export async function initializeStorage(): Promise<void> {
+  try {
+    const adapter = await createSQLiteAdapter();
+    setStorageAdapter(adapter);
+    await adoptStorageFrom(asyncStorageAdapter);
+  } catch (error) {
+    console.error('Error initializing SQLite storage:', error);
+    setStorageAdapter(asyncStorageAdapter);
+  }
+}
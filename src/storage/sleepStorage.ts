@@ -1,5 +1,29 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SleepSession, LearnerState } from '../types';
+import {
+  SleepSession,
+  LearnerState,
+  BabyProfile,
+  Caregiver,
+  FeedingSession,
+  DisruptionEpisode,
+} from '../types';
+import {
+  MigrationData,
+  MigrationReport,
+  getPendingMigrations,
+  applyMigrations,
+} from './migrations';
+import { StorageAdapter, KeyValueStore, asyncStorageAdapter } from './adapters';
+import {
+  arrayRecovery,
+  isSleepSessionLike,
+  isNotificationHistoryItemLike,
+  isBabyProfileLike,
+  isCaregiverLike,
+  isFeedingLike,
+  isDisruptionLike,
+} from './recovery';
+
+export type { MigrationReport } from './migrations';
 
 export interface NotificationHistoryItem {
   id: string;
@@ -15,6 +39,21 @@ export interface NotificationHistoryItem {
   sentAtISO?: string;
 }
 
+export interface SyncState {
+  // Opaque server position; changes after it have not been pulled yet
+  cursor: string | null;
+  // Local edits at or before this time have been pushed
+  pushedThroughISO: string | null;
+  lastSyncedAtISO: string | null;
+}
+
+export interface SyncConfig {
+  endpoint: string;
+  // Shared by every caregiver in the family
+  token: string;
+  deviceId: string;
+}
+
 import {
   CURRENT_SCHEMA_VERSION,
   STORAGE_KEYS,
@@ -23,17 +62,154 @@ import {
 const SESSIONS_KEY = STORAGE_KEYS.sessions;
 const LEARNER_KEY = STORAGE_KEYS.learner;
 const NOTIFICATION_HISTORY_KEY = STORAGE_KEYS.notificationHistory;
+const PROFILES_KEY = STORAGE_KEYS.profiles;
+const ACTIVE_PROFILE_KEY = STORAGE_KEYS.activeProfileId;
+const LEGACY_PROFILE_KEY = STORAGE_KEYS.legacyProfile;
 const SCHEMA_VERSION_KEY = STORAGE_KEYS.schemaVersion;
+const SCHEMA_BACKUP_KEY = STORAGE_KEYS.schemaBackup;
+const QUARANTINE_KEY = STORAGE_KEYS.quarantine;
+const STORAGE_ADOPTED_KEY = STORAGE_KEYS.storageAdopted;
+const SYNC_STATE_KEY = STORAGE_KEYS.syncState;
+const SYNC_CONFIG_KEY = STORAGE_KEYS.syncConfig;
+const SESSION_ARCHIVE_KEY = STORAGE_KEYS.sessionArchive;
+const CAREGIVERS_KEY = STORAGE_KEYS.caregivers;
+const ACTIVE_CAREGIVER_KEY = STORAGE_KEYS.activeCaregiverId;
+const FEEDINGS_KEY = STORAGE_KEYS.feedings;
+const DISRUPTIONS_KEY = STORAGE_KEYS.disruptions;
+
+const CHILD_SCOPED_KEYS = [
+  SESSIONS_KEY,
+  LEARNER_KEY,
+  NOTIFICATION_HISTORY_KEY,
+  SYNC_STATE_KEY,
+  FEEDINGS_KEY,
+  DISRUPTIONS_KEY,
+];
+
+let storage: StorageAdapter = asyncStorageAdapter;
+
+/**
+ * Swaps the backend used by every function in this module. Pending migration
+ * state is reset so the new backend is checked on next access.
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  storage = adapter;
+  migrationRun = null;
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  return storage;
+}
+
+function isSessionsKey(key: string): boolean {
+  return key === SESSIONS_KEY || key.startsWith(`${SESSIONS_KEY}:`);
+}
+
+function isJsonArray(raw: string): boolean {
+  try {
+    return Array.isArray(JSON.parse(raw));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copies everything from a previous backend into the current one, once.
+ * The marker is kept in the current backend so data deleted later is never
+ * resurrected. Unreadable session arrays go to quarantine rather than
+ * blocking the copy. The source is cleared only after the copy succeeds.
+ */
+export async function adoptStorageFrom(source: KeyValueStore): Promise<number> {
+  if (await storage.getItem(STORAGE_ADOPTED_KEY)) {
+    return 0;
+  }
+
+  const keys = await source.getAllKeys();
+  const entries = await source.multiGet(keys);
+
+  const pairs: [string, string][] = [];
+  const unreadable: [string, string][] = [];
+  for (const [key, value] of entries) {
+    if (value === null) {
+      continue;
+    }
+    if (isSessionsKey(key) && !isJsonArray(value)) {
+      unreadable.push([key, value]);
+    } else {
+      pairs.push([key, value]);
+    }
+  }
+
+  await storage.multiSet([...pairs, [STORAGE_ADOPTED_KEY, new Date().toISOString()]]);
+  for (const [key, raw] of unreadable) {
+    await quarantineAndRecover<SleepSession[]>(
+      key,
+      raw,
+      [],
+      arrayRecovery<SleepSession>(isSleepSessionLike)
+    );
+  }
+
+  if (keys.length > 0) {
+    await source.multiRemove(keys);
+  }
+  return pairs.length + unreadable.length;
+}
+
+/**
+ * Per-child data lives under `<baseKey>:<babyId>` so siblings never share
+ * sessions, feeds, learner state or notification history.
+ */
+function childKey(baseKey: string, babyId: string): string {
+  return `${baseKey}:${babyId}`;
+}
 
 export interface LoadResult<T> {
   value: T;
   corrupted: boolean;
+  // Set when the stored payload was unreadable and moved to quarantine
+  quarantineKey?: string;
+  // Number of items salvaged from the unreadable payload
+  recoveredCount?: number;
+}
+
+export type QuarantinedDataType =
+  | 'sessions'
+  | 'learner'
+  | 'notificationHistory'
+  | 'profiles'
+  | 'sync'
+  | 'caregivers'
+  | 'feedings'
+  | 'disruptions';
+
+export interface QuarantineEntry {
+  id: string;
+  sourceKey: string;
+  dataType: QuarantinedDataType;
+  // Child the data belonged to; null for app-wide data such as profiles
+  babyId: string | null;
+  raw: string;
+  recoveredCount: number;
+  quarantinedAtISO: string;
 }
 
+const QUARANTINE_DATA_TYPES: [string, QuarantinedDataType][] = [
+  [SESSIONS_KEY, 'sessions'],
+  [LEARNER_KEY, 'learner'],
+  [NOTIFICATION_HISTORY_KEY, 'notificationHistory'],
+  [PROFILES_KEY, 'profiles'],
+  [SYNC_STATE_KEY, 'sync'],
+  [SYNC_CONFIG_KEY, 'sync'],
+  [CAREGIVERS_KEY, 'caregivers'],
+  [FEEDINGS_KEY, 'feedings'],
+  [DISRUPTIONS_KEY, 'disruptions'],
+];
+
 
 async function getSchemaVersion(): Promise<number> {
   try {
-    const version = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    const version = await storage.getItem(SCHEMA_VERSION_KEY);
     return version ? parseInt(version, 10) : 0;
   } catch {
     return 0;
@@ -41,90 +217,614 @@ async function getSchemaVersion(): Promise<number> {
 }
 
 async function setSchemaVersion(version: number): Promise<void> {
-  await AsyncStorage.setItem(SCHEMA_VERSION_KEY, version.toString());
+  await storage.setItem(SCHEMA_VERSION_KEY, version.toString());
 }
 
-async function migrateSchema(oldVersion: number, newVersion: number): Promise<void> {
-  if (oldVersion >= newVersion) {
-    return;
+function schemaBackupKey(fromVersion: number): string {
+  return `${SCHEMA_BACKUP_KEY}_v${fromVersion}`;
+}
+
+type MigrationDataField = keyof MigrationData;
+
+const MIGRATION_FIELDS: [MigrationDataField, string][] = [
+  ['sessions', SESSIONS_KEY],
+  ['learner', LEARNER_KEY],
+  ['notificationHistory', NOTIFICATION_HISTORY_KEY],
+];
+
+/**
+ * Groups child-scoped keys by child id. Unpartitioned keys from before
+ * profiles existed are grouped under the empty string.
+ */
+function groupChildKeys(allKeys: readonly string[]): Map<string, Map<MigrationDataField, string>> {
+  const groups = new Map<string, Map<MigrationDataField, string>>();
+
+  for (const key of allKeys) {
+    for (const [field, baseKey] of MIGRATION_FIELDS) {
+      let groupId: string | null = null;
+      if (key === baseKey) {
+        groupId = '';
+      } else if (key.startsWith(`${baseKey}:`)) {
+        groupId = key.slice(baseKey.length + 1);
+      }
+      if (groupId === null) {
+        continue;
+      }
+
+      const group = groups.get(groupId) ?? new Map<MigrationDataField, string>();
+      group.set(field, key);
+      groups.set(groupId, group);
+    }
   }
 
-  if (oldVersion === 0 && newVersion === 1) {
-    await setSchemaVersion(1);
-    return;
+  return groups;
+}
+
+function parseStored(raw: string | null): unknown {
+  if (raw === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Unreadable values are left for loadJson to deal with
+    return undefined;
+  }
+}
+
+/**
+ * Upgrades all stored child data to CURRENT_SCHEMA_VERSION.
+ *
+ * Every migrated value is computed in memory first. The original values are
+ * snapshotted under a backup key before anything is written, and restored if
+ * any write fails, so data is never left half-migrated.
+ */
+async function performMigrations(): Promise<MigrationReport> {
+  const fromVersion = await getSchemaVersion();
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    applied: [],
+    migratedKeys: 0,
+    success: true,
+    backupKey: null,
+    completedAtISO: new Date().toISOString(),
+  };
+
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return report;
+  }
+
+  let originals: [string, string | null][] = [];
+  try {
+    const migrations = getPendingMigrations(fromVersion, CURRENT_SCHEMA_VERSION);
+    report.applied = migrations.map(({ version, description }) => ({ version, description }));
+
+    const groups = groupChildKeys(await storage.getAllKeys());
+    const keys = Array.from(groups.values()).flatMap((group) => Array.from(group.values()));
+    originals = (await storage.multiGet(keys)) as [string, string | null][];
+    const rawByKey = new Map(originals);
+
+    const updates: [string, string][] = [];
+    for (const group of groups.values()) {
+      const data: MigrationData = {
+        sessions: undefined,
+        learner: undefined,
+        notificationHistory: undefined,
+      };
+      for (const [field, key] of group) {
+        data[field] = parseStored(rawByKey.get(key) ?? null);
+      }
+
+      const migrated = applyMigrations(data, migrations);
+      for (const [field, key] of group) {
+        if (data[field] === undefined || migrated[field] === undefined) {
+          continue;
+        }
+        updates.push([key, JSON.stringify(migrated[field])]);
+      }
+    }
+
+    if (originals.length > 0) {
+      report.backupKey = schemaBackupKey(fromVersion);
+      await storage.setItem(
+        report.backupKey,
+        JSON.stringify({ fromVersion, createdAtISO: report.completedAtISO, entries: originals })
+      );
+    }
+
+    await storage.multiSet([...updates, [SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION.toString()]]);
+    report.migratedKeys = updates.length;
+  } catch (error) {
+    report.success = false;
+    report.error = error instanceof Error ? error.message : 'Migration failed';
+    await restoreOriginals(originals, fromVersion);
   }
 
-  
-  await setSchemaVersion(newVersion);
+  report.completedAtISO = new Date().toISOString();
+  return report;
 }
 
-async function loadJson<T>(key: string, fallback: T): Promise<LoadResult<T>> {
+async function restoreOriginals(
+  originals: [string, string | null][],
+  fromVersion: number
+): Promise<void> {
   try {
-    const currentVersion = await getSchemaVersion();
-    if (currentVersion < CURRENT_SCHEMA_VERSION) {
-      await migrateSchema(currentVersion, CURRENT_SCHEMA_VERSION);
+    const present = originals.filter((entry): entry is [string, string] => entry[1] !== null);
+    if (present.length > 0) {
+      await storage.multiSet(present);
     }
+    await setSchemaVersion(fromVersion);
+  } catch {
+    // The backup key still holds the originals for manual recovery
+  }
+}
 
-    const raw = await AsyncStorage.getItem(key);
-    if (!raw) {
-      return { value: fallback, corrupted: false };
+let migrationRun: Promise<MigrationReport> | null = null;
+
+/**
+ * Runs pending migrations once per app session. Safe to call from anywhere;
+ * concurrent callers share the same run and report. A failed run is not
+ * kept, so the next load or save tries again before touching data rather
+ * than writing it under the old schema version.
+ */
+export function runMigrations(): Promise<MigrationReport> {
+  if (!migrationRun) {
+    migrationRun = performMigrations().then((report) => {
+      if (!report.success) {
+        migrationRun = null;
+      }
+      return report;
+    });
+  }
+  return migrationRun;
+}
+
+function describeSourceKey(sourceKey: string): { dataType: QuarantinedDataType; babyId: string | null } {
+  // Archive keys carry the month after the child id
+  if (sourceKey.startsWith(`${SESSION_ARCHIVE_KEY}:`)) {
+    return {
+      dataType: 'sessions',
+      babyId: sourceKey.slice(SESSION_ARCHIVE_KEY.length + 1).split(':')[0],
+    };
+  }
+  for (const [baseKey, dataType] of QUARANTINE_DATA_TYPES) {
+    if (sourceKey.startsWith(`${baseKey}:`)) {
+      return { dataType, babyId: sourceKey.slice(baseKey.length + 1) };
+    }
+    if (sourceKey === baseKey) {
+      return { dataType, babyId: null };
     }
+  }
+  return { dataType: 'profiles', babyId: null };
+}
+
+/**
+ * Copies an unreadable payload to its own quarantine key so it is never lost,
+ * then replaces the original with whatever could be salvaged.
+ */
+async function quarantineAndRecover<T>(
+  key: string,
+  raw: string,
+  fallback: T,
+  recover?: (raw: string) => T | null
+): Promise<LoadResult<T>> {
+  const recovered = recover ? recover(raw) : null;
+  const recoveredCount =
+    recovered === null ? 0 : Array.isArray(recovered) ? recovered.length : 1;
+
+  const entry: QuarantineEntry = {
+    id: `${QUARANTINE_KEY}:${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    sourceKey: key,
+    ...describeSourceKey(key),
+    raw,
+    recoveredCount,
+    quarantinedAtISO: new Date().toISOString(),
+  };
+  await storage.setItem(entry.id, JSON.stringify(entry));
+
+  if (recovered !== null) {
+    await storage.setItem(key, JSON.stringify(recovered));
+  } else {
+    await storage.removeItem(key);
+  }
+
+  return {
+    value: recovered ?? fallback,
+    corrupted: true,
+    quarantineKey: entry.id,
+    recoveredCount,
+  };
+}
+
+async function loadJson<T>(
+  key: string,
+  fallback: T,
+  recover?: (raw: string) => T | null
+): Promise<LoadResult<T>> {
+  await runMigrations();
+
+  const raw = await storage.getItem(key);
+  if (!raw) {
+    return { value: fallback, corrupted: false };
+  }
+
+  try {
     return { value: JSON.parse(raw) as T, corrupted: false };
-  } catch (error) {
-    await AsyncStorage.removeItem(key);
-    return { value: fallback, corrupted: true };
+  } catch {
+    return quarantineAndRecover(key, raw, fallback, recover);
   }
 }
 
 async function saveJson<T>(key: string, value: T): Promise<void> {
-  await AsyncStorage.setItem(key, JSON.stringify(value));
+  // Never write current-shape data underneath an older schema version
+  await runMigrations();
+  await storage.setItem(key, JSON.stringify(value));
 }
 
-export async function loadSleepSessions(): Promise<LoadResult<SleepSession[]>> {
-  return loadJson<SleepSession[]>(SESSIONS_KEY, []);
+export async function loadSleepSessions(babyId: string): Promise<LoadResult<SleepSession[]>> {
+  return loadJson<SleepSession[]>(
+    childKey(SESSIONS_KEY, babyId),
+    [],
+    arrayRecovery<SleepSession>(isSleepSessionLike)
+  );
 }
 
-export async function saveSleepSessions(sessions: SleepSession[]): Promise<void> {
-  await saveJson(SESSIONS_KEY, sessions);
+export async function saveSleepSessions(babyId: string, sessions: SleepSession[]): Promise<void> {
+  await saveJson(childKey(SESSIONS_KEY, babyId), sessions);
 }
 
-export async function loadLearnerState(): Promise<LoadResult<LearnerState | null>> {
-  return loadJson<LearnerState | null>(LEARNER_KEY, null);
+/**
+ * Inserts or replaces sessions by id. Indexed backends write only these rows;
+ * others rewrite the child's session array.
+ */
+export async function upsertSleepSessions(babyId: string, sessions: SleepSession[]): Promise<void> {
+  await runMigrations();
+  if (storage.sessions) {
+    await storage.sessions.upsertSessions(babyId, sessions);
+    return;
+  }
+
+  const { value: existing } = await loadSleepSessions(babyId);
+  const byId = new Map(existing.map((session) => [session.id, session]));
+  sessions.forEach((session) => byId.set(session.id, session));
+  await saveSleepSessions(babyId, Array.from(byId.values()));
 }
 
-export async function saveLearnerState(state: LearnerState | null): Promise<void> {
-  await setSchemaVersion(CURRENT_SCHEMA_VERSION);
-  await saveJson(LEARNER_KEY, state);
+/**
+ * Permanently removes sessions. Normal deletes are soft (`deleted: true`)
+ * and go through upsertSleepSessions instead.
+ */
+export async function removeSleepSessions(babyId: string, sessionIds: string[]): Promise<void> {
+  await runMigrations();
+  if (storage.sessions) {
+    await storage.sessions.removeSessions(babyId, sessionIds);
+    return;
+  }
+
+  const ids = new Set(sessionIds);
+  const { value: existing } = await loadSleepSessions(babyId);
+  await saveSleepSessions(
+    babyId,
+    existing.filter((session) => !ids.has(session.id))
+  );
+}
+
+/**
+ * Sessions overlapping [startISO, endISO), ordered by start time.
+ */
+export async function loadSleepSessionsInRange(
+  babyId: string,
+  startISO: string,
+  endISO: string
+): Promise<SleepSession[]> {
+  await runMigrations();
+  if (storage.sessions) {
+    return storage.sessions.getSessionsInRange(babyId, startISO, endISO);
+  }
+
+  const startMs = Date.parse(startISO);
+  const endMs = Date.parse(endISO);
+  const { value: sessions } = await loadSleepSessions(babyId);
+  return sessions
+    .filter(
+      (session) => Date.parse(session.startISO) < endMs && Date.parse(session.endISO) > startMs
+    )
+    .sort((a, b) => Date.parse(a.startISO) - Date.parse(b.startISO));
 }
 
-export async function loadNotificationHistory(): Promise<LoadResult<NotificationHistoryItem[]>> {
-  return loadJson<NotificationHistoryItem[]>(NOTIFICATION_HISTORY_KEY, []);
+function archiveKey(babyId: string, monthKey: string): string {
+  return `${SESSION_ARCHIVE_KEY}:${babyId}:${monthKey}`;
 }
 
-export async function saveNotificationHistory(history: NotificationHistoryItem[]): Promise<void> {
-  await saveJson(NOTIFICATION_HISTORY_KEY, history);
+/**
+ * Months (YYYY-MM) with archived sessions for a child, oldest first.
+ */
+export async function listArchivedMonths(babyId: string): Promise<string[]> {
+  await runMigrations();
+  const prefix = archiveKey(babyId, '');
+  const keys = await storage.getAllKeys();
+  return keys
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length))
+    .sort();
+}
+
+export async function loadArchivedSessions(
+  babyId: string,
+  monthKey: string
+): Promise<LoadResult<SleepSession[]>> {
+  return loadJson<SleepSession[]>(
+    archiveKey(babyId, monthKey),
+    [],
+    arrayRecovery<SleepSession>(isSleepSessionLike)
+  );
+}
+
+/**
+ * Moves sessions from the live list into monthly archive buckets and drops
+ * `purgeIds` for good. Archives are written first, so an interrupted run
+ * leaves a session in both places rather than in neither.
+ */
+export async function archiveSleepSessions(
+  babyId: string,
+  buckets: Record<string, SleepSession[]>,
+  purgeIds: string[]
+): Promise<void> {
+  const movedIds: string[] = [];
+  for (const [monthKey, sessions] of Object.entries(buckets)) {
+    const { value: existing } = await loadArchivedSessions(babyId, monthKey);
+    const byId = new Map(existing.map((session) => [session.id, session]));
+    for (const session of sessions) {
+      byId.set(session.id, session);
+      movedIds.push(session.id);
+    }
+    await saveJson(
+      archiveKey(babyId, monthKey),
+      Array.from(byId.values()).sort((a, b) => Date.parse(a.startISO) - Date.parse(b.startISO))
+    );
+  }
+
+  const removedIds = [...movedIds, ...purgeIds];
+  if (removedIds.length > 0) {
+    await removeSleepSessions(babyId, removedIds);
+  }
+}
+
+export async function loadLearnerState(babyId: string): Promise<LoadResult<LearnerState | null>> {
+  return loadJson<LearnerState | null>(childKey(LEARNER_KEY, babyId), null);
+}
+
+export async function saveLearnerState(babyId: string, state: LearnerState | null): Promise<void> {
+  await saveJson(childKey(LEARNER_KEY, babyId), state);
+}
+
+export async function loadNotificationHistory(
+  babyId: string
+): Promise<LoadResult<NotificationHistoryItem[]>> {
+  return loadJson<NotificationHistoryItem[]>(
+    childKey(NOTIFICATION_HISTORY_KEY, babyId),
+    [],
+    arrayRecovery<NotificationHistoryItem>(isNotificationHistoryItemLike)
+  );
+}
+
+export async function saveNotificationHistory(
+  babyId: string,
+  history: NotificationHistoryItem[]
+): Promise<void> {
+  await saveJson(childKey(NOTIFICATION_HISTORY_KEY, babyId), history);
+}
+
+export async function loadFeedings(babyId: string): Promise<LoadResult<FeedingSession[]>> {
+  return loadJson<FeedingSession[]>(
+    childKey(FEEDINGS_KEY, babyId),
+    [],
+    arrayRecovery<FeedingSession>(isFeedingLike)
+  );
+}
+
+export async function saveFeedings(babyId: string, feedings: FeedingSession[]): Promise<void> {
+  await saveJson(childKey(FEEDINGS_KEY, babyId), feedings);
+}
+
+export async function loadDisruptions(babyId: string): Promise<LoadResult<DisruptionEpisode[]>> {
+  return loadJson<DisruptionEpisode[]>(
+    childKey(DISRUPTIONS_KEY, babyId),
+    [],
+    arrayRecovery<DisruptionEpisode>(isDisruptionLike)
+  );
+}
+
+export async function saveDisruptions(
+  babyId: string,
+  episodes: DisruptionEpisode[]
+): Promise<void> {
+  await saveJson(childKey(DISRUPTIONS_KEY, babyId), episodes);
+}
+
+export async function loadSyncState(babyId: string): Promise<SyncState> {
+  const { value } = await loadJson<SyncState | null>(childKey(SYNC_STATE_KEY, babyId), null);
+  return value ?? { cursor: null, pushedThroughISO: null, lastSyncedAtISO: null };
+}
+
+export async function saveSyncState(babyId: string, state: SyncState): Promise<void> {
+  await saveJson(childKey(SYNC_STATE_KEY, babyId), state);
+}
+
+export async function loadSyncConfig(): Promise<SyncConfig | null> {
+  const { value } = await loadJson<SyncConfig | null>(SYNC_CONFIG_KEY, null);
+  return value;
+}
+
+export async function saveSyncConfig(config: SyncConfig | null): Promise<void> {
+  if (config === null) {
+    await storage.removeItem(SYNC_CONFIG_KEY);
+    return;
+  }
+  await saveJson(SYNC_CONFIG_KEY, config);
+}
+
+export async function loadCaregivers(): Promise<LoadResult<Caregiver[]>> {
+  return loadJson<Caregiver[]>(CAREGIVERS_KEY, [], arrayRecovery<Caregiver>(isCaregiverLike));
+}
+
+export async function saveCaregivers(caregivers: Caregiver[]): Promise<void> {
+  await saveJson(CAREGIVERS_KEY, caregivers);
+}
+
+export async function getActiveCaregiverId(): Promise<string | null> {
+  try {
+    return await storage.getItem(ACTIVE_CAREGIVER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export async function setActiveCaregiverId(caregiverId: string | null): Promise<void> {
+  if (caregiverId) {
+    await storage.setItem(ACTIVE_CAREGIVER_KEY, caregiverId);
+  } else {
+    await storage.removeItem(ACTIVE_CAREGIVER_KEY);
+  }
+}
+
+export async function loadBabyProfiles(): Promise<LoadResult<BabyProfile[]>> {
+  const result = await loadJson<BabyProfile[] | null>(
+    PROFILES_KEY,
+    null,
+    arrayRecovery<BabyProfile>(isBabyProfileLike)
+  );
+  if (result.value !== null) {
+    return { ...result, value: result.value };
+  }
+
+  // Single-profile installs stored one profile under the legacy key
+  const legacy = await loadJson<BabyProfile | null>(LEGACY_PROFILE_KEY, null);
+  if (!legacy.value) {
+    return { value: [], corrupted: result.corrupted || legacy.corrupted };
+  }
+
+  await saveBabyProfiles([legacy.value]);
+  await setActiveProfileId(legacy.value.id);
+  await claimUnpartitionedData(legacy.value.id);
+  await storage.removeItem(LEGACY_PROFILE_KEY);
+
+  return { value: [legacy.value], corrupted: false };
+}
+
+export async function saveBabyProfiles(profiles: BabyProfile[]): Promise<void> {
+  await saveJson(PROFILES_KEY, profiles);
+}
+
+export async function getActiveProfileId(): Promise<string | null> {
+  try {
+    return await storage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export async function setActiveProfileId(babyId: string | null): Promise<void> {
+  if (babyId) {
+    await storage.setItem(ACTIVE_PROFILE_KEY, babyId);
+  } else {
+    await storage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+}
+
+/**
+ * Moves data written before per-child partitioning (global, unsuffixed keys)
+ * into the given child's keys. Existing data for that child is never overwritten.
+ */
+export async function claimUnpartitionedData(babyId: string): Promise<void> {
+  for (const baseKey of CHILD_SCOPED_KEYS) {
+    const raw = await storage.getItem(baseKey);
+    if (raw === null) {
+      continue;
+    }
+
+    const targetKey = childKey(baseKey, babyId);
+    const existing = await storage.getItem(targetKey);
+    if (existing === null) {
+      await storage.setItem(targetKey, raw);
+    }
+    await storage.removeItem(baseKey);
+  }
+}
+
+export async function clearChildStorage(babyId: string): Promise<void> {
+  const quarantined = await listQuarantinedData();
+  const archivedMonths = await listArchivedMonths(babyId);
+  await storage.multiRemove([
+    ...CHILD_SCOPED_KEYS.map((key) => childKey(key, babyId)),
+    ...archivedMonths.map((monthKey) => archiveKey(babyId, monthKey)),
+    ...quarantined.filter((entry) => entry.babyId === babyId).map((entry) => entry.id),
+  ]);
+}
+
+export async function listQuarantinedData(): Promise<QuarantineEntry[]> {
+  const allKeys = await storage.getAllKeys();
+  const keys = allKeys.filter((key) => key.startsWith(`${QUARANTINE_KEY}:`));
+  const pairs = await storage.multiGet(keys);
+
+  const entries: QuarantineEntry[] = [];
+  for (const [, raw] of pairs) {
+    if (!raw) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(raw) as QuarantineEntry);
+    } catch {
+      // Quarantine entries are written by us in one setItem; skip if damaged
+    }
+  }
+
+  return entries.sort((a, b) => b.quarantinedAtISO.localeCompare(a.quarantinedAtISO));
+}
+
+export async function discardQuarantinedData(entryId: string): Promise<void> {
+  await storage.removeItem(entryId);
 }
 
 export async function clearAllStorage(): Promise<void> {
-  await AsyncStorage.multiRemove([SESSIONS_KEY, LEARNER_KEY, NOTIFICATION_HISTORY_KEY, SCHEMA_VERSION_KEY]);
+  const allKeys = await storage.getAllKeys();
+  const scopedKeys = allKeys.filter(
+    (key) =>
+      CHILD_SCOPED_KEYS.some((baseKey) => key.startsWith(`${baseKey}:`)) ||
+      key.startsWith(`${SESSION_ARCHIVE_KEY}:`) ||
+      key.startsWith(`${SCHEMA_BACKUP_KEY}_v`) ||
+      key.startsWith(`${QUARANTINE_KEY}:`)
+  );
+
+  await storage.multiRemove([
+    ...CHILD_SCOPED_KEYS,
+    ...scopedKeys,
+    PROFILES_KEY,
+    ACTIVE_PROFILE_KEY,
+    LEGACY_PROFILE_KEY,
+    SCHEMA_VERSION_KEY,
+    SYNC_CONFIG_KEY,
+    CAREGIVERS_KEY,
+    ACTIVE_CAREGIVER_KEY,
+  ]);
 }
 
-export async function getStorageInfo(): Promise<{
+export async function getStorageInfo(babyId: string): Promise<{
   schemaVersion: number;
   hasSessions: boolean;
   hasLearnerState: boolean;
+  hasProfiles: boolean;
 }> {
   const schemaVersion = await getSchemaVersion();
-  const sessions = await AsyncStorage.getItem(SESSIONS_KEY);
-  const learner = await AsyncStorage.getItem(LEARNER_KEY);
+  const sessions = await storage.getItem(childKey(SESSIONS_KEY, babyId));
+  const learner = await storage.getItem(childKey(LEARNER_KEY, babyId));
+  const profiles = await storage.getItem(PROFILES_KEY);
 
   return {
     schemaVersion,
     hasSessions: sessions !== null,
     hasLearnerState: learner !== null,
+    hasProfiles: profiles !== null,
   };
-
-  
 }
-
-
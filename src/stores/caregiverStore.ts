@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { Caregiver } from '../types';
+import {
+  loadCaregivers,
+  saveCaregivers,
+  getActiveCaregiverId,
+  setActiveCaregiverId,
+  LoadResult,
+} from '../storage/sleepStorage';
+import {
+  CaregiverInput,
+  validateCaregiverInput,
+  createCaregiver,
+} from '../services/caregivers';
+import { useRecoveryStore } from './recoveryStore';
+
+interface CaregiverState {
+  caregivers: Caregiver[];
+  // Caregiver using this phone
+  activeCaregiverId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadCaregivers: () => Promise<void>;
+  addCaregiver: (input: CaregiverInput) => Promise<Caregiver | null>;
+  updateCaregiver: (id: string, input: CaregiverInput) => Promise<void>;
+  removeCaregiver: (id: string) => Promise<void>;
+  setActiveCaregiver: (id: string | null) => Promise<void>;
+}
+
+export const useCaregiverStore = create<CaregiverState>((set, get) => ({
+  caregivers: [],
+  activeCaregiverId: null,
+  isLoading: false,
+  error: null,
+
+  loadCaregivers: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const result: LoadResult<Caregiver[]> = await loadCaregivers();
+      const storedActiveId = await getActiveCaregiverId();
+      const activeCaregiverId = result.value.some((c) => c.id === storedActiveId)
+        ? storedActiveId
+        : null;
+      set({ caregivers: result.value, activeCaregiverId, isLoading: false });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load caregivers',
+        isLoading: false,
+      });
+    }
+  },
+
+  addCaregiver: async (input: CaregiverInput) => {
+    const validation = validateCaregiverInput(input, get().caregivers);
+    if (!validation.isValid) {
+      set({ error: validation.error || 'Invalid caregiver' });
+      return null;
+    }
+
+    try {
+      const caregiver = createCaregiver(input);
+      const caregivers = [...get().caregivers, caregiver];
+      await saveCaregivers(caregivers);
+      set({ caregivers, error: null });
+
+      // The first caregiver added on a phone is almost always its owner
+      if (!get().activeCaregiverId) {
+        await get().setActiveCaregiver(caregiver.id);
+      }
+      return caregiver;
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to add caregiver' });
+      return null;
+    }
+  },
+
+  updateCaregiver: async (id: string, input: CaregiverInput) => {
+    const validation = validateCaregiverInput(input, get().caregivers, id);
+    if (!validation.isValid) {
+      set({ error: validation.error || 'Invalid caregiver' });
+      return;
+    }
+
+    try {
+      const caregivers = get().caregivers.map((caregiver) =>
+        caregiver.id === id ? { ...caregiver, name: input.name.trim(), role: input.role } : caregiver
+      );
+      await saveCaregivers(caregivers);
+      set({ caregivers, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update caregiver' });
+    }
+  },
+
+  // Sessions keep the removed id, which then shows as "Another caregiver"
+  removeCaregiver: async (id: string) => {
+    try {
+      const caregivers = get().caregivers.filter((caregiver) => caregiver.id !== id);
+      await saveCaregivers(caregivers);
+      set({ caregivers, error: null });
+      if (get().activeCaregiverId === id) {
+        await get().setActiveCaregiver(null);
+      }
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to remove caregiver' });
+    }
+  },
+
+  setActiveCaregiver: async (id: string | null) => {
+    try {
+      await setActiveCaregiverId(id);
+      set({ activeCaregiverId: id, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to switch caregiver' });
+    }
+  },
+}));
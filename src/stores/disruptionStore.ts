@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import { DisruptionEpisode } from '../types';
+import { loadDisruptions, saveDisruptions, LoadResult } from '../storage/sleepStorage';
+import {
+  DisruptionInput,
+  validateDisruptionInput,
+  createDisruption,
+  sortDisruptions,
+} from '../services/disruptions';
+import { time } from '../utils/time';
+import { useProfileStore } from './profileStore';
+import { useCaregiverStore } from './caregiverStore';
+import { useLearnerStore } from './learnerStore';
+import { useRecoveryStore } from './recoveryStore';
+
+interface DisruptionState {
+  // Active child's episodes, earliest start first
+  episodes: DisruptionEpisode[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadDisruptions: () => Promise<void>;
+  addDisruption: (input: DisruptionInput) => Promise<DisruptionEpisode | null>;
+  deleteDisruption: (id: string) => Promise<void>;
+}
+
+// Episodes change which sessions are learned from
+async function updateLearnerForActiveProfile(): Promise<void> {
+  const babyProfile = useProfileStore.getState().profile;
+  if (babyProfile) {
+    await useLearnerStore.getState().updateLearnerState(babyProfile);
+  }
+}
+
+export const useDisruptionStore = create<DisruptionState>((set, get) => ({
+  episodes: [],
+  isLoading: false,
+  error: null,
+
+  loadDisruptions: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ episodes: [], isLoading: false, error: null });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const result: LoadResult<DisruptionEpisode[]> = await loadDisruptions(babyId);
+      set({ episodes: sortDisruptions(result.value), isLoading: false });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load disruptions',
+        isLoading: false,
+      });
+    }
+  },
+
+  addDisruption: async (input: DisruptionInput) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return null;
+    }
+
+    const validation = validateDisruptionInput(input);
+    if (!validation.isValid) {
+      set({ error: validation.error || 'Invalid disruption' });
+      return null;
+    }
+
+    try {
+      const caregiverId = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const episode = createDisruption(input, time.nowISO(), caregiverId);
+      const episodes = sortDisruptions([...get().episodes, episode]);
+      await saveDisruptions(babyId, episodes);
+      set({ episodes, error: null });
+      await updateLearnerForActiveProfile();
+      return episode;
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to add disruption' });
+      return null;
+    }
+  },
+
+  deleteDisruption: async (id: string) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
+    try {
+      const episodes = get().episodes.filter((episode) => episode.id !== id);
+      await saveDisruptions(babyId, episodes);
+      set({ episodes, error: null });
+      await updateLearnerForActiveProfile();
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to delete disruption' });
+    }
+  },
+}));
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { FeedingSession } from '../types';
+import { loadFeedings, saveFeedings, LoadResult } from '../storage/sleepStorage';
+import {
+  FeedingInput,
+  validateFeedingInput,
+  createFeeding,
+  sortFeedings,
+} from '../services/feedings';
+import { time } from '../utils/time';
+import { useProfileStore } from './profileStore';
+import { useCaregiverStore } from './caregiverStore';
+import { useRecoveryStore } from './recoveryStore';
+
+interface FeedingState {
+  // Active child's feeds, oldest first
+  feedings: FeedingSession[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadFeedings: () => Promise<void>;
+  addFeeding: (input: FeedingInput) => Promise<FeedingSession | null>;
+  deleteFeeding: (id: string) => Promise<void>;
+}
+
+export const useFeedingStore = create<FeedingState>((set, get) => ({
+  feedings: [],
+  isLoading: false,
+  error: null,
+
+  loadFeedings: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ feedings: [], isLoading: false, error: null });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const result: LoadResult<FeedingSession[]> = await loadFeedings(babyId);
+      set({ feedings: sortFeedings(result.value), isLoading: false });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load feeds',
+        isLoading: false,
+      });
+    }
+  },
+
+  addFeeding: async (input: FeedingInput) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return null;
+    }
+
+    const validation = validateFeedingInput(input);
+    if (!validation.isValid) {
+      set({ error: validation.error || 'Invalid feed' });
+      return null;
+    }
+
+    try {
+      const caregiverId = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const feeding = createFeeding(input, time.nowISO(), caregiverId);
+      const feedings = sortFeedings([...get().feedings, feeding]);
+      await saveFeedings(babyId, feedings);
+      set({ feedings, error: null });
+      return feeding;
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to log feed' });
+      return null;
+    }
+  },
+
+  deleteFeeding: async (id: string) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
+    try {
+      const feedings = get().feedings.filter((feeding) => feeding.id !== id);
+      await saveFeedings(babyId, feedings);
+      set({ feedings, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to delete feed' });
+    }
+  },
+}));
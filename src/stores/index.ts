@@ -3,4 +3,10 @@ export { useSleepSessionsStore } from './sleepSessionsStore';
 export { useLearnerStore } from './learnerStore';
 export { useScheduleStore } from './scheduleStore';
 export { useNotificationStore } from './notificationStore';
+export { useProfileStore } from './profileStore';
 
+export { useRecoveryStore } from './recoveryStore';
+export { useSyncStore } from './syncStore';
+export { useCaregiverStore } from './caregiverStore';
+export { useFeedingStore } from './feedingStore';
+export { useDisruptionStore } from './disruptionStore';
@@ -10,17 +10,18 @@ import {
 import { updateLearner } from '../services/learner';
 import { useSleepSessionsStore } from './sleepSessionsStore';
 import { useScheduleStore } from './scheduleStore';
+import { useProfileStore } from './profileStore';
+import { useRecoveryStore } from './recoveryStore';
+import { useDisruptionStore } from './disruptionStore';
 
 interface LearnerStateStore {
   learnerState: LearnerState | null;
   isLoading: boolean;
   error: string | null;
-  babyProfile: BabyProfile | null;
 
   // Actions
   loadLearnerState: () => Promise<void>;
   updateLearnerState: (babyProfile: BabyProfile) => Promise<void>;
-  setBabyProfile: (profile: BabyProfile) => void;
   clearLearnerState: () => Promise<void>;
 }
 
@@ -28,13 +29,21 @@ export const useLearnerStore = create<LearnerStateStore>((set, get) => ({
   learnerState: null,
   isLoading: false,
   error: null,
-  babyProfile: null,
 
   loadLearnerState: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ learnerState: null, isLoading: false, error: null });
+      return;
+    }
+
     set({ isLoading: true, error: null });
     try {
-      const result: LoadResult<LearnerState | null> = await loadLearnerState();
+      const result: LoadResult<LearnerState | null> = await loadLearnerState(babyId);
       set({ learnerState: result.value, isLoading: false });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to load learner state',
@@ -44,17 +53,22 @@ export const useLearnerStore = create<LearnerStateStore>((set, get) => ({
   },
 
   updateLearnerState: async (babyProfile: BabyProfile) => {
+    // Sessions in memory belong to the active child only
+    if (babyProfile.id !== useProfileStore.getState().activeProfileId) {
+      return;
+    }
+
     set({ isLoading: true, error: null });
     try {
       const sessions = useSleepSessionsStore.getState().getActiveSessions();
       const currentState = get().learnerState;
+      const { episodes } = useDisruptionStore.getState();
       
-      const updatedState = updateLearner(sessions, babyProfile, currentState);
-      await saveLearnerState(updatedState);
+      const updatedState = updateLearner(sessions, babyProfile, currentState, episodes);
+      await saveLearnerState(babyProfile.id, updatedState);
       
       set({
         learnerState: updatedState,
-        babyProfile,
         isLoading: false,
         error: null,
       });
@@ -76,13 +90,14 @@ export const useLearnerStore = create<LearnerStateStore>((set, get) => ({
     }
   },
 
-  setBabyProfile: (profile: BabyProfile) => {
-    set({ babyProfile: profile });
-  },
-
   clearLearnerState: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
     try {
-      await saveLearnerState(null);
+      await saveLearnerState(babyId, null);
       set({ learnerState: null, error: null });
     } catch (error) {
       set({
@@ -7,6 +7,8 @@ import {
   saveNotificationHistory,
   LoadResult,
 } from '../storage/sleepStorage';
+import { useProfileStore } from './profileStore';
+import { useRecoveryStore } from './recoveryStore';
 
 interface NotificationState {
   history: NotificationHistoryItem[];
@@ -31,10 +33,19 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   error: null,
 
   loadHistory: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ history: [], isLoading: false, error: null });
+      return;
+    }
+
     set({ isLoading: true, error: null });
     try {
-      const result: LoadResult<NotificationHistoryItem[]> = await loadNotificationHistory();
+      const result: LoadResult<NotificationHistoryItem[]> = await loadNotificationHistory(babyId);
       set({ history: result.value, isLoading: false });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to load notification history',
@@ -44,10 +55,15 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   },
 
   addToHistory: async (item: NotificationHistoryItem) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
     try {
       const currentHistory = get().history;
       const updatedHistory = [...currentHistory, item];
-      await saveNotificationHistory(updatedHistory);
+      await saveNotificationHistory(babyId, updatedHistory);
       set({ history: updatedHistory, error: null });
     } catch (error) {
       set({
@@ -57,12 +73,17 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   },
 
   updateHistoryItem: async (id: string, updates: Partial<NotificationHistoryItem>) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
     try {
       const currentHistory = get().history;
       const updatedHistory = currentHistory.map((item) =>
         item.id === id ? { ...item, ...updates } : item
       );
-      await saveNotificationHistory(updatedHistory);
+      await saveNotificationHistory(babyId, updatedHistory);
       set({ history: updatedHistory, error: null });
     } catch (error) {
       set({
@@ -72,8 +93,13 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   },
 
   clearHistory: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      return;
+    }
+
     try {
-      await saveNotificationHistory([]);
+      await saveNotificationHistory(babyId, []);
       set({ history: [], error: null });
     } catch (error) {
       set({
@@ -0,0 +1,212 @@
+
+
+import { create } from 'zustand';
+import { BabyProfile } from '../types';
+import {
+  loadBabyProfiles,
+  saveBabyProfiles,
+  getActiveProfileId,
+  setActiveProfileId,
+  claimUnpartitionedData,
+  clearChildStorage,
+  runMigrations,
+  LoadResult,
+  MigrationReport,
+} from '../storage/sleepStorage';
+import {
+  ProfileInput,
+  validateProfileInput,
+  createBabyProfile,
+  applyProfileInput,
+  resolveActiveProfile,
+} from '../services/profile';
+import { cancelNotificationsForBaby } from '../services/notifications';
+import { useLearnerStore } from './learnerStore';
+import { useScheduleStore } from './scheduleStore';
+import { useSleepSessionsStore } from './sleepSessionsStore';
+import { useCaregiverStore } from './caregiverStore';
+import { useNotificationStore } from './notificationStore';
+import { useFeedingStore } from './feedingStore';
+import { useDisruptionStore } from './disruptionStore';
+import { useRecoveryStore } from './recoveryStore';
+
+interface ProfileState {
+  profiles: BabyProfile[];
+  activeProfileId: string | null;
+  // Active profile, kept alongside the id so selectors stay cheap
+  profile: BabyProfile | null;
+  // Result of the schema migration run at startup
+  migrationReport: MigrationReport | null;
+  hasLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadProfiles: () => Promise<void>;
+  saveProfile: (input: ProfileInput, profileId?: string) => Promise<boolean>;
+  selectProfile: (profileId: string) => Promise<void>;
+  deleteProfile: (profileId: string) => Promise<void>;
+  // Re-reads everything after storage was changed outside the stores (e.g. restore)
+  reloadAll: () => Promise<void>;
+}
+
+async function loadChildData(): Promise<void> {
+  await Promise.all([
+    useSleepSessionsStore.getState().loadSessions(),
+    useLearnerStore.getState().loadLearnerState(),
+    useNotificationStore.getState().loadHistory(),
+    useFeedingStore.getState().loadFeedings(),
+    useDisruptionStore.getState().loadDisruptions(),
+  ]);
+}
+
+export const useProfileStore = create<ProfileState>((set, get) => ({
+  profiles: [],
+  activeProfileId: null,
+  profile: null,
+  migrationReport: null,
+  hasLoaded: false,
+  isLoading: false,
+  error: null,
+
+  loadProfiles: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const migrationReport = await runMigrations();
+      set({ migrationReport });
+
+      const result: LoadResult<BabyProfile[]> = await loadBabyProfiles();
+      const profiles = result.value;
+      const storedActiveId = await getActiveProfileId();
+      const profile = resolveActiveProfile(profiles, storedActiveId);
+
+      set({
+        profiles,
+        activeProfileId: profile ? profile.id : null,
+        profile,
+        hasLoaded: true,
+        isLoading: false,
+      });
+
+      // Also picks up anything quarantined in a previous session
+      await useRecoveryStore.getState().loadEntries();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load profiles',
+        hasLoaded: true,
+        isLoading: false,
+      });
+    }
+  },
+
+  saveProfile: async (input: ProfileInput, profileId?: string) => {
+    const validation = validateProfileInput(input);
+    if (!validation.isValid) {
+      set({ error: validation.error || 'Invalid profile' });
+      return false;
+    }
+
+    try {
+      const { profiles, activeProfileId } = get();
+      const existing = profileId ? profiles.find((p) => p.id === profileId) : undefined;
+
+      if (existing) {
+        const updated = applyProfileInput(existing, input);
+        const updatedProfiles = profiles.map((p) => (p.id === updated.id ? updated : p));
+        await saveBabyProfiles(updatedProfiles);
+        set({
+          profiles: updatedProfiles,
+          profile: updated.id === activeProfileId ? updated : get().profile,
+          error: null,
+        });
+
+        // Birth and due dates drive the age baselines, so re-learn with the saved profile
+        if (updated.id === activeProfileId) {
+          await useLearnerStore.getState().updateLearnerState(updated);
+        }
+        return true;
+      }
+
+      const created = createBabyProfile(input);
+      const updatedProfiles = [...profiles, created];
+      await saveBabyProfiles(updatedProfiles);
+
+      // The first child inherits anything logged before profiles existed
+      if (profiles.length === 0) {
+        await claimUnpartitionedData(created.id);
+      }
+
+      set({ profiles: updatedProfiles, error: null });
+      await get().selectProfile(created.id);
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save profile',
+      });
+      return false;
+    }
+  },
+
+  selectProfile: async (profileId: string) => {
+    const profile = get().profiles.find((p) => p.id === profileId);
+    if (!profile) {
+      set({ error: 'Profile not found' });
+      return;
+    }
+
+    try {
+      await setActiveProfileId(profileId);
+      set({ activeProfileId: profileId, profile, error: null });
+
+      useScheduleStore.getState().showScheduleFor(profileId);
+      await loadChildData();
+      await useScheduleStore.getState().generateSchedule(profile);
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to switch profile',
+      });
+    }
+  },
+
+  deleteProfile: async (profileId: string) => {
+    try {
+      const { profiles, activeProfileId } = get();
+      const remaining = profiles.filter((p) => p.id !== profileId);
+      await saveBabyProfiles(remaining);
+      await cancelNotificationsForBaby(profileId);
+      await clearChildStorage(profileId);
+      useScheduleStore.getState().removeSchedule(profileId);
+      set({ profiles: remaining, error: null });
+
+      if (profileId !== activeProfileId) {
+        return;
+      }
+
+      if (remaining.length > 0) {
+        await get().selectProfile(remaining[0].id);
+      } else {
+        await setActiveProfileId(null);
+        set({ activeProfileId: null, profile: null });
+        await loadChildData();
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete profile',
+      });
+    }
+  },
+
+  reloadAll: async () => {
+    await get().loadProfiles();
+    // Restores can bring in caregivers from the other phone
+    await useCaregiverStore.getState().loadCaregivers();
+    const { profile } = get();
+    if (!profile) {
+      await loadChildData();
+      return;
+    }
+
+    await get().selectProfile(profile.id);
+    await useLearnerStore.getState().updateLearnerState(profile);
+  },
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import {
+  listQuarantinedData,
+  discardQuarantinedData,
+  QuarantineEntry,
+} from '../storage/sleepStorage';
+
+interface RecoveryState {
+  // Unreadable payloads moved aside by storage, newest first
+  entries: QuarantineEntry[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadEntries: () => Promise<void>;
+  discardEntry: (entryId: string) => Promise<void>;
+}
+
+export const useRecoveryStore = create<RecoveryState>((set, get) => ({
+  entries: [],
+  isLoading: false,
+  error: null,
+
+  loadEntries: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const entries = await listQuarantinedData();
+      set({ entries, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load damaged data',
+        isLoading: false,
+      });
+    }
+  },
+
+  discardEntry: async (entryId: string) => {
+    try {
+      await discardQuarantinedData(entryId);
+      set({ entries: get().entries.filter((entry) => entry.id !== entryId), error: null });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to discard damaged data',
+      });
+    }
+  },
+}));
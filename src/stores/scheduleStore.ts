@@ -4,9 +4,18 @@ import { ScheduleBlock, BabyProfile } from '../types';
 import { generateSchedule, generateWhatIfSchedule } from '../services/scheduler';
 import { useSleepSessionsStore } from './sleepSessionsStore';
 import { useLearnerStore } from './learnerStore';
-import { TEST_BABY_PROFILE } from '../utils/testScheduler';
+import { useProfileStore } from './profileStore';
+import { time } from '../utils/time';
+
+interface ChildSchedule {
+  todayBlocks: ScheduleBlock[];
+  tomorrowBlocks: ScheduleBlock[];
+  generatedAtISO: string;
+}
 
 interface ScheduleState {
+  // Last generated schedule per BabyProfile.id
+  schedulesByBaby: Record<string, ChildSchedule>;
   todayBlocks: ScheduleBlock[];
   tomorrowBlocks: ScheduleBlock[];
   whatIfAdjustment: number;
@@ -19,9 +28,12 @@ interface ScheduleState {
   generateWhatIfSchedule: (adjustment: number, babyProfile?: BabyProfile) => Promise<void>;
   resetWhatIf: () => void;
   clearSchedule: () => void;
+  showScheduleFor: (babyId: string) => void;
+  removeSchedule: (babyId: string) => void;
 }
 
 export const useScheduleStore = create<ScheduleState>((set, get) => ({
+  schedulesByBaby: {},
   todayBlocks: [],
   tomorrowBlocks: [],
   whatIfAdjustment: 0,
@@ -34,11 +46,23 @@ export const useScheduleStore = create<ScheduleState>((set, get) => ({
     try {
       const sessions = useSleepSessionsStore.getState().getActiveSessions();
       const learnerState = useLearnerStore.getState().learnerState;
-      const profile = babyProfile || useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
+      const profile = babyProfile || useProfileStore.getState().profile;
+      if (!profile) {
+        set({ todayBlocks: [], tomorrowBlocks: [], isLoading: false });
+        return;
+      }
 
       const schedule = generateSchedule(sessions, learnerState, profile);
       
       set({
+        schedulesByBaby: {
+          ...get().schedulesByBaby,
+          [profile.id]: {
+            todayBlocks: schedule.today,
+            tomorrowBlocks: schedule.tomorrow,
+            generatedAtISO: time.nowISO(),
+          },
+        },
         todayBlocks: schedule.today,
         tomorrowBlocks: schedule.tomorrow,
         whatIfAdjustment: 0,
@@ -59,7 +83,11 @@ export const useScheduleStore = create<ScheduleState>((set, get) => ({
     try {
       const sessions = useSleepSessionsStore.getState().getActiveSessions();
       const learnerState = useLearnerStore.getState().learnerState;
-      const profile = babyProfile || useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
+      const profile = babyProfile || useProfileStore.getState().profile;
+      if (!profile) {
+        set({ todayBlocks: [], tomorrowBlocks: [], isLoading: false });
+        return;
+      }
 
       const schedule = generateWhatIfSchedule(sessions, learnerState, profile, adjustment);
       
@@ -94,5 +122,21 @@ export const useScheduleStore = create<ScheduleState>((set, get) => ({
       error: null,
     });
   },
+
+  showScheduleFor: (babyId: string) => {
+    const cached = get().schedulesByBaby[babyId];
+    set({
+      todayBlocks: cached ? cached.todayBlocks : [],
+      tomorrowBlocks: cached ? cached.tomorrowBlocks : [],
+      whatIfAdjustment: 0,
+      isWhatIfMode: false,
+      error: null,
+    });
+  },
+
+  removeSchedule: (babyId: string) => {
+    const { [babyId]: _removed, ...rest } = get().schedulesByBaby;
+    set({ schedulesByBaby: rest });
+  },
 }));
 
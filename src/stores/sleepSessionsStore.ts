@@ -4,41 +4,183 @@ import { create } from 'zustand';
 import { SleepSession } from '../types';
 import {
   loadSleepSessions,
-  saveSleepSessions,
+  upsertSleepSessions,
+  removeSleepSessions,
+  loadSyncState,
   LoadResult,
 } from '../storage/sleepStorage';
 import { useLearnerStore } from './learnerStore';
 import { useScheduleStore } from './scheduleStore';
-import { TEST_BABY_PROFILE } from '../utils/testScheduler';
+import { useProfileStore } from './profileStore';
+import { useRecoveryStore } from './recoveryStore';
+import { useCaregiverStore } from './caregiverStore';
+import { applySessionEdit } from '../sync/merge';
+import {
+  SessionConflict,
+  ConflictResolution,
+  resolveConflict,
+  findSessionConflicts,
+} from '../services/sessionValidation';
+import { compactSleepSessions, isSyncSettled } from '../services/sessionArchive';
+import { mergeSessions, splitSession } from '../services/sessionSplitMerge';
+import {
+  SessionHistoryEntry,
+  MAX_HISTORY_ENTRIES,
+  createHistoryEntry,
+  getUndoChanges,
+  getRedoChanges,
+} from '../services/sessionHistory';
 import { time } from '../utils/time';
 
+export interface SessionAction {
+  // History entry the action belongs to
+  id: string;
+  kind: 'change' | 'undo' | 'redo';
+  message: string;
+}
+
 interface SleepSessionsState {
   sessions: SleepSession[];
   isLoading: boolean;
   error: string | null;
+  // Newest last; only ever holds the active child's changes
+  undoStack: SessionHistoryEntry[];
+  redoStack: SessionHistoryEntry[];
+  // Latest change, undo or redo, until the snackbar is dismissed
+  lastAction: SessionAction | null;
 
   loadSessions: () => Promise<void>;
   addSession: (session: SleepSession) => Promise<void>;
-  updateSession: (id: string, updates: Partial<SleepSession>) => Promise<void>;
+  // `resolution` settles an overlap the edit creates; without one the edit is saved as is
+  updateSession: (
+    id: string,
+    updates: Partial<SleepSession>,
+    resolution?: ConflictResolution
+  ) => Promise<void>;
   deleteSession: (id: string) => Promise<void>;
+  restoreSession: (id: string) => Promise<void>;
+  // Returns how many were purged; deletes not yet synced are kept for now
+  purgeSessions: (ids: string[]) => Promise<number>;
+  importSessions: (sessions: SleepSession[]) => Promise<void>;
+  resolveSessionConflict: (
+    conflict: SessionConflict,
+    resolution: ConflictResolution
+  ) => Promise<void>;
+  // Gaps between the merged sessions are kept as wakings
+  mergeSessions: (ids: string[]) => Promise<void>;
+  splitSession: (id: string, atISO: string) => Promise<void>;
   clearAllSessions: () => Promise<void>;
-  
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissLastAction: () => void;
 
   getSessionsByDate: (dateKey: string) => SleepSession[];
   getTodaySessions: () => SleepSession[];
   getActiveSessions: () => SleepSession[];
 }
 
+/**
+ * Archives old sessions and drops expired tombstones before they reach the
+ * store. A failed compaction is retried on the next load and never blocks it.
+ */
+async function compactLoadedSessions(
+  babyId: string,
+  sessions: SleepSession[]
+): Promise<SleepSession[]> {
+  try {
+    return (await compactSleepSessions(babyId, sessions)).sessions;
+  } catch {
+    return sessions;
+  }
+}
+
+function withChanges(sessions: SleepSession[], changes: SleepSession[]): SleepSession[] {
+  const changedIds = new Set(changes.map((session) => session.id));
+  return [...sessions.filter((session) => !changedIds.has(session.id)), ...changes];
+}
+
+/**
+ * State update that pushes a change onto the undo stack. Any redo history
+ * is dropped, as after a new edit in a text editor.
+ */
+function recordChange(
+  state: SleepSessionsState,
+  babyId: string,
+  label: string,
+  changes: SleepSession[]
+): Partial<SleepSessionsState> {
+  const entry = createHistoryEntry(babyId, label, state.sessions, changes);
+  return {
+    undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY_ENTRIES),
+    redoStack: [],
+    lastAction: { id: entry.id, kind: 'change', message: label },
+  };
+}
+
+/**
+ * Recomputes the learner once the UI is idle, so saving a session does not
+ * wait on a pass over the whole history.
+ */
+function scheduleLearnerUpdate(): void {
+  const update = async () => {
+    const babyProfile = useProfileStore.getState().profile;
+    if (babyProfile) {
+      await useLearnerStore.getState().updateLearnerState(babyProfile);
+    }
+  };
+
+  if (typeof requestIdleCallback !== 'undefined') {
+    requestIdleCallback(update);
+  } else {
+    setTimeout(update, 100);
+  }
+}
+
 export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
   sessions: [],
   isLoading: false,
   error: null,
+  undoStack: [],
+  redoStack: [],
+  lastAction: null,
 
   loadSessions: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({
+        sessions: [],
+        isLoading: false,
+        error: null,
+        undoStack: [],
+        redoStack: [],
+        lastAction: null,
+      });
+      return;
+    }
+
     set({ isLoading: true, error: null });
     try {
-      const result: LoadResult<SleepSession[]> = await loadSleepSessions();
-      set({ sessions: result.value, isLoading: false });
+      const result: LoadResult<SleepSession[]> = await loadSleepSessions(babyId);
+      const sessions = await compactLoadedSessions(babyId, result.value);
+      // History from another child cannot be undone here
+      set((state) => {
+        const undoStack = state.undoStack.filter((entry) => entry.babyId === babyId);
+        const redoStack = state.redoStack.filter((entry) => entry.babyId === babyId);
+        const lastActionId = state.lastAction?.id;
+        const keepsLastAction = [...undoStack, ...redoStack].some(
+          (entry) => entry.id === lastActionId
+        );
+        return {
+          sessions,
+          isLoading: false,
+          undoStack,
+          redoStack,
+          lastAction: keepsLastAction ? state.lastAction : null,
+        };
+      });
+      if (result.corrupted) {
+        await useRecoveryStore.getState().loadEntries();
+      }
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to load sessions',
@@ -48,24 +190,28 @@ export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
   },
 
   addSession: async (session: SleepSession) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
     try {
+      const caregiverId = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const attributed: SleepSession = {
+        ...session,
+        createdBy: session.createdBy ?? caregiverId,
+        updatedBy: session.updatedBy ?? caregiverId,
+      };
       const currentSessions = get().sessions;
-      const updatedSessions = [...currentSessions, session];
-      await saveSleepSessions(updatedSessions);
-      set({ sessions: updatedSessions, error: null });
-      
-      
-      if (typeof requestIdleCallback !== 'undefined') {
-        requestIdleCallback(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        });
-      } else {
-        setTimeout(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        }, 100);
-      }
+      const updatedSessions = [...currentSessions, attributed];
+      await upsertSleepSessions(babyId, [attributed]);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Sleep saved', [attributed]),
+        sessions: updatedSessions,
+        error: null,
+      }));
+      scheduleLearnerUpdate();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to add session',
@@ -73,28 +219,48 @@ export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
     }
   },
 
-  updateSession: async (id: string, updates: Partial<SleepSession>) => {
+  updateSession: async (
+    id: string,
+    updates: Partial<SleepSession>,
+    resolution?: ConflictResolution
+  ) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
     try {
-      const currentSessions = get().sessions;
-      const updatedSessions = currentSessions.map((session) =>
-        session.id === id
-          ? { ...session, ...updates, updatedAtISO: new Date().toISOString() }
-          : session
+      const existing = get().sessions.find((session) => session.id === id);
+      if (!existing) {
+        set({ error: 'Session not found' });
+        return;
+      }
+
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const updated = applySessionEdit(
+        existing,
+        { ...updates, updatedBy },
+        new Date().toISOString()
       );
-      await saveSleepSessions(updatedSessions);
-      set({ sessions: updatedSessions, error: null });
-      
-      if (typeof requestIdleCallback !== 'undefined') {
-        requestIdleCallback(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        });
-      } else {
-        setTimeout(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        }, 100);
+      if (resolution && resolution !== 'keepBoth') {
+        const [conflict] = findSessionConflicts(updated, get().sessions);
+        if (conflict) {
+          await get().resolveSessionConflict(conflict, resolution);
+          return;
+        }
       }
+
+      const updatedSessions = get().sessions.map((session) =>
+        session.id === id ? updated : session
+      );
+      await upsertSleepSessions(babyId, [updated]);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Session updated', [updated]),
+        sessions: updatedSessions,
+        error: null,
+      }));
+      scheduleLearnerUpdate();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to update session',
@@ -103,27 +269,35 @@ export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
   },
 
   deleteSession: async (id: string) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
     try {
-      const currentSessions = get().sessions;
-      const updatedSessions = currentSessions.map((session) =>
-        session.id === id
-          ? { ...session, deleted: true, updatedAtISO: new Date().toISOString() }
-          : session
-      );
-      await saveSleepSessions(updatedSessions);
-      set({ sessions: updatedSessions, error: null });
-      
-      if (typeof requestIdleCallback !== 'undefined') {
-        requestIdleCallback(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        });
-      } else {
-        setTimeout(async () => {
-          const babyProfile = useLearnerStore.getState().babyProfile || TEST_BABY_PROFILE;
-          await useLearnerStore.getState().updateLearnerState(babyProfile);
-        }, 100);
+      const existing = get().sessions.find((session) => session.id === id);
+      if (!existing) {
+        set({ error: 'Session not found' });
+        return;
       }
+
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const tombstone = applySessionEdit(
+        existing,
+        { deleted: true, updatedBy },
+        new Date().toISOString()
+      );
+      const updatedSessions = get().sessions.map((session) =>
+        session.id === id ? tombstone : session
+      );
+      await upsertSleepSessions(babyId, [tombstone]);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Session deleted', [tombstone]),
+        sessions: updatedSessions,
+        error: null,
+      }));
+      scheduleLearnerUpdate();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to delete session',
@@ -131,10 +305,253 @@ export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
     }
   },
 
+  importSessions: async (sessions: SleepSession[]) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+    if (sessions.length === 0) {
+      return;
+    }
+
+    try {
+      // One write and one learner update for the whole batch
+      const importedIds = new Set(sessions.map((session) => session.id));
+      const updatedSessions = [
+        ...get().sessions.filter((session) => !importedIds.has(session.id)),
+        ...sessions,
+      ];
+      await upsertSleepSessions(babyId, sessions);
+      set((state) => ({
+        ...recordChange(state, babyId, `${sessions.length} sessions imported`, sessions),
+        sessions: updatedSessions,
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to import sessions',
+      });
+    }
+  },
+
+  // Works for a session that is about to be added as well as for two stored
+  // ones found by the data health scan
+  resolveSessionConflict: async (conflict: SessionConflict, resolution: ConflictResolution) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
+    try {
+      const nowISO = new Date().toISOString();
+      const caregiverId = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const { sessions: resolved, discardedId } = resolveConflict(conflict, resolution, nowISO);
+      const stored = new Map(get().sessions.map((session) => [session.id, session]));
+
+      const changes: SleepSession[] = resolved.map((session) =>
+        stored.has(session.id)
+          ? { ...session, updatedBy: caregiverId }
+          : {
+              ...session,
+              createdBy: session.createdBy ?? caregiverId,
+              updatedBy: session.updatedBy ?? caregiverId,
+            }
+      );
+      const discarded = discardedId ? stored.get(discardedId) : undefined;
+      if (discarded) {
+        changes.push(
+          applySessionEdit(discarded, { deleted: true, updatedBy: caregiverId }, nowISO)
+        );
+      }
+
+      const changedIds = new Set(changes.map((session) => session.id));
+      const updatedSessions = [
+        ...get().sessions.filter((session) => !changedIds.has(session.id)),
+        ...changes,
+      ];
+      await upsertSleepSessions(babyId, changes);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Overlap resolved', changes),
+        sessions: updatedSessions,
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to resolve overlapping sessions',
+      });
+    }
+  },
+
+  mergeSessions: async (ids: string[]) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
+    try {
+      const selected = get().sessions.filter((session) => ids.includes(session.id));
+      if (selected.length !== ids.length) {
+        set({ error: 'Session not found' });
+        return;
+      }
+
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const changes = mergeSessions(selected, new Date().toISOString()).map((session) => ({
+        ...session,
+        updatedBy,
+      }));
+      await upsertSleepSessions(babyId, changes);
+      set((state) => ({
+        ...recordChange(state, babyId, `${selected.length} sessions merged`, changes),
+        sessions: withChanges(state.sessions, changes),
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to merge sessions',
+      });
+    }
+  },
+
+  splitSession: async (id: string, atISO: string) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
+    try {
+      const existing = get().sessions.find((session) => session.id === id);
+      if (!existing || existing.deleted) {
+        set({ error: 'Session not found' });
+        return;
+      }
+
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const [first, second] = splitSession(existing, atISO, new Date().toISOString());
+      const changes: SleepSession[] = [
+        { ...first, updatedBy },
+        { ...second, createdBy: second.createdBy ?? updatedBy, updatedBy },
+      ];
+      await upsertSleepSessions(babyId, changes);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Session split', changes),
+        sessions: withChanges(state.sessions, changes),
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to split session',
+      });
+    }
+  },
+
+  restoreSession: async (id: string) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
+    try {
+      const existing = get().sessions.find((session) => session.id === id);
+      if (!existing?.deleted) {
+        set({ error: 'Session not found in trash' });
+        return;
+      }
+
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const restored = applySessionEdit(
+        existing,
+        { deleted: false, updatedBy },
+        new Date().toISOString()
+      );
+      await upsertSleepSessions(babyId, [restored]);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Session restored', [restored]),
+        sessions: withChanges(state.sessions, [restored]),
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to restore session',
+      });
+    }
+  },
+
+  // Permanent and not undoable. A delete this phone has not pushed yet stays
+  // in the trash so other phones still hear about it; compaction drops it later.
+  purgeSessions: async (ids: string[]) => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return 0;
+    }
+
+    try {
+      const { pushedThroughISO } = await loadSyncState(babyId);
+      const requested = new Set(ids);
+      const purgedIds = get()
+        .sessions.filter(
+          (session) =>
+            requested.has(session.id) &&
+            session.deleted &&
+            isSyncSettled(session, pushedThroughISO)
+        )
+        .map((session) => session.id);
+      if (purgedIds.length === 0) {
+        return 0;
+      }
+
+      await removeSleepSessions(babyId, purgedIds);
+      const purged = new Set(purgedIds);
+      set((state) => ({
+        sessions: state.sessions.filter((session) => !purged.has(session.id)),
+        error: null,
+      }));
+      return purgedIds.length;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to empty trash',
+      });
+      return 0;
+    }
+  },
+
+  // Deletes every session the same way single deletes do, so clearing syncs
+  // to other phones and can be undone
   clearAllSessions: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    if (!babyId) {
+      set({ error: 'No baby profile selected' });
+      return;
+    }
+
     try {
-      await saveSleepSessions([]);
-      set({ sessions: [], error: null });
+      const nowISO = new Date().toISOString();
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const tombstones = get()
+        .sessions.filter((session) => !session.deleted)
+        .map((session) => applySessionEdit(session, { deleted: true, updatedBy }, nowISO));
+      if (tombstones.length === 0) {
+        return;
+      }
+
+      await upsertSleepSessions(babyId, tombstones);
+      set((state) => ({
+        ...recordChange(state, babyId, 'Sleep log cleared', tombstones),
+        sessions: withChanges(state.sessions, tombstones),
+        error: null,
+      }));
+      scheduleLearnerUpdate();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to clear sessions',
@@ -142,6 +559,66 @@ export const useSleepSessionsStore = create<SleepSessionsState>((set, get) => ({
     }
   },
 
+  undo: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    const entry = get().undoStack[get().undoStack.length - 1];
+    if (!babyId || !entry || entry.babyId !== babyId) {
+      return;
+    }
+
+    try {
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const changes = getUndoChanges(entry, get().sessions, new Date().toISOString()).map(
+        (session) => ({ ...session, updatedBy })
+      );
+      await upsertSleepSessions(babyId, changes);
+      set((state) => ({
+        sessions: withChanges(state.sessions, changes),
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, entry],
+        lastAction: { id: entry.id, kind: 'undo', message: `Undone: ${entry.label}` },
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to undo',
+      });
+    }
+  },
+
+  redo: async () => {
+    const babyId = useProfileStore.getState().activeProfileId;
+    const entry = get().redoStack[get().redoStack.length - 1];
+    if (!babyId || !entry || entry.babyId !== babyId) {
+      return;
+    }
+
+    try {
+      const updatedBy = useCaregiverStore.getState().activeCaregiverId ?? undefined;
+      const changes = getRedoChanges(entry, get().sessions, new Date().toISOString()).map(
+        (session) => ({ ...session, updatedBy })
+      );
+      await upsertSleepSessions(babyId, changes);
+      set((state) => ({
+        sessions: withChanges(state.sessions, changes),
+        undoStack: [...state.undoStack, entry],
+        redoStack: state.redoStack.slice(0, -1),
+        lastAction: { id: entry.id, kind: 'redo', message: entry.label },
+        error: null,
+      }));
+      scheduleLearnerUpdate();
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to redo',
+      });
+    }
+  },
+
+  dismissLastAction: () => {
+    set({ lastAction: null });
+  },
+
   getSessionsByDate: (dateKey: string) => {
     const { sessions } = get();
     return sessions.filter(
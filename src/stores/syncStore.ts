@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import {
+  loadSyncConfig,
+  saveSyncConfig,
+  loadSyncState,
+  SyncConfig,
+} from '../storage/sleepStorage';
+import { syncChild, createHttpTransport, SyncReport } from '../sync';
+import { useProfileStore } from './profileStore';
+import { useSleepSessionsStore } from './sleepSessionsStore';
+import { useLearnerStore } from './learnerStore';
+import { useScheduleStore } from './scheduleStore';
+
+interface SyncStoreState {
+  config: SyncConfig | null;
+  isSyncing: boolean;
+  // Latest report per BabyProfile.id from this app session
+  reports: Record<string, SyncReport>;
+  lastSyncedAtISO: string | null;
+  error: string | null;
+
+  // Actions
+  loadConfig: () => Promise<void>;
+  connect: (endpoint: string, token: string) => Promise<void>;
+  disconnect: () => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+function createDeviceId(): string {
+  return `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export const useSyncStore = create<SyncStoreState>((set, get) => ({
+  config: null,
+  isSyncing: false,
+  reports: {},
+  lastSyncedAtISO: null,
+  error: null,
+
+  loadConfig: async () => {
+    try {
+      const config = await loadSyncConfig();
+      const activeProfileId = useProfileStore.getState().activeProfileId;
+      const state = activeProfileId ? await loadSyncState(activeProfileId) : null;
+      set({ config, lastSyncedAtISO: state?.lastSyncedAtISO ?? null, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load sync settings' });
+    }
+  },
+
+  connect: async (endpoint: string, token: string) => {
+    const trimmedEndpoint = endpoint.trim();
+    if (!/^https?:\/\/\S+$/.test(trimmedEndpoint)) {
+      set({ error: 'Enter a server address starting with http:// or https://' });
+      return;
+    }
+    if (!token.trim()) {
+      set({ error: 'Enter the family code' });
+      return;
+    }
+
+    const config: SyncConfig = {
+      endpoint: trimmedEndpoint,
+      token: token.trim(),
+      // Keep the id when only the server changes
+      deviceId: get().config?.deviceId ?? createDeviceId(),
+    };
+    try {
+      await saveSyncConfig(config);
+      set({ config, error: null });
+      await get().syncNow();
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save sync settings' });
+    }
+  },
+
+  disconnect: async () => {
+    try {
+      await saveSyncConfig(null);
+      set({ config: null, reports: {}, lastSyncedAtISO: null, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to turn off sync' });
+    }
+  },
+
+  syncNow: async () => {
+    const { config, isSyncing } = get();
+    if (!config || isSyncing) {
+      return;
+    }
+
+    set({ isSyncing: true, error: null });
+    try {
+      const transport = createHttpTransport(config);
+      const { profiles, activeProfileId, profile } = useProfileStore.getState();
+      const reports: Record<string, SyncReport> = { ...get().reports };
+
+      for (const child of profiles) {
+        reports[child.id] = await syncChild(child, transport, config.deviceId);
+      }
+
+      const activeReport = activeProfileId ? reports[activeProfileId] : undefined;
+      set({
+        reports,
+        lastSyncedAtISO: activeReport?.syncedAtISO ?? get().lastSyncedAtISO,
+        isSyncing: false,
+      });
+
+      // The engine already saved the recomputed learner state
+      if (activeReport && activeReport.applied > 0 && profile) {
+        await useSleepSessionsStore.getState().loadSessions();
+        await useLearnerStore.getState().loadLearnerState();
+        await useScheduleStore.getState().generateSchedule(profile);
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Sync failed',
+        isSyncing: false,
+      });
+    }
+  },
+}));
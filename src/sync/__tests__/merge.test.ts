@@ -0,0 +1,96 @@
+/**
+ * Unit Tests for Session Merge
+ *
+ * Tests cover:
+ * - Field edit times recorded by local edits
+ * - Per-field last-writer-wins between two copies
+ * - Tombstone propagation
+ * - Order independence and crossed time ranges
+ */
+
+import { SleepSession } from '../../types';
+import { applySessionEdit, mergeSession, mergeSessionChanges } from '../merge';
+
+describe('Session Merge', () => {
+  const base: SleepSession = {
+    id: 'nap1',
+    startISO: '2024-06-15T13:00:00.000Z',
+    endISO: '2024-06-15T14:00:00.000Z',
+    source: 'manual',
+    updatedAtISO: '2024-06-15T14:00:00.000Z',
+  };
+
+  it('should record edit times only for fields that changed', () => {
+    const edited = applySessionEdit(base, { notes: 'Fussy', startISO: base.startISO }, '2024-06-15T15:00:00.000Z');
+
+    expect(edited.notes).toBe('Fussy');
+    expect(edited.updatedAtISO).toBe('2024-06-15T15:00:00.000Z');
+    expect(edited.fieldUpdatedAtISO).toEqual({
+      startISO: base.updatedAtISO,
+      endISO: base.updatedAtISO,
+      quality: base.updatedAtISO,
+      deleted: base.updatedAtISO,
+      wakings: base.updatedAtISO,
+      kind: base.updatedAtISO,
+      putDownISO: base.updatedAtISO,
+      location: base.updatedAtISO,
+      method: base.updatedAtISO,
+    });
+  });
+
+  it('should keep edits to different fields from both copies', () => {
+    const phoneA = applySessionEdit(base, { endISO: '2024-06-15T14:20:00.000Z' }, '2024-06-15T15:00:00.000Z');
+    const phoneB = applySessionEdit(base, { notes: 'Contact nap' }, '2024-06-15T15:05:00.000Z');
+
+    const merged = mergeSession(phoneA, phoneB);
+
+    expect(merged.endISO).toBe('2024-06-15T14:20:00.000Z');
+    expect(merged.notes).toBe('Contact nap');
+    expect(merged.updatedAtISO).toBe('2024-06-15T15:05:00.000Z');
+  });
+
+  it('should take the newer value when both copies edit the same field', () => {
+    const phoneA = applySessionEdit(base, { quality: 2 }, '2024-06-15T15:10:00.000Z');
+    const phoneB = applySessionEdit(base, { quality: 4 }, '2024-06-15T15:05:00.000Z');
+
+    expect(mergeSession(phoneA, phoneB).quality).toBe(2);
+    expect(mergeSession(phoneB, phoneA).quality).toBe(2);
+  });
+
+  it('should propagate a delete unless the session was restored later', () => {
+    const deleted = applySessionEdit(base, { deleted: true }, '2024-06-15T15:00:00.000Z');
+    const editedBefore = applySessionEdit(base, { notes: 'Late' }, '2024-06-15T14:30:00.000Z');
+
+    expect(mergeSession(editedBefore, deleted).deleted).toBe(true);
+    expect(mergeSession(editedBefore, deleted).notes).toBe('Late');
+
+    const restored = applySessionEdit(deleted, { deleted: false }, '2024-06-15T16:00:00.000Z');
+    expect(mergeSession(deleted, restored).deleted).toBe(false);
+  });
+
+  it('should produce the same result whichever copy is local', () => {
+    const phoneA = applySessionEdit(base, { startISO: '2024-06-15T12:50:00.000Z', quality: 3 }, '2024-06-15T15:00:00.000Z');
+    const phoneB = applySessionEdit(base, { quality: 5, notes: 'x' }, '2024-06-15T15:00:00.000Z');
+
+    expect(mergeSession(phoneA, phoneB)).toEqual(mergeSession(phoneB, phoneA));
+  });
+
+  it('should not combine a start and end that cross', () => {
+    const phoneA = applySessionEdit(base, { startISO: '2024-06-15T14:30:00.000Z', endISO: '2024-06-15T15:00:00.000Z' }, '2024-06-15T15:00:00.000Z');
+    const phoneB = applySessionEdit(base, { endISO: '2024-06-15T13:30:00.000Z' }, '2024-06-15T15:10:00.000Z');
+
+    const merged = mergeSession(phoneA, phoneB);
+
+    expect(merged.startISO).toBe(base.startISO);
+    expect(merged.endISO).toBe('2024-06-15T13:30:00.000Z');
+  });
+
+  it('should return only new or changed sessions', () => {
+    const other: SleepSession = { ...base, id: 'nap2' };
+    const newer = applySessionEdit(base, { notes: 'Updated' }, '2024-06-15T15:00:00.000Z');
+
+    const changed = mergeSessionChanges([base, other], [newer, other, { ...base, id: 'nap3' }]);
+
+    expect(changed.map((session) => session.id)).toEqual(['nap1', 'nap3']);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Unit Tests for Sync Engine
+ *
+ * Tests cover:
+ * - Two phones converging through the stand-in server over HTTP
+ * - Tombstones reaching the other phone
+ * - Only unpushed changes being sent
+ * - Local edits saved while a request is in flight
+ * - Learner state recomputed after merges, leaving out disrupted days
+ * - Authentication failures
+ */
+
+import { BabyProfile, SleepSession } from '../../types';
+import { createMemoryAdapter, StorageAdapter } from '../../storage/adapters';
+import {
+  setStorageAdapter,
+  loadSleepSessions,
+  upsertSleepSessions,
+  loadLearnerState,
+  saveDisruptions,
+} from '../../storage/sleepStorage';
+import { getBaselineForBaby } from '../../utils/ageBaseline';
+import { time } from '../../utils/time';
+import { applySessionEdit } from '../merge';
+import { createMemorySyncServer, MemorySyncServer } from '../memorySyncServer';
+import { createHttpTransport } from '../httpTransport';
+import { syncChild } from '../syncEngine';
+import { SyncTransport } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('Sync Engine', () => {
+  const profile: BabyProfile = { id: 'baby_1', name: 'Emma', birthDateISO: '2024-01-01T00:00:00.000Z' };
+  const TOKEN = 'family-secret';
+
+  let server: MemorySyncServer;
+  let phoneA: StorageAdapter;
+  let phoneB: StorageAdapter;
+
+  const createSession = (id: string, startISO: string, endISO: string): SleepSession => ({
+    id,
+    startISO,
+    endISO,
+    source: 'manual',
+    updatedAtISO: endISO,
+  });
+
+  const syncOn = async (phone: StorageAdapter, deviceId: string, token = TOKEN) => {
+    setStorageAdapter(phone);
+    const transport = createHttpTransport({ endpoint: 'https://sync.test/', token }, server.fetch);
+    return syncChild(profile, transport, deviceId);
+  };
+
+  const sessionsOn = async (phone: StorageAdapter) => {
+    setStorageAdapter(phone);
+    const { value } = await loadSleepSessions(profile.id);
+    return value.sort((a, b) => a.id.localeCompare(b.id));
+  };
+
+  beforeEach(() => {
+    server = createMemorySyncServer({ token: TOKEN });
+    phoneA = createMemoryAdapter();
+    phoneB = createMemoryAdapter();
+  });
+
+  it('should bring both phones to the same history', async () => {
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z'),
+    ]);
+    setStorageAdapter(phoneB);
+    await upsertSleepSessions(profile.id, [
+      createSession('b1', '2024-06-15T17:00:00.000Z', '2024-06-15T17:45:00.000Z'),
+    ]);
+
+    await syncOn(phoneA, 'A');
+    const reportB = await syncOn(phoneB, 'B');
+    await syncOn(phoneA, 'A');
+
+    expect(reportB).toMatchObject({ pushed: 1, received: 2, applied: 1 });
+    expect(await sessionsOn(phoneA)).toEqual(await sessionsOn(phoneB));
+    expect((await sessionsOn(phoneA)).map((s) => s.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('should count sessions from the other phone that overlap local ones', async () => {
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z'),
+    ]);
+    setStorageAdapter(phoneB);
+    await upsertSleepSessions(profile.id, [
+      createSession('b1', '2024-06-15T13:30:00.000Z', '2024-06-15T14:30:00.000Z'),
+    ]);
+
+    await syncOn(phoneA, 'A');
+    const reportB = await syncOn(phoneB, 'B');
+
+    expect(reportB).toMatchObject({ applied: 1, conflicts: 1 });
+    expect((await sessionsOn(phoneB)).map((s) => s.id)).toEqual(['a1', 'b1']);
+  });
+
+  // Edits after a sync are stamped later than that sync, like real edits
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000).toISOString();
+
+  it('should carry deletes and field edits to the other phone', async () => {
+    const nap = createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z');
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [nap]);
+    await syncOn(phoneA, 'A');
+    await syncOn(phoneB, 'B');
+
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [applySessionEdit(nap, { deleted: true }, minutesFromNow(2))]);
+    setStorageAdapter(phoneB);
+    await upsertSleepSessions(profile.id, [applySessionEdit(nap, { notes: 'Car nap' }, minutesFromNow(1))]);
+
+    await syncOn(phoneA, 'A');
+    await syncOn(phoneB, 'B');
+    await syncOn(phoneA, 'A');
+
+    const [onA] = await sessionsOn(phoneA);
+    const [onB] = await sessionsOn(phoneB);
+    expect(onA).toEqual(onB);
+    expect(onA.deleted).toBe(true);
+    expect(onA.notes).toBe('Car nap');
+  });
+
+  it('should only push sessions changed since the last sync', async () => {
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z'),
+    ]);
+
+    expect((await syncOn(phoneA, 'A')).pushed).toBe(1);
+    expect(await syncOn(phoneA, 'A')).toMatchObject({ pushed: 0, received: 0, applied: 0 });
+  });
+
+  it('should keep a local edit saved while the request is in flight', async () => {
+    const nap = createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z');
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [nap]);
+    await syncOn(phoneA, 'A');
+    await syncOn(phoneB, 'B');
+
+    setStorageAdapter(phoneB);
+    await upsertSleepSessions(profile.id, [applySessionEdit(nap, { notes: 'Car nap' }, minutesFromNow(1))]);
+    await syncOn(phoneB, 'B');
+
+    setStorageAdapter(phoneA);
+    const http = createHttpTransport({ endpoint: 'https://sync.test/', token: TOKEN }, server.fetch);
+    const transport: SyncTransport = {
+      sync: async (babyId, request) => {
+        const response = await http.sync(babyId, request);
+        const edit = applySessionEdit(nap, { quality: 4 }, minutesFromNow(2));
+        await upsertSleepSessions(profile.id, [edit]);
+        return response;
+      },
+    };
+    await syncChild(profile, transport, 'A');
+
+    const [onA] = await sessionsOn(phoneA);
+    expect(onA.notes).toBe('Car nap');
+    expect(onA.quality).toBe(4);
+  });
+
+  it('should recompute the learner after applying remote sessions', async () => {
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z'),
+    ]);
+    await syncOn(phoneA, 'A');
+
+    await syncOn(phoneB, 'B');
+
+    setStorageAdapter(phoneB);
+    expect((await loadLearnerState(profile.id)).value).not.toBeNull();
+  });
+
+  it('should leave out disrupted days when recomputing the learner', async () => {
+    const yesterday = time.now().subtract(1, 'day').hour(0).minute(0).second(0).millisecond(0);
+    const shortNap = (id: string, hour: number) =>
+      createSession(
+        id,
+        yesterday.hour(hour).toISOString(),
+        yesterday.hour(hour).add(20, 'minute').toISOString()
+      );
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      shortNap('a1', 9),
+      shortNap('a2', 12),
+      shortNap('a3', 15),
+    ]);
+    await syncOn(phoneA, 'A');
+
+    setStorageAdapter(phoneB);
+    const dayKey = time.dayKey(yesterday.toISOString());
+    await saveDisruptions(profile.id, [
+      {
+        id: 'episode-1',
+        type: 'illness',
+        startDayKey: dayKey,
+        endDayKey: dayKey,
+        updatedAtISO: time.nowISO(),
+      },
+    ]);
+    await syncOn(phoneB, 'B');
+
+    setStorageAdapter(phoneB);
+    const learned = (await loadLearnerState(profile.id)).value;
+    const baseline = getBaselineForBaby(profile.birthDateISO, undefined, profile.dueDateISO);
+    expect(learned?.ewmaNapLengthMin).toBe(baseline.typicalNapLengthMin);
+  });
+
+  it('should fail without changing anything when the family code is wrong', async () => {
+    setStorageAdapter(phoneA);
+    await upsertSleepSessions(profile.id, [
+      createSession('a1', '2024-06-15T13:00:00.000Z', '2024-06-15T14:00:00.000Z'),
+    ]);
+
+    await expect(syncOn(phoneA, 'A', 'wrong')).rejects.toThrow('Sync server rejected the family code');
+    expect(server.getSessions(profile.id)).toEqual([]);
+    expect((await syncOn(phoneA, 'A')).pushed).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { SleepSession } from '../types';
+import { validateSleepSession } from '../services/backup';
+import { SyncRequest, SyncResponse, SyncTransport } from './types';
+
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}
+
+export type FetchLike = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal }
+) => Promise<FetchResponseLike>;
+
+export interface HttpTransportConfig {
+  endpoint: string;
+  token: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export function getSyncUrl(endpoint: string, babyId: string): string {
+  return `${endpoint.replace(/\/+$/, '')}/babies/${encodeURIComponent(babyId)}/sessions/sync`;
+}
+
+/**
+ * The server is shared by other devices, so its sessions are validated like
+ * any other untrusted input. Invalid rows are dropped rather than failing
+ * the whole sync.
+ */
+function parseSyncResponse(body: unknown): SyncResponse {
+  if (typeof body !== 'object' || body === null) {
+    throw new Error('Sync server sent an invalid response');
+  }
+  const record = body as Record<string, unknown>;
+  if (typeof record.cursor !== 'string' || !Array.isArray(record.changes)) {
+    throw new Error('Sync server sent an invalid response');
+  }
+
+  const changes = record.changes
+    .map((item) => validateSleepSession(item).session)
+    .filter((session): session is SleepSession => session !== undefined);
+
+  return { changes, cursor: record.cursor };
+}
+
+export function createHttpTransport(
+  config: HttpTransportConfig,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike
+): SyncTransport {
+  return {
+    async sync(babyId: string, request: SyncRequest): Promise<SyncResponse> {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      try {
+        const response = await fetchImpl(getSyncUrl(config.endpoint, babyId), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${config.token}`,
+          },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          throw new Error('Sync server rejected the family code');
+        }
+        if (!response.ok) {
+          throw new Error(`Sync server error (${response.status})`);
+        }
+        return parseSyncResponse(await response.json());
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new Error('Sync server did not respond in time');
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
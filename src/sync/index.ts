@@ -0,0 +1,14 @@
+export type { SyncRequest, SyncResponse, SyncTransport, SyncReport } from './types';
+export {
+  MERGED_SESSION_FIELDS,
+  getFieldUpdatedAt,
+  applySessionEdit,
+  mergeSession,
+  mergeSessionChanges,
+  isSameSession,
+} from './merge';
+export { createHttpTransport, getSyncUrl } from './httpTransport';
+export type { FetchLike, FetchResponseLike, HttpTransportConfig } from './httpTransport';
+export { createMemorySyncServer } from './memorySyncServer';
+export type { MemorySyncServer } from './memorySyncServer';
+export { syncChild } from './syncEngine';
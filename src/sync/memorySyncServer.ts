@@ -0,0 +1,91 @@
+import { SleepSession } from '../types';
+import { mergeSessionChanges } from './merge';
+import { SyncRequest, SyncResponse } from './types';
+import { FetchLike, FetchResponseLike } from './httpTransport';
+
+/**
+ * In-process stand-in for the sync endpoint, speaking the same HTTP protocol
+ * through a fetch-compatible function. Used by tests and for trying sync
+ * locally without a backend.
+ */
+export interface MemorySyncServer {
+  fetch: FetchLike;
+  handleSync(babyId: string, request: SyncRequest): SyncResponse;
+  getSessions(babyId: string): SleepSession[];
+}
+
+interface StoredSession {
+  session: SleepSession;
+  // Server sequence number of the last change to this session
+  seq: number;
+}
+
+const SYNC_PATH = /\/babies\/([^/]+)\/sessions\/sync$/;
+
+function jsonResponse(status: number, body: unknown): FetchResponseLike {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => JSON.parse(JSON.stringify(body)),
+  };
+}
+
+export function createMemorySyncServer(options: { token?: string } = {}): MemorySyncServer {
+  const babies = new Map<string, Map<string, StoredSession>>();
+  let seq = 0;
+
+  const getBaby = (babyId: string) => {
+    let sessions = babies.get(babyId);
+    if (!sessions) {
+      sessions = new Map();
+      babies.set(babyId, sessions);
+    }
+    return sessions;
+  };
+
+  const handleSync = (babyId: string, request: SyncRequest): SyncResponse => {
+    const stored = getBaby(babyId);
+    const existing = Array.from(stored.values()).map((entry) => entry.session);
+
+    for (const session of mergeSessionChanges(existing, request.changes)) {
+      seq++;
+      stored.set(session.id, { session, seq });
+    }
+
+    const since = request.since === null ? 0 : Number(request.since) || 0;
+    const changes = Array.from(stored.values())
+      .filter((entry) => entry.seq > since)
+      .sort((a, b) => a.seq - b.seq)
+      .map((entry) => entry.session);
+
+    return { changes, cursor: String(seq) };
+  };
+
+  const fetchImpl: FetchLike = async (url, init) => {
+    const match = url.match(SYNC_PATH);
+    if (!match || init.method !== 'POST') {
+      return jsonResponse(404, { error: 'Not found' });
+    }
+    if (options.token && init.headers.Authorization !== `Bearer ${options.token}`) {
+      return jsonResponse(401, { error: 'Unauthorized' });
+    }
+
+    let request: SyncRequest;
+    try {
+      request = JSON.parse(init.body) as SyncRequest;
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON' });
+    }
+    if (!Array.isArray(request.changes)) {
+      return jsonResponse(400, { error: 'Missing changes' });
+    }
+
+    return jsonResponse(200, handleSync(decodeURIComponent(match[1]), request));
+  };
+
+  return {
+    fetch: fetchImpl,
+    handleSync,
+    getSessions: (babyId) => Array.from(getBaby(babyId).values()).map((entry) => entry.session),
+  };
+}
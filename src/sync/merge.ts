@@ -0,0 +1,187 @@
+import { SleepSession, SessionMergeField } from '../types';
+
+/**
+ * Per-field last-writer-wins merge of sleep sessions.
+ *
+ * Two caregivers often touch the same session at once: one fixes the wake
+ * time while the other adds a note. Merging whole records would drop one of
+ * the edits, so each field carries its own edit time and the newer value
+ * wins field by field. Deletion is just another field, which is how
+ * tombstones spread between phones.
+ *
+ * Both the app and the sync server use this, so every copy converges on the
+ * same result whatever order changes arrive in.
+ */
+
+export const MERGED_SESSION_FIELDS: SessionMergeField[] = [
+  'startISO',
+  'endISO',
+  'quality',
+  'notes',
+  'deleted',
+  'wakings',
+  'kind',
+  'putDownISO',
+  'location',
+  'method',
+];
+
+function toMs(iso: string): number {
+  return Date.parse(iso);
+}
+
+function laterOf(a: string, b: string): string {
+  return toMs(b) > toMs(a) ? b : a;
+}
+
+export function getFieldUpdatedAt(session: SleepSession, field: SessionMergeField): string {
+  return session.fieldUpdatedAtISO?.[field] ?? session.updatedAtISO;
+}
+
+function setField<K extends SessionMergeField>(
+  target: SleepSession,
+  field: K,
+  value: SleepSession[K]
+): void {
+  if (value === undefined) {
+    delete target[field];
+  } else {
+    target[field] = value;
+  }
+}
+
+/**
+ * Field clocks equal to updatedAtISO are implied, so only older ones are
+ * kept. Keeps stored sessions small.
+ */
+function compactFieldClocks(session: SleepSession): SleepSession {
+  const clocks: Partial<Record<SessionMergeField, string>> = {};
+  for (const field of MERGED_SESSION_FIELDS) {
+    const clock = session.fieldUpdatedAtISO?.[field];
+    if (clock && toMs(clock) !== toMs(session.updatedAtISO)) {
+      clocks[field] = clock;
+    }
+  }
+
+  const { fieldUpdatedAtISO: _previous, ...rest } = session;
+  return Object.keys(clocks).length > 0 ? { ...rest, fieldUpdatedAtISO: clocks } : rest;
+}
+
+// Wakings are arrays, so values are compared rather than references
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Applies a local edit and records which fields changed and when.
+ */
+export function applySessionEdit(
+  session: SleepSession,
+  updates: Partial<SleepSession>,
+  nowISO: string
+): SleepSession {
+  const clocks: Partial<Record<SessionMergeField, string>> = {};
+  for (const field of MERGED_SESSION_FIELDS) {
+    clocks[field] = getFieldUpdatedAt(session, field);
+    if (field in updates && !isSameValue(updates[field], session[field])) {
+      clocks[field] = nowISO;
+    }
+  }
+
+  return compactFieldClocks({
+    ...session,
+    ...updates,
+    updatedAtISO: nowISO,
+    fieldUpdatedAtISO: clocks,
+  });
+}
+
+/**
+ * Deterministic tie-break for fields edited at the same instant, so both
+ * sides pick the same value.
+ */
+function prefersRemote(localValue: unknown, remoteValue: unknown): boolean {
+  return JSON.stringify(remoteValue ?? null) > JSON.stringify(localValue ?? null);
+}
+
+/**
+ * Merges two copies of the same session. The result does not depend on
+ * which copy is called local.
+ */
+export function mergeSession(local: SleepSession, remote: SleepSession): SleepSession {
+  const localNewer =
+    toMs(local.updatedAtISO) > toMs(remote.updatedAtISO) ||
+    (toMs(local.updatedAtISO) === toMs(remote.updatedAtISO) && canonical(local) >= canonical(remote));
+  // Fields outside the merge set (id, source...) come from the newer copy
+  const merged: SleepSession = localNewer ? { ...remote, ...local } : { ...local, ...remote };
+  const clocks: Partial<Record<SessionMergeField, string>> = {};
+
+  for (const field of MERGED_SESSION_FIELDS) {
+    const localClock = getFieldUpdatedAt(local, field);
+    const remoteClock = getFieldUpdatedAt(remote, field);
+    const remoteWins =
+      toMs(remoteClock) > toMs(localClock) ||
+      (toMs(remoteClock) === toMs(localClock) && prefersRemote(local[field], remote[field]));
+
+    setField(merged, field, remoteWins ? remote[field] : local[field]);
+    clocks[field] = remoteWins ? remoteClock : localClock;
+  }
+
+  // Start and end edited on different phones can cross; fall back to the
+  // range from whichever copy changed its times most recently
+  if (toMs(merged.endISO) <= toMs(merged.startISO)) {
+    const rangeClock = (session: SleepSession) =>
+      Math.max(toMs(getFieldUpdatedAt(session, 'startISO')), toMs(getFieldUpdatedAt(session, 'endISO')));
+    const source = rangeClock(remote) > rangeClock(local) ? remote : local;
+    merged.startISO = source.startISO;
+    merged.endISO = source.endISO;
+    clocks.startISO = getFieldUpdatedAt(source, 'startISO');
+    clocks.endISO = getFieldUpdatedAt(source, 'endISO');
+  }
+
+  merged.updatedAtISO = laterOf(local.updatedAtISO, remote.updatedAtISO);
+  merged.fieldUpdatedAtISO = clocks;
+  return compactFieldClocks(merged);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map((key) => [key, sortKeys(record[key])])
+  );
+}
+
+function canonical(session: SleepSession): string {
+  return JSON.stringify(sortKeys(session));
+}
+
+export function isSameSession(a: SleepSession, b: SleepSession): boolean {
+  return canonical(compactFieldClocks(a)) === canonical(compactFieldClocks(b));
+}
+
+/**
+ * Merges incoming sessions into `existing` by id. Returns only the sessions
+ * that are new or changed, ready to be written.
+ */
+export function mergeSessionChanges(
+  existing: SleepSession[],
+  incoming: SleepSession[]
+): SleepSession[] {
+  const byId = new Map(existing.map((session) => [session.id, session]));
+  const changed = new Map<string, SleepSession>();
+
+  for (const session of incoming) {
+    const current = changed.get(session.id) ?? byId.get(session.id);
+    const merged = current ? mergeSession(current, session) : compactFieldClocks(session);
+    if (!current || !isSameSession(current, merged)) {
+      changed.set(session.id, merged);
+    }
+  }
+
+  return Array.from(changed.values());
+}
@@ -0,0 +1,82 @@
+import { BabyProfile } from '../types';
+import {
+  loadSleepSessions,
+  upsertSleepSessions,
+  loadLearnerState,
+  saveLearnerState,
+  loadSyncState,
+  saveSyncState,
+  loadDisruptions,
+} from '../storage/sleepStorage';
+import { updateLearner } from '../services/learner';
+import { findSessionConflicts } from '../services/sessionValidation';
+import { time } from '../utils/time';
+import { mergeSessionChanges } from './merge';
+import { SyncReport, SyncTransport } from './types';
+
+/**
+ * Runs one push/pull round for a child's sessions.
+ *
+ * Local sessions edited since the last successful push are sent up; the
+ * server answers with its merged copy of everything changed since our
+ * cursor. Those are merged field by field into local storage, and the
+ * learner is recomputed when anything changed so schedules reflect the
+ * other caregiver's logs. Sessions that arrive overlapping local ones are
+ * kept and only counted; two caregivers logging the same nap is for the
+ * user to settle in the data health check.
+ */
+export async function syncChild(
+  profile: BabyProfile,
+  transport: SyncTransport,
+  deviceId: string
+): Promise<SyncReport> {
+  // Taken before reading so edits made while the request is in flight are
+  // pushed next time
+  const startedAtISO = time.nowISO();
+  const state = await loadSyncState(profile.id);
+  const { value: localSessions } = await loadSleepSessions(profile.id);
+
+  const pushedThroughMs = state.pushedThroughISO ? Date.parse(state.pushedThroughISO) : null;
+  const changes = localSessions.filter(
+    (session) => pushedThroughMs === null || Date.parse(session.updatedAtISO) > pushedThroughMs
+  );
+
+  const response = await transport.sync(profile.id, {
+    deviceId,
+    since: state.cursor,
+    changes,
+  });
+
+  // Merged against a fresh read, so an edit saved while the request was in
+  // flight keeps its newer fields
+  const { value: currentSessions } = await loadSleepSessions(profile.id);
+  const applied = mergeSessionChanges(currentSessions, response.changes);
+  let conflicts = 0;
+  if (applied.length > 0) {
+    await upsertSleepSessions(profile.id, applied);
+
+    const { value: merged } = await loadSleepSessions(profile.id);
+    conflicts = applied.filter(
+      (session) => !session.deleted && findSessionConflicts(session, merged).length > 0
+    ).length;
+    const { value: learnerState } = await loadLearnerState(profile.id);
+    const { value: disruptions } = await loadDisruptions(profile.id);
+    await saveLearnerState(profile.id, updateLearner(merged, profile, learnerState, disruptions));
+  }
+
+  const syncedAtISO = time.nowISO();
+  await saveSyncState(profile.id, {
+    cursor: response.cursor,
+    pushedThroughISO: startedAtISO,
+    lastSyncedAtISO: syncedAtISO,
+  });
+
+  return {
+    babyId: profile.id,
+    pushed: changes.length,
+    received: response.changes.length,
+    applied: applied.length,
+    conflicts,
+    syncedAtISO,
+  };
+}
@@ -0,0 +1,37 @@
+import { SleepSession } from '../types';
+
+/**
+ * Wire format of the sync endpoint. One request both pushes local changes
+ * and pulls everything the server has seen since the caller's cursor.
+ *
+ *   POST <endpoint>/babies/<babyId>/sessions/sync
+ *   Authorization: Bearer <family token>
+ */
+export interface SyncRequest {
+  deviceId: string;
+  // Cursor from the previous response; null pulls the full history
+  since: string | null;
+  changes: SleepSession[];
+}
+
+export interface SyncResponse {
+  // Server's merged copy of every session changed after `since`,
+  // including the ones just pushed
+  changes: SleepSession[];
+  cursor: string;
+}
+
+export interface SyncTransport {
+  sync(babyId: string, request: SyncRequest): Promise<SyncResponse>;
+}
+
+export interface SyncReport {
+  babyId: string;
+  pushed: number;
+  received: number;
+  // Local sessions added or changed by the merge
+  applied: number;
+  // Applied sessions that overlap or duplicate another local session
+  conflicts: number;
+  syncedAtISO: string;
+}
@@ -4,25 +4,119 @@ export interface BabyProfile {
   id: string;
   name: string;
   birthDateISO: string;
+  // Original due date for babies born early; enables corrected age
+  dueDateISO?: string;
+  // Leave stroller, car and carrier naps out of the learned nap length
+  excludeMotionNaps?: boolean;
+}
+
+export type CaregiverRole = 'parent' | 'nanny' | 'grandparent' | 'daycare' | 'other';
+
+// Someone who logs sleep; shared by every child in the family
+export interface Caregiver {
+  id: string;
+  name: string;
+  role: CaregiverRole;
+}
+
+// Session fields merged one by one when caregivers' edits are synced
+export type SessionMergeField =
+  | 'startISO'
+  | 'endISO'
+  | 'quality'
+  | 'notes'
+  | 'deleted'
+  | 'wakings'
+  | 'kind'
+  | 'putDownISO'
+  | 'location'
+  | 'method';
+
+// A fragment is a short stretch of sleep in the middle of the night, e.g.
+// after a feed, rather than a nap or the main night sleep
+export type SessionKind = 'nap' | 'night' | 'fragment';
+
+export type SleepLocation = 'crib' | 'bassinet' | 'contact' | 'stroller' | 'car' | 'carrier';
+
+// How the baby fell asleep
+export type SleepMethod = 'rocked' | 'fed' | 'independent';
+
+export type NightWakingReason = 'feed' | 'comfort' | 'unknown';
+
+// Time awake in the middle of a session, e.g. a 2 a.m. feed
+export interface NightWaking {
+  startISO: string;
+  endISO: string;
+  reason: NightWakingReason;
 }
 
 export interface SleepSession {
   id: string;
+  // When the baby fell asleep
   startISO: string;
   endISO: string;
   quality?: 1 | 2 | 3 | 4 | 5;
   notes?: string;
-  source: 'manual' | 'timer';
+  source: 'manual' | 'timer' | 'import';
   deleted?: boolean;
+  // Inside startISO-endISO, oldest first; not counted as sleep
+  wakings?: NightWaking[];
+  // Set by the user to override the kind worked out from the times
+  kind?: SessionKind;
+  // When the baby was put down, if logged; at or before startISO
+  putDownISO?: string;
+  location?: SleepLocation;
+  method?: SleepMethod;
+  updatedAtISO: string;
+  // Caregiver.id of whoever logged the session and whoever last changed it
+  createdBy?: string;
+  updatedBy?: string;
+  // When each field was last edited, if later than the session was created.
+  // Fields without an entry were last changed at updatedAtISO.
+  fieldUpdatedAtISO?: Partial<Record<SessionMergeField, string>>;
+}
+
+export type FeedingType = 'breastLeft' | 'breastRight' | 'bottle' | 'solids';
+
+export interface FeedingSession {
+  id: string;
+  type: FeedingType;
+  startISO: string;
+  // Same as startISO for feeds logged without a duration, e.g. solids
+  endISO: string;
+  // Bottle feeds only
+  volumeMl?: number;
+  notes?: string;
+  updatedAtISO: string;
+  // Caregiver.id of whoever logged the feed
+  createdBy?: string;
+}
+
+export type DisruptionType = 'illness' | 'teething' | 'vaccination' | 'travel' | 'regression';
+
+// Days when sleep was thrown off and should not shape what the app learns
+export interface DisruptionEpisode {
+  id: string;
+  type: DisruptionType;
+  // First and last day (YYYY-MM-DD) of the episode, both included
+  startDayKey: string;
+  endDayKey: string;
+  notes?: string;
   updatedAtISO: string;
+  // Caregiver.id of whoever added the episode
+  createdBy?: string;
 }
 
 export interface LearnerState {
   version: number;
   ewmaNapLengthMin: number;
   ewmaWakeWindowMin: number;
+  // Put-down to asleep; unset until sessions with a put-down time are logged
+  ewmaOnsetLatencyMin?: number;
   lastUpdatedISO: string;
   confidence: number;
+  // Disruption episodes left out when these values were learned; unset if none
+  disruptionsKey?: string;
 }
 
 export interface ScheduleBlock {
@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for Age Baselines - Corrected Age
+ * 
+ * Tests cover:
+ * - Chronological age when no due date is set
+ * - Corrected age for babies born before their due date
+ * - Cutoff after which corrected age is no longer applied
+ * - Baseline bucket selection using corrected age
+ */
+
+import {
+  getAgeForBaby,
+  getBaselineForBaby,
+  getBaselineForAge,
+} from '../ageBaseline';
+
+describe('Age Baselines - Corrected Age', () => {
+  const birthDateISO = '2024-01-01T00:00:00Z';
+  // Born 8 weeks early
+  const dueDateISO = '2024-02-26T00:00:00Z';
+
+  describe('getAgeForBaby', () => {
+    it('should use chronological age when no due date is set', () => {
+      const result = getAgeForBaby(birthDateISO, undefined, '2024-07-01T00:00:00Z');
+
+      expect(result.isCorrected).toBe(false);
+      expect(result.ageMonths).toBeCloseTo(6, 0);
+      expect(result.ageMonths).toBe(result.chronologicalAgeMonths);
+    });
+
+    it('should subtract prematurity from chronological age', () => {
+      const result = getAgeForBaby(birthDateISO, dueDateISO, '2024-07-01T00:00:00Z');
+
+      expect(result.isCorrected).toBe(true);
+      expect(result.chronologicalAgeMonths).toBeCloseTo(6, 0);
+      expect(result.ageMonths).toBeGreaterThan(4);
+      expect(result.ageMonths).toBeLessThan(4.5);
+    });
+
+    it('should never return a negative corrected age', () => {
+      const result = getAgeForBaby(birthDateISO, dueDateISO, '2024-01-15T00:00:00Z');
+
+      expect(result.isCorrected).toBe(true);
+      expect(result.ageMonths).toBe(0);
+    });
+
+    it('should stop correcting after the cutoff', () => {
+      const result = getAgeForBaby(birthDateISO, dueDateISO, '2026-02-01T00:00:00Z');
+
+      expect(result.isCorrected).toBe(false);
+      expect(result.ageMonths).toBe(result.chronologicalAgeMonths);
+    });
+
+    it('should respect a custom cutoff', () => {
+      const result = getAgeForBaby(birthDateISO, dueDateISO, '2024-07-01T00:00:00Z', 6);
+
+      expect(result.isCorrected).toBe(false);
+    });
+
+    it('should ignore a due date on or before the birth date', () => {
+      const result = getAgeForBaby(birthDateISO, '2023-12-20T00:00:00Z', '2024-07-01T00:00:00Z');
+
+      expect(result.isCorrected).toBe(false);
+    });
+  });
+
+  describe('getBaselineForBaby', () => {
+    it('should pick the bucket for corrected age', () => {
+      // 7.5 months chronological, ~5.6 months corrected
+      const referenceDateISO = '2024-08-15T00:00:00Z';
+
+      const chronological = getBaselineForBaby(birthDateISO, referenceDateISO);
+      const corrected = getBaselineForBaby(birthDateISO, referenceDateISO, dueDateISO);
+
+      expect(chronological).toEqual(getBaselineForAge(7.5));
+      expect(corrected).toEqual(getBaselineForAge(5.6));
+      expect(corrected.typicalWakeWindowMin).toBeLessThan(chronological.typicalWakeWindowMin);
+    });
+  });
+});
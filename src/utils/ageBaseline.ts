@@ -1,4 +1,5 @@
 import { time } from './time';
+import { CORRECTED_AGE_CUTOFF_MONTHS } from '../config/constants';
 
 export type AgeRange =
   | '0-3m'
@@ -8,6 +9,12 @@ export type AgeRange =
   | '13-18m'
   | '19m+';
 
+export interface BabyAgeInfo {
+  ageMonths: number;
+  chronologicalAgeMonths: number;
+  isCorrected: boolean;
+}
+
 export interface AgeBaseline {
   typicalWakeWindowMin: number;
   minWakeWindowMin: number;
@@ -106,6 +113,45 @@ export function calculateAgeMonths(
   return Math.max(0, monthsDiff);
 }
 
+/**
+ * Calculates the age that should drive baselines for a baby.
+ * For babies born before their due date, this is the corrected age
+ * (chronological age minus prematurity) until the configured cutoff.
+ * 
+ * @param birthDateISO - ISO string of birth date
+ * @param dueDateISO - Optional ISO string of the original due date
+ * @param referenceDateISO - ISO string of reference date (defaults to now)
+ * @param cutoffMonths - Chronological age after which corrected age is no longer used
+ * @returns Effective age plus whether correction was applied
+ */
+export function getAgeForBaby(
+  birthDateISO: string,
+  dueDateISO?: string,
+  referenceDateISO?: string,
+  cutoffMonths: number = CORRECTED_AGE_CUTOFF_MONTHS
+): BabyAgeInfo {
+  const chronologicalAgeMonths = calculateAgeMonths(birthDateISO, referenceDateISO);
+
+  if (!dueDateISO || chronologicalAgeMonths >= cutoffMonths) {
+    return { ageMonths: chronologicalAgeMonths, chronologicalAgeMonths, isCorrected: false };
+  }
+
+  const birthDate = time.parse(birthDateISO);
+  const dueDate = time.parse(dueDateISO);
+
+  if (!dueDate.isValid() || !dueDate.isAfter(birthDate)) {
+    return { ageMonths: chronologicalAgeMonths, chronologicalAgeMonths, isCorrected: false };
+  }
+
+  const prematurityMonths = dueDate.diff(birthDate, 'year', true) * 12;
+
+  return {
+    ageMonths: Math.max(0, chronologicalAgeMonths - prematurityMonths),
+    chronologicalAgeMonths,
+    isCorrected: true,
+  };
+}
+
 /**
  * Determines the age range bucket for a given age in months.
  * 
@@ -148,13 +194,15 @@ export function getBaselineForAge(ageMonths: number): AgeBaseline {
  * 
  * @param birthDateISO - ISO string of birth date
  * @param referenceDateISO - Optional reference date (defaults to now)
+ * @param dueDateISO - Optional due date; when set, corrected age is used
  * @returns Baseline values for the baby's current age
  */
 export function getBaselineForBaby(
   birthDateISO: string,
-  referenceDateISO?: string
+  referenceDateISO?: string,
+  dueDateISO?: string
 ): AgeBaseline {
-  const ageMonths = calculateAgeMonths(birthDateISO, referenceDateISO);
+  const { ageMonths } = getAgeForBaby(birthDateISO, dueDateISO, referenceDateISO);
   return getBaselineForAge(ageMonths);
 }
 
@@ -162,7 +210,7 @@ export function getBaselineForBaby(
  * Clamps a wake window value to safe min/max bounds for a given age.
  * 
  * @param wakeWindowMin - Wake window in minutes to clamp
- * @param ageMonths - Age in months
+ * @param ageMonths - Age in months (corrected age for premature babies)
  * @returns Clamped wake window value
  */
 export function clampWakeWindow(
@@ -180,7 +228,7 @@ export function clampWakeWindow(
  * Clamps a nap length value to safe min/max bounds for a given age.
  * 
  * @param napLengthMin - Nap length in minutes to clamp
- * @param ageMonths - Age in months
+ * @param ageMonths - Age in months (corrected age for premature babies)
  * @returns Clamped nap length value
  */
 export function clampNapLength(
@@ -1,16 +1,10 @@
 
 import { coddleTheme } from '../theme/coddleTheme';
 import { SleepSession } from '../types';
-import { time } from './time';
+import { isNapSession } from '../services/sessionClassification';
 
 export function getSessionColor(session: SleepSession): string {
-  const duration = time.durationMinutes(session.startISO, session.endISO);
-  const startHour = time.parse(session.startISO).hour();
-
-  if (duration > 240 || (startHour >= 18 || startHour < 6)) {
-    return coddleTheme.colors.sleepNight;
-  }
-  return coddleTheme.colors.sleepNap;
+  return isNapSession(session) ? coddleTheme.colors.sleepNap : coddleTheme.colors.sleepNight;
 }
 
 export function getQualityColor(quality?: number): string {
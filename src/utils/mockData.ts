@@ -6,7 +6,10 @@ import { saveSleepSessions } from '../storage/sleepStorage';
 
  * @param replaceExisting .
  */
-export async function generateMockData(replaceExisting: boolean = false): Promise<SleepSession[]> {
+export async function generateMockData(
+  babyId: string,
+  replaceExisting: boolean = false
+): Promise<SleepSession[]> {
   const now = time.now();
   const sessions: SleepSession[] = [];
 
@@ -14,7 +17,7 @@ export async function generateMockData(replaceExisting: boolean = false): Promis
   let existingSessions: SleepSession[] = [];
   if (!replaceExisting) {
     const { loadSleepSessions } = await import('../storage/sleepStorage');
-    const result = await loadSleepSessions();
+    const result = await loadSleepSessions(babyId);
     existingSessions = result.value.filter((s) => !s.deleted);
   }
 
@@ -68,13 +71,13 @@ export async function generateMockData(replaceExisting: boolean = false): Promis
     finalSessions = [...existingSessions, ...newSessions];
   }
 
-  await saveSleepSessions(finalSessions);
+  await saveSleepSessions(babyId, finalSessions);
 
   return finalSessions;
 }
 
 
-export async function clearMockData(): Promise<void> {
-  await saveSleepSessions([]);
+export async function clearMockData(babyId: string): Promise<void> {
+  await saveSleepSessions(babyId, []);
 }
 
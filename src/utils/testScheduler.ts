@@ -14,12 +14,14 @@ export const TEST_BABY_PROFILE: BabyProfile = {
 };
 
 
-export async function testScheduleGenerator(): Promise<void> {
+export async function testScheduleGenerator(
+  babyProfile: BabyProfile = TEST_BABY_PROFILE
+): Promise<void> {
   console.log('=== Testing Schedule Generator ===\n');
 
 
-  const sessionsResult = await loadSleepSessions();
-  const learnerResult = await loadLearnerState();
+  const sessionsResult = await loadSleepSessions(babyProfile.id);
+  const learnerResult = await loadLearnerState(babyProfile.id);
 
   const sessions = sessionsResult.value.filter((s) => !s.deleted);
   const learnerState = learnerResult.value;
@@ -34,7 +36,7 @@ export async function testScheduleGenerator(): Promise<void> {
   console.log('');
 
  
-  const schedule = generateSchedule(sessions, learnerState, TEST_BABY_PROFILE);
+  const schedule = generateSchedule(sessions, learnerState, babyProfile);
 
   console.log('=== TODAY\'S SCHEDULE ===');
   if (schedule.today.length === 0) {
@@ -68,12 +70,12 @@ export async function testScheduleGenerator(): Promise<void> {
 
   console.log('=== WHAT-IF SCENARIOS ===');
   console.log('Testing with -15 min wake window adjustment:');
-  const whatIfMinus = generateWhatIfSchedule(sessions, learnerState, TEST_BABY_PROFILE, -15);
+  const whatIfMinus = generateWhatIfSchedule(sessions, learnerState, babyProfile, -15);
   console.log(`  Today: ${whatIfMinus.today.length} blocks`);
   console.log(`  Tomorrow: ${whatIfMinus.tomorrow.length} blocks`);
 
   console.log('Testing with +15 min wake window adjustment:');
-  const whatIfPlus = generateWhatIfSchedule(sessions, learnerState, TEST_BABY_PROFILE, 15);
+  const whatIfPlus = generateWhatIfSchedule(sessions, learnerState, babyProfile, 15);
   console.log(`  Today: ${whatIfPlus.today.length} blocks`);
   console.log(`  Tomorrow: ${whatIfPlus.tomorrow.length} blocks`);
 }
@@ -131,18 +133,20 @@ export function formatScheduleBlock(block: {
 }
 
 
-export async function getScheduleSummary(): Promise<{
+export async function getScheduleSummary(
+  babyProfile: BabyProfile = TEST_BABY_PROFILE
+): Promise<{
   todayCount: number;
   tomorrowCount: number;
   nextBlock: string | null;
 }> {
-  const sessionsResult = await loadSleepSessions();
-  const learnerResult = await loadLearnerState();
+  const sessionsResult = await loadSleepSessions(babyProfile.id);
+  const learnerResult = await loadLearnerState(babyProfile.id);
 
   const sessions = sessionsResult.value.filter((s) => !s.deleted);
   const learnerState = learnerResult.value;
 
-  const schedule = generateSchedule(sessions, learnerState, TEST_BABY_PROFILE);
+  const schedule = generateSchedule(sessions, learnerState, babyProfile);
 
   const allBlocks = [...schedule.today, ...schedule.tomorrow];
   const nextBlock = allBlocks.length > 0 ? formatScheduleBlock(allBlocks[0]) : null;
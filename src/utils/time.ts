@@ -1,9 +1,11 @@
 import dayjs, { Dayjs } from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
+dayjs.extend(customParseFormat);
 
 const DEFAULT_TZ = dayjs.tz.guess();
 
@@ -24,6 +26,28 @@ export const time = {
     return dayjs.tz(iso, tz).format('YYYY-MM-DD');
   },
 
+  // Converts the instant into `tz`; dayjs.tz(iso, tz) would instead read the
+  // wall-clock digits as if they were already in that zone
+  format(iso: string, pattern: string, tz: string = DEFAULT_TZ): string {
+    return dayjs(iso).tz(tz).format(pattern);
+  },
+
+  timeZone(): string {
+    return DEFAULT_TZ;
+  },
+
+  // Reads a wall-clock string (no offset) as local time in `tz`, trying each
+  // format strictly in order. Returns null if none match.
+  parseLocal(value: string, formats: string[], tz: string = DEFAULT_TZ): Dayjs | null {
+    for (const format of formats) {
+      const parsed = dayjs(value, format, true);
+      if (parsed.isValid()) {
+        return dayjs.tz(parsed.format('YYYY-MM-DDTHH:mm:ss'), tz);
+      }
+    }
+    return null;
+  },
+
   durationMinutes(startISO: string, endISO: string): number {
     const start = dayjs(startISO);
     const end = dayjs(endISO);
@@ -36,6 +60,14 @@ export const time = {
     return !start.isSame(end, 'day');
   },
 
+  // First hour:minute (local) at or after `fromISO`, for time-only pickers
+  // inside sessions that can cross midnight
+  nextOccurrence(fromISO: string, hour: number, minute: number): string {
+    const from = dayjs(fromISO);
+    const candidate = from.hour(hour).minute(minute).second(0).millisecond(0);
+    return (candidate.isBefore(from) ? candidate.add(1, 'day') : candidate).toISOString();
+  },
+
   validateRange(startISO: string, endISO: string): { isValid: boolean; error?: string } {
     const start = dayjs(startISO);
     const end = dayjs(endISO);